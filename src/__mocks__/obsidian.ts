@@ -772,17 +772,57 @@ export function getLinkpath(link: string): string {
   return link.replace(/\[\[|\]\]/g, "").split("|")[0];
 }
 
-export function requestUrl(options: {
+/**
+ * A vi.fn so tests can answer requests (see requests.ts); by default every
+ * request gets an empty 200
+ */
+export const requestUrl = vi.fn(
+  (options: {
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
+    throw?: boolean;
+  }): Promise<{ json: unknown; text: string; status: number; headers?: Record<string, string> }> => {
+    // Recording replay fixtures (see replay-provider.ts) needs the real network
+    if (process.env.GSD_AI_RECORD) {
+      return fetchRequestUrl(options);
+    }
+    return Promise.resolve({
+      json: {},
+      text: "",
+      status: 200,
+    });
+  }
+);
+
+async function fetchRequestUrl(options: {
   url: string;
   method?: string;
   headers?: Record<string, string>;
   body?: string;
-}): Promise<{ json: unknown; text: string; status: number }> {
-  return Promise.resolve({
-    json: {},
-    text: "",
-    status: 200,
+  throw?: boolean;
+}): Promise<{ json: unknown; text: string; status: number; headers: Record<string, string> }> {
+  const response = await fetch(options.url, {
+    method: options.method ?? "GET",
+    headers: options.headers,
+    body: options.body,
+  });
+  const text = await response.text();
+  let json: unknown = null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Not JSON; callers read text
+  }
+  if (response.status >= 400 && options.throw !== false) {
+    throw Object.assign(new Error(`Request failed, status ${response.status}`), { status: response.status });
+  }
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
   });
+  return { json, text, status: response.status, headers };
 }
 
 // ============================================================================
@@ -0,0 +1,320 @@
+// ============================================================================
+// Replay Provider - Recorded AI responses for deterministic offline tests
+// ============================================================================
+// Serves responses from fixture files (src/__fixtures__/ai/<name>.json) keyed
+// by a hash of model, prompts and generation options. Run a suite with
+// GSD_AI_RECORD=1 and real API keys (GEMINI_API_KEY, ANTHROPIC_API_KEY,
+// OPENAI_API_KEY, OPENROUTER_API_KEY) to capture fresh fixtures:
+//
+//   GSD_AI_RECORD=1 GEMINI_API_KEY=... npx vitest run src/actions/person-research.test.ts
+// ============================================================================
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import { dirname, resolve } from "path";
+import type { PluginSettings } from "../types";
+import type {
+  AICallOptions,
+  AICitation,
+  AIProvider,
+  AIStreamHandler,
+  AIToolCall,
+  AIToolResponse,
+  AIUsage,
+} from "../services/ai-provider";
+import type { AIService } from "../services/ai-service";
+import { buildCacheKey } from "../services/response-cache";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReplayMode = "replay" | "record";
+
+export interface ReplayFixture {
+  model: string;
+  kind: "text" | "tools" | "embed";
+  /** Start of the user prompt, so fixture diffs can be reviewed */
+  prompt: string;
+  text: string | null;
+  calls?: AIToolCall[];
+  assistant?: unknown;
+  /** Embedding vectors, one per input (embed fixtures) */
+  vectors?: number[][];
+  usage?: AIUsage;
+  citations?: AICitation[];
+}
+
+export interface ReplayFixtureFile {
+  version: 1;
+  fixtures: Record<string, ReplayFixture>;
+}
+
+export interface ReplayMiss {
+  key: string;
+  model: string;
+  kind: ReplayFixture["kind"];
+  prompt: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FIXTURES_DIR = resolve(__dirname, "../__fixtures__/ai");
+const PROMPT_EXCERPT_CHARS = 160;
+const REPLAY_CHUNK_CHARS = 40;
+
+const RECORDING_KEYS: Array<[keyof PluginSettings, string]> = [
+  ["geminiApiKey", "GEMINI_API_KEY"],
+  ["anthropicApiKey", "ANTHROPIC_API_KEY"],
+  ["openaiApiKey", "OPENAI_API_KEY"],
+  ["openrouterApiKey", "OPENROUTER_API_KEY"],
+];
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Fixture key: the response cache key, plus the offered tools and completed
+ * tool rounds for tool-calling requests. Buffered and streamed calls share a key.
+ * Embed requests pass the embed task as `system` and the JSON input list as `user`.
+ */
+export function buildReplayKey(
+  kind: ReplayFixture["kind"],
+  model: string,
+  system: string,
+  user: string,
+  options: AICallOptions = {}
+): string {
+  if (kind === "text") return buildCacheKey(model, system, user, options);
+  if (kind === "embed") return `e${buildCacheKey(model, system, user)}`;
+  const toolState = JSON.stringify([
+    (options.tools ?? []).map((tool) => tool.name),
+    options.toolChoice ?? "auto",
+    (options.toolRounds ?? []).map((round) => [round.calls, round.results]),
+  ]);
+  return `t${buildCacheKey(model, system, `${user}\n${toolState}`, options)}`;
+}
+
+// ============================================================================
+// ReplayFixtures Class
+// ============================================================================
+
+/**
+ * One fixture file. In replay mode unknown requests are collected in `missing`
+ * (and fail the call); in record mode responses are captured and written by save().
+ */
+export class ReplayFixtures {
+  readonly mode: ReplayMode;
+  readonly missing: ReplayMiss[] = [];
+  private path: string;
+  private file: ReplayFixtureFile = { version: 1, fixtures: {} };
+  private dirty = false;
+
+  constructor(name: string, mode: ReplayMode = process.env.GSD_AI_RECORD ? "record" : "replay") {
+    this.mode = mode;
+    this.path = resolve(FIXTURES_DIR, `${name}.json`);
+    if (existsSync(this.path)) {
+      this.file = JSON.parse(readFileSync(this.path, "utf8")) as ReplayFixtureFile;
+    }
+  }
+
+  get(key: string): ReplayFixture | null {
+    return this.file.fixtures[key] ?? null;
+  }
+
+  set(key: string, fixture: ReplayFixture): void {
+    this.file.fixtures[key] = fixture;
+    this.dirty = true;
+  }
+
+  /**
+   * Write recorded fixtures (sorted by key so re-recording gives small diffs)
+   */
+  save(): void {
+    if (!this.dirty) return;
+    const fixtures = Object.fromEntries(Object.entries(this.file.fixtures).sort(([a], [b]) => a.localeCompare(b)));
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, `${JSON.stringify({ version: 1, fixtures }, null, 2)}\n`);
+    this.dirty = false;
+  }
+
+  /**
+   * Settings with API keys from the environment when recording
+   */
+  withRecordingKeys(settings: PluginSettings): PluginSettings {
+    if (this.mode !== "record") return settings;
+    const keys = Object.fromEntries(
+      RECORDING_KEYS.filter(([, env]) => process.env[env]).map(([field, env]) => [field, process.env[env]])
+    );
+    return { ...settings, ...keys };
+  }
+}
+
+// ============================================================================
+// ReplayProvider Class
+// ============================================================================
+
+/**
+ * Replay Provider
+ * Wraps the vendor provider AIService picked for a model: replays fixtures, or
+ * forwards to the vendor and records what it answered
+ */
+export class ReplayProvider implements AIProvider {
+  private fixtures: ReplayFixtures;
+  private upstream: AIProvider;
+
+  constructor(fixtures: ReplayFixtures, upstream: AIProvider) {
+    this.fixtures = fixtures;
+    this.upstream = upstream;
+  }
+
+  async callModel(system: string, user: string, model: string, options: AICallOptions = {}): Promise<string | null> {
+    const key = buildReplayKey("text", model, system, user, options);
+    if (this.fixtures.mode === "replay") {
+      return this.replay(key, "text", model, user, options).text;
+    }
+
+    const report = captureReport(options);
+    const text = await this.upstream.callModel(system, user, model, report.options);
+    this.fixtures.set(key, { model, kind: "text", prompt: excerpt(user), text, ...report.get() });
+    return text;
+  }
+
+  async streamModel(
+    system: string,
+    user: string,
+    model: string,
+    onChunk: AIStreamHandler,
+    options: AICallOptions = {}
+  ): Promise<string | null> {
+    const key = buildReplayKey("text", model, system, user, options);
+    if (this.fixtures.mode === "replay") {
+      const { text } = this.replay(key, "text", model, user, options);
+      // Several deltas, so consumers see a stream rather than one block
+      for (let i = 0; text && i < text.length; i += REPLAY_CHUNK_CHARS) {
+        onChunk(text.slice(i, i + REPLAY_CHUNK_CHARS));
+      }
+      return text;
+    }
+
+    const report = captureReport(options);
+    const text = await this.upstream.streamModel(system, user, model, onChunk, report.options);
+    this.fixtures.set(key, { model, kind: "text", prompt: excerpt(user), text, ...report.get() });
+    return text;
+  }
+
+  async callModelWithTools(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions = {}
+  ): Promise<AIToolResponse | null> {
+    const key = buildReplayKey("tools", model, system, user, options);
+    if (this.fixtures.mode === "replay") {
+      const fixture = this.replay(key, "tools", model, user, options);
+      return fixture.text || fixture.calls?.length
+        ? { text: fixture.text, calls: fixture.calls ?? [], assistant: fixture.assistant ?? null }
+        : null;
+    }
+
+    const report = captureReport(options);
+    const response = await this.upstream.callModelWithTools(system, user, model, report.options);
+    this.fixtures.set(key, {
+      model,
+      kind: "tools",
+      prompt: excerpt(user),
+      text: response?.text ?? null,
+      calls: response?.calls ?? [],
+      assistant: response?.assistant,
+      ...report.get(),
+    });
+    return response;
+  }
+
+  async embed(texts: string[], model: string, options: AICallOptions = {}): Promise<number[][] | null> {
+    const inputs = JSON.stringify(texts);
+    const key = buildReplayKey("embed", model, options.embedTask ?? "", inputs);
+    if (this.fixtures.mode === "replay") {
+      return this.replay(key, "embed", model, inputs, options).vectors ?? null;
+    }
+
+    const report = captureReport(options);
+    const vectors = await this.upstream.embed(texts, model, report.options);
+    this.fixtures.set(key, {
+      model,
+      kind: "embed",
+      prompt: excerpt(inputs),
+      text: null,
+      vectors: vectors ?? undefined,
+      ...report.get(),
+    });
+    return vectors;
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Recorded fixture for a key (its usage and citations are reported like a live call)
+   * @throws when nothing was recorded for the request
+   */
+  private replay(
+    key: string,
+    kind: ReplayFixture["kind"],
+    model: string,
+    user: string,
+    options: AICallOptions
+  ): ReplayFixture {
+    const fixture = this.fixtures.get(key);
+    if (!fixture) {
+      this.fixtures.missing.push({ key, model, kind, prompt: excerpt(user) });
+      throw new Error(`No recorded ${kind} response for ${model} (${key}); record it with GSD_AI_RECORD=1`);
+    }
+    if (fixture.usage) options.onUsage?.(fixture.usage);
+    if (fixture.citations?.length) options.onCitations?.(fixture.citations);
+    return fixture;
+  }
+}
+
+// ============================================================================
+// Wiring
+// ============================================================================
+
+/**
+ * Route every AIService call through a ReplayProvider over the given fixtures
+ */
+export function useReplay(service: AIService, fixtures: ReplayFixtures): void {
+  service.setProviderWrapper((upstream) => new ReplayProvider(fixtures, upstream));
+}
+
+/**
+ * Options that keep what the vendor provider reports (usage, citations) for the fixture
+ */
+function captureReport(options: AICallOptions): {
+  options: AICallOptions;
+  get: () => Pick<ReplayFixture, "usage" | "citations">;
+} {
+  let usage: AIUsage | undefined;
+  let citations: AICitation[] | undefined;
+  return {
+    options: {
+      ...options,
+      onUsage: (reported) => {
+        usage = reported;
+        options.onUsage?.(reported);
+      },
+      onCitations: (reported) => {
+        citations = [...(citations ?? []), ...reported];
+        options.onCitations?.(reported);
+      },
+    },
+    get: () => ({ usage, ...(citations ? { citations } : {}) }),
+  };
+}
+
+function excerpt(text: string): string {
+  return text.length > PROMPT_EXCERPT_CHARS ? `${text.slice(0, PROMPT_EXCERPT_CHARS)}…` : text;
+}
@@ -0,0 +1,94 @@
+// ============================================================================
+// Request Mocks - Canned HTTP replies that record what was sent
+// ============================================================================
+// Answers requestUrl (a vi.fn in the obsidian mock) and fetch (mocked in
+// setup.ts) so provider tests can check request payloads
+// ============================================================================
+
+import { vi } from "vitest";
+import { requestUrl, type RequestUrlParam } from "obsidian";
+import type { PluginSettings } from "../types";
+
+/** A key for every hosted provider, so provider calls aren't skipped */
+export const FAKE_API_KEYS: Pick<PluginSettings, "geminiApiKey" | "openaiApiKey" | "anthropicApiKey" | "openrouterApiKey"> =
+  {
+    geminiApiKey: "g",
+    openaiApiKey: "o",
+    anthropicApiKey: "a",
+    openrouterApiKey: "r",
+  };
+
+export interface CapturedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /** Parsed JSON body (null without one); loose so tests can reach into provider payloads */
+  body: any;
+}
+
+export interface MockReply {
+  status?: number;
+  headers?: Record<string, string>;
+  json?: unknown;
+  text?: string;
+}
+
+// ============================================================================
+// requestUrl
+// ============================================================================
+
+/**
+ * Answer every requestUrl call with the reply (or the reply for that request)
+ * and record the requests in order
+ */
+export function mockRequestUrl(reply: MockReply | ((request: CapturedRequest) => MockReply)): CapturedRequest[] {
+  const requests: CapturedRequest[] = [];
+  const answer = async (params: RequestUrlParam | string) => {
+    const { url, method = "GET", headers = {}, body } = typeof params === "string" ? { url: params } : params;
+    const request: CapturedRequest = { url, method, headers, body: parseBody(body) };
+    requests.push(request);
+    const { json = {}, ...rest } = typeof reply === "function" ? reply(request) : reply;
+    return { status: 200, headers: {}, text: JSON.stringify(json), json, ...rest };
+  };
+  vi.mocked(requestUrl).mockImplementation(answer as unknown as typeof requestUrl);
+  return requests;
+}
+
+// ============================================================================
+// fetch
+// ============================================================================
+
+/**
+ * Answer every fetch with these server-sent events (strings such as "[DONE]"
+ * are sent as is) and record the requests in `requests`
+ */
+export function mockFetchEvents(events: unknown[], requests: CapturedRequest[] = []): CapturedRequest[] {
+  vi.mocked(fetch).mockImplementation(async (input: string | URL | Request, init?: RequestInit) => {
+    requests.push({
+      url: String(input),
+      method: init?.method ?? "GET",
+      headers: (init?.headers ?? {}) as Record<string, string>,
+      body: parseBody(init?.body),
+    });
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const event of events) {
+          const data = typeof event === "string" ? event : JSON.stringify(event);
+          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+        }
+        controller.close();
+      },
+    });
+    return new Response(body, { status: 200 });
+  });
+  return requests;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseBody(body: unknown): any {
+  return typeof body === "string" && body ? JSON.parse(body) : null;
+}
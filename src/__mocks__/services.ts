@@ -8,6 +8,7 @@ import { vi } from "vitest";
 import type { App } from "obsidian";
 import type { PluginSettings, CalendarEvent, Attendee } from "../types";
 import { DEFAULT_SETTINGS } from "../types";
+import { deepMerge } from "../utils/deep-merge";
 
 // ============================================================================
 // Mock AIService
@@ -172,11 +173,23 @@ export function createMockFeedbackAction(overrides: Partial<MockFeedbackAction>
 // Settings Helpers
 // ============================================================================
 
-export function createMockSettings(overrides: Partial<PluginSettings> = {}): PluginSettings {
-  return {
-    ...DEFAULT_SETTINGS,
-    ...overrides,
-  };
+/**
+ * Settings overrides where nested sections only need the fields a test changes
+ */
+export type MockSettingsOverrides = DeepPartial<PluginSettings>;
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+/**
+ * Default settings with overrides merged in section by section (arrays are replaced)
+ */
+export function createMockSettings(overrides: MockSettingsOverrides = {}): PluginSettings {
+  return deepMerge(
+    DEFAULT_SETTINGS as unknown as Record<string, unknown>,
+    overrides as Record<string, unknown>
+  ) as unknown as PluginSettings;
 }
 
 // ============================================================================
@@ -153,6 +153,9 @@ function createMockMoment() {
         const week = getWeekNumber(d);
         return `${year}-W${String(week).padStart(2, "0")}`;
       }
+      if (fmt === "HH:mm") {
+        return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+      }
       return d.toISOString();
     });
     return instance;
@@ -192,12 +195,15 @@ Object.defineProperty(global, "navigator", {
 // Mock fetch
 // ============================================================================
 
-// @ts-ignore
-global.fetch = vi.fn().mockResolvedValue({
-  ok: true,
-  json: () => Promise.resolve({}),
-  text: () => Promise.resolve(""),
-});
+// Recording replay fixtures (GSD_AI_RECORD=1) keeps the real fetch
+if (!process.env.GSD_AI_RECORD) {
+  // @ts-ignore
+  global.fetch = vi.fn().mockResolvedValue({
+    ok: true,
+    json: () => Promise.resolve({}),
+    text: () => Promise.resolve(""),
+  });
+}
 
 // ============================================================================
 // Console helpers for cleaner test output
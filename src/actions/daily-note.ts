@@ -301,49 +301,26 @@ created: ${moment().format("YYYY-MM-DD HH:mm")}
   }
 
   /**
-   * Process the briefing queue with parallel execution and rate limiting
-   * Uses settings.parallelBriefings and settings.apiDelayMs for configuration
+   * Process the briefing queue in parallel
+   * AIService's scheduler applies the per-provider concurrency and rate limits
    */
   private async processQueue(queue: BriefingQueueItem[], filePath: string): Promise<void> {
-    const concurrency = this.settings.parallelBriefings || 3;
-    const minDelay = this.settings.apiDelayMs || 500;
-
-    console.log(`[GSD] Processing ${queue.length} meetings with concurrency=${concurrency}`);
+    console.log(`[GSD] Processing ${queue.length} meetings`);
     const startTime = Date.now();
 
-    // Process in batches
-    for (let i = 0; i < queue.length; i += concurrency) {
-      const batch = queue.slice(i, i + concurrency);
-      const batchStart = Date.now();
-
-      // Process batch in parallel
-      await Promise.all(
-        batch.map((item) => 
-          this.meetingBriefing.processMeetingBriefing(item, filePath)
-            .catch((err) => {
-              console.error(`[GSD] Failed to process meeting: ${item.event.summary}`, err);
-            })
-        )
-      );
-
-      // Rate limit: ensure minimum delay between batches
-      const batchDuration = Date.now() - batchStart;
-      if (i + concurrency < queue.length && batchDuration < minDelay) {
-        await this.delay(minDelay - batchDuration);
-      }
-    }
+    await Promise.all(
+      queue.map((item) =>
+        this.meetingBriefing.processMeetingBriefing(item, filePath)
+          .catch((err) => {
+            console.error(`[GSD] Failed to process meeting: ${item.event.summary}`, err);
+          })
+      )
+    );
 
     const totalTime = Date.now() - startTime;
     console.log(`[GSD] Processed ${queue.length} meetings in ${totalTime}ms`);
   }
 
-  /**
-   * Simple delay utility
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   // ============================================================================
   // Routing Helpers
   // ============================================================================
@@ -0,0 +1,61 @@
+// ============================================================================
+// Inbox Formatter Tests (screenshot helpers)
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { getScreenshotLink, stripImageEmbeds, formatScreenshotSummary } from "./formatter";
+import type { InboxRouteDecision } from "./types";
+import type { InboxItem, PluginSettings } from "../../types";
+import { createMockSettings } from "../../__mocks__/services";
+
+function makeItem(content: string, type: InboxItem["type"] = "unknown"): InboxItem {
+  return { content, type, source: "uri", timestamp: "2026-01-05 09:30" };
+}
+
+const THOUGHTS: InboxRouteDecision = { destination: "daily_thoughts", format: "thought", addDueDate: false };
+
+function makeSettings(enabled = true): PluginSettings {
+  return createMockSettings({ inbox: { screenshots: { enabled } } });
+}
+
+describe("getScreenshotLink", () => {
+  it("returns the embedded image of a screenshot capture", () => {
+    const item = makeItem("Pricing page\n![[Attachments/shot.png]]", "screenshot");
+    expect(getScreenshotLink(item, THOUGHTS, makeSettings())).toBe("Attachments/shot.png");
+  });
+
+  it("treats a capture that is only an image embed as a screenshot", () => {
+    expect(getScreenshotLink(makeItem("![[shot.jpg]]"), THOUGHTS, makeSettings())).toBe("shot.jpg");
+  });
+
+  it("ignores images inside ordinary text captures", () => {
+    expect(getScreenshotLink(makeItem("Idea for the deck ![[shot.png]]", "thought"), THOUGHTS, makeSettings())).toBeNull();
+  });
+
+  it("ignores PDFs, meeting follow-ups and disabled settings", () => {
+    expect(getScreenshotLink(makeItem("![[deck.pdf]]", "screenshot"), THOUGHTS, makeSettings())).toBeNull();
+    const followup: InboxRouteDecision = { ...THOUGHTS, destination: "meeting_followup" };
+    expect(getScreenshotLink(makeItem("![[shot.png]]", "screenshot"), followup, makeSettings())).toBeNull();
+    expect(getScreenshotLink(makeItem("![[shot.png]]", "screenshot"), THOUGHTS, makeSettings(false))).toBeNull();
+  });
+});
+
+describe("stripImageEmbeds", () => {
+  it("removes image embeds and keeps other links", () => {
+    expect(stripImageEmbeds("Look ![[shot.png]] at [[Roadmap]] ![](img/a.webp)")).toBe("Look  at [[Roadmap]]");
+    expect(stripImageEmbeds("![[shot.png]]")).toBe("");
+  });
+});
+
+describe("formatScreenshotSummary", () => {
+  it("formats bullets and the transcribed text block", () => {
+    const result = "- Slack thread about the launch\n- Decision: ship Friday\nTEXT: Ship it Friday\nThanks all";
+    expect(formatScreenshotSummary(result)).toBe(
+      "\t- Slack thread about the launch\n\t  Decision: ship Friday\n\t- Text: Ship it Friday\n\t  Thanks all"
+    );
+  });
+
+  it("leaves out the text line when nothing was transcribed", () => {
+    expect(formatScreenshotSummary("- A bar chart of weekly signups")).toBe("\t- A bar chart of weekly signups");
+  });
+});
@@ -4,7 +4,14 @@
 
 import { App, TFile, Notice } from "obsidian";
 import type { PluginSettings, InboxItem, CalendarEvent } from "../../types";
-import { handleError } from "../../utils/error-handler";
+import { handleError, describeError } from "../../utils/error-handler";
+import {
+  findAttachmentLinks,
+  getAttachmentType,
+  readVaultAttachment,
+  resolveAttachmentFile,
+} from "../../utils/attachments";
+import type { AIService } from "../../services/ai-service";
 import { ReferenceAction } from "../reference";
 import type { InboxRouteDecision, SummarizeAPI, DailyNoteNotReadyError } from "./types";
 import { formatDueDate } from "./date-parser";
@@ -13,6 +20,11 @@ import { isURL } from "./router";
 
 const moment = (window as any).moment;
 
+const SUMMARY_PLACEHOLDER = "\t- ⏳ Summarizing...";
+const SCREENSHOT_PLACEHOLDER = "\t- ⏳ Reading screenshot...";
+/** Transcribed screenshot text beyond this many lines is dropped */
+const MAX_SCREENSHOT_TEXT_LINES = 30;
+
 // ============================================================================
 // Public API
 // ============================================================================
@@ -20,15 +32,17 @@ const moment = (window as any).moment;
 /**
  * Append the inbox item to its destination
  * Uses fallback strategy: today → yesterday → latest available Daily Note
+ * @returns Path of the note the item was written to
  */
 export async function appendToDestination(
   app: App,
   settings: PluginSettings,
   referenceAction: ReferenceAction,
+  aiService: AIService,
   item: InboxItem,
   decision: InboxRouteDecision,
   getDailyNotePath: () => Promise<string | null>
-): Promise<void> {
+): Promise<string> {
   const dailyNotePath = await getDailyNotePath();
   if (!dailyNotePath) {
     const error = new Error("Could not find any daily note (tried today, yesterday, and latest)") as Error & { name: string };
@@ -45,22 +59,24 @@ export async function appendToDestination(
 
   const content = await app.vault.read(file);
 
+  const screenshotLink = getScreenshotLink(item, decision, settings);
+  if (screenshotLink) {
+    const formatted = decision.format === "task"
+      ? formatAsTask(item, decision, settings)
+      : formatAsThought(item, settings);
+    await appendPlaceholderBlock(app, file, content, decision, settings, `${formatted}\n${SCREENSHOT_PLACEHOLDER}`);
+
+    void generateScreenshotSummaryAsync(app, settings, aiService, file, formatted, item, screenshotLink);
+    return file.path;
+  }
+
   const summaryUrl = getLinkSummaryUrl(item, decision, settings);
   if (summaryUrl) {
     const formatted = formatAsThought(item, settings);
-    const placeholderBlock = `${formatted}\n\t- ⏳ Summarizing...`;
-
-    if (decision.destination === "daily_end") {
-      const separator = content.endsWith("\n") ? "" : "\n";
-      const newContent = `${content}${separator}${placeholderBlock}`;
-      await app.vault.modify(file, newContent);
-    } else {
-      const newContent = appendToThoughtsSection(content, placeholderBlock, settings);
-      await app.vault.modify(file, newContent);
-    }
+    await appendPlaceholderBlock(app, file, content, decision, settings, `${formatted}\n${SUMMARY_PLACEHOLDER}`);
 
     void generateLinkSummaryAsync(app, settings, referenceAction, file, formatted, summaryUrl);
-    return;
+    return file.path;
   }
 
   if (decision.destination === "meeting_followup" && item.meetingContext) {
@@ -87,6 +103,26 @@ export async function appendToDestination(
     const newContent = appendToThoughtsSection(content, formatted, settings);
     await app.vault.modify(file, newContent);
   }
+  return file.path;
+}
+
+/**
+ * Write a capture followed by its "working" placeholder line
+ */
+async function appendPlaceholderBlock(
+  app: App,
+  file: TFile,
+  content: string,
+  decision: InboxRouteDecision,
+  settings: PluginSettings,
+  placeholderBlock: string
+): Promise<void> {
+  if (decision.destination === "daily_end") {
+    const separator = content.endsWith("\n") ? "" : "\n";
+    await app.vault.modify(file, `${content}${separator}${placeholderBlock}`);
+  } else {
+    await app.vault.modify(file, appendToThoughtsSection(content, placeholderBlock, settings));
+  }
 }
 
 // ============================================================================
@@ -413,9 +449,10 @@ async function replaceSummaryPlaceholder(
   app: App,
   file: TFile,
   originalLine: string,
-  replacement: string
+  replacement: string,
+  placeholder: string = SUMMARY_PLACEHOLDER
 ): Promise<void> {
-  const placeholderBlock = `${originalLine}\n\t- ⏳ Summarizing...`;
+  const placeholderBlock = `${originalLine}\n${placeholder}`;
   const fileContent = await app.vault.read(file);
   if (!fileContent.includes(placeholderBlock)) return;
 
@@ -525,6 +562,133 @@ ${topicsContent}
   }
 }
 
+// ============================================================================
+// Screenshot Helpers
+// ============================================================================
+
+/**
+ * Vault image to summarize for a capture: the first embedded image of a
+ * screenshot capture, or of a capture that is nothing but an image embed
+ */
+export function getScreenshotLink(
+  item: InboxItem,
+  decision: InboxRouteDecision,
+  settings: PluginSettings
+): string | null {
+  if (!settings.inbox.screenshots?.enabled) return null;
+  if (decision.destination === "meeting_followup") return null;
+
+  const image = findAttachmentLinks(item.content).find(
+    (link) => getAttachmentType(link.split(".").pop() ?? "")?.kind === "image"
+  );
+  if (!image) return null;
+
+  return item.type === "screenshot" || !stripImageEmbeds(item.content) ? image : null;
+}
+
+/**
+ * Capture text without its image embeds/links (the user's caption, if any)
+ */
+export function stripImageEmbeds(content: string): string {
+  return content
+    .replace(/!?\[\[[^\]]+\]\]/g, (match) => (isImageLink(match) ? "" : match))
+    .replace(/!?\[[^\]]*\]\([^)]+\)/g, (match) => (isImageLink(match) ? "" : match))
+    .trim();
+}
+
+function isImageLink(link: string): boolean {
+  return findAttachmentLinks(link).some(
+    (target) => getAttachmentType(target.split(".").pop() ?? "")?.kind === "image"
+  );
+}
+
+/**
+ * Turn the model's screenshot reply (bullets, then an optional "TEXT:" block) into indented lines
+ */
+export function formatScreenshotSummary(result: string): string {
+  const [summaryPart, ...textParts] = result.trim().split(/^TEXT:\s*/m);
+  const summary = formatSummaryAsIndentedBullet(summaryPart);
+
+  const textLines = textParts
+    .join("\n")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, MAX_SCREENSHOT_TEXT_LINES);
+  if (textLines.length === 0) return summary;
+
+  const [first, ...rest] = textLines;
+  return `${summary}\n\t- Text: ${first}${rest.map((line) => `\n\t  ${line}`).join("")}`;
+}
+
+export async function generateScreenshotSummaryAsync(
+  app: App,
+  settings: PluginSettings,
+  aiService: AIService,
+  file: TFile,
+  originalLine: string,
+  item: InboxItem,
+  link: string
+): Promise<void> {
+  const replace = (replacement: string) =>
+    replaceSummaryPlaceholder(app, file, originalLine, replacement, SCREENSHOT_PLACEHOLDER);
+
+  try {
+    const imageFile = resolveAttachmentFile(app, link, file.path);
+    const attachment = imageFile ? await readVaultAttachment(app, imageFile) : null;
+    if (!attachment) {
+      await replace("\t- ❌ Screenshot not found in vault (or too large)");
+      return;
+    }
+
+    const { takeawaysCount, maxWordsPerTakeaway } = settings.inbox.contentSummary;
+    const caption = stripImageEmbeds(item.content);
+    const prompt = [
+      `Summarize this screenshot in at most ${takeawaysCount} bullet points of up to ${maxWordsPerTakeaway} words each: what it shows and anything worth acting on.`,
+      settings.inbox.screenshots.transcribeText
+        ? 'Then, on a new line starting with "TEXT:", transcribe the meaningful text it contains (messages, headlines, slide text, numbers). Skip buttons, menus and other interface chrome. Leave out the TEXT line if there is no meaningful text.'
+        : "",
+      caption ? `The user captured it with this note: ${caption}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const result = await aiService.callModel(
+      "You read screenshots captured into a personal notes inbox. Describe only what is visible; never invent details.",
+      prompt,
+      settings.models.inboxRoutingModel,
+      {
+        action: "inboxScreenshot",
+        priority: "background",
+        notePath: file.path,
+        attachments: [attachment],
+        temperature: 0.2,
+      }
+    );
+
+    if (!result) {
+      const reason = describeError(aiService.getLastError(settings.models.inboxRoutingModel));
+      await replace(`\t- ❌ Screenshot summary failed${reason ? ` (${reason})` : ""}`);
+      new Notice(reason ? `Screenshot summary failed: ${reason}` : "Screenshot summary failed");
+      return;
+    }
+
+    await replace(formatScreenshotSummary(result));
+    new Notice("Screenshot summary added");
+  } catch (error: unknown) {
+    handleError("Inbox: Screenshot summary failed", error, {
+      showNotice: true,
+      noticeMessage: "Screenshot summary failed",
+    });
+
+    try {
+      await replace("\t- ❌ Screenshot summary failed");
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
+
 // ============================================================================
 // Daily Note Path Helpers
 // ============================================================================
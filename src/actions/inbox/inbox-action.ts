@@ -16,9 +16,11 @@ import { GoogleServices } from "../../services/google-services";
 import { AIService } from "../../services/ai-service";
 import { VaultSearchService } from "../../services/vault-search";
 import { IndexService } from "../../services/index-service";
+import { PromptLibrary } from "../../services/prompt-library";
+import type { EventBus } from "../../services/event-bus";
 import { ReferenceAction } from "../reference";
 
-import { DailyNoteNotReadyError, type InboxRouteDecision } from "./types";
+import { DailyNoteNotReadyError, type InboxCaptureResult, type InboxRouteDecision } from "./types";
 import { detectTriggerPhrase, handleReferenceTrigger, handleResearchTrigger, handleFollowupTrigger } from "./triggers";
 import { routeItemDeterministic, routeItem, formatDestinationLabel } from "./router";
 import {
@@ -26,6 +28,7 @@ import {
   getDailyNotePath,
   appendToThoughtsSection,
   insertAfterMeetingLine,
+  stripImageEmbeds,
 } from "./formatter";
 import { detectEntityMentions, showSmartSuggestion } from "./entity-detector";
 
@@ -48,7 +51,9 @@ export class InboxAction {
   private aiService: AIService;
   private vaultSearch: VaultSearchService;
   private indexService: IndexService;
+  private promptLibrary: PromptLibrary;
   private referenceAction: ReferenceAction;
+  private events: EventBus | null = null;
 
   constructor(
     app: App,
@@ -57,7 +62,8 @@ export class InboxAction {
     googleServices: GoogleServices,
     aiService: AIService,
     vaultSearch: VaultSearchService,
-    indexService: IndexService
+    indexService: IndexService,
+    promptLibrary: PromptLibrary
   ) {
     this.app = app;
     this.settings = settings;
@@ -66,6 +72,7 @@ export class InboxAction {
     this.aiService = aiService;
     this.vaultSearch = vaultSearch;
     this.indexService = indexService;
+    this.promptLibrary = promptLibrary;
     this.referenceAction = new ReferenceAction(app, settings, indexService, aiService);
   }
 
@@ -77,26 +84,38 @@ export class InboxAction {
     this.referenceAction.updateSettings(settings);
   }
 
+  /**
+   * Set event bus reference
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
   // ============================================================================
   // Main Entry Point
   // ============================================================================
 
   /**
-   * Process an inbox item from URI parameters
+   * Process an inbox item from URI parameters (URI-encoded, as the obsidian:// handler receives them)
    *
    * Strategy: Capture FAST with deterministic formatting first, then enhance async.
    * This ensures mobile captures work reliably even if AI/calendar services are slow.
    */
-  async processInboxItem(params: InboxURIParams): Promise<void> {
+  async processInboxItem(params: InboxURIParams): Promise<InboxCaptureResult> {
     if (!this.settings.inbox.enabled) {
       new Notice("GetShitDone Inbox is disabled");
-      return;
+      return { status: "disabled" };
     }
 
-    const content = params.content ? decodeURIComponent(params.content) : "";
+    let content = params.content ? decodeURIComponent(params.content) : "";
+    // A screenshot saved to the vault can be passed as image=<vault path>; it is embedded in the capture
+    const imagePath = params.image ? decodeURIComponent(params.image).trim() : "";
+    if (imagePath) {
+      content = `${content.trim()}\n![[${imagePath}]]`.trim();
+    }
     if (!content.trim()) {
       new Notice("No content to capture");
-      return;
+      return { status: "empty" };
     }
 
     console.log(`[GSD Inbox] Processing: "${content.substring(0, 50)}..."`);
@@ -104,10 +123,14 @@ export class InboxAction {
     // Create inbox item
     const item: InboxItem = {
       content: content.trim(),
-      type: this.parseContentType(params.type),
+      type: this.parseContentType(params.type ?? (imagePath ? "screenshot" : undefined)),
       source: this.parseSource(params.source),
       timestamp: moment().format("YYYY-MM-DD HH:mm"),
     };
+    // A capture that is nothing but an image embed is a screenshot
+    if (item.type === "unknown" && !stripImageEmbeds(item.content)) {
+      item.type = "screenshot";
+    }
 
     // Check for trigger phrases FIRST (sync, but quick string check)
     // These are explicit user commands that should be handled specially
@@ -128,10 +151,10 @@ export class InboxAction {
         ).catch((error: unknown) => {
           handleError("Inbox: Reference trigger failed", error, {
             showNotice: true,
-            noticeMessage: "Reference save failed - check console for details",
+            noticeMessage: "Reference save failed",
           });
         });
-        return;
+        return { status: "trigger", trigger: "reference" };
       }
     }
 
@@ -156,24 +179,25 @@ export class InboxAction {
             noticeMessage: "Follow-up failed",
           });
         }
-        return;
+        return { status: "trigger", trigger: "followup" };
       } else if (trigger === "research") {
         // "Research X" is an explicit command - handle it (will show its own notice)
         handleResearchTrigger(
           this.app,
           this.settings,
           this.aiService,
+          this.promptLibrary,
           item,
           () => this.getDailyNotePath(),
           (content, text) => appendToThoughtsSection(content, text, this.settings)
         ).catch((error: unknown) => {
           handleError("Inbox: Research trigger failed", error, {
             showNotice: true,
-            noticeMessage: "Research failed - check console for details",
+            noticeMessage: "Research failed",
           });
         });
         new Notice("Starting research...");
-        return;
+        return { status: "trigger", trigger: "research" };
       }
     }
 
@@ -181,16 +205,18 @@ export class InboxAction {
     // FAST PATH: Deterministic capture (no AI, no heavy file operations)
     // =========================================================================
 
+    let result: InboxCaptureResult;
     try {
       // Route using ONLY deterministic rules (no AI fallback for fast capture)
       const decision = await routeItemDeterministic(item, this.settings);
       item.destination = decision.destination;
 
       // Format and append immediately
-      await appendToDestination(
+      const notePath = await appendToDestination(
         this.app,
         this.settings,
         this.referenceAction,
+        this.aiService,
         item,
         decision,
         () => this.getDailyNotePath()
@@ -199,6 +225,14 @@ export class InboxAction {
       // Show confirmation immediately
       new Notice(`Captured to ${formatDestinationLabel(decision.destination)} ✓`);
       console.log(`[GSD Inbox] Fast capture complete: ${decision.destination}`);
+      result = { status: "captured", decision, notePath };
+      this.events?.emit("inbox.captured", {
+        content: item.content,
+        type: item.type,
+        source: item.source,
+        destination: decision.destination,
+        notePath,
+      });
     } catch (error: unknown) {
       const noticeMessage = error instanceof Error && error.name === "DailyNoteNotReadyError"
         ? error.message
@@ -207,7 +241,7 @@ export class InboxAction {
         showNotice: true,
         noticeMessage,
       });
-      return;
+      return { status: "failed", error: noticeMessage };
     }
 
     // =========================================================================
@@ -219,6 +253,8 @@ export class InboxAction {
       // Log but don't show notice - the capture already succeeded
       console.log("[GSD Inbox] Async enhancement failed (capture still succeeded):", error);
     });
+
+    return result;
   }
 
   /**
@@ -318,11 +354,11 @@ export class InboxAction {
   /**
    * Parse source from string parameter
    */
-  private parseSource(source?: string): "share" | "shortcut" | "manual" | "uri" {
+  private parseSource(source?: string): InboxItem["source"] {
     if (!source) return "uri";
     const lower = source.toLowerCase();
-    if (["share", "shortcut", "manual"].includes(lower)) {
-      return lower as "share" | "shortcut" | "manual";
+    if (["share", "shortcut", "manual", "webhook"].includes(lower)) {
+      return lower as InboxItem["source"];
     }
     return "uri";
   }
@@ -7,7 +7,7 @@ export { InboxAction } from "./inbox-action";
 
 // Types
 export { DailyNoteNotReadyError } from "./types";
-export type { InboxRouteDecision, SummarizeAPI } from "./types";
+export type { InboxCaptureResult, InboxRouteDecision, SummarizeAPI } from "./types";
 
 // Routing
 export {
@@ -35,6 +35,9 @@ export {
   getSummarizeApi,
   parseSummaryWithTags,
   formatSummaryAsIndentedBullet,
+  getScreenshotLink,
+  stripImageEmbeds,
+  formatScreenshotSummary,
 } from "./formatter";
 
 // Triggers
@@ -335,6 +335,12 @@ describe("hasApiKeyForModel", () => {
     const settings = createTestSettings();
     expect(hasApiKeyForModel("claude-3-opus", settings)).toBe(false);
   });
+
+  it("returns true when any model in a fallback chain has a key", () => {
+    const settings = createTestSettings({ anthropicApiKey: "test-key" });
+    expect(hasApiKeyForModel("gpt-4, claude-3-opus", settings)).toBe(true);
+    expect(hasApiKeyForModel("gpt-4 → gemini-pro", settings)).toBe(false);
+  });
 });
 
 describe("buildDefaultDecision", () => {
@@ -9,7 +9,11 @@ import type {
   InboxFormatStyle,
 } from "../../types";
 import { handleErrorWithDefault } from "../../utils/error-handler";
-import { AIService } from "../../services/ai-service";
+import { AIService, parseModelChain } from "../../services/ai-service";
+import type { PromptLibrary } from "../../services/prompt-library";
+import { formatPassages } from "../../services/semantic-index";
+import type { SemanticIndex } from "../../services/semantic-index";
+import { renderTemplate } from "../../utils/prompt-template";
 import type { InboxRouteDecision } from "./types";
 import { escapeRegex, stripTaskPrefix } from "./triggers";
 
@@ -31,36 +35,51 @@ export async function routeItemDeterministic(
 /**
  * Route an inbox item to its destination
  * Uses deterministic rules first, then AI fallback
+ * (with a semantic index, the AI also sees related vault passages)
  */
 export async function routeItem(
   item: InboxItem,
   settings: PluginSettings,
-  aiService: AIService
+  aiService: AIService,
+  promptLibrary?: PromptLibrary,
+  semanticIndex?: SemanticIndex
 ): Promise<InboxRouteDecision> {
-  return getRoutingDecision(item, settings, aiService, { allowAI: true });
+  return getRoutingDecision(item, settings, aiService, { allowAI: true, promptLibrary, semanticIndex });
 }
 
 /**
  * Use AI model to classify content
+ * (the prompt comes from the prompt library when given, otherwise straight from settings)
  */
 export async function routeWithAI(
   item: InboxItem,
   settings: PluginSettings,
-  aiService: AIService
+  aiService: AIService,
+  promptLibrary?: PromptLibrary,
+  semanticIndex?: SemanticIndex
 ): Promise<InboxRouteDecision | null> {
-  const prompt = settings.prompts.inboxRouting
-    .replace("{content}", item.content.substring(0, 500))
-    .replace("{length}", String(item.content.length))
-    .replace("{inMeeting}", item.meetingContext ? "YES" : "NO")
-    .replace("{meetingTitle}", item.meetingContext?.summary || "N/A");
-
   try {
+    const related = semanticIndex
+      ? await semanticIndex.search(item.content.substring(0, 500), { action: "inboxRouting", topK: 3 })
+      : [];
+    const variables = {
+      content: item.content.substring(0, 500),
+      length: item.content.length,
+      inMeeting: item.meetingContext ? "YES" : "NO",
+      meetingTitle: item.meetingContext?.summary || "N/A",
+      relatedNotes: formatPassages(related),
+    };
+
+    const prompt = promptLibrary
+      ? await promptLibrary.render("inboxRouting", variables)
+      : renderTemplate(settings.prompts.inboxRouting, variables);
     const cfg = settings.generationConfigs?.inboxRouting;
     const result = await aiService.callModel(
       "You are a content classifier. Respond with exactly one word.",
       prompt,
       settings.models.inboxRoutingModel,
       {
+        action: "inboxRouting",
         useSearch: false,
         temperature: cfg?.temperature,
         thinkingBudget: cfg?.thinkingBudget ?? undefined,
@@ -112,7 +131,7 @@ export async function getRoutingDecision(
   item: InboxItem,
   settings: PluginSettings,
   aiService: AIService | null,
-  options: { allowAI: boolean }
+  options: { allowAI: boolean; promptLibrary?: PromptLibrary; semanticIndex?: SemanticIndex }
 ): Promise<InboxRouteDecision> {
   const ruleDecision = evaluateRoutingRules(item, settings);
   if (ruleDecision) {
@@ -122,7 +141,7 @@ export async function getRoutingDecision(
   if (options.allowAI && aiService && settings.inbox.routing.aiFallbackEnabled) {
     const model = settings.models.inboxRoutingModel || settings.models.briefingModel;
     if (model && hasApiKeyForModel(model, settings)) {
-      const aiDecision = await routeWithAI(item, settings, aiService);
+      const aiDecision = await routeWithAI(item, settings, aiService, options.promptLibrary, options.semanticIndex);
       if (aiDecision) {
         return aiDecision;
       }
@@ -265,7 +284,14 @@ export function shouldFormatAsTask(item: InboxItem, settings: PluginSettings): b
 
 export function hasApiKeyForModel(model: string, settings: PluginSettings): boolean {
   if (!model) return false;
+  const chain = parseModelChain(model);
+  if (chain.length > 1) {
+    return chain.some((entry) => hasApiKeyForModel(entry, settings));
+  }
   const lower = model.toLowerCase();
+  if (lower.startsWith("local:")) {
+    return Boolean(settings.localProvider?.baseUrl);
+  }
   if (lower.startsWith("openrouter:") || lower.includes("/")) {
     return Boolean(settings.openrouterApiKey);
   }
@@ -4,8 +4,9 @@
 
 import { App, TFile, Notice } from "obsidian";
 import type { PluginSettings, InboxItem, CalendarEvent } from "../../types";
-import { handleError } from "../../utils/error-handler";
+import { handleError, describeError } from "../../utils/error-handler";
 import { AIService } from "../../services/ai-service";
+import type { PromptLibrary } from "../../services/prompt-library";
 import { IndexService } from "../../services/index-service";
 import { ReferenceAction } from "../reference";
 import { parseNaturalLanguageDate, formatDueDate } from "./date-parser";
@@ -125,6 +126,7 @@ export async function handleResearchTrigger(
   app: App,
   settings: PluginSettings,
   aiService: AIService,
+  promptLibrary: PromptLibrary,
   item: InboxItem,
   getDailyNotePath: () => Promise<string | null>,
   appendToThoughtsSection: (content: string, textToInsert: string) => string
@@ -145,15 +147,7 @@ export async function handleResearchTrigger(
   new Notice("Starting deep research...");
 
   try {
-    // Load research prompt
-    const researchPrompt = settings.prompts.research ||
-      `Research the following topic deeply using web search. Provide a comprehensive summary with key facts, insights, and relevant information.
-
-Topic: {query}
-
-Provide a well-structured research summary.`;
-
-    const prompt = researchPrompt.replace(/{query}/g, researchQuery);
+    const prompt = await promptLibrary.render("research", { query: researchQuery });
 
     // Call AI with max effort
     const researchModel = settings.models.personResearchModel || settings.models.orgResearchModel || settings.models.briefingModel;
@@ -162,6 +156,8 @@ Provide a well-structured research summary.`;
       prompt,
       researchModel,
       {
+        action: "inboxResearch",
+        priority: "background",
         useSearch: true,
         thinkingBudget: "high",
         temperature: 0.2,
@@ -169,7 +165,8 @@ Provide a well-structured research summary.`;
     );
 
     if (!result) {
-      new Notice("Research failed - no response from AI");
+      const reason = describeError(aiService.getLastError(researchModel)) ?? "no response from AI";
+      new Notice(`Research failed: ${reason}`);
       return;
     }
 
@@ -196,7 +193,7 @@ Provide a well-structured research summary.`;
   } catch (error: unknown) {
     handleError("Inbox: Research failed", error, {
       showNotice: true,
-      noticeMessage: "Research failed - check console for details",
+      noticeMessage: "Research failed",
     });
   }
 }
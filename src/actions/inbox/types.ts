@@ -16,6 +16,17 @@ export type InboxRouteDecision = {
   ruleId?: string;
 };
 
+/**
+ * What processInboxItem did with a capture
+ * (trigger phrases hand the item to a background handler that writes its own note)
+ */
+export type InboxCaptureResult =
+  | { status: "captured"; decision: InboxRouteDecision; notePath: string }
+  | { status: "trigger"; trigger: "reference" | "followup" | "research" }
+  | { status: "disabled" }
+  | { status: "empty" }
+  | { status: "failed"; error: string };
+
 export type SummarizeAPI = {
   summarizeUrl: (
     url: string,
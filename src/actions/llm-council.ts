@@ -9,7 +9,8 @@ import type {
 } from "../types";
 import { AIService } from "../services/ai-service";
 import { CouncilRunnerService } from "../services/council-runner";
-import { handleError } from "../utils/error-handler";
+import type { EventBus } from "../services/event-bus";
+import { handleError, describeError } from "../utils/error-handler";
 
 // ============================================================================
 // LlmCouncilAction Class
@@ -24,6 +25,7 @@ export class LlmCouncilAction {
   private settings: PluginSettings;
   private aiService: AIService;
   private runner: CouncilRunnerService;
+  private events: EventBus | null = null;
   private inFlight: Set<string> = new Set();
 
   constructor(
@@ -45,6 +47,13 @@ export class LlmCouncilAction {
     this.runner.updateSettings(settings);
   }
 
+  /**
+   * Set event bus reference
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
   /**
    * Run the LLM Council on the current active note
    */
@@ -108,7 +117,7 @@ export class LlmCouncilAction {
       );
       
       if (ideas.length === 0) {
-        new Notice("❌ All ideators failed. Check console for details.");
+        new Notice(`❌ All ideators failed: ${this.describeLastFailure()}`);
         console.error("[GSD] Council: All ideators failed");
         return null;
       }
@@ -129,7 +138,7 @@ export class LlmCouncilAction {
       );
 
       if (executions.length === 0) {
-        new Notice("❌ All executors failed. Check console for details.");
+        new Notice(`❌ All executors failed: ${this.describeLastFailure()}`);
         console.error("[GSD] Council: All executors failed");
         return null;
       }
@@ -180,12 +189,21 @@ export class LlmCouncilAction {
 
       new Notice(`🎉 LLM Council complete! Winner: ${judgment?.winner || "N/A"}`);
       console.log(`[GSD] Council: Run ${runId} complete`);
+      this.events?.emit("council.finished", {
+        runId,
+        notePath: file.path,
+        inputPath,
+        outputPath,
+        winner: judgment?.winner ?? null,
+        ideas: ideas.length,
+        executions: executions.length,
+      });
 
       return result;
     } catch (error) {
       handleError("LLM Council failed", error, {
         showNotice: true,
-        noticeMessage: "LLM Council failed - check console for details",
+        noticeMessage: "LLM Council failed",
         additionalContext: { runId, file: file.path },
       });
       return null;
@@ -200,4 +218,11 @@ export class LlmCouncilAction {
     const newContent = currentContent + "\n" + content;
     await this.app.vault.modify(file, newContent);
   }
+
+  /**
+   * Reason the latest AI call failed, for notices
+   */
+  private describeLastFailure(): string {
+    return describeError(this.aiService.getLastError()) ?? "no model answered";
+  }
 }
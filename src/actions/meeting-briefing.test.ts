@@ -0,0 +1,111 @@
+// ============================================================================
+// Meeting Briefing Tests (replayed AI responses)
+// ============================================================================
+
+import { describe, it, expect, afterEach, afterAll } from "vitest";
+import type { App } from "obsidian";
+import type { BriefingQueueItem } from "../types";
+import { DEFAULT_SETTINGS } from "../types/defaults";
+import { createMockApp } from "../__mocks__/obsidian";
+import { ReplayFixtures, useReplay } from "../__mocks__/replay-provider";
+import { AIService } from "../services/ai-service";
+import { GoogleServices } from "../services/google-services";
+import { IndexService } from "../services/index-service";
+import { VaultSearchService } from "../services/vault-search";
+import { PromptLibrary } from "../services/prompt-library";
+import { SemanticIndex } from "../services/semantic-index";
+import { MeetingBriefingAction } from "./meeting-briefing";
+
+const fixtures = new ReplayFixtures("meeting-briefing");
+
+const DAILY_NOTE = "Daily/2026-03-02.md";
+const ANNE_NOTE = "---\nEmail: ann.lee@northwind.io\nTitle: VP Engineering\nOrganization: \"[[Northwind]]\"\n---\n\n* Leads platform engineering at Northwind.\n";
+
+function setup() {
+  const app = createMockApp();
+  const settings = fixtures.withRecordingKeys({ ...DEFAULT_SETTINGS });
+  const aiService = new AIService(settings);
+  useReplay(aiService, fixtures);
+
+  const obsidianApp = app as unknown as App;
+  const indexService = new IndexService(obsidianApp, settings);
+  const action = new MeetingBriefingAction(
+    obsidianApp,
+    settings,
+    new GoogleServices(settings, aiService),
+    aiService,
+    new VaultSearchService(obsidianApp, settings, indexService),
+    new PromptLibrary(obsidianApp, settings),
+    // Off by default, so briefings don't look up related passages
+    new SemanticIndex(obsidianApp, { exists: async () => false, read: async () => "", write: async () => {} }, "index.json", settings, aiService)
+  );
+
+  app.vault._setFile("People/Ann Lee.md", ANNE_NOTE);
+  app.vault._setFile(DAILY_NOTE, "## Meetings\n- 10:00 [[Northwind roadmap review]]\n- 14:00 [[Team sync]]\n");
+  return { app, action };
+}
+
+function makeItem(summary: string, description: string): BriefingQueueItem {
+  const participants = [
+    { email: "ann.lee@northwind.io", displayName: "Ann Lee" },
+    { email: "me@finn.com", displayName: "Me", self: true },
+  ];
+  return {
+    // No UTC offset, so the prompt's "HH:mm" is the same in every time zone
+    event: {
+      id: "evt-1",
+      summary,
+      description,
+      start: { dateTime: "2026-03-02T10:00:00" },
+      end: { dateTime: "2026-03-02T11:00:00" },
+      attendees: participants,
+    },
+    anchor: `[[${summary}]]`,
+    participants,
+    noteTitle: summary,
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("MeetingBriefingAction.processMeetingBriefing", () => {
+  afterEach(() => {
+    expect(fixtures.missing.splice(0)).toEqual([]);
+  });
+
+  afterAll(() => {
+    fixtures.save();
+  });
+
+  it("replaces the placeholder under the meeting with the streamed briefing and its sources", async () => {
+    const { app, action } = setup();
+
+    await action.processMeetingBriefing(
+      makeItem("Northwind roadmap review", "Walk through the Q2 platform roadmap and the migration timeline."),
+      DAILY_NOTE
+    );
+
+    expect(app.vault._getContent(DAILY_NOTE)).toBe(
+      [
+        "## Meetings",
+        "- 10:00 [[Northwind roadmap review]]",
+        "\t- Ann Lee (VP Engineering, Northwind) wants sign-off on the Q2 platform roadmap; push for a firm migration date and owners for the cut-over.",
+        "\t\t- Sources: [Our Q2 platform roadmap](https://northwind.io/blog/q2-platform-roadmap)",
+        "- 14:00 [[Team sync]]",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("leaves the note alone when the filter model says no briefing is needed", async () => {
+    const { app, action } = setup();
+
+    await action.processMeetingBriefing(makeItem("Team sync", "Weekly status round."), DAILY_NOTE);
+
+    expect(app.vault._getContent(DAILY_NOTE)).toBe(
+      "## Meetings\n- 10:00 [[Northwind roadmap review]]\n- 14:00 [[Team sync]]\n"
+    );
+  });
+});
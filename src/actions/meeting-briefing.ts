@@ -2,7 +2,7 @@
 // Meeting Briefing Action - AI-powered meeting prep and briefings
 // ============================================================================
 
-import { App, TFile, MarkdownView } from "obsidian";
+import { App, TFile, MarkdownView, Notice } from "obsidian";
 import type {
   PluginSettings,
   CalendarEvent,
@@ -12,12 +12,27 @@ import type {
 import { GoogleServices } from "../services/google-services";
 import { AIService } from "../services/ai-service";
 import { VaultSearchService } from "../services/vault-search";
+import { PromptLibrary } from "../services/prompt-library";
+import { SemanticIndex, formatPassages } from "../services/semantic-index";
+import type { AIAttachment } from "../services/ai-provider";
 import { PersonResearchAction } from "./person-research";
 import type { FeedbackAction } from "./feedback";
-import { handleError } from "../utils/error-handler";
+import type { EventBus } from "../services/event-bus";
+import { handleError, describeError } from "../utils/error-handler";
+import { findAttachmentLinks, isAttachmentPath, readVaultAttachment, resolveAttachmentFile } from "../utils/attachments";
+import { formatInlineSources } from "../utils/citations";
 
 const moment = (window as any).moment;
 
+/** Minimum gap between placeholder rewrites while a briefing streams in */
+const BRIEFING_STREAM_WRITE_INTERVAL_MS = 1000;
+
+/** Vault images/PDFs sent with one briefing (each one costs input tokens) */
+const MAX_BRIEFING_FILE_ATTACHMENTS = 3;
+
+/** Search sources linked under a briefing (it's one line in the daily note) */
+const MAX_BRIEFING_SOURCES = 3;
+
 // ============================================================================
 // MeetingBriefingAction Class
 // ============================================================================
@@ -32,21 +47,28 @@ export class MeetingBriefingAction {
   private googleServices: GoogleServices;
   private aiService: AIService;
   private vaultSearch: VaultSearchService;
+  private promptLibrary: PromptLibrary;
+  private semanticIndex: SemanticIndex;
   private personResearch: PersonResearchAction | null = null;
   private feedback: FeedbackAction | null = null;
+  private events: EventBus | null = null;
 
   constructor(
     app: App,
     settings: PluginSettings,
     googleServices: GoogleServices,
     aiService: AIService,
-    vaultSearch: VaultSearchService
+    vaultSearch: VaultSearchService,
+    promptLibrary: PromptLibrary,
+    semanticIndex: SemanticIndex
   ) {
     this.app = app;
     this.settings = settings;
     this.googleServices = googleServices;
     this.aiService = aiService;
     this.vaultSearch = vaultSearch;
+    this.promptLibrary = promptLibrary;
+    this.semanticIndex = semanticIndex;
   }
 
   /**
@@ -63,6 +85,13 @@ export class MeetingBriefingAction {
     this.feedback = feedback;
   }
 
+  /**
+   * Set event bus reference
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
   /**
    * Check if personResearch dependency is wired
    */
@@ -130,6 +159,10 @@ export class MeetingBriefingAction {
     const attendeesText = externalParticipants
       .map((p) => p.displayName || p.email)
       .join(", ");
+    const attendeeList = externalParticipants.map((p) => ({
+      name: p.displayName || p.email,
+      email: p.email,
+    }));
 
     // Step A: Use AI filter to determine if briefing is needed (unless bypassed)
     let isImportant = "NO";
@@ -138,10 +171,12 @@ export class MeetingBriefingAction {
       console.log(`[GSD] Bypassing filter for "${e.summary}" (manual trigger)`);
       isImportant = "YES";
     } else {
-      const filterPrompt = this.settings.prompts.meetingFilter
-        .replace("{title}", e.summary || "")
-        .replace("{attendees}", attendeesText)
-        .replace("{description}", description.substring(0, 500).replace(/\n/g, " "));
+      const filterPrompt = await this.promptLibrary.render("meetingFilter", {
+        title: e.summary || "",
+        attendees: attendeesText,
+        attendeeList,
+        description: description.substring(0, 500).replace(/\n/g, " "),
+      });
 
       try {
         console.log(`[GSD] Calling filter for "${e.summary}" with model: ${this.settings.models.filterModel}`);
@@ -151,6 +186,9 @@ export class MeetingBriefingAction {
           filterPrompt,
           this.settings.models.filterModel,
           {
+            action: "meetingFilter",
+            notePath: filePath,
+            priority: "background",
             useSearch: false,
             temperature: filterCfg?.temperature,
             thinkingBudget: filterCfg?.thinkingBudget ?? undefined,
@@ -175,10 +213,11 @@ export class MeetingBriefingAction {
       await this.vaultSearch.insertAfterLineContaining(filePath, anchor, loadingBlock);
 
       // Gather context
-      const { vaultContext, attachmentContext, previousMeetingsContext } = await this.gatherContext(
+      const { vaultContext, attachmentContext, previousMeetingsContext, attachments } = await this.gatherContext(
         e,
         externalParticipants,
-        noteTitle
+        noteTitle,
+        filePath
       );
 
       // If the meeting title is ambiguous and we have zero usable context, don't hallucinate.
@@ -206,35 +245,36 @@ export class MeetingBriefingAction {
       }
 
       // Generate briefing
-      const briefingPrompt = this.settings.prompts.meetingBriefing
-        .replace("{title}", e.summary || "")
-        .replace("{time}", moment(e.start.dateTime).format("HH:mm"))
-        .replace("{attendees}", attendeesText)
-        .replace("{description}", description)
-        .replace(
-          "{vaultContext}",
-          vaultContext ? "**Vault Context:**\n" + vaultContext : ""
-        )
-        .replace(
-          "{attachmentContext}",
-          attachmentContext ? "**Attachments:**\n" + attachmentContext : ""
-        )
-        .replace(
-          "{previousMeetingsContext}",
-          previousMeetingsContext || ""
-        ) + feedbackContext;
+      const briefingPrompt = (await this.promptLibrary.render("meetingBriefing", {
+        title: e.summary || "",
+        time: moment(e.start.dateTime).format("HH:mm"),
+        attendees: attendeesText,
+        attendeeList,
+        description,
+        vaultContext: vaultContext ? "**Vault Context:**\n" + vaultContext : "",
+        attachmentContext: attachmentContext ? "**Attachments:**\n" + attachmentContext : "",
+        previousMeetingsContext: previousMeetingsContext || "",
+      })) + feedbackContext;
 
       const cfg = this.settings.generationConfigs?.meetingBriefing;
-      const response = await this.aiService.callModel(
+      const liveWriter = this.createLiveBlockWriter(filePath, loadingBlock);
+      const { text: response, citations } = await this.aiService.streamModelDetailed(
         "You are an elite Chief of Staff preparing briefings for a CEO. Use vault context + attachments + prior meetings first, and use Google Search for missing PUBLIC facts about external attendees/companies. Never invent. If you pull a specific fact from the web (numbers/dates/roles), include a short source hint in parentheses (e.g., source: company.com, 2024). Then write with extreme density - every word must carry insight.",
         briefingPrompt,
         this.settings.models.briefingModel,
+        (chunk) => liveWriter.push(chunk),
         {
+          action: "meetingBriefing",
+          notePath: filePath,
+          priority: "background",
           useSearch: true, // Enable Google Search to enrich the briefing with public context.
+          attachments,
           temperature: cfg?.temperature,
           thinkingBudget: cfg?.thinkingBudget ?? undefined,
         }
       );
+      // The placeholder now holds the last streamed preview
+      const oldBlock = await liveWriter.finish();
 
       // Update file with result
       if (response) {
@@ -264,22 +304,78 @@ export class MeetingBriefingAction {
           const isGrounded = this.isBriefingLikelyGrounded(briefingText, title, externalParticipants);
           const finalText = isGrounded ? briefingText : this.buildFallbackBriefing(title, attendeesText);
 
-          const finalBlock = `\n\t- ${finalText}`;
-          const oldBlock = `\n\t- [!working] ⏳ Researching context & attachments...`;
+          // Search sources go in a nested bullet so the briefing's claims can be checked
+          const sources = isGrounded ? formatInlineSources(citations, MAX_BRIEFING_SOURCES) : "";
+          const finalBlock = `\n\t- ${finalText}` + (sources ? `\n\t\t- Sources: ${sources}` : "");
           await this.vaultSearch.replaceInFile(filePath, oldBlock, finalBlock);
+          this.events?.emit("briefing.written", {
+            title,
+            notePath: filePath,
+            eventId: e.id,
+            start: e.start.dateTime,
+            attendees: attendeeList,
+            briefing: finalText,
+            grounded: isGrounded,
+          });
         } else {
           // Remove loading indicator if no briefing text
-          const oldBlock = `\n\t- [!working] ⏳ Researching context & attachments...`;
           await this.vaultSearch.replaceInFile(filePath, oldBlock, "");
         }
       } else {
         // Remove loading indicator if failed
-        const oldBlock = `\n\t- [!working] ⏳ Researching context & attachments...`;
         await this.vaultSearch.replaceInFile(filePath, oldBlock, "");
+        const reason = describeError(this.aiService.getLastError(this.settings.models.briefingModel));
+        if (reason) {
+          new Notice(`Briefing failed for ${title}: ${reason}`);
+        }
       }
     }
   }
 
+  /**
+   * Mirror a streaming response into the loading placeholder.
+   * Writes are throttled and serialized so each replacement targets the block
+   * the previous write left in the file; finish() resolves to that block.
+   */
+  private createLiveBlockWriter(
+    filePath: string,
+    initialBlock: string
+  ): { push: (chunk: string) => void; finish: () => Promise<string> } {
+    let liveBlock = initialBlock;
+    let streamedText = "";
+    let lastWriteAt = 0;
+    let writeChain: Promise<void> = Promise.resolve();
+
+    const queueWrite = () => {
+      const preview = streamedText.replace(/\s+/g, " ").trim();
+      const nextBlock = `\n\t- [!working] ⏳ ${preview}`;
+      writeChain = writeChain.then(async () => {
+        if (nextBlock === liveBlock) return;
+        await this.vaultSearch.replaceInFile(filePath, liveBlock, nextBlock);
+        liveBlock = nextBlock;
+      });
+    };
+
+    return {
+      push: (chunk: string) => {
+        streamedText += chunk;
+        const now = Date.now();
+        if (now - lastWriteAt >= BRIEFING_STREAM_WRITE_INTERVAL_MS) {
+          lastWriteAt = now;
+          queueWrite();
+        }
+      },
+      finish: async () => {
+        try {
+          await writeChain;
+        } catch (error: unknown) {
+          handleError("Briefing stream preview failed", error, { silent: true });
+        }
+        return liveBlock;
+      },
+    };
+  }
+
   /**
    * Trigger briefing for the current cursor line
    */
@@ -369,11 +465,18 @@ export class MeetingBriefingAction {
   private async gatherContext(
     event: CalendarEvent,
     externalParticipants: Attendee[],
-    noteTitle: string
-  ): Promise<{ vaultContext: string; attachmentContext: string; previousMeetingsContext: string }> {
+    noteTitle: string,
+    filePath: string
+  ): Promise<{
+    vaultContext: string;
+    attachmentContext: string;
+    previousMeetingsContext: string;
+    attachments: AIAttachment[];
+  }> {
     let vaultContext = "";
     let attachmentContext = "";
     let previousMeetingsContext = "";
+    const includedPaths: string[] = [];
 
     const allFiles = this.app.vault.getMarkdownFiles();
 
@@ -390,6 +493,12 @@ export class MeetingBriefingAction {
       }
     }
 
+    // Images and PDFs stored in the vault are sent to the model as files
+    const attachments = await this.loadVaultAttachments(event, filePath);
+    for (const attachment of attachments) {
+      attachmentContext += `\n-- Attachment: ${attachment.name} (attached ${attachment.kind === "pdf" ? "PDF" : "image"}) --\n`;
+    }
+
     // Search vault for People notes
     for (const p of externalParticipants) {
       const name = p.displayName || this.humanizeEmail(p.email);
@@ -399,6 +508,7 @@ export class MeetingBriefingAction {
       if (hit) {
         const content = await this.app.vault.read(hit);
         vaultContext += `\n-- Note: [[${hit.path.replace(".md", "")}]] --\n${content.substring(0, 1000)}\n`;
+        includedPaths.push(hit.path);
       }
     }
 
@@ -413,14 +523,55 @@ export class MeetingBriefingAction {
         if (hit) {
           const content = await this.app.vault.read(hit);
           vaultContext += `\n-- Note: [[${hit.path.replace(".md", "")}]] --\n${content.substring(0, 1000)}\n`;
+          includedPaths.push(hit.path);
         }
       }
     }
 
+    // Passages related to the title and agenda (semantic index; empty when it's off)
+    const related = await this.semanticIndex.search(
+      [event.summary, (event.description || "").substring(0, 500)].filter(Boolean).join("\n"),
+      { action: "meetingBriefing", priority: "background", excludePaths: [...includedPaths, filePath] }
+    );
+    if (related.length > 0) {
+      vaultContext += `\n${formatPassages(related)}\n`;
+    }
+
     // Search for previous meetings with same people
     previousMeetingsContext = await this.searchPreviousMeetings(externalParticipants, allFiles);
 
-    return { vaultContext, attachmentContext, previousMeetingsContext };
+    return { vaultContext, attachmentContext, previousMeetingsContext, attachments };
+  }
+
+  /**
+   * Vault images/PDFs for a meeting: calendar attachments whose title matches a vault file,
+   * then image/PDF links in the event description
+   */
+  private async loadVaultAttachments(event: CalendarEvent, filePath: string): Promise<AIAttachment[]> {
+    const links = [
+      ...(event.attachments ?? []).map((att) => att.title).filter((title) => title && isAttachmentPath(title)),
+      ...findAttachmentLinks(event.description || ""),
+    ];
+
+    const attachments: AIAttachment[] = [];
+    const seen = new Set<string>();
+    for (const link of links) {
+      if (attachments.length >= MAX_BRIEFING_FILE_ATTACHMENTS) break;
+      const file = resolveAttachmentFile(this.app, link, filePath);
+      if (!file || seen.has(file.path)) continue;
+      seen.add(file.path);
+
+      try {
+        const attachment = await readVaultAttachment(this.app, file);
+        if (attachment) attachments.push(attachment);
+      } catch (error: unknown) {
+        handleError("Meeting briefing: reading attachment failed", error, {
+          silent: true,
+          additionalContext: { path: file.path },
+        });
+      }
+    }
+    return attachments;
   }
 
   /**
@@ -8,6 +8,10 @@ import { VaultSearchService } from "../services/vault-search";
 import { IndexService } from "../services/index-service";
 import { GoogleServices } from "../services/google-services";
 import { AIService } from "../services/ai-service";
+import type { AIJsonCallOptions } from "../services/ai-service";
+import type { AIChatMessage, AIJsonSchema } from "../services/ai-provider";
+import { VaultTools } from "../services/vault-tools";
+import { SemanticIndex } from "../services/semantic-index";
 import type { O3Person } from "./o3-prep";
 
 const moment = (window as any).moment;
@@ -41,7 +45,8 @@ export type O3CoachSource = {
     | "meeting"
     | "daily"
     | "perf"
-    | "o3doc";
+    | "o3doc"
+    | "related";
   path?: string;
   truncated?: boolean;
   content?: string;
@@ -65,7 +70,11 @@ type O3CoachRunOptions = {
   question: string;
   person?: O3Person | null;
   event?: CalendarEvent | null;
-  history?: Array<{ role: "user" | "assistant"; content: string }>;
+  history?: AIChatMessage[];
+  /** Streams the response; called with the partial summary as tokens arrive */
+  onSummaryProgress?: (summary: string) => void;
+  /** Cancels the coach call (e.g. when the dashboard is reset or closed) */
+  signal?: AbortSignal;
   includeSources?: Partial<{
     master: boolean;
     person: boolean;
@@ -73,12 +82,56 @@ type O3CoachRunOptions = {
     daily: boolean;
     perf: boolean;
     o3doc: boolean;
+    related: boolean;
   }>;
 };
 
+type O3CoachJson = Pick<O3CoachResponse, "summary" | "suggestions" | "questions">;
+
+const COACH_RESPONSE_SCHEMA: AIJsonSchema = {
+  name: "o3_coach_response",
+  schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string" },
+      suggestions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["followup", "update", "info_request", "blind_spot", "question"],
+            },
+            text: { type: "string" },
+            person: { type: "string" },
+            sourceIds: { type: "array", items: { type: "string" } },
+          },
+          required: ["type", "text", "sourceIds"],
+        },
+      },
+      questions: { type: "array", items: { type: "string" } },
+    },
+    required: ["summary", "suggestions", "questions"],
+  },
+};
+
 const MAX_SOURCE_CHARS = 6000;
 const MAX_TOTAL_CHARS = 60000;
 
+/**
+ * Pull the (possibly unterminated) "summary" string out of a partially streamed
+ * JSON response so the UI can render it before the JSON is complete
+ */
+export function extractPartialSummary(raw: string): string {
+  const match = raw.match(/"summary"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (!match) return "";
+  return match[1]
+    .replace(/\\n/g, "\n")
+    .replace(/\\t/g, "\t")
+    .replace(/\\(["\\/])/g, "$1");
+}
+
 export class O3CoachAction {
   private app: App;
   private settings: PluginSettings;
@@ -86,6 +139,8 @@ export class O3CoachAction {
   private indexService: IndexService;
   private googleServices: GoogleServices;
   private aiService: AIService;
+  private vaultTools: VaultTools;
+  private semanticIndex: SemanticIndex;
 
   constructor(
     app: App,
@@ -93,7 +148,9 @@ export class O3CoachAction {
     vaultSearch: VaultSearchService,
     indexService: IndexService,
     googleServices: GoogleServices,
-    aiService: AIService
+    aiService: AIService,
+    vaultTools: VaultTools,
+    semanticIndex: SemanticIndex
   ) {
     this.app = app;
     this.settings = settings;
@@ -101,6 +158,8 @@ export class O3CoachAction {
     this.indexService = indexService;
     this.googleServices = googleServices;
     this.aiService = aiService;
+    this.vaultTools = vaultTools;
+    this.semanticIndex = semanticIndex;
   }
 
   updateSettings(settings: PluginSettings): void {
@@ -108,7 +167,8 @@ export class O3CoachAction {
   }
 
   async runCoach(options: O3CoachRunOptions): Promise<O3CoachResponse | null> {
-    const sourcesResult = await this.buildSources(options);
+    const tools = this.vaultTools.getTools();
+    const sourcesResult = await this.buildSources(options, tools.length > 0);
     const { sources, context, warnings } = sourcesResult;
 
     if (!context.trim()) {
@@ -118,26 +178,27 @@ export class O3CoachAction {
 
     const systemPrompt = [
       "You are an O3 Coach helping prep 1:1s.",
-      "Use only the provided sources. Never invent facts.",
+      tools.length > 0
+        ? "Use only the provided sources and what the tools return. Never invent facts."
+        : "Use only the provided sources. Never invent facts.",
       "Be specific, action-oriented, and cite source IDs for every suggestion.",
+      tools.length > 0
+        ? "When a source is truncated or something isn't covered, look it up with the tools (cite a note you read by its path)."
+        : "",
       "Include info_request suggestions as explicit questions to ask for updates when relevant.",
-      "Return JSON only with this shape:",
-      "{",
-      '  "summary": string,',
-      '  "suggestions": [',
-      '    { "type": "followup|update|info_request|blind_spot|question", "text": string, "person"?: string, "sourceIds": string[] }',
-      "  ],",
-      '  "questions": string[]',
-      "}",
       "If context is missing, say so in summary and keep suggestions empty.",
-    ].join("\n");
-
-    const history = (options.history || []).slice(-6);
-    const historyBlock = history.length
-      ? `\nRecent chat:\n${history
-          .map((m) => `${m.role.toUpperCase()}: ${m.content}`)
-          .join("\n")}\n`
-      : "";
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    // Prior turns go to the model as real messages; the dashboard appends the
+    // current question before calling, so drop it to avoid sending it twice.
+    const history = [...(options.history || [])];
+    const lastTurn = history[history.length - 1];
+    if (lastTurn && lastTurn.role === "user" && lastTurn.content === options.question) {
+      history.pop();
+    }
+    const recentHistory = history.slice(-6);
 
     const personLabel = options.person ? options.person.name : "none";
     const modeLabel = options.mode === "person" ? "person" : "week";
@@ -146,7 +207,6 @@ export class O3CoachAction {
       `Mode: ${modeLabel}`,
       `Person: ${personLabel}`,
       `Question: ${options.question}`,
-      historyBlock.trim(),
       warnings.length ? `Warnings:\n- ${warnings.join("\n- ")}` : "",
       "Sources:",
       context,
@@ -155,27 +215,45 @@ export class O3CoachAction {
       .join("\n\n");
 
     const cfg = this.settings.generationConfigs?.o3Prep;
-    const response = await this.aiService.callModel(
+    const callOptions: AIJsonCallOptions = {
+      action: "o3Coach",
+      essential: true, // Interactive: the user is waiting on the answer
+      priority: "interactive",
+      signal: options.signal,
+      history: recentHistory,
+      tools,
+      useSearch: false,
+      temperature: cfg?.temperature,
+      thinkingBudget: cfg?.thinkingBudget ?? undefined,
+    };
+    const onSummaryProgress = options.onSummaryProgress;
+    let raw = "";
+    const parsed = await this.aiService.callModelJson<O3CoachJson>(
       systemPrompt,
       userPrompt,
       this.settings.models.o3PrepModel,
+      COACH_RESPONSE_SCHEMA,
       {
-        useSearch: false,
-        temperature: cfg?.temperature,
-        thinkingBudget: cfg?.thinkingBudget ?? undefined,
+        ...callOptions,
+        onChunk: onSummaryProgress
+          ? (chunk) => {
+              raw += chunk;
+              const summary = extractPartialSummary(raw);
+              if (summary) onSummaryProgress(summary);
+            }
+          : undefined,
       }
     );
 
-    if (!response) return null;
+    if (!parsed) return null;
 
-    const parsed = this.parseCoachResponse(response);
     return {
       summary: parsed.summary || "",
       suggestions: parsed.suggestions || [],
       questions: parsed.questions || [],
       sources,
       warnings,
-      raw: response,
+      raw: JSON.stringify(parsed),
     };
   }
 
@@ -200,7 +278,7 @@ export class O3CoachAction {
     };
   }
 
-  private async buildSources(options: O3CoachRunOptions): Promise<{
+  private async buildSources(options: O3CoachRunOptions, toolsAvailable: boolean): Promise<{
     sources: O3CoachSource[];
     context: string;
     warnings: string[];
@@ -212,6 +290,7 @@ export class O3CoachAction {
       daily: options.includeSources?.daily ?? true,
       perf: options.includeSources?.perf ?? true,
       o3doc: options.includeSources?.o3doc ?? true,
+      related: options.includeSources?.related ?? true,
     };
     const sources: O3CoachSource[] = [];
     const parts: string[] = [];
@@ -238,7 +317,8 @@ export class O3CoachAction {
       totalChars += text.length;
       const id = `SRC${sources.length + 1}`;
       sources.push({ id, title, kind, path, truncated, content: text });
-      parts.push(`[[${id}]] ${title}\n${text}`);
+      const note = truncated && path && toolsAvailable ? ` (truncated; read the rest of ${path} with read_note_section)` : "";
+      parts.push(`[[${id}]] ${title}${note}\n${text}`);
     };
 
     // Master O3 prep
@@ -317,6 +397,24 @@ export class O3CoachAction {
       }
     }
 
+    // Related passages from older notes (semantic index; nothing when it's off)
+    if (include.related && this.semanticIndex.isEnabled()) {
+      const passages = await this.semanticIndex.search(
+        [options.person?.name, options.question].filter(Boolean).join("\n"),
+        {
+          action: "o3Coach",
+          priority: "interactive",
+          signal: options.signal,
+          excludePaths: sources.map((source) => source.path).filter((path): path is string => !!path),
+        }
+      );
+      for (const passage of passages) {
+        const name = passage.path.split("/").pop()?.replace(/\.md$/, "") || passage.path;
+        const title = passage.heading ? `${name} > ${passage.heading}` : name;
+        addSource("related", `Related: ${title}`, passage.text, passage.path);
+      }
+    }
+
     return { sources, context: parts.join("\n\n"), warnings };
   }
 
@@ -391,26 +489,6 @@ export class O3CoachAction {
     return files;
   }
 
-  private parseCoachResponse(raw: string): {
-    summary: string;
-    suggestions: O3CoachSuggestion[];
-    questions: string[];
-  } {
-    try {
-      const start = raw.indexOf("{");
-      const end = raw.lastIndexOf("}");
-      const jsonString = start >= 0 && end >= 0 ? raw.slice(start, end + 1) : raw;
-      const parsed = JSON.parse(jsonString);
-      return {
-        summary: parsed.summary || "",
-        suggestions: Array.isArray(parsed.suggestions) ? parsed.suggestions : [],
-        questions: Array.isArray(parsed.questions) ? parsed.questions : [],
-      };
-    } catch {
-      return { summary: raw.trim(), suggestions: [], questions: [] };
-    }
-  }
-
   private isWithinLookback(file: TFile, lookbackDays: number): boolean {
     const fileDate = this.getFileDate(file);
     if (fileDate) {
@@ -184,20 +184,21 @@ export function replaceWeekSection(
 
 /**
  * Add task to O3 section in a People note
+ * @returns false when the note is missing or already has the task
  */
 export async function addTaskToO3Section(
   app: App,
   personPath: string,
   sectionTitle: string,
   text: string
-): Promise<void> {
+): Promise<boolean> {
   const file = app.vault.getAbstractFileByPath(personPath);
-  if (!(file instanceof TFile)) return;
+  if (!(file instanceof TFile)) return false;
   const content = await app.vault.read(file);
   const updated = upsertTask(content, sectionTitle, text);
-  if (updated !== content) {
-    await app.vault.modify(file, updated);
-  }
+  if (updated === content) return false;
+  await app.vault.modify(file, updated);
+  return true;
 }
 
 /**
@@ -187,6 +187,7 @@ export class O3PrepAction {
       context,
       this.settings.models.o3PrepModel,
       {
+        action: "o3Prep",
         useSearch: false,
         temperature: cfg?.temperature,
         thinkingBudget: cfg?.thinkingBudget ?? undefined,
@@ -245,16 +246,16 @@ export class O3PrepAction {
   // Task Management
   // ============================================================================
 
-  async addFollowUp(personPath: string, text: string): Promise<void> {
-    await addTaskToO3Section(this.app, personPath, "Follow-ups", text);
+  async addFollowUp(personPath: string, text: string): Promise<boolean> {
+    return addTaskToO3Section(this.app, personPath, "Follow-ups", text);
   }
 
   async removeFollowUp(personPath: string, text: string): Promise<void> {
     await removeTaskFromO3Section(this.app, personPath, "Follow-ups", text);
   }
 
-  async addUpdate(personPath: string, text: string): Promise<void> {
-    await addTaskToO3Section(this.app, personPath, "Updates I Owe", text);
+  async addUpdate(personPath: string, text: string): Promise<boolean> {
+    return addTaskToO3Section(this.app, personPath, "Updates I Owe", text);
   }
 
   async removeUpdate(personPath: string, text: string): Promise<void> {
@@ -6,9 +6,14 @@ import { App, TFile, Notice } from "obsidian";
 import type { PluginSettings, OrgResearchResult, OrgFrontmatter } from "../types";
 import { GoogleServices } from "../services/google-services";
 import { AIService } from "../services/ai-service";
+import type { AICitation } from "../services/ai-provider";
 import { VaultSearchService } from "../services/vault-search";
+import { VaultTools } from "../services/vault-tools";
+import { PromptLibrary } from "../services/prompt-library";
 import type { FeedbackAction } from "./feedback";
+import type { EventBus } from "../services/event-bus";
 import { handleError } from "../utils/error-handler";
+import { formatSourcesList } from "../utils/citations";
 
 // ============================================================================
 // OrgResearchAction Class
@@ -24,20 +29,27 @@ export class OrgResearchAction {
   private googleServices: GoogleServices;
   private aiService: AIService;
   private vaultSearch: VaultSearchService;
+  private promptLibrary: PromptLibrary;
+  private vaultTools: VaultTools;
   private feedback: FeedbackAction | null = null;
+  private events: EventBus | null = null;
 
   constructor(
     app: App,
     settings: PluginSettings,
     googleServices: GoogleServices,
     aiService: AIService,
-    vaultSearch: VaultSearchService
+    vaultSearch: VaultSearchService,
+    promptLibrary: PromptLibrary,
+    vaultTools: VaultTools
   ) {
     this.app = app;
     this.settings = settings;
     this.googleServices = googleServices;
     this.aiService = aiService;
     this.vaultSearch = vaultSearch;
+    this.promptLibrary = promptLibrary;
+    this.vaultTools = vaultTools;
   }
 
   /**
@@ -54,6 +66,13 @@ export class OrgResearchAction {
     this.feedback = feedback;
   }
 
+  /**
+   * Set event bus reference
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
   /**
    * Check if feedback dependency is wired
    */
@@ -107,15 +126,16 @@ export class OrgResearchAction {
       const vaultContext = await this.vaultSearch.searchOrgContext(orgName);
 
       // Generate briefing
-      const briefing = await this.generateBriefing(orgName, domain, vaultContext);
+      const { briefing, sources } = await this.generateBriefing(orgName, domain, vaultContext, filePath);
 
       // Update note with research
-      await this.updateNoteWithResearch(filePath, briefing);
+      await this.updateNoteWithResearch(filePath, briefing, sources);
 
       // Mark as researched
       await this.updateFrontmatterField(filePath, "researched", "true");
 
       new Notice(`Research complete for ${orgName}`);
+      this.events?.emit("research.completed", { kind: "org", name: orgName, notePath: filePath, domain });
 
       return {
         success: true,
@@ -139,36 +159,48 @@ export class OrgResearchAction {
   private async generateBriefing(
     orgName: string,
     domain: string | undefined,
-    vaultContext: string
-  ): Promise<string> {
+    vaultContext: string,
+    filePath?: string
+  ): Promise<{ briefing: string; sources: AICitation[] }> {
     // Get feedback context
     let feedbackContext = "";
     if (this.feedback) {
       feedbackContext = await this.feedback.getFeedbackSummary("org");
     }
 
+    // Vault/Gmail tools let the model read the notes behind the vault context
+    const tools = this.vaultTools.getTools();
+    const toolsHint = tools.length > 0
+      ? "\n\nTools: the vault context above is a summary; read the notes it links with read_note_section (and check meetings with list_meetings_for_person) before answering. Public facts still come from search."
+      : "";
+
     // Build prompt from settings template
-    const prompt = this.settings.prompts.orgResearch
-      .replace("{orgName}", orgName)
-      .replace("{domain}", domain ? `Website: ${domain}` : "")
-      .replace(
-        "{vaultContext}",
-        vaultContext ? "**Vault Context:**\n" + vaultContext : ""
-      ) + feedbackContext;
+    const prompt = (await this.promptLibrary.render("orgResearch", {
+      orgName,
+      domain: domain ? `Website: ${domain}` : "",
+      vaultContext: vaultContext ? "**Vault Context:**\n" + vaultContext : "",
+    })) + feedbackContext + toolsHint;
 
     const cfg = this.settings.generationConfigs?.orgResearch;
-    const response = await this.aiService.callModel(
+    const { text: response, citations } = await this.aiService.callModelWithTools(
       "You are an elite business intelligence analyst. You find specific numbers, dates, and facts that others miss. Your briefings are dense with actionable intelligence - fund sizes, investment multiples, portfolio companies, key people. You never pad with generic descriptions.",
       prompt,
       this.settings.models.orgResearchModel,
+      tools,
       {
+        action: "orgResearch",
+        notePath: filePath,
+        priority: "background",
         useSearch: true, // Enable Google Search
         temperature: cfg?.temperature,
         thinkingBudget: cfg?.thinkingBudget ?? undefined,
       }
     );
 
-    if (!response) return "";
+    // Fail instead of writing an empty briefing; the caller removes the indicator and shows why
+    if (!response) {
+      throw this.aiService.getLastError(this.settings.models.orgResearchModel) ?? new Error("No research response");
+    }
 
     // Return markdown response directly
     // Ensure bullets use "- " format consistently
@@ -186,13 +218,13 @@ export class OrgResearchAction {
       return line;
     });
 
-    return formattedLines.join("\n").trim();
+    return { briefing: formattedLines.join("\n").trim(), sources: citations };
   }
 
   /**
    * Update the note with research results
    */
-  private async updateNoteWithResearch(filePath: string, briefing: string): Promise<void> {
+  private async updateNoteWithResearch(filePath: string, briefing: string, sources: AICitation[]): Promise<void> {
     const file = this.app.vault.getAbstractFileByPath(filePath);
     if (!file || !(file instanceof TFile)) return;
 
@@ -219,6 +251,10 @@ export class OrgResearchAction {
         .join("\n");
 
       content += `\n## About\n${cleanBriefing}\n`;
+
+      if (sources.length > 0) {
+        content += `\n## Sources\n${formatSourcesList(sources)}\n`;
+      }
     }
 
     await this.app.vault.modify(file, content);
@@ -0,0 +1,100 @@
+// ============================================================================
+// Person Research Tests (replayed AI responses)
+// ============================================================================
+
+import { describe, it, expect, afterEach, afterAll } from "vitest";
+import type { App } from "obsidian";
+import { DEFAULT_SETTINGS } from "../types/defaults";
+import { createMockApp } from "../__mocks__/obsidian";
+import { ReplayFixtures, useReplay } from "../__mocks__/replay-provider";
+import { AIService } from "../services/ai-service";
+import { GoogleServices } from "../services/google-services";
+import { IndexService } from "../services/index-service";
+import { VaultSearchService } from "../services/vault-search";
+import { PromptLibrary } from "../services/prompt-library";
+import { VaultTools } from "../services/vault-tools";
+import { PersonResearchAction } from "./person-research";
+
+const fixtures = new ReplayFixtures("person-research");
+
+function setup() {
+  const app = createMockApp();
+  const settings = fixtures.withRecordingKeys({ ...DEFAULT_SETTINGS });
+  const aiService = new AIService(settings);
+  useReplay(aiService, fixtures);
+
+  const obsidianApp = app as unknown as App;
+  const googleServices = new GoogleServices(settings, aiService);
+  const indexService = new IndexService(obsidianApp, settings);
+  const action = new PersonResearchAction(
+    obsidianApp,
+    settings,
+    googleServices,
+    aiService,
+    new VaultSearchService(obsidianApp, settings, indexService),
+    new PromptLibrary(obsidianApp, settings),
+    new VaultTools(obsidianApp, settings, indexService, googleServices)
+  );
+  return { app, action };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("PersonResearchAction.researchPerson", () => {
+  afterEach(() => {
+    expect(fixtures.missing.splice(0)).toEqual([]);
+  });
+
+  afterAll(() => {
+    fixtures.save();
+  });
+
+  it("writes the research summary, sources, extracted fields and organization link", async () => {
+    const { app, action } = setup();
+    app.vault._setFile("People/Ann Lee.md", "---\nEmail: ann.lee@northwind.io\nOrganization: \"\"\n---\n");
+
+    const result = await action.researchPerson("People/Ann Lee.md");
+
+    expect(result).toMatchObject({
+      success: true,
+      personName: "Ann Lee",
+      email: "ann.lee@northwind.io",
+      orgResult: { name: "Northwind", created: true, domain: "northwind.io" },
+      extractedInfo: { title: "VP Engineering", organization: "Northwind", location: "Berlin, Germany" },
+    });
+
+    expect(app.vault._getContent("People/Ann Lee.md")).toBe(
+      [
+        "---",
+        "Email: ann.lee@northwind.io",
+        'Organization: "[[Northwind]]"',
+        "Title: VP Engineering",
+        'Location: "[[Locations/Berlin, Germany]]"',
+        "researched: true",
+        "---",
+        "",
+        "## Research Summary",
+        "* Joined [[Organizations/Northwind|Northwind]] as VP Engineering in 2023 after six years at Contoso.",
+        "* Led the platform team that cut Northwind's deployment time from days to under an hour (2024 conference talk).",
+        "* Speaks regularly on engineering management at Berlin tech meetups.",
+        "",
+        "## Sources",
+        "- [Leadership | Northwind](https://northwind.io/about/leadership)",
+        "- [From days to an hour: Northwind's deployment story](https://www.techconf.example/2024/talks/deploy-in-an-hour)",
+        "",
+        "*Organization [[Northwind]] was created and researched.*",
+        "",
+      ].join("\n")
+    );
+    expect(app.vault._getContent("Organizations/Northwind.md")).toContain("Domain: northwind.io");
+  });
+
+  it("skips notes that are already researched without calling a model", async () => {
+    const { app, action } = setup();
+    app.vault._setFile("People/Bo Chen.md", "---\nEmail: bo@northwind.io\nresearched: true\n---\n");
+
+    expect(await action.researchPerson("People/Bo Chen.md")).toBeNull();
+  });
+});
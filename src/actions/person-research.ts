@@ -13,12 +13,42 @@ import type {
 } from "../types";
 import { GoogleServices } from "../services/google-services";
 import { AIService } from "../services/ai-service";
+import type { AICitation, AIJsonSchema } from "../services/ai-provider";
 import { VaultSearchService } from "../services/vault-search";
+import { VaultTools } from "../services/vault-tools";
+import { PromptLibrary } from "../services/prompt-library";
 import type { FeedbackAction } from "./feedback";
+import type { EventBus } from "../services/event-bus";
 import { handleError } from "../utils/error-handler";
+import { formatSourcesList } from "../utils/citations";
 
 const moment = (window as any).moment;
 
+type PersonResearchJson = {
+  title?: string;
+  organization?: string;
+  location?: string;
+  bullets: string[];
+};
+
+const PERSON_RESEARCH_SCHEMA: AIJsonSchema = {
+  name: "person_research",
+  schema: {
+    type: "object",
+    properties: {
+      title: { type: "string", description: "Current job title, empty if unknown" },
+      organization: { type: "string", description: "Current company name, empty if unknown" },
+      location: { type: "string", description: "City, empty if unknown" },
+      bullets: {
+        type: "array",
+        description: "1-4 research facts, without bullet markers",
+        items: { type: "string" },
+      },
+    },
+    required: ["bullets"],
+  },
+};
+
 // ============================================================================
 // PersonResearchAction Class
 // ============================================================================
@@ -33,7 +63,10 @@ export class PersonResearchAction {
   private googleServices: GoogleServices;
   private aiService: AIService;
   private vaultSearch: VaultSearchService;
+  private promptLibrary: PromptLibrary;
+  private vaultTools: VaultTools;
   private feedback: FeedbackAction | null = null;
+  private events: EventBus | null = null;
   private inFlight = new Set<string>();
 
   constructor(
@@ -41,13 +74,17 @@ export class PersonResearchAction {
     settings: PluginSettings,
     googleServices: GoogleServices,
     aiService: AIService,
-    vaultSearch: VaultSearchService
+    vaultSearch: VaultSearchService,
+    promptLibrary: PromptLibrary,
+    vaultTools: VaultTools
   ) {
     this.app = app;
     this.settings = settings;
     this.googleServices = googleServices;
     this.aiService = aiService;
     this.vaultSearch = vaultSearch;
+    this.promptLibrary = promptLibrary;
+    this.vaultTools = vaultTools;
   }
 
   /**
@@ -64,6 +101,13 @@ export class PersonResearchAction {
     this.feedback = feedback;
   }
 
+  /**
+   * Set event bus reference
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
   /**
    * Check if feedback dependency is wired
    */
@@ -166,10 +210,11 @@ export class PersonResearchAction {
         const researchData = await this.gatherResearchData(personName, email);
 
         // Generate briefing with Gemini
-        const { briefing, extractedInfo } = await this.generateBriefing(
+        const { briefing, extractedInfo, sources } = await this.generateBriefing(
           personName,
           email,
-          researchData
+          researchData,
+          filePath
         );
 
         // Handle organization linking
@@ -199,12 +244,19 @@ export class PersonResearchAction {
         }
 
         // Update the note
-        await this.updateNoteWithResearch(filePath, briefing, orgResult, email, allInfo);
+        await this.updateNoteWithResearch(filePath, briefing, orgResult, email, allInfo, sources);
 
         // Mark as researched
         await this.updateFrontmatterField(filePath, "researched", "true");
 
         new Notice(`Research complete for ${personName}`);
+        this.events?.emit("research.completed", {
+          kind: "person",
+          name: personName,
+          notePath: filePath,
+          email: email || undefined,
+          organization: orgResult?.name ?? allInfo.organization,
+        });
 
         return {
           success: true,
@@ -303,8 +355,9 @@ export class PersonResearchAction {
     researchData: {
       communicationHistory: GmailMessage[];
       vaultContext: string;
-    }
-  ): Promise<{ briefing: string; extractedInfo: ExtractedPersonInfo }> {
+    },
+    filePath?: string
+  ): Promise<{ briefing: string; extractedInfo: ExtractedPersonInfo; sources: AICitation[] }> {
     // Build communication summary
     let commSummary = "";
     if (researchData.communicationHistory.length > 0) {
@@ -331,102 +384,61 @@ export class PersonResearchAction {
       feedbackContext = await this.feedback.getFeedbackSummary("person");
     }
 
+    // Vault/Gmail tools let the model read the related notes instead of only their names
+    const tools = this.vaultTools.getTools();
+    const toolsHint = tools.length > 0
+      ? "\n\nTools: look up internal context before answering (find_person_by_email, list_meetings_for_person, read_note_section" +
+        (tools.some((tool) => tool.name === "search_gmail") ? ", search_gmail" : "") +
+        "). Use it to understand the relationship; public facts still come from search."
+      : "";
+
     // Build prompt from settings template
-    const prompt = this.settings.prompts.personResearch
-      .replace("{name}", name)
-      .replace("{emailDomain}", email ? `Email domain: ${email.split("@")[1] || ""}` : "")
-      .replace("{vaultHint}", vaultHint)
-      .replace("{commSummary}", commSummary) + feedbackContext;
+    const prompt = (await this.promptLibrary.render("personResearch", {
+      name,
+      email: email || "",
+      emailDomain: email ? `Email domain: ${email.split("@")[1] || ""}` : "",
+      vaultHint,
+      commSummary,
+    })) + feedbackContext + toolsHint;
 
     const cfg = this.settings.generationConfigs?.personResearch;
-    const response = await this.aiService.callModel(
+    const { data: response, citations } = await this.aiService.callModelJsonDetailed<PersonResearchJson>(
       "You are an elite executive research assistant. You dig deep to find specific facts about people - career moves, dates, achievements, numbers. You never pad with generic information.",
       prompt,
       this.settings.models.personResearchModel,
+      PERSON_RESEARCH_SCHEMA,
       {
+        action: "personResearch",
+        notePath: filePath,
+        priority: "background",
         useSearch: true, // Enable Google Search
+        tools,
         temperature: cfg?.temperature,
         thinkingBudget: cfg?.thinkingBudget ?? undefined,
       }
     );
 
-    if (!response) return { briefing: "", extractedInfo: {} };
-
-    // Extract frontmatter info if present
-    const extractedInfo: ExtractedPersonInfo = {};
-    const lines = response.split("\n");
-    const briefingLines: string[] = [];
-    let inFrontmatter = false;
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      
-      // Skip section headers that the model might add despite instructions
-      if (/^[\*\s]*(SECTION|EXTRACTED|INFO|RESEARCH SUMMARY)/i.test(trimmed)) {
-        continue;
-      }
-      
-      // Check for frontmatter fields - handle both clean and malformed formats
-      // Clean: "Title: Partner" 
-      // Malformed: "* *Title:** Partner" or "*Title:** Partner"
-      const titleMatch = trimmed.match(/^[\*\s]*\*?Title\*?\*?:?\*?\*?\s*(.+)$/i);
-      if (titleMatch) {
-        const title = titleMatch[1].trim().replace(/^\*+|\*+$/g, '');
-        if (title && !title.toLowerCase().includes("blank") && title.length > 0) {
-          extractedInfo.title = this.cleanFrontmatterValue(title);
-        }
-        inFrontmatter = true;
-        continue;
-      }
-
-      const orgMatch = trimmed.match(/^[\*\s]*\*?Organization\*?\*?:?\*?\*?\s*(.+)$/i);
-      if (orgMatch) {
-        const org = orgMatch[1].trim().replace(/^\*+|\*+$/g, '');
-        if (org && !org.toLowerCase().includes("blank") && org.length > 0) {
-          extractedInfo.organization = this.cleanFrontmatterValue(org);
-        }
-        inFrontmatter = true;
-        continue;
-      }
-
-      const locationMatch = trimmed.match(/^[\*\s]*\*?Location\*?\*?:?\*?\*?\s*(.+)$/i);
-      if (locationMatch) {
-        const location = locationMatch[1].trim().replace(/^\*+|\*+$/g, '');
-        if (location && !location.toLowerCase().includes("blank") && location.length > 0) {
-          extractedInfo.location = this.cleanFrontmatterValue(location);
-        }
-        inFrontmatter = true;
-        continue;
-      }
-
-      // If we hit an empty line after frontmatter, or a real bullet point (not a metadata line), we're done with frontmatter
-      if (inFrontmatter && (trimmed === "" || (trimmed.startsWith("*") && !trimmed.match(/^[\*\s]*\*?(Title|Organization|Location)/i)))) {
-        inFrontmatter = false;
-      }
-
-      // Add non-frontmatter lines to briefing (only real content bullets)
-      if (!inFrontmatter && trimmed.length > 0 && !trimmed.match(/^[\*\s]*\*?(Title|Organization|Location)\*?\*?:/i)) {
-        briefingLines.push(line);
-      }
+    // Fail instead of writing an empty briefing; the caller removes the indicator and shows why
+    if (!response) {
+      throw this.aiService.getLastError(this.settings.models.personResearchModel) ?? new Error("No usable research response");
     }
 
-    // Format briefing bullets consistently
-    const formattedLines = briefingLines.map((line) => {
-      const trimmed = line.trim();
-      // Convert "- " bullets to "* " for consistency
-      if (trimmed.startsWith("- ")) {
-        return trimmed.replace(/^-\s+/, "* ");
-      }
-      // Ensure "* " format if it's a bullet
-      if (trimmed.startsWith("*") && !trimmed.startsWith("* ")) {
-        return trimmed.replace(/^\*/, "* ");
-      }
-      return line;
-    });
-
-    const briefing = formattedLines.join("\n").trim();
+    const extractedInfo: ExtractedPersonInfo = {};
+    const title = this.cleanFrontmatterValue(response.title || "");
+    const organization = this.cleanFrontmatterValue(response.organization || "");
+    const location = this.cleanFrontmatterValue(response.location || "");
+    if (title) extractedInfo.title = title;
+    if (organization) extractedInfo.organization = organization;
+    if (location) extractedInfo.location = location;
+
+    // Format briefing bullets consistently as "* " bullets
+    const briefing = response.bullets
+      .map((bullet) => bullet.trim().replace(/^[\*\-•]\s*/, ""))
+      .filter((bullet) => bullet.length > 0)
+      .map((bullet) => `* ${bullet}`)
+      .join("\n");
 
-    return { briefing, extractedInfo };
+    return { briefing, extractedInfo, sources: citations };
   }
 
   /**
@@ -517,7 +529,8 @@ researched: false
     briefing: string,
     orgResult: OrgLinkResult | null,
     email: string | undefined,
-    extractedInfo: ExtractedPersonInfo
+    extractedInfo: ExtractedPersonInfo,
+    sources: AICitation[]
   ): Promise<void> {
     const file = this.app.vault.getAbstractFileByPath(filePath);
     if (!file || !(file instanceof TFile)) return;
@@ -613,6 +626,11 @@ researched: false
       const cleanBriefing = this.cleanBriefingText(briefing);
       content += `\n## Research Summary\n${cleanBriefing}\n`;
 
+      // Search results behind the summary, so claims can be checked
+      if (sources.length > 0) {
+        content += `\n## Sources\n${formatSourcesList(sources)}\n`;
+      }
+
       if (orgResult && orgResult.created) {
         content += `\n*Organization [[${orgResult.name}]] was created and researched.*\n`;
       }
@@ -407,6 +407,7 @@ Return only the comma-separated tags, nothing else. Example: ai/agents, leadersh
         prompt,
         model,
         {
+          action: "reference",
           useSearch: false,
           temperature: 0.1,
         }
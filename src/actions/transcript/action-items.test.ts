@@ -0,0 +1,145 @@
+// ============================================================================
+// Action Item Tests
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DEFAULT_SETTINGS } from "../../types/defaults";
+import type { MeetingTranscript, PluginSettings } from "../../types";
+import { createMockApp } from "../../__mocks__/obsidian";
+import { createMockIndexService } from "../../__mocks__/services";
+import type { App } from "obsidian";
+import type { AIService } from "../../services/ai-service";
+import type { IndexService } from "../../services/index-service";
+import type { O3PrepAction } from "../o3-prep";
+import { ActionItemAction } from "./action-items";
+import type { ActionItem } from "./types";
+
+const DAILY_PATH = "Daily notes/2026-10-16.md";
+const NOTE_PATH = "Meetings/Pricing sync ~evt1.md";
+const MEETING_LINK = "[[Meetings/Pricing sync ~evt1|Pricing sync]]";
+
+const TRANSCRIPT: MeetingTranscript = {
+  source: "generic",
+  eventId: "evt1",
+  title: "Pricing sync",
+  description: "",
+  startAt: "2026-10-16T10:00:00Z",
+  endAt: "2026-10-16T10:30:00Z",
+  guests: [{ email: "ann@example.com", displayName: "Ann Lee" }],
+  summary: "",
+  transcript: "**Me:** I'll send the deck by Tuesday.\n**Ann Lee:** I'll check the numbers.",
+};
+
+function item(overrides: Partial<ActionItem> = {}): ActionItem {
+  return { text: "Send the pricing deck", owner: "Me", ownerEmail: "", mine: true, due: "", context: "", ...overrides };
+}
+
+function localDate(offsetDays: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + offsetDays);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map((n) => String(n).padStart(2, "0")).join("-");
+}
+
+function setup(items: ActionItem[], settings: Partial<PluginSettings["actionItems"]> = {}) {
+  const app = createMockApp();
+  app.vault._setFile(DAILY_PATH, `## Meetings\n- ${MEETING_LINK}\n- [[Meetings/Standup ~evt2|Standup]]\n\n## Thoughts\n`);
+  const callModelJson = vi.fn().mockResolvedValue({ items });
+  const indexService = createMockIndexService({
+    findPersonByEmail: vi.fn((email: string) => (email === "ann@example.com" ? "People/Ann Lee.md" : null)),
+  });
+  const o3Prep = { addFollowUp: vi.fn().mockResolvedValue(true) };
+  const action = new ActionItemAction(
+    app as unknown as App,
+    { ...DEFAULT_SETTINGS, actionItems: { enabled: true, myNames: ["Me"], ...settings } },
+    { callModelJson } as unknown as AIService,
+    indexService as unknown as IndexService,
+    o3Prep as unknown as O3PrepAction
+  );
+  return { app, action, callModelJson, o3Prep };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("ActionItemAction", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("adds my commitments as due-dated tasks under the meeting", async () => {
+    const due = localDate(3);
+    const { app, action } = setup([item({ due, context: "pricing review" })]);
+
+    const result = await action.processTranscript(TRANSCRIPT, NOTE_PATH, "evt1");
+
+    expect(result).toEqual({ found: 1, tasksAdded: 1, followUpsAdded: 0, unmatchedOwners: [] });
+    const lines = app.vault._getContent(DAILY_PATH)!.split("\n");
+    expect(lines[1]).toBe(`- ${MEETING_LINK}`);
+    expect(lines[2]).toBe(`\t- [ ] Send the pricing deck — pricing review (${MEETING_LINK}) 📅 ${due}`);
+    expect(lines[3]).toContain("Standup");
+  });
+
+  it("leaves my commitments without an agreed deadline undated", async () => {
+    const { app, action } = setup([item({ due: "" })]);
+
+    await action.processTranscript(TRANSCRIPT, NOTE_PATH, "evt1");
+
+    const lines = app.vault._getContent(DAILY_PATH)!.split("\n");
+    expect(lines[2]).toBe(`\t- [ ] Send the pricing deck (${MEETING_LINK})`);
+  });
+
+  it("adds other people's commitments as O3 follow-ups on their People note", async () => {
+    const { action, o3Prep } = setup([
+      item({ text: "Check the numbers", owner: "Ann Lee", mine: false, due: "2026-10-23" }),
+      item({ text: "Book the venue", owner: "Bob", mine: false }),
+    ]);
+
+    const result = await action.processTranscript(TRANSCRIPT, NOTE_PATH, "evt1");
+
+    expect(o3Prep.addFollowUp).toHaveBeenCalledTimes(1);
+    expect(o3Prep.addFollowUp).toHaveBeenCalledWith(
+      "People/Ann Lee.md",
+      `Check the numbers (${MEETING_LINK}) 📅 2026-10-23`
+    );
+    expect(result).toMatchObject({ found: 2, followUpsAdded: 1, unmatchedOwners: ["Bob"] });
+  });
+
+  it("counts only follow-ups that weren't already on the People note", async () => {
+    const { action, o3Prep } = setup([
+      item({ text: "Check the numbers", owner: "Ann Lee", mine: false }),
+      item({ text: "Send the contract", owner: "Ann Lee", mine: false }),
+    ]);
+    o3Prep.addFollowUp.mockResolvedValueOnce(false);
+
+    const result = await action.processTranscript(TRANSCRIPT, NOTE_PATH, "evt1");
+
+    expect(o3Prep.addFollowUp).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ found: 2, followUpsAdded: 1 });
+  });
+
+  it("treats owners listed in my names as mine and skips tasks already in the note", async () => {
+    const { app, action, o3Prep } = setup([item({ owner: "me@example.com", mine: false })], {
+      myNames: ["me@example.com"],
+    });
+
+    await action.processTranscript(TRANSCRIPT, NOTE_PATH, "evt1");
+    const once = app.vault._getContent(DAILY_PATH);
+    const again = await action.processTranscript(TRANSCRIPT, NOTE_PATH, "evt1");
+
+    expect(o3Prep.addFollowUp).not.toHaveBeenCalled();
+    expect(again?.tasksAdded).toBe(0);
+    expect(app.vault._getContent(DAILY_PATH)).toBe(once);
+  });
+
+  it("does nothing while disabled", async () => {
+    const { action, callModelJson } = setup([item()], { enabled: false });
+
+    expect(await action.processTranscript(TRANSCRIPT, NOTE_PATH, "evt1")).toBeNull();
+    expect(callModelJson).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,290 @@
+// ============================================================================
+// Action Items - Commitments extracted from ingested transcripts
+// ============================================================================
+
+import { App, TFile } from "obsidian";
+import type { PluginSettings, MeetingTranscript, CalendarEvent, InboxItem } from "../../types";
+import type { AIService } from "../../services/ai-service";
+import type { AIJsonSchema } from "../../services/ai-provider";
+import type { IndexService } from "../../services/index-service";
+import type { O3PrepAction } from "../o3-prep";
+import type { InboxRouteDecision } from "../inbox/types";
+import {
+  formatAsMeetingFollowup,
+  insertAfterMeetingLine,
+  findDailyNoteByDate,
+  getDailyNotePath,
+} from "../inbox/formatter";
+import type { ActionItem, ActionItemResult } from "./types";
+
+const moment = (window as any).moment;
+
+/** Transcript text beyond this is cut before extraction */
+const MAX_TRANSCRIPT_CHARS = 60000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ACTION_ITEMS_SCHEMA: AIJsonSchema = {
+  name: "meeting_action_items",
+  schema: {
+    type: "object",
+    properties: {
+      items: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            text: { type: "string", minLength: 1 },
+            owner: { type: "string" },
+            ownerEmail: { type: "string" },
+            mine: { type: "boolean" },
+            due: { type: "string" },
+            context: { type: "string" },
+          },
+          required: ["text", "owner", "ownerEmail", "mine", "due", "context"],
+        },
+      },
+    },
+    required: ["items"],
+  },
+};
+
+// ============================================================================
+// ActionItemAction Class
+// ============================================================================
+
+/**
+ * Action Item Action - Asks the model for the commitments made in a meeting.
+ * Yours become tasks under the meeting in its daily note; other people's
+ * become O3 follow-ups on their People note.
+ */
+export class ActionItemAction {
+  private app: App;
+  private settings: PluginSettings;
+  private aiService: AIService;
+  private indexService: IndexService;
+  private o3Prep: O3PrepAction;
+
+  constructor(
+    app: App,
+    settings: PluginSettings,
+    aiService: AIService,
+    indexService: IndexService,
+    o3Prep: O3PrepAction
+  ) {
+    this.app = app;
+    this.settings = settings;
+    this.aiService = aiService;
+    this.indexService = indexService;
+    this.o3Prep = o3Prep;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Extract commitments from a transcript and file them.
+   * Returns null when extraction is off or the transcript has no text.
+   */
+  async processTranscript(
+    transcript: MeetingTranscript,
+    notePath: string,
+    eventId: string
+  ): Promise<ActionItemResult | null> {
+    if (!this.settings.actionItems.enabled || !transcript.transcript.trim()) {
+      return null;
+    }
+
+    const items = await this.extract(transcript);
+    const result: ActionItemResult = { found: items.length, tasksAdded: 0, followUpsAdded: 0, unmatchedOwners: [] };
+    if (items.length === 0) return result;
+
+    const meetingLink = `[[${notePath.replace(/\.md$/, "")}|${transcript.title || "meeting"}]]`;
+    const mine = items.filter((item) => this.isMine(item));
+    const theirs = items.filter((item) => !this.isMine(item));
+
+    result.tasksAdded = await this.addMyTasks(mine, transcript, eventId, meetingLink);
+
+    for (const item of theirs) {
+      const personPath = this.resolveOwner(item, transcript);
+      if (!personPath) {
+        const owner = item.owner || item.ownerEmail || "unknown";
+        if (!result.unmatchedOwners.includes(owner)) result.unmatchedOwners.push(owner);
+        continue;
+      }
+      if (await this.o3Prep.addFollowUp(personPath, this.formatFollowUp(item, meetingLink))) {
+        result.followUpsAdded++;
+      }
+    }
+
+    console.log(
+      `[Transcript] Action items: ${items.length} found, ${result.tasksAdded} tasks, ${result.followUpsAdded} follow-ups` +
+        (result.unmatchedOwners.length ? ` (no People note for ${result.unmatchedOwners.join(", ")})` : "")
+    );
+    return result;
+  }
+
+  // ============================================================================
+  // Extraction
+  // ============================================================================
+
+  private async extract(transcript: MeetingTranscript): Promise<ActionItem[]> {
+    const meetingDate = moment(transcript.startAt).format("YYYY-MM-DD");
+    const myNames = this.settings.actionItems.myNames;
+
+    const systemPrompt = [
+      "You extract action items from meeting transcripts.",
+      "An action item is a concrete commitment someone made to do something after the meeting.",
+      "Skip vague intentions, past work, and things already done in the meeting.",
+      "For each item give the owner's name as spoken or listed in the guests, and their email when the guest list has it.",
+      "Set mine to true only when the owner is the note owner.",
+      "Set due to an absolute YYYY-MM-DD date when a deadline was agreed (resolve relative dates like \"Friday\" against the meeting date), otherwise \"\".",
+      "Phrase text as a short imperative task without the owner's name, and context as a few words on why it came up.",
+      "Return an empty list when there are no commitments.",
+    ].join("\n");
+
+    const guests = transcript.guests
+      .map((g) => (g.displayName ? `${g.displayName} <${g.email}>` : g.email))
+      .join(", ");
+    const body =
+      transcript.transcript.length > MAX_TRANSCRIPT_CHARS
+        ? transcript.transcript.slice(0, MAX_TRANSCRIPT_CHARS) + "\n[transcript truncated]"
+        : transcript.transcript;
+
+    const userPrompt = [
+      `Meeting: ${transcript.title || "Untitled Meeting"}`,
+      `Date: ${meetingDate}`,
+      guests ? `Guests: ${guests}` : "",
+      `Note owner: ${myNames.length ? myNames.join(", ") : "unknown"}`,
+      transcript.summary ? `Summary: ${transcript.summary}` : "",
+      "Transcript:",
+      body,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const cfg = this.settings.generationConfigs?.actionItems;
+    const parsed = await this.aiService.callModelJson<{ items: ActionItem[] }>(
+      systemPrompt,
+      userPrompt,
+      this.settings.models.actionItemModel,
+      ACTION_ITEMS_SCHEMA,
+      {
+        action: "actionItems",
+        priority: "background",
+        useSearch: false,
+        temperature: cfg?.temperature,
+        thinkingBudget: cfg?.thinkingBudget ?? undefined,
+      }
+    );
+
+    return (parsed?.items || []).filter((item) => item.text.trim());
+  }
+
+  private isMine(item: ActionItem): boolean {
+    if (item.mine) return true;
+    const identities = this.settings.actionItems.myNames.map((name) => name.toLowerCase().trim()).filter(Boolean);
+    return [item.owner, item.ownerEmail].some((value) => identities.includes(value.toLowerCase().trim()));
+  }
+
+  // ============================================================================
+  // Filing
+  // ============================================================================
+
+  /**
+   * Add my commitments as tasks under the meeting in the meeting day's daily
+   * note (today's when that day has none), skipping ones already there
+   */
+  private async addMyTasks(
+    items: ActionItem[],
+    transcript: MeetingTranscript,
+    eventId: string,
+    meetingLink: string
+  ): Promise<number> {
+    if (items.length === 0) return 0;
+
+    const meetingDate = moment(transcript.startAt).format("YYYY-MM-DD");
+    const dailyPath = findDailyNoteByDate(this.app, meetingDate) ?? (await getDailyNotePath(this.app));
+    const file = dailyPath ? this.app.vault.getAbstractFileByPath(dailyPath) : null;
+    if (!(file instanceof TFile)) {
+      console.log(`[Transcript] No daily note for ${meetingDate}, skipping ${items.length} action items`);
+      return 0;
+    }
+
+    const meeting: CalendarEvent = { id: eventId, summary: transcript.title, start: {}, end: {} };
+    let content = await this.app.vault.read(file);
+    let added = 0;
+    for (const item of items) {
+      if (content.includes(item.text.trim())) continue;
+
+      const inboxItem: InboxItem = {
+        content: this.withContext(item, meetingLink),
+        type: "task",
+        source: "webhook",
+        timestamp: new Date().toISOString(),
+        destination: "meeting_followup",
+        meetingContext: meeting,
+      };
+      // Only agreed deadlines get a date; the inbox default would invent one
+      const dated = this.isDate(item.due);
+      const decision: InboxRouteDecision = {
+        destination: "meeting_followup",
+        format: "task",
+        addDueDate: dated,
+        dueDateOffset: dated ? this.getDueDateOffset(item.due) : undefined,
+      };
+      const updated = insertAfterMeetingLine(content, meeting, formatAsMeetingFollowup(inboxItem, decision, this.settings));
+      if (updated === content) continue;
+      content = updated;
+      added++;
+    }
+
+    if (added > 0) {
+      await this.app.vault.modify(file, content);
+    }
+    return added;
+  }
+
+  /**
+   * People note for an owner: by email, then by name, then by the email of
+   * the guest with that name
+   */
+  private resolveOwner(item: ActionItem, transcript: MeetingTranscript): string | null {
+    const byEmail = this.indexService.findPersonByEmail(item.ownerEmail);
+    if (byEmail) return byEmail;
+    const byName = this.indexService.findPersonByName(item.owner);
+    if (byName) return byName;
+
+    const owner = item.owner.toLowerCase().trim();
+    const guest = owner ? transcript.guests.find((g) => g.displayName.toLowerCase().trim() === owner) : undefined;
+    return guest ? this.indexService.findPersonByEmail(guest.email) : null;
+  }
+
+  private formatFollowUp(item: ActionItem, meetingLink: string): string {
+    const text = this.withContext(item, meetingLink);
+    return this.isDate(item.due) ? `${text} ${this.settings.inbox.formatting.dueDateEmoji} ${item.due}` : text;
+  }
+
+  private withContext(item: ActionItem, meetingLink: string): string {
+    const context = item.context.trim();
+    return `${item.text.trim()}${context ? ` — ${context}` : ""} (${meetingLink})`;
+  }
+
+  /**
+   * Days from today until a YYYY-MM-DD due date
+   */
+  private getDueDateOffset(due: string): number {
+    const [year, month, day] = due.split("-").map(Number);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return Math.round((new Date(year, month - 1, day).getTime() - today.getTime()) / DAY_MS);
+  }
+
+  private isDate(value: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value);
+  }
+}
@@ -0,0 +1,171 @@
+// ============================================================================
+// Transcript Adapters Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { getTranscriptAdapter, TRANSCRIPT_ADAPTERS } from "./adapters";
+import { TranscriptPayloadError } from "./types";
+
+function parse(source: keyof typeof TRANSCRIPT_ADAPTERS, body: unknown, query: string = "") {
+  return TRANSCRIPT_ADAPTERS[source].parse({
+    body: typeof body === "string" ? body : JSON.stringify(body),
+    query: new URLSearchParams(query),
+  });
+}
+
+describe("transcript adapters", () => {
+  it("maps Amie payloads", () => {
+    const transcript = parse("amie", {
+      recordingId: "rec_1",
+      title: "Fallback title",
+      shortSummary: "Agreed on pricing",
+      transcript: "Ann: Hello",
+      recordingLink: "https://amie.so/r/1",
+      metadata: {
+        providerCalendarEventId: "evt_1",
+        providerCalendarId: "primary",
+        startAt: "2026-03-02T09:00:00Z",
+        endAt: "2026-03-02T09:30:00Z",
+        title: "Pricing review",
+        description: "Q2 pricing",
+        guests: [{ email: "ann@example.com", displayName: "Ann Lee" }],
+      },
+    });
+
+    expect(transcript).toEqual({
+      source: "amie",
+      eventId: "evt_1",
+      calendarId: "primary",
+      title: "Pricing review",
+      description: "Q2 pricing",
+      startAt: "2026-03-02T09:00:00Z",
+      endAt: "2026-03-02T09:30:00Z",
+      guests: [{ email: "ann@example.com", displayName: "Ann Lee" }],
+      summary: "Agreed on pricing",
+      transcript: "Ann: Hello",
+      recordingId: "rec_1",
+      recordingLink: "https://amie.so/r/1",
+    });
+  });
+
+  it("maps the generic schema with segment arrays and mixed guests", () => {
+    const transcript = parse("generic", {
+      startAt: 1_772_442_000,
+      title: "Hiring sync",
+      guests: ["ann@example.com", { email: "bo@example.com", name: "Bo" }, "Cy"],
+      transcript: [
+        { speaker: "Ann", text: "Two roles open", start: 0 },
+        { speaker: "Bo", text: "Backend first", start: 90 },
+      ],
+    });
+
+    expect(transcript).toMatchObject({
+      source: "generic",
+      eventId: "",
+      title: "Hiring sync",
+      startAt: "2026-03-02T09:00:00.000Z",
+      endAt: "2026-03-02T09:01:30.000Z",
+      guests: [
+        { email: "ann@example.com", displayName: "" },
+        { email: "bo@example.com", displayName: "Bo" },
+        { email: "", displayName: "Cy" },
+      ],
+      transcript: "**[0:00] Ann:** Two roles open\n\n**[1:30] Bo:** Backend first",
+    });
+  });
+
+  it("maps Otter exports", () => {
+    const transcript = parse("otter", {
+      otid: "ot_9",
+      title: "Roadmap",
+      start_time: "2026-03-02T10:00:00Z",
+      summary: "Launch moved",
+      transcripts: [{ speaker_name: "Ann", transcript: "Launch moves to May", start_offset: 65_000 }],
+    });
+
+    expect(transcript).toMatchObject({
+      source: "otter",
+      eventId: "",
+      summary: "Launch moved",
+      recordingId: "ot_9",
+      transcript: "**[1:05] Ann:** Launch moves to May",
+      endAt: "2026-03-02T10:01:05.000Z",
+    });
+  });
+
+  it("maps Fireflies transcripts wrapped in a GraphQL response", () => {
+    const transcript = parse("fireflies", {
+      data: {
+        transcript: {
+          id: "ff_1",
+          title: "Budget",
+          date: 1_772_442_000_000,
+          duration: 30,
+          cal_id: "evt_2",
+          meeting_attendees: [{ displayName: "Ann", email: "ann@example.com" }],
+          summary: { short_summary: "Budget approved", overview: "Reviewed the Q2 budget" },
+          sentences: [{ speaker_name: "Ann", text: "Approved", start_time: 12.4 }],
+          transcript_url: "https://app.fireflies.ai/view/ff_1",
+        },
+      },
+    });
+
+    expect(transcript).toMatchObject({
+      source: "fireflies",
+      eventId: "evt_2",
+      description: "Reviewed the Q2 budget",
+      startAt: "2026-03-02T09:00:00.000Z",
+      endAt: "2026-03-02T09:30:00.000Z",
+      summary: "Budget approved",
+      transcript: "**[0:12] Ann:** Approved",
+      recordingLink: "https://app.fireflies.ai/view/ff_1",
+    });
+  });
+
+  it("maps tl;dv exports", () => {
+    const transcript = parse("tldv", {
+      data: {
+        id: "tl_1",
+        name: "Launch",
+        happenedAt: "2026-03-02T11:00:00Z",
+        duration: 600,
+        url: "https://tldv.io/app/meetings/tl_1",
+        invitees: [{ name: "Bo", email: "bo@example.com" }],
+        transcript: [{ speaker: "Bo", text: "Ship it", startTime: 5 }],
+      },
+    });
+
+    expect(transcript).toMatchObject({
+      source: "tldv",
+      title: "Launch",
+      endAt: "2026-03-02T11:10:00.000Z",
+      guests: [{ email: "bo@example.com", displayName: "Bo" }],
+      transcript: "**[0:05] Bo:** Ship it",
+    });
+  });
+
+  it("takes SRT meeting details from the query string", () => {
+    const srt = "1\n00:00:01,000 --> 00:00:02,000\nAnn: Hi\n";
+    const transcript = parse("srt", srt, "title=1%3A1&start=2026-03-02T09:00:00Z&eventId=evt_3");
+
+    expect(transcript).toMatchObject({
+      source: "srt",
+      eventId: "evt_3",
+      title: "1:1",
+      endAt: "2026-03-02T09:00:02.000Z",
+      transcript: "**[0:01] Ann:** Hi",
+    });
+  });
+
+  it("rejects unusable payloads", () => {
+    expect(() => parse("generic", "{")).toThrow(TranscriptPayloadError);
+    expect(() => parse("generic", { transcript: "x" })).toThrow("Missing or invalid field: startAt");
+    expect(() => parse("otter", { start_time: "2026-03-02T10:00:00Z", transcripts: [] })).toThrow("Missing transcript");
+    expect(() => parse("vtt", "WEBVTT\n\nno cues")).toThrow("No WebVTT cues found in body");
+  });
+
+  it("looks adapters up by route segment", () => {
+    expect(getTranscriptAdapter("fireflies")?.label).toBe("Fireflies");
+    expect(getTranscriptAdapter("toString")).toBeNull();
+  });
+});
@@ -0,0 +1,367 @@
+// ============================================================================
+// Transcript Adapters - Normalize webhook payloads from transcript senders
+// ============================================================================
+
+import type { AmieWebhookPayload, MeetingTranscript, TranscriptGuest, TranscriptSource } from "../../types";
+import { formatSegments, parseSubtitles } from "./segments";
+import {
+  TranscriptPayloadError,
+  type TranscriptAdapter,
+  type TranscriptSegment,
+} from "./types";
+
+type JsonObject = Record<string, unknown>;
+
+// ============================================================================
+// Amie
+// ============================================================================
+
+/**
+ * Amie recording payloads (delivered through QStash)
+ */
+const amieAdapter: TranscriptAdapter = {
+  source: "amie",
+  label: "Amie",
+  parse({ body }) {
+    const payload = parseJson(body) as unknown as AmieWebhookPayload;
+    if (!payload.metadata?.providerCalendarEventId || !payload.transcript) {
+      throw new TranscriptPayloadError("Missing required fields: metadata.providerCalendarEventId, transcript");
+    }
+
+    const { metadata } = payload;
+    return {
+      source: "amie",
+      eventId: metadata.providerCalendarEventId,
+      calendarId: metadata.providerCalendarId,
+      title: metadata.title || payload.title || "",
+      description: metadata.description || "",
+      startAt: metadata.startAt,
+      endAt: metadata.endAt,
+      guests: toGuests(metadata.guests),
+      summary: payload.shortSummary || "",
+      transcript: payload.transcript,
+      recordingId: payload.recordingId || undefined,
+      recordingLink: payload.recordingLink || undefined,
+    };
+  },
+};
+
+// ============================================================================
+// Generic JSON
+// ============================================================================
+
+/**
+ * The plugin's own schema for senders without an adapter:
+ * `{ startAt, transcript, eventId?, calendarId?, title?, description?, endAt?,
+ *    guests?, summary?, recordingId?, recordingLink? }` where `transcript` is
+ * markdown or `[{ speaker, text, start? }]` (start in seconds) and `guests` are
+ * emails or `{ email, name }`
+ */
+const genericAdapter: TranscriptAdapter = {
+  source: "generic",
+  label: "Generic JSON",
+  parse({ body }) {
+    const payload = parseJson(body);
+    const startAt = toIsoDate(payload.startAt);
+    if (!startAt) throw new TranscriptPayloadError("Missing or invalid field: startAt");
+
+    const segments = toSegments(payload.transcript, { speaker: ["speaker"], text: ["text"], start: ["start"] });
+    const transcript = Array.isArray(payload.transcript) ? formatSegments(segments) : asString(payload.transcript);
+
+    return {
+      source: "generic",
+      eventId: asString(payload.eventId),
+      calendarId: asString(payload.calendarId) || undefined,
+      title: asString(payload.title),
+      description: asString(payload.description),
+      startAt,
+      endAt: toIsoDate(payload.endAt) || addSeconds(startAt, lastStart(segments)),
+      guests: toGuests(payload.guests),
+      summary: asString(payload.summary),
+      transcript: requireTranscript(transcript),
+      recordingId: asString(payload.recordingId) || undefined,
+      recordingLink: asString(payload.recordingLink) || undefined,
+    };
+  },
+};
+
+// ============================================================================
+// WebVTT / SRT
+// ============================================================================
+
+/**
+ * Subtitle file uploads: the body is the file, meeting details come from query
+ * parameters (`title`, `start`, `end`, `eventId`, `guests` as comma-separated
+ * emails, `recordingLink`). Without `start` the meeting is assumed to have just ended.
+ */
+function subtitleAdapter(source: "vtt" | "srt", label: string): TranscriptAdapter {
+  return {
+    source,
+    label,
+    parse({ body, query }) {
+      const { segments, durationSeconds } = parseSubtitles(body);
+      if (segments.length === 0) throw new TranscriptPayloadError(`No ${label} cues found in body`);
+
+      const start = query.get("start");
+      const startAt = start
+        ? toIsoDate(start)
+        : new Date(Date.now() - durationSeconds * 1000).toISOString();
+      if (!startAt) throw new TranscriptPayloadError("Invalid query parameter: start");
+
+      return {
+        source,
+        eventId: query.get("eventId") || "",
+        title: query.get("title") || "",
+        description: "",
+        startAt,
+        endAt: toIsoDate(query.get("end")) || addSeconds(startAt, durationSeconds),
+        guests: toGuests((query.get("guests") || "").split(",")),
+        summary: "",
+        transcript: formatSegments(segments),
+        recordingLink: query.get("recordingLink") || undefined,
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Otter
+// ============================================================================
+
+/**
+ * Otter-style exports: `{ otid|id, title, start_time, end_time, summary,
+ * attendees, transcripts: [{ speaker_name, transcript, start_offset (ms) }] }`
+ */
+const otterAdapter: TranscriptAdapter = {
+  source: "otter",
+  label: "Otter",
+  parse({ body }) {
+    const payload = parseJson(body);
+    const startAt = toIsoDate(payload.start_time ?? payload.created_at);
+    if (!startAt) throw new TranscriptPayloadError("Missing or invalid field: start_time");
+
+    const segments = toSegments(
+      payload.transcripts ?? payload.transcript,
+      { speaker: ["speaker_name", "speaker"], text: ["transcript", "text"], start: ["start_offset"] },
+      1000
+    );
+    const id = asString(payload.otid ?? payload.id);
+
+    return {
+      source: "otter",
+      eventId: asString(payload.calendar_event_id),
+      title: asString(payload.title),
+      description: "",
+      startAt,
+      endAt: toIsoDate(payload.end_time) || addSeconds(startAt, lastStart(segments)),
+      guests: toGuests(payload.attendees ?? payload.calendar_guests),
+      summary: asString(payload.summary ?? payload.abstract_summary),
+      transcript: requireTranscript(formatSegments(segments)),
+      recordingId: id || undefined,
+      recordingLink: asString(payload.url) || undefined,
+    };
+  },
+};
+
+// ============================================================================
+// Fireflies
+// ============================================================================
+
+/**
+ * Fireflies transcript objects (as returned by its GraphQL API, bare or wrapped
+ * in `{ data: { transcript } }`): `{ id, title, date (ms), duration (minutes),
+ * cal_id, meeting_attendees, participants, summary: { short_summary, overview },
+ * sentences: [{ speaker_name, text, start_time (s) }], transcript_url }`
+ */
+const firefliesAdapter: TranscriptAdapter = {
+  source: "fireflies",
+  label: "Fireflies",
+  parse({ body }) {
+    const parsed = parseJson(body);
+    const payload = asObject(asObject(parsed.data)?.transcript) ?? parsed;
+    const startAt = toIsoDate(payload.date ?? payload.dateString);
+    if (!startAt) throw new TranscriptPayloadError("Missing or invalid field: date");
+
+    const segments = toSegments(payload.sentences, {
+      speaker: ["speaker_name"],
+      text: ["text", "raw_text"],
+      start: ["start_time"],
+    });
+    const duration = Number(payload.duration);
+    const summary = asObject(payload.summary) ?? {};
+    const attendees = Array.isArray(payload.meeting_attendees) ? payload.meeting_attendees : payload.participants;
+
+    return {
+      source: "fireflies",
+      eventId: asString(payload.cal_id ?? payload.calendar_id),
+      title: asString(payload.title),
+      description: asString(summary.overview),
+      startAt,
+      endAt: Number.isFinite(duration) && duration > 0
+        ? addSeconds(startAt, duration * 60)
+        : addSeconds(startAt, lastStart(segments)),
+      guests: toGuests(attendees),
+      summary: asString(summary.short_summary ?? summary.gist),
+      transcript: requireTranscript(formatSegments(segments)),
+      recordingId: asString(payload.id) || undefined,
+      recordingLink: asString(payload.transcript_url) || undefined,
+    };
+  },
+};
+
+// ============================================================================
+// tl;dv
+// ============================================================================
+
+/**
+ * tl;dv-style meeting exports, bare or wrapped in `{ data }`: `{ id, name,
+ * happenedAt, duration (s), url, invitees: [{ name, email }],
+ * transcript|data: [{ speaker, text, startTime (s) }] }`
+ */
+const tldvAdapter: TranscriptAdapter = {
+  source: "tldv",
+  label: "tl;dv",
+  parse({ body }) {
+    const parsed = parseJson(body);
+    const payload = asObject(parsed.data) ?? parsed;
+    const startAt = toIsoDate(payload.happenedAt);
+    if (!startAt) throw new TranscriptPayloadError("Missing or invalid field: happenedAt");
+
+    const segments = toSegments(payload.transcript ?? payload.data, {
+      speaker: ["speaker"],
+      text: ["text"],
+      start: ["startTime"],
+    });
+    const duration = Number(payload.duration);
+
+    return {
+      source: "tldv",
+      eventId: asString(asObject(payload.extraProperties)?.calendarEventId),
+      title: asString(payload.name),
+      description: "",
+      startAt,
+      endAt: addSeconds(startAt, Number.isFinite(duration) && duration > 0 ? duration : lastStart(segments)),
+      guests: toGuests(payload.invitees),
+      summary: "",
+      transcript: requireTranscript(formatSegments(segments)),
+      recordingId: asString(payload.id) || undefined,
+      recordingLink: asString(payload.url) || undefined,
+    };
+  },
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const TRANSCRIPT_ADAPTERS: Record<TranscriptSource, TranscriptAdapter> = {
+  amie: amieAdapter,
+  generic: genericAdapter,
+  vtt: subtitleAdapter("vtt", "WebVTT"),
+  srt: subtitleAdapter("srt", "SRT"),
+  otter: otterAdapter,
+  fireflies: firefliesAdapter,
+  tldv: tldvAdapter,
+};
+
+/**
+ * Adapter for a `/webhook/<source>` path segment
+ */
+export function getTranscriptAdapter(source: string): TranscriptAdapter | null {
+  return Object.prototype.hasOwnProperty.call(TRANSCRIPT_ADAPTERS, source)
+    ? TRANSCRIPT_ADAPTERS[source as TranscriptSource]
+    : null;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+function parseJson(body: string): JsonObject {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new TranscriptPayloadError("Invalid JSON body");
+  }
+  const object = asObject(parsed);
+  if (!object) throw new TranscriptPayloadError("Expected a JSON object");
+  return object;
+}
+
+function asObject(value: unknown): JsonObject | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as JsonObject) : null;
+}
+
+function asString(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return "";
+}
+
+/**
+ * ISO 8601 from an ISO string or a Unix timestamp (seconds or milliseconds), or "" when invalid
+ */
+function toIsoDate(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "";
+  const numeric = typeof value === "number" ? value : /^\d+(\.\d+)?$/.test(String(value)) ? Number(value) : NaN;
+  const time = Number.isFinite(numeric)
+    ? numeric < 1e12 ? numeric * 1000 : numeric
+    : Date.parse(String(value));
+  return Number.isFinite(time) ? new Date(time).toISOString() : "";
+}
+
+function addSeconds(iso: string, seconds: number): string {
+  return new Date(Date.parse(iso) + Math.max(0, seconds) * 1000).toISOString();
+}
+
+/**
+ * Guests from emails or `{ email, displayName|name }` objects (entries with neither are dropped)
+ */
+function toGuests(value: unknown): TranscriptGuest[] {
+  if (!Array.isArray(value)) return [];
+  const guests: TranscriptGuest[] = [];
+  for (const entry of value) {
+    const object = asObject(entry);
+    const raw = object ? asString(object.email) : asString(entry);
+    const email = raw.includes("@") ? raw : "";
+    const displayName = object ? asString(object.displayName ?? object.name) : raw && !email ? raw : "";
+    if (email || displayName) guests.push({ email, displayName });
+  }
+  return guests;
+}
+
+/**
+ * Segments from an array of objects, reading the first present field of each kind
+ * @param startDivisor Divides the start field into seconds (1000 for milliseconds)
+ */
+function toSegments(
+  value: unknown,
+  fields: { speaker: string[]; text: string[]; start: string[] },
+  startDivisor: number = 1
+): TranscriptSegment[] {
+  if (!Array.isArray(value)) return [];
+  const pick = (object: JsonObject, keys: string[]) => keys.map((key) => object[key]).find((v) => v !== undefined);
+
+  return value.flatMap((entry) => {
+    const object = asObject(entry);
+    if (!object) return [];
+    const text = asString(pick(object, fields.text));
+    if (!text) return [];
+    const start = Number(pick(object, fields.start));
+    return [{
+      speaker: asString(pick(object, fields.speaker)),
+      text,
+      startSeconds: Number.isFinite(start) ? start / startDivisor : undefined,
+    }];
+  });
+}
+
+function lastStart(segments: TranscriptSegment[]): number {
+  return segments[segments.length - 1]?.startSeconds ?? 0;
+}
+
+function requireTranscript(transcript: string): string {
+  if (!transcript.trim()) throw new TranscriptPayloadError("Missing transcript");
+  return transcript;
+}
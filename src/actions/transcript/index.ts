@@ -0,0 +1,29 @@
+// ============================================================================
+// Transcript Module - Re-exports for convenient imports
+// ============================================================================
+
+// Main action class
+export { TranscriptAction } from "./transcript-action";
+export { ActionItemAction } from "./action-items";
+export { SpeakerMapAction } from "./speakers";
+
+// Types
+export { TranscriptPayloadError } from "./types";
+export type {
+  TranscriptResult,
+  TranscriptRequest,
+  TranscriptAdapter,
+  TranscriptSegment,
+  ActionItem,
+  ActionItemResult,
+  SpeakerLine,
+  SpeakerMatchSource,
+  TranscriptSpeaker,
+  SpeakerMapping,
+} from "./types";
+
+// Adapters
+export { TRANSCRIPT_ADAPTERS, getTranscriptAdapter } from "./adapters";
+
+// Segments
+export { parseSubtitles, parseSpeakerLine, formatSegments, formatSpeakerLine, formatOffset } from "./segments";
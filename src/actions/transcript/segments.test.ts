@@ -0,0 +1,75 @@
+// ============================================================================
+// Transcript Segments Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { formatOffset, formatSegments, formatSpeakerLine, parseSpeakerLine, parseSubtitles } from "./segments";
+
+describe("parseSubtitles", () => {
+  it("reads WebVTT cues with voice tags and skips header and note blocks", () => {
+    const vtt = [
+      "WEBVTT - Weekly sync",
+      "",
+      "NOTE exported by the recorder",
+      "",
+      "intro",
+      "00:00:01.500 --> 00:00:04.000 align:start",
+      "<v.loud Ann Lee>Welcome &amp; thanks</v>",
+      "",
+      "00:04.000 --> 00:06.250",
+      "for joining",
+    ].join("\n");
+
+    expect(parseSubtitles(vtt)).toEqual({
+      segments: [
+        { speaker: "Ann Lee", text: "Welcome & thanks", startSeconds: 1.5 },
+        { speaker: "Ann Lee", text: "for joining", startSeconds: 4 },
+      ],
+      durationSeconds: 6.25,
+    });
+  });
+
+  it("reads SRT cues with speaker prefixes and CRLF line endings", () => {
+    const srt = "1\r\n00:00:02,000 --> 00:00:05,000\r\nBo: Can everyone\r\nhear me?\r\n\r\n2\r\n01:00:00,000 --> 01:00:03,500\r\n<i>Yes</i>\r\n";
+
+    expect(parseSubtitles(srt)).toEqual({
+      segments: [
+        { speaker: "Bo", text: "Can everyone hear me?", startSeconds: 2 },
+        { speaker: "Bo", text: "Yes", startSeconds: 3600 },
+      ],
+      durationSeconds: 3603.5,
+    });
+  });
+});
+
+describe("formatSegments", () => {
+  it("merges consecutive segments by the same speaker", () => {
+    expect(
+      formatSegments([
+        { speaker: "Ann", text: "Hi", startSeconds: 1 },
+        { speaker: "Ann", text: "all", startSeconds: 2 },
+        { speaker: "Bo", text: "Hello", startSeconds: 3725 },
+        { speaker: "", text: "(inaudible)" },
+      ])
+    ).toBe("**[0:01] Ann:** Hi all\n\n**[1:02:05] Bo:** Hello\n\n(inaudible)");
+  });
+
+  it("formats offsets past the hour", () => {
+    expect(formatOffset(59.9)).toBe("0:59");
+    expect(formatOffset(3600)).toBe("1:00:00");
+  });
+});
+
+describe("parseSpeakerLine", () => {
+  it("reads formatted and plain speaker lines and writes them back with a new label", () => {
+    const bold = parseSpeakerLine("**[1:02] Ann:** Hi all");
+    expect(bold).toEqual({ speaker: "Ann", text: "Hi all", time: "[1:02]", bold: true });
+    expect(formatSpeakerLine(bold!, "[[People/Ann Lee|Ann]]")).toBe("**[1:02] [[People/Ann Lee|Ann]]:** Hi all");
+
+    const plain = parseSpeakerLine("Bo Diaz: Hello");
+    expect(plain).toEqual({ speaker: "Bo Diaz", text: "Hello", time: "", bold: false });
+    expect(formatSpeakerLine(plain!, "Bo")).toBe("Bo: Hello");
+
+    expect(parseSpeakerLine("(inaudible)")).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+// ============================================================================
+// Transcript Segments - Subtitle parsing and segment formatting
+// ============================================================================
+
+import type { SpeakerLine, TranscriptSegment } from "./types";
+
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const VOICE_TAG = /^<v(?:\.[\w.-]+)?\s+([^>]+)>/;
+const SPEAKER_PREFIX = /^([A-Z][\w.'-]*(?: [A-Z][\w.'-]*){0,3}):\s+(.+)$/;
+const BOLD_SPEAKER = /^\*\*(\[[\d:]+\] )?([^*]+?):\*\*\s*(.*)$/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse WebVTT or SRT cues into segments. Speakers come from WebVTT `<v Name>`
+ * tags or a leading `Name:`; cues without one continue the previous speaker.
+ *
+ * @returns Segments and the end of the last cue in seconds
+ */
+export function parseSubtitles(text: string): { segments: TranscriptSegment[]; durationSeconds: number } {
+  const segments: TranscriptSegment[] = [];
+  let durationSeconds = 0;
+  let speaker = "";
+
+  const blocks = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n{2,}/);
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE and REGION blocks
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    durationSeconds = Math.max(durationSeconds, parseTimestamp(end));
+
+    let cue = lines.slice(timingIndex + 1).join(" ").trim();
+    const voice = cue.match(VOICE_TAG);
+    if (voice) speaker = voice[1].trim();
+    cue = cue.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+    const prefixed = voice ? null : cue.match(SPEAKER_PREFIX);
+    if (prefixed) {
+      speaker = prefixed[1];
+      cue = prefixed[2];
+    }
+    if (!cue) continue;
+
+    segments.push({ speaker, text: decodeEntities(cue), startSeconds: parseTimestamp(start) });
+  }
+
+  return { segments, durationSeconds };
+}
+
+/**
+ * Split a markdown transcript line into its speaker label and text. Reads
+ * formatSegments output (`**[1:02] Ann:** text`) and plain `Ann: text` lines.
+ */
+export function parseSpeakerLine(line: string): SpeakerLine | null {
+  const bold = line.match(BOLD_SPEAKER);
+  if (bold) {
+    return { speaker: bold[2].trim(), text: bold[3], time: bold[1]?.trim() ?? "", bold: true };
+  }
+  const plain = line.match(SPEAKER_PREFIX);
+  if (plain) {
+    return { speaker: plain[1], text: plain[2], time: "", bold: false };
+  }
+  return null;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Render segments as markdown paragraphs, merging consecutive segments by the
+ * same speaker: `**[1:02] Ann:** text`
+ */
+export function formatSegments(segments: TranscriptSegment[]): string {
+  const paragraphs: Array<TranscriptSegment & { parts: string[] }> = [];
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.parts.push(text);
+    } else {
+      paragraphs.push({ ...segment, parts: [text] });
+    }
+  }
+
+  return paragraphs
+    .map(({ speaker, startSeconds, parts }) => {
+      const time = startSeconds !== undefined ? `[${formatOffset(startSeconds)}] ` : "";
+      const label = speaker || time ? `**${time}${speaker || "Unknown"}:** ` : "";
+      return label + parts.join(" ");
+    })
+    .join("\n\n");
+}
+
+/**
+ * Render a parsed line back in its original style with a new speaker label
+ */
+export function formatSpeakerLine(line: SpeakerLine, speaker: string): string {
+  if (!line.bold) return `${speaker}: ${line.text}`;
+  const time = line.time ? `${line.time} ` : "";
+  return `**${time}${speaker}:**${line.text ? ` ${line.text}` : ""}`;
+}
+
+/**
+ * `m:ss`, or `h:mm:ss` past the hour
+ */
+export function formatOffset(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * `hh:mm:ss.ttt`, `mm:ss.ttt` or SRT's `hh:mm:ss,ttt` in seconds
+ */
+function parseTimestamp(value: string): number {
+  const [clock, fraction = "0"] = value.replace(",", ".").split(".");
+  const seconds = clock.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
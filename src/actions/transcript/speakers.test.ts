@@ -0,0 +1,178 @@
+// ============================================================================
+// Speaker Mapping Tests
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DEFAULT_SETTINGS } from "../../types/defaults";
+import type { MeetingTranscript, PluginSettings } from "../../types";
+import { createMockApp } from "../../__mocks__/obsidian";
+import { createMockIndexService } from "../../__mocks__/services";
+import type { App } from "obsidian";
+import type { IndexService } from "../../services/index-service";
+import { SpeakerAliasTable, type SpeakerAliasStorage } from "../../services/speaker-aliases";
+import { SpeakerMapAction } from "./speakers";
+
+const NOTE_PATH = "Meetings/Pricing sync ~evt1.md";
+
+const PEOPLE: Record<string, string> = {
+  "ann@example.com": "People/Ann Lee.md",
+  "jpark@example.com": "People/Jonathan Park.md",
+};
+
+function transcript(body: string, overrides: Partial<MeetingTranscript> = {}): MeetingTranscript {
+  return {
+    source: "generic",
+    eventId: "evt1",
+    title: "Pricing sync",
+    description: "",
+    startAt: "2026-10-16T10:00:00Z",
+    endAt: "2026-10-16T10:30:00Z",
+    guests: [
+      { email: "ann@example.com", displayName: "Ann Lee" },
+      { email: "jpark@example.com", displayName: "Jonathan Park" },
+      { email: "me@example.com", displayName: "Me Myself" },
+    ],
+    summary: "",
+    transcript: body,
+    ...overrides,
+  };
+}
+
+function memoryStorage(files: Map<string, string> = new Map()): SpeakerAliasStorage {
+  return {
+    exists: async (path: string) => files.has(path),
+    read: async (path: string) => files.get(path) ?? "",
+    write: async (path: string, data: string) => {
+      files.set(path, data);
+    },
+  };
+}
+
+function setup(speakers: Partial<PluginSettings["transcriptSpeakers"]> = {}) {
+  const app = createMockApp();
+  for (const path of Object.values(PEOPLE)) app.vault._setFile(path, "# Person\n");
+  app.vault._setFile(NOTE_PATH, "# Pricing sync\n\n## Transcript\n\n...");
+  const files = new Map<string, string>();
+  const aliases = new SpeakerAliasTable(memoryStorage(files), "speaker-aliases.json");
+  const indexService = createMockIndexService({
+    findPersonByEmail: vi.fn((email: string) => PEOPLE[email] ?? null),
+  });
+  const settings: PluginSettings = {
+    ...DEFAULT_SETTINGS,
+    actionItems: { ...DEFAULT_SETTINGS.actionItems, myNames: ["Me Myself"] },
+    transcriptSpeakers: { ...DEFAULT_SETTINGS.transcriptSpeakers, ...speakers },
+  };
+  const mapper = new SpeakerMapAction(app as unknown as App, settings, indexService as unknown as IndexService, aliases);
+  return { app, aliases, files, mapper };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("SpeakerMapAction", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("links speakers matched by guest name, first name and email name", async () => {
+    const { mapper } = setup();
+    const body = [
+      "**[0:00] Ann Lee:** Morning.",
+      "",
+      "**[0:05] jpark:** Hi all.",
+      "",
+      "**[0:09] Me Myself:** Let's start.",
+      "",
+      "**[0:12] Jonathan:** Pricing first.",
+    ].join("\n");
+
+    const { transcript: mapped, speakers } = await mapper.mapSpeakers(transcript(body));
+
+    expect(mapped.transcript.split("\n\n")).toEqual([
+      "**[0:00] [[People/Ann Lee|Ann Lee]]:** Morning.",
+      "**[0:05] [[People/Jonathan Park|jpark]]:** Hi all.",
+      "**[0:09] Me Myself:** Let's start.",
+      "**[0:12] [[People/Jonathan Park|Jonathan]]:** Pricing first.",
+    ]);
+    expect(speakers.map((s) => [s.label, s.via])).toEqual([
+      ["Ann Lee", "guest"],
+      ["jpark", "guest"],
+      ["Me Myself", null],
+      ["Jonathan", "first-name"],
+    ]);
+  });
+
+  it("pairs the one leftover speaker with the one unclaimed guest and learns the alias", async () => {
+    const { mapper, aliases, files } = setup();
+
+    const first = await mapper.mapSpeakers(transcript("**Ann Lee:** Hi.\n\n**Jon:** Numbers are in."));
+    expect(first.speakers[1]).toMatchObject({ label: "Jon", personPath: "People/Jonathan Park.md", via: "elimination" });
+    expect(aliases.get("jon")).toBe("People/Jonathan Park.md");
+    expect(JSON.parse(files.get("speaker-aliases.json")!).aliases.jon.personPath).toBe("People/Jonathan Park.md");
+
+    // Next time the guest list doesn't help, the alias does
+    const second = await mapper.mapSpeakers(transcript("Jon: Quick one.", { guests: [] }));
+    expect(second.transcript.transcript).toBe("[[People/Jonathan Park|Jon]]: Quick one.");
+    expect(second.speakers[0].via).toBe("alias");
+  });
+
+  it("never learns generic labels", async () => {
+    const { mapper, aliases } = setup();
+
+    const { speakers } = await mapper.mapSpeakers(transcript("**Ann Lee:** Hi.\n\n**Speaker 2:** Hello."));
+
+    expect(speakers[1].personPath).toBeNull();
+    expect(aliases.getAll()).toEqual({});
+  });
+
+  it("adds a what-they-said section above the meeting note's transcript once", async () => {
+    const { app, mapper } = setup();
+    const incoming = transcript("**Ann Lee:** Short.\n\n**Ann Lee:** We should raise prices in Q1.");
+    const { transcript: mapped, speakers } = await mapper.mapSpeakers(incoming);
+
+    expect(await mapper.addExcerpts(mapped, NOTE_PATH, speakers)).toBe(1);
+    expect(await mapper.addExcerpts(mapped, NOTE_PATH, speakers)).toBe(0);
+
+    expect(app.vault._getContent(NOTE_PATH)).toBe(
+      [
+        "# Pricing sync",
+        "",
+        "## What they said",
+        "",
+        "### [[People/Ann Lee|Ann Lee]]",
+        "- Short.",
+        "- We should raise prices in Q1.",
+        "",
+        "## Transcript",
+        "",
+        "...",
+      ].join("\n")
+    );
+  });
+
+  it("adds excerpts to People notes when configured", async () => {
+    const { app, mapper } = setup({ excerpts: "person" });
+    const { transcript: mapped, speakers } = await mapper.mapSpeakers(transcript("**Ann Lee:** Ship it."));
+
+    await mapper.addExcerpts(mapped, NOTE_PATH, speakers);
+    await mapper.addExcerpts(mapped, NOTE_PATH, speakers);
+
+    expect(app.vault._getContent("People/Ann Lee.md")).toBe(
+      "# Person\n\n## What they said\n\n### 2026-10-16 [[Meetings/Pricing sync ~evt1|Pricing sync]]\n- Ship it.\n"
+    );
+  });
+
+  it("leaves the transcript alone while disabled", async () => {
+    const { mapper } = setup({ enabled: false });
+    const incoming = transcript("**Ann Lee:** Hi.");
+
+    const { transcript: mapped } = await mapper.mapSpeakers(incoming);
+
+    expect(mapped).toBe(incoming);
+  });
+});
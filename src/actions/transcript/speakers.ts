@@ -0,0 +1,288 @@
+// ============================================================================
+// Speakers - Map transcript speaker labels to People notes
+// ============================================================================
+
+import { App, TFile } from "obsidian";
+import type { PluginSettings, MeetingTranscript, TranscriptGuest } from "../../types";
+import type { IndexService } from "../../services/index-service";
+import type { SpeakerAliasTable } from "../../services/speaker-aliases";
+import { parseSpeakerLine, formatSpeakerLine } from "./segments";
+import type { SpeakerMapping, SpeakerMatchSource, TranscriptSpeaker } from "./types";
+
+const moment = (window as any).moment;
+
+const EXCERPT_HEADING = "## What they said";
+const MAX_EXCERPT_UTTERANCES = 3;
+const MAX_EXCERPT_CHARS = 280;
+
+/** Labels transcribers give unidentified voices; these change meaning per meeting, so they're never learned */
+const GENERIC_LABEL = /^(speaker|unknown|participant|guest|attendee)\b/i;
+
+// ============================================================================
+// SpeakerMapAction Class
+// ============================================================================
+
+/**
+ * Speaker Map Action - Ties transcript speaker labels to People notes: guest
+ * names and emails first, then a unique first name among the guests, learned
+ * aliases, and People note names. When exactly one label and one guest are
+ * left over they're paired, and that pairing is learned for next time.
+ */
+export class SpeakerMapAction {
+  private app: App;
+  private settings: PluginSettings;
+  private indexService: IndexService;
+  private aliases: SpeakerAliasTable;
+
+  constructor(app: App, settings: PluginSettings, indexService: IndexService, aliases: SpeakerAliasTable) {
+    this.app = app;
+    this.settings = settings;
+    this.indexService = indexService;
+    this.aliases = aliases;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Resolve the transcript's speakers and rewrite resolved labels as People links
+   */
+  async mapSpeakers(transcript: MeetingTranscript): Promise<SpeakerMapping> {
+    const speakers = this.collectSpeakers(transcript.transcript);
+    if (!this.settings.transcriptSpeakers.enabled || speakers.length === 0) {
+      return { transcript, speakers };
+    }
+
+    for (const speaker of speakers) {
+      const match = this.resolve(speaker.label, transcript.guests);
+      if (match) {
+        speaker.personPath = match.personPath;
+        speaker.via = match.via;
+      }
+    }
+    await this.pairLeftovers(speakers, transcript.guests);
+
+    const byLabel = new Map(speakers.map((speaker) => [speaker.label, speaker]));
+    const lines = transcript.transcript.split("\n").map((line) => {
+      const parsed = parseSpeakerLine(line);
+      const personPath = parsed ? byLabel.get(parsed.speaker)?.personPath : null;
+      return parsed && personPath ? formatSpeakerLine(parsed, this.link(personPath, parsed.speaker)) : line;
+    });
+
+    const linked = speakers.filter((speaker) => speaker.personPath);
+    console.log(`[Transcript] Linked ${linked.length} of ${speakers.length} speakers to People notes`);
+    return { transcript: { ...transcript, transcript: lines.join("\n") }, speakers };
+  }
+
+  /**
+   * Write "what they said" excerpts for linked speakers to the meeting note or
+   * their People notes (skipping notes that already have this meeting's)
+   *
+   * @returns Number of excerpts written
+   */
+  async addExcerpts(transcript: MeetingTranscript, notePath: string, speakers: TranscriptSpeaker[]): Promise<number> {
+    const target = this.settings.transcriptSpeakers.excerpts;
+    const linked = speakers.filter((speaker) => speaker.personPath && speaker.utterances.length > 0);
+    if (!this.settings.transcriptSpeakers.enabled || target === "off" || linked.length === 0) return 0;
+
+    if (target === "meeting") {
+      return this.addMeetingExcerpts(notePath, linked);
+    }
+
+    const meetingLink = this.link(notePath, transcript.title || "Untitled Meeting");
+    const date = moment(transcript.startAt).format("YYYY-MM-DD");
+    let written = 0;
+    for (const speaker of linked) {
+      const file = this.app.vault.getAbstractFileByPath(speaker.personPath!);
+      if (!(file instanceof TFile)) continue;
+      const content = await this.app.vault.read(file);
+      const section = getSection(content, EXCERPT_HEADING);
+      if (section.includes(`[[${stripExtension(notePath)}|`)) continue;
+
+      const entry = [`### ${date} ${meetingLink}`, ...this.pickExcerpt(speaker.utterances)].join("\n");
+      await this.app.vault.modify(file, prependToSection(content, EXCERPT_HEADING, entry));
+      written++;
+    }
+    return written;
+  }
+
+  // ============================================================================
+  // Matching
+  // ============================================================================
+
+  private resolve(label: string, guests: TranscriptGuest[]): { personPath: string; via: SpeakerMatchSource } | null {
+    if (label.startsWith("[[") || this.isMe(label)) return null;
+    const normalized = normalize(label);
+
+    // Guest by display name, email or email name
+    const guest = guests.find((g) =>
+      [g.displayName, g.email, g.email.split("@")[0]].some((value) => normalize(value) === normalized)
+    );
+    const guestPath = guest ? this.findGuest(guest) : null;
+    if (guestPath) return { personPath: guestPath, via: "guest" };
+
+    // Unique guest with this first name ("Ann" for "Ann Lee")
+    if (!normalized.includes(" ")) {
+      const sameFirstName = guests.filter((g) => normalize(g.displayName).split(" ")[0] === normalized);
+      const path = sameFirstName.length === 1 ? this.findGuest(sameFirstName[0]) : null;
+      if (path) return { personPath: path, via: "first-name" };
+    }
+
+    const aliasPath = this.aliases.get(label);
+    if (aliasPath && this.app.vault.getAbstractFileByPath(aliasPath) instanceof TFile) {
+      return { personPath: aliasPath, via: "alias" };
+    }
+
+    const namePath = this.indexService.findPersonByName(label);
+    if (namePath) return { personPath: namePath, via: "name" };
+
+    return null;
+  }
+
+  /**
+   * Pair the one unresolved label with the one guest nobody claimed, and
+   * remember the label so the mismatch resolves by itself next time
+   */
+  private async pairLeftovers(speakers: TranscriptSpeaker[], guests: TranscriptGuest[]): Promise<void> {
+    const unresolved = speakers.filter((speaker) => !speaker.personPath && !this.isMe(speaker.label));
+    if (unresolved.length !== 1) return;
+    const [leftover] = unresolved;
+    if (GENERIC_LABEL.test(leftover.label) || leftover.label.startsWith("[[")) return;
+
+    const claimed = new Set(speakers.map((speaker) => speaker.personPath));
+    const unclaimed = guests
+      .filter((g) => !this.isMe(g.displayName) && !this.isMe(g.email))
+      .map((g) => this.findGuest(g))
+      .filter((path): path is string => !!path && !claimed.has(path));
+    const candidates = [...new Set(unclaimed)];
+    if (candidates.length !== 1) return;
+
+    leftover.personPath = candidates[0];
+    leftover.via = "elimination";
+    await this.aliases.learn(leftover.label, candidates[0]);
+  }
+
+  private findGuest(guest: TranscriptGuest): string | null {
+    return this.indexService.findPersonByEmail(guest.email) || this.indexService.findPersonByName(guest.displayName);
+  }
+
+  /**
+   * The note owner's own labels (from the action item names) stay unlinked
+   */
+  private isMe(label: string): boolean {
+    const normalized = normalize(label);
+    return !!normalized && this.settings.actionItems.myNames.some((name) => normalize(name) === normalized);
+  }
+
+  // ============================================================================
+  // Transcript Text
+  // ============================================================================
+
+  /**
+   * Speakers in order of first appearance with their paragraphs (unlabelled
+   * lines continue the previous speaker)
+   */
+  private collectSpeakers(markdown: string): TranscriptSpeaker[] {
+    const speakers = new Map<string, TranscriptSpeaker>();
+    let current: TranscriptSpeaker | null = null;
+    for (const line of markdown.split("\n")) {
+      const parsed = parseSpeakerLine(line);
+      if (parsed) {
+        current = speakers.get(parsed.speaker) ?? { label: parsed.speaker, personPath: null, via: null, utterances: [] };
+        speakers.set(parsed.speaker, current);
+        if (parsed.text.trim()) current.utterances.push(parsed.text.trim());
+      } else if (current && line.trim() && !line.startsWith("#")) {
+        current.utterances.push(line.trim());
+      }
+    }
+    return [...speakers.values()];
+  }
+
+  /**
+   * The speaker's longest paragraphs, in transcript order, as bullets
+   */
+  private pickExcerpt(utterances: string[]): string[] {
+    const longest = new Set(
+      [...utterances].sort((a, b) => b.length - a.length).slice(0, MAX_EXCERPT_UTTERANCES)
+    );
+    return utterances
+      .filter((utterance) => longest.has(utterance))
+      .map((utterance) =>
+        utterance.length > MAX_EXCERPT_CHARS ? `- ${utterance.slice(0, MAX_EXCERPT_CHARS).trimEnd()}…` : `- ${utterance}`
+      );
+  }
+
+  /**
+   * "What they said" section in the meeting note, above the transcript
+   */
+  private async addMeetingExcerpts(notePath: string, speakers: TranscriptSpeaker[]): Promise<number> {
+    const file = this.app.vault.getAbstractFileByPath(notePath);
+    if (!(file instanceof TFile)) return 0;
+    const content = await this.app.vault.read(file);
+    if (content.split("\n").some((line) => line.trim() === EXCERPT_HEADING)) return 0;
+
+    const section = [
+      EXCERPT_HEADING,
+      ...speakers.map((speaker) => {
+        const heading = `### ${this.link(speaker.personPath!, getBasename(speaker.personPath!))}`;
+        return ["", heading, ...this.pickExcerpt(speaker.utterances)].join("\n");
+      }),
+    ].join("\n");
+
+    const transcriptIdx = content.lastIndexOf("\n## Transcript");
+    const updated =
+      transcriptIdx === -1
+        ? `${content.trimEnd()}\n\n${section}\n`
+        : `${content.slice(0, transcriptIdx).trimEnd()}\n\n${section}\n${content.slice(transcriptIdx)}`;
+    await this.app.vault.modify(file, updated);
+    return speakers.length;
+  }
+
+  private link(path: string, label: string): string {
+    return `[[${stripExtension(path)}|${label}]]`;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function normalize(value: string): string {
+  return (value || "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function stripExtension(path: string): string {
+  return path.replace(/\.md$/, "");
+}
+
+function getBasename(path: string): string {
+  return stripExtension(path).split("/").pop() || path;
+}
+
+/**
+ * Body of a `## ` section ("" when the note doesn't have it)
+ */
+function getSection(content: string, heading: string): string {
+  const lines = content.split("\n");
+  const start = lines.findIndex((line) => line.trim() === heading);
+  if (start === -1) return "";
+  const end = lines.findIndex((line, i) => i > start && line.startsWith("## "));
+  return lines.slice(start + 1, end === -1 ? undefined : end).join("\n");
+}
+
+/**
+ * Put text right under a `## ` heading, adding the section at the end if missing
+ */
+function prependToSection(content: string, heading: string, text: string): string {
+  const lines = content.split("\n");
+  const start = lines.findIndex((line) => line.trim() === heading);
+  if (start === -1) {
+    return `${content.trimEnd()}\n\n${heading}\n\n${text}\n`;
+  }
+  lines.splice(start + 1, 0, "", text);
+  return lines.join("\n");
+}
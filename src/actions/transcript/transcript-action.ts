@@ -1,35 +1,36 @@
 // ============================================================================
-// Amie Transcript Action - Meeting transcript processing from webhooks
+// Transcript Action - Meeting transcript processing from webhooks
 // ============================================================================
 
 import { App, TFile, TFolder, Notice } from "obsidian";
-import type { PluginSettings, AmieWebhookPayload, CalendarEvent } from "../types";
-import type { CalendarService } from "../services/calendar";
-import { handleErrorWithDefault } from "../utils/error-handler";
+import type { PluginSettings, MeetingTranscript } from "../../types";
+import type { CalendarService } from "../../services/calendar";
+import type { EventBus } from "../../services/event-bus";
+import { handleError } from "../../utils/error-handler";
+import type { ActionItemAction } from "./action-items";
+import type { SpeakerMapAction } from "./speakers";
+import type { SpeakerMapping, TranscriptResult } from "./types";
 
 const moment = (window as any).moment;
 
-// ============================================================================
-// Types
-// ============================================================================
-
-export interface TranscriptResult {
-  notePath: string;
-  action: "created" | "updated";
-}
+/** How far a calendar event's start may be from a transcript's to be its meeting */
+const EVENT_MATCH_WINDOW_MINUTES = 15;
 
 // ============================================================================
-// AmieTranscriptAction Class
+// TranscriptAction Class
 // ============================================================================
 
 /**
- * Amie Transcript Action - Processes meeting transcripts from Amie webhooks
+ * Transcript Action - Processes meeting transcripts from webhook adapters
  * Creates or updates meeting notes with transcript content.
  */
-export class AmieTranscriptAction {
+export class TranscriptAction {
   private app: App;
   private settings: PluginSettings;
   private calendarService: CalendarService;
+  private events: EventBus | null = null;
+  private actionItems: ActionItemAction | null = null;
+  private speakers: SpeakerMapAction | null = null;
 
   constructor(app: App, settings: PluginSettings, calendarService: CalendarService) {
     this.app = app;
@@ -45,62 +46,158 @@ export class AmieTranscriptAction {
   }
 
   /**
-   * Process a transcript from Amie webhook
+   * Set event bus reference
    */
-  async processTranscript(payload: AmieWebhookPayload): Promise<TranscriptResult> {
-    const eventId = payload.metadata.providerCalendarEventId;
-    const calendarId = payload.metadata.providerCalendarId;
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
 
-    console.log(`[AmieTranscript] Processing transcript for event: ${eventId}`);
+  /**
+   * Set action item extraction reference
+   */
+  setActionItems(actionItems: ActionItemAction): void {
+    this.actionItems = actionItems;
+  }
 
-    // Try to get recurringEventId by looking up the event
-    const recurringEventId = await this.getRecurringEventId(eventId, payload.metadata.startAt);
-    const effectiveEventId = recurringEventId || eventId;
+  /**
+   * Set speaker mapping reference
+   */
+  setSpeakerMap(speakers: SpeakerMapAction): void {
+    this.speakers = speakers;
+  }
 
-    console.log(`[AmieTranscript] Effective event ID: ${effectiveEventId} (recurring: ${!!recurringEventId})`);
+  /**
+   * Process a normalized transcript from any source
+   */
+  async processTranscript(incoming: MeetingTranscript): Promise<TranscriptResult> {
+    console.log(`[Transcript] Processing ${incoming.source} transcript: ${incoming.eventId || incoming.title}`);
+
+    // Link speaker labels to People notes before the transcript is written
+    const mapping = await this.mapSpeakers(incoming);
+    const transcript = mapping?.transcript ?? incoming;
+
+    // Look up the calendar event for its recurringEventId (and its ID when the sender didn't know it)
+    const event = await this.resolveEvent(transcript);
+    const eventId = event.eventId || this.getFallbackEventId(transcript);
+    const effectiveEventId = event.recurringEventId || eventId;
+
+    console.log(`[Transcript] Effective event ID: ${effectiveEventId} (recurring: ${!!event.recurringEventId})`);
 
     // Search for existing meeting note
     const existingNote = await this.findMeetingNote(effectiveEventId);
 
+    let result: TranscriptResult;
     if (existingNote) {
       // Append transcript to existing note
-      console.log(`[AmieTranscript] Found existing note: ${existingNote.path}`);
-      await this.appendTranscript(existingNote, payload);
-      return { notePath: existingNote.path, action: "updated" };
+      console.log(`[Transcript] Found existing note: ${existingNote.path}`);
+      await this.appendTranscript(existingNote, transcript);
+      result = { notePath: existingNote.path, action: "updated" };
     } else {
       // Create new meeting note
-      const notePath = await this.createMeetingNote(payload, effectiveEventId, !!recurringEventId);
-      return { notePath, action: "created" };
+      const notePath = await this.createMeetingNote(transcript, effectiveEventId, !!event.recurringEventId);
+      result = { notePath, action: "created" };
+    }
+
+    this.events?.emit("transcript.ingested", {
+      source: transcript.source,
+      title: transcript.title,
+      eventId,
+      startAt: transcript.startAt,
+      ...result,
+    });
+
+    // The note is written: failed follow-up steps must not fail (and retry) the ingest
+    if (this.speakers && mapping) {
+      try {
+        await this.speakers.addExcerpts(transcript, result.notePath, mapping.speakers);
+      } catch (error) {
+        handleError("Transcript: Speaker excerpts failed", error, {
+          additionalContext: { notePath: result.notePath },
+        });
+      }
+    }
+    if (this.actionItems) {
+      try {
+        const actionItems = await this.actionItems.processTranscript(transcript, result.notePath, eventId);
+        if (actionItems) result.actionItems = actionItems;
+      } catch (error) {
+        handleError("Transcript: Action item extraction failed", error, {
+          additionalContext: { notePath: result.notePath },
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Resolve speakers to People notes (null when mapping is unavailable or fails,
+   * so the transcript is written as received)
+   */
+  private async mapSpeakers(transcript: MeetingTranscript): Promise<SpeakerMapping | null> {
+    if (!this.speakers) return null;
+    try {
+      return await this.speakers.mapSpeakers(transcript);
+    } catch (error) {
+      handleError("Transcript: Speaker mapping failed", error);
+      return null;
     }
   }
 
   /**
-   * Try to get recurringEventId by looking up the event in Google Calendar
+   * Find the transcript's event in Google Calendar: by ID when known, otherwise
+   * the event starting closest to the transcript (preferring the same title)
    */
-  private async getRecurringEventId(eventId: string, startAt: string): Promise<string | null> {
+  private async resolveEvent(
+    transcript: MeetingTranscript
+  ): Promise<{ eventId: string; recurringEventId: string | null }> {
+    const unresolved = { eventId: transcript.eventId, recurringEventId: null };
     try {
       // Get events around the meeting time to find the event
-      const meetingStart = moment(startAt);
+      const meetingStart = moment(transcript.startAt);
       const searchStart = meetingStart.clone().subtract(1, "day");
       const searchEnd = meetingStart.clone().add(1, "day");
 
       const events = await this.calendarService.getEvents(searchStart, searchEnd);
 
-      // Find the event that matches our eventId
-      for (const event of events) {
-        if (event.id === eventId) {
-          return event.recurringEventId || null;
-        }
+      if (transcript.eventId) {
+        const event = events.find((e) => e.id === transcript.eventId);
+        if (event) return { eventId: event.id, recurringEventId: event.recurringEventId || null };
+        console.log(`[Transcript] Event ${transcript.eventId} not found in calendar search`);
+        return unresolved;
       }
 
-      console.log(`[AmieTranscript] Event ${eventId} not found in calendar search`);
-      return null;
+      const startTime = Date.parse(transcript.startAt);
+      const title = transcript.title.trim().toLowerCase();
+      const candidates = events
+        .filter((e) => e.start.dateTime)
+        .map((e) => ({ event: e, offset: Math.abs(Date.parse(e.start.dateTime!) - startTime) }))
+        .filter(({ offset }) => offset <= EVENT_MATCH_WINDOW_MINUTES * 60 * 1000)
+        .sort((a, b) => {
+          const titleMatch = (e: typeof a.event) => (title && (e.summary || "").trim().toLowerCase() === title ? 0 : 1);
+          return titleMatch(a.event) - titleMatch(b.event) || a.offset - b.offset;
+        });
+      if (candidates.length === 0) {
+        console.log(`[Transcript] No calendar event near ${transcript.startAt}`);
+        return unresolved;
+      }
+
+      const { event } = candidates[0];
+      return { eventId: event.id, recurringEventId: event.recurringEventId || null };
     } catch (error) {
-      console.error("[AmieTranscript] Error looking up event:", error);
-      return null;
+      console.error("[Transcript] Error looking up event:", error);
+      return unresolved;
     }
   }
 
+  /**
+   * Note ID for transcripts without a calendar event: the source plus its
+   * recording ID (stable across redeliveries) or start time
+   */
+  private getFallbackEventId(transcript: MeetingTranscript): string {
+    const key = transcript.recordingId || moment(transcript.startAt).format("YYYYMMDDHHmm");
+    return `${transcript.source}-${key}`.replace(/[^\w-]/g, "");
+  }
+
   /**
    * Search for an existing meeting note by event ID in filename
    */
@@ -121,31 +218,31 @@ export class AmieTranscriptAction {
   /**
    * Append transcript to an existing meeting note and update frontmatter
    */
-  private async appendTranscript(file: TFile, payload: AmieWebhookPayload): Promise<void> {
+  private async appendTranscript(file: TFile, transcript: MeetingTranscript): Promise<void> {
     const content = await this.app.vault.read(file);
 
     // Update frontmatter with webhook metadata
-    const updatedContent = this.updateFrontmatter(content, payload);
+    const updatedContent = this.updateFrontmatter(content, transcript);
 
-    const transcriptSection = this.formatTranscriptSection(payload);
+    const transcriptSection = this.formatTranscriptSection(transcript);
 
     // Append to the end of the file
     const newContent = updatedContent.trimEnd() + "\n\n" + transcriptSection;
 
     await this.app.vault.modify(file, newContent);
 
-    console.log(`[AmieTranscript] Appended transcript to: ${file.path}`);
+    console.log(`[Transcript] Appended transcript to: ${file.path}`);
     new Notice(`Meeting transcript added to ${file.basename}`);
   }
 
   /**
    * Update frontmatter with webhook metadata
    */
-  private updateFrontmatter(content: string, payload: AmieWebhookPayload): string {
+  private updateFrontmatter(content: string, transcript: MeetingTranscript): string {
     // Check if content has frontmatter
     if (!content.startsWith("---")) {
       // No frontmatter, add one
-      const frontmatter = this.buildFrontmatterFromPayload(payload);
+      const frontmatter = this.buildFrontmatterFromTranscript(transcript);
       return frontmatter + "\n" + content;
     }
 
@@ -186,27 +283,27 @@ export class AmieTranscriptAction {
     }
 
     // Update with webhook data
-    if (payload.recordingId) {
-      frontmatterData.set("recording_id", payload.recordingId);
+    if (transcript.recordingId) {
+      frontmatterData.set("recording_id", transcript.recordingId);
     }
-    if (payload.recordingLink) {
-      frontmatterData.set("recording_link", payload.recordingLink);
+    if (transcript.recordingLink) {
+      frontmatterData.set("recording_link", transcript.recordingLink);
     }
-    if (payload.metadata.startAt && !frontmatterData.get("start")) {
-      frontmatterData.set("start", payload.metadata.startAt);
+    if (transcript.startAt && !frontmatterData.get("start")) {
+      frontmatterData.set("start", transcript.startAt);
     }
-    if (payload.metadata.endAt && !frontmatterData.get("end")) {
-      frontmatterData.set("end", payload.metadata.endAt);
+    if (transcript.endAt && !frontmatterData.get("end")) {
+      frontmatterData.set("end", transcript.endAt);
     }
-    if (payload.shortSummary) {
-      frontmatterData.set("short_summary", `"${this.escapeYamlString(payload.shortSummary)}"`);
+    if (transcript.summary) {
+      frontmatterData.set("short_summary", `"${this.escapeYamlString(transcript.summary)}"`);
     }
 
     // Update attendees if not set and guests available
-    if (payload.metadata.guests?.length > 0) {
+    if (transcript.guests?.length > 0) {
       const existingAttendees = arrayFields.get("attendees") || [];
       if (existingAttendees.length === 0) {
-        const attendeeLines = payload.metadata.guests.map((g) => {
+        const attendeeLines = transcript.guests.map((g) => {
           const name = g.displayName || g.email.split("@")[0];
           return `  - "[[People/${name}|${name}]]"`;
         });
@@ -251,12 +348,12 @@ export class AmieTranscriptAction {
   }
 
   /**
-   * Build a new frontmatter block from payload (for notes without frontmatter)
+   * Build a new frontmatter block from the transcript (for notes without frontmatter)
    */
-  private buildFrontmatterFromPayload(payload: AmieWebhookPayload): string {
-    const meetingDate = moment(payload.metadata.startAt);
+  private buildFrontmatterFromTranscript(transcript: MeetingTranscript): string {
+    const meetingDate = moment(transcript.startAt);
 
-    const attendees = payload.metadata.guests
+    const attendees = transcript.guests
       .map((g) => {
         const name = g.displayName || g.email.split("@")[0];
         return `  - "[[People/${name}|${name}]]"`;
@@ -266,12 +363,12 @@ export class AmieTranscriptAction {
     const lines = [
       "---",
       `date: ${meetingDate.format("YYYY-MM-DD")}`,
-      `title: "${this.escapeYamlString(payload.metadata.title || "")}"`,
-      `start: ${payload.metadata.startAt}`,
-      `end: ${payload.metadata.endAt}`,
-      payload.recordingId ? `recording_id: ${payload.recordingId}` : null,
-      payload.recordingLink ? `recording_link: ${payload.recordingLink}` : null,
-      payload.shortSummary ? `short_summary: "${this.escapeYamlString(payload.shortSummary)}"` : null,
+      `title: "${this.escapeYamlString(transcript.title || "")}"`,
+      `start: ${transcript.startAt}`,
+      `end: ${transcript.endAt}`,
+      transcript.recordingId ? `recording_id: ${transcript.recordingId}` : null,
+      transcript.recordingLink ? `recording_link: ${transcript.recordingLink}` : null,
+      transcript.summary ? `short_summary: "${this.escapeYamlString(transcript.summary)}"` : null,
       "attendees:",
       attendees,
       "---",
@@ -284,15 +381,15 @@ export class AmieTranscriptAction {
    * Create a new meeting note with the transcript
    */
   private async createMeetingNote(
-    payload: AmieWebhookPayload,
+    transcript: MeetingTranscript,
     effectiveEventId: string,
     isRecurring: boolean
   ): Promise<string> {
-    const title = this.sanitizeFilename(payload.metadata.title || "Untitled Meeting");
+    const title = this.sanitizeFilename(transcript.title || "Untitled Meeting");
     const filename = `${title} ~${effectiveEventId}.md`;
 
     // Determine folder based on routing rules
-    const folder = this.resolveFolder(payload, isRecurring);
+    const folder = this.resolveFolder(transcript, isRecurring);
     const folderPath = folder;
 
     // Ensure folder exists
@@ -301,12 +398,12 @@ export class AmieTranscriptAction {
     const filePath = `${folderPath}/${filename}`;
 
     // Generate note content
-    const content = this.formatMeetingNote(payload, effectiveEventId, isRecurring);
+    const content = this.formatMeetingNote(transcript, effectiveEventId, isRecurring);
 
     // Create the file
     await this.app.vault.create(filePath, content);
 
-    console.log(`[AmieTranscript] Created meeting note: ${filePath}`);
+    console.log(`[Transcript] Created meeting note: ${filePath}`);
     new Notice(`Meeting note created: ${title}`);
 
     return filePath;
@@ -315,10 +412,10 @@ export class AmieTranscriptAction {
   /**
    * Resolve the folder path for a meeting note based on routing rules
    */
-  private resolveFolder(payload: AmieWebhookPayload, isRecurring: boolean): string {
-    const title = (payload.metadata.title || "").toLowerCase();
+  private resolveFolder(transcript: MeetingTranscript, isRecurring: boolean): string {
+    const title = (transcript.title || "").toLowerCase();
     const meetingsFolder = this.settings.meetingsFolder;
-    const meetingDate = moment(payload.metadata.startAt);
+    const meetingDate = moment(transcript.startAt);
 
     // Special routing rules (matching daily-note.ts patterns)
     if (/interview/i.test(title)) {
@@ -366,14 +463,14 @@ export class AmieTranscriptAction {
    * Format the full meeting note content
    */
   private formatMeetingNote(
-    payload: AmieWebhookPayload,
+    transcript: MeetingTranscript,
     effectiveEventId: string,
     isRecurring: boolean
   ): string {
-    const meetingDate = moment(payload.metadata.startAt);
+    const meetingDate = moment(transcript.startAt);
 
     // Format attendees as wikilinks
-    const attendees = payload.metadata.guests
+    const attendees = transcript.guests
       .map((g) => {
         const name = g.displayName || g.email.split("@")[0];
         return `  - "[[People/${name}|${name}]]"`;
@@ -386,13 +483,13 @@ export class AmieTranscriptAction {
       `date: ${meetingDate.format("YYYY-MM-DD")}`,
       `event_id: ${effectiveEventId}`,
       isRecurring ? `recurring_event_id: ${effectiveEventId}` : null,
-      `title: "${this.escapeYamlString(payload.metadata.title || "")}"`,
-      `start: ${payload.metadata.startAt}`,
-      `end: ${payload.metadata.endAt}`,
+      `title: "${this.escapeYamlString(transcript.title || "")}"`,
+      `start: ${transcript.startAt}`,
+      `end: ${transcript.endAt}`,
       "meet_url:",
-      payload.recordingId ? `recording_id: ${payload.recordingId}` : null,
-      payload.recordingLink ? `recording_link: ${payload.recordingLink}` : null,
-      payload.shortSummary ? `short_summary: "${this.escapeYamlString(payload.shortSummary)}"` : null,
+      transcript.recordingId ? `recording_id: ${transcript.recordingId}` : null,
+      transcript.recordingLink ? `recording_link: ${transcript.recordingLink}` : null,
+      transcript.summary ? `short_summary: "${this.escapeYamlString(transcript.summary)}"` : null,
       "attendees:",
       attendees,
       "---",
@@ -403,12 +500,12 @@ export class AmieTranscriptAction {
     // Build body
     const body = [
       "",
-      `# ${payload.metadata.title || "Untitled Meeting"}`,
+      `# ${transcript.title || "Untitled Meeting"}`,
       "",
       "**Description:**",
-      payload.metadata.description || "",
+      transcript.description || "",
       "",
-      this.formatTranscriptSection(payload),
+      this.formatTranscriptSection(transcript),
     ].join("\n");
 
     return frontmatter + body;
@@ -417,9 +514,9 @@ export class AmieTranscriptAction {
   /**
    * Format the transcript section to append
    */
-  private formatTranscriptSection(payload: AmieWebhookPayload): string {
-    if (payload.transcript) {
-      return "## Transcript\n\n" + payload.transcript;
+  private formatTranscriptSection(transcript: MeetingTranscript): string {
+    if (transcript.transcript) {
+      return "## Transcript\n\n" + transcript.transcript;
     }
     return "";
   }
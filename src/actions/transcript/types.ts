@@ -0,0 +1,127 @@
+// ============================================================================
+// Transcript Types - Local types for the transcript module
+// ============================================================================
+
+import type { MeetingTranscript, TranscriptSource } from "../../types";
+
+// ============================================================================
+// Results
+// ============================================================================
+
+export interface TranscriptResult {
+  notePath: string;
+  action: "created" | "updated";
+  /** Present when action item extraction ran */
+  actionItems?: ActionItemResult;
+}
+
+// ============================================================================
+// Action Items
+// ============================================================================
+
+/**
+ * A commitment made in a meeting, as the model extracted it
+ */
+export interface ActionItem {
+  text: string;
+  owner: string;
+  ownerEmail: string;
+  /** True when the note owner made the commitment */
+  mine: boolean;
+  /** YYYY-MM-DD, or "" when no date was agreed */
+  due: string;
+  /** Why it came up, in a few words */
+  context: string;
+}
+
+export interface ActionItemResult {
+  found: number;
+  tasksAdded: number;
+  followUpsAdded: number;
+  /** Owners with no People note (their commitments were skipped) */
+  unmatchedOwners: string[];
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+/**
+ * A webhook request as adapters see it (the body is unparsed so subtitle
+ * uploads can be plain text)
+ */
+export interface TranscriptRequest {
+  body: string;
+  query: URLSearchParams;
+}
+
+/**
+ * Normalizes one sender's payload into a MeetingTranscript.
+ * Throws TranscriptPayloadError when the payload is unusable.
+ */
+export interface TranscriptAdapter {
+  source: TranscriptSource;
+  /** Sender name for settings and logs */
+  label: string;
+  parse(request: TranscriptRequest): MeetingTranscript;
+}
+
+/**
+ * One utterance in a timed transcript
+ */
+export interface TranscriptSegment {
+  speaker: string;
+  text: string;
+  /** Offset from the start of the recording */
+  startSeconds?: number;
+}
+
+/**
+ * A labelled line of a markdown transcript
+ */
+export interface SpeakerLine {
+  speaker: string;
+  text: string;
+  /** `[1:02]`, or "" when untimed */
+  time: string;
+  /** `**Ann:** text` rather than `Ann: text` */
+  bold: boolean;
+}
+
+// ============================================================================
+// Speakers
+// ============================================================================
+
+/**
+ * How a speaker label was tied to a People note
+ */
+export type SpeakerMatchSource = "guest" | "first-name" | "alias" | "name" | "elimination";
+
+export interface TranscriptSpeaker {
+  label: string;
+  /** People note path, or null when unresolved */
+  personPath: string | null;
+  via: SpeakerMatchSource | null;
+  /** What they said, one entry per transcript paragraph */
+  utterances: string[];
+}
+
+export interface SpeakerMapping {
+  /** The transcript with resolved labels rewritten as People links */
+  transcript: MeetingTranscript;
+  speakers: TranscriptSpeaker[];
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Payload that can't be turned into a transcript (answered with 400)
+ */
+export class TranscriptPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscriptPayloadError";
+  }
+}
@@ -5,6 +5,8 @@
 import { Editor, MarkdownView, Notice } from "obsidian";
 import type GetShitDonePlugin from "./main";
 import { O3_DASHBOARD_VIEW } from "./views/o3-dashboard";
+import { AI_TRACE_VIEW } from "./views/ai-trace-view";
+import { WebhookJobsModal } from "./views/webhook-jobs-modal";
 
 // ============================================================================
 // Public API
@@ -18,10 +20,12 @@ export function registerCommands(plugin: GetShitDonePlugin): void {
   registerBriefingCommands(plugin);
   registerFeedbackCommands(plugin);
   registerIndexCommands(plugin);
+  registerAiCommands(plugin);
   registerInboxCommands(plugin);
   registerCouncilCommands(plugin);
   registerO3Commands(plugin);
   registerReferenceCommands(plugin);
+  registerWebhookCommands(plugin);
 }
 
 // ============================================================================
@@ -161,6 +165,36 @@ function registerIndexCommands(plugin: GetShitDonePlugin): void {
     name: "Rebuild Search Index",
     callback: () => rebuildIndex(plugin),
   });
+
+  plugin.addCommand({
+    id: "rebuild-semantic-index",
+    name: "Rebuild Semantic Index",
+    callback: () => rebuildSemanticIndex(plugin),
+  });
+}
+
+// ============================================================================
+// AI Commands
+// ============================================================================
+
+function registerAiCommands(plugin: GetShitDonePlugin): void {
+  plugin.addCommand({
+    id: "clear-ai-cache",
+    name: "Clear AI Response Cache",
+    callback: () => clearResponseCache(plugin),
+  });
+
+  plugin.addCommand({
+    id: "cancel-ai-requests",
+    name: "Cancel Queued AI Requests",
+    callback: () => cancelQueuedAiRequests(plugin),
+  });
+
+  plugin.addCommand({
+    id: "open-ai-trace",
+    name: "Open AI Call Trace",
+    callback: () => activateAITrace(plugin),
+  });
 }
 
 // ============================================================================
@@ -217,6 +251,18 @@ function registerReferenceCommands(plugin: GetShitDonePlugin): void {
   });
 }
 
+// ============================================================================
+// Webhook Commands
+// ============================================================================
+
+function registerWebhookCommands(plugin: GetShitDonePlugin): void {
+  plugin.addCommand({
+    id: "show-failed-webhook-jobs",
+    name: "Show Failed Webhook Jobs",
+    callback: () => new WebhookJobsModal(plugin.app, plugin.getWebhookJobs()).open(),
+  });
+}
+
 // ============================================================================
 // Command Helpers
 // ============================================================================
@@ -229,6 +275,13 @@ async function activateO3Dashboard(plugin: GetShitDonePlugin): Promise<void> {
   }
 }
 
+async function activateAITrace(plugin: GetShitDonePlugin): Promise<void> {
+  const workspace = plugin.app.workspace;
+  const leaf = workspace.getLeavesOfType(AI_TRACE_VIEW)[0] ?? workspace.getLeaf("tab");
+  await leaf.setViewState({ type: AI_TRACE_VIEW, active: true });
+  workspace.revealLeaf(leaf);
+}
+
 async function saveReferenceFromClipboard(plugin: GetShitDonePlugin): Promise<void> {
   try {
     const content = await navigator.clipboard.readText();
@@ -327,6 +380,32 @@ async function rebuildIndex(plugin: GetShitDonePlugin): Promise<void> {
   new Notice(`Index rebuilt: ${stats.peopleByEmail} emails, ${stats.orgsByDomain} domains`);
 }
 
+async function rebuildSemanticIndex(plugin: GetShitDonePlugin): Promise<void> {
+  const index = plugin.getSemanticIndex();
+  if (!index.isEnabled()) {
+    new Notice("Semantic index is disabled (Settings → AI → Semantic index)");
+    return;
+  }
+  new Notice("Rebuilding semantic index...");
+  await index.rebuild();
+  const stats = index.getStats();
+  new Notice(`Semantic index rebuilt: ${stats.passages} passages from ${stats.notes} notes`);
+}
+
+async function clearResponseCache(plugin: GetShitDonePlugin): Promise<void> {
+  const removed = await plugin.getResponseCache().clear();
+  new Notice(`Cleared ${removed} cached AI response${removed === 1 ? "" : "s"}`);
+}
+
+function cancelQueuedAiRequests(plugin: GetShitDonePlugin): void {
+  const cancelled = plugin.getAIService().cancelPending();
+  new Notice(
+    cancelled > 0
+      ? `Cancelled ${cancelled} queued AI request${cancelled === 1 ? "" : "s"}`
+      : "No AI requests are waiting in the queue"
+  );
+}
+
 async function findPhoneNumberForCurrentFile(plugin: GetShitDonePlugin): Promise<void> {
   const file = plugin.app.workspace.getActiveFile();
   if (!file) {
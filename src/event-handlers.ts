@@ -18,6 +18,7 @@ export function registerFileChangeHandler(plugin: GetShitDonePlugin): void {
     plugin.app.vault.on("modify", (file) => {
       if (file instanceof TFile) {
         plugin.getIndexService().updateFileIndex(file);
+        plugin.getSemanticIndex().queueFile(file);
       }
     })
   );
@@ -28,6 +29,7 @@ export function registerFileChangeHandler(plugin: GetShitDonePlugin): void {
       if (file instanceof TFile) {
         // Delay slightly to let MetadataCache update
         setTimeout(() => plugin.getIndexService().updateFileIndex(file), 100);
+        plugin.getSemanticIndex().queueFile(file);
       }
     })
   );
@@ -38,6 +40,7 @@ export function registerFileChangeHandler(plugin: GetShitDonePlugin): void {
       if (file instanceof TFile) {
         // Could implement removeFromIndex, but for now just log
         console.log(`[GSD] File deleted: ${file.path}`);
+        plugin.getSemanticIndex().removeFile(file.path);
       }
     })
   );
@@ -47,6 +50,7 @@ export function registerFileChangeHandler(plugin: GetShitDonePlugin): void {
     plugin.app.vault.on("rename", (file, oldPath) => {
       if (file instanceof TFile) {
         setTimeout(() => plugin.getIndexService().updateFileIndex(file), 100);
+        plugin.getSemanticIndex().renameFile(file, oldPath);
       }
     })
   );
@@ -2,9 +2,9 @@
 // GetShitDone Plugin - Main entry point
 // ============================================================================
 
-import { Plugin, TFile, Notice } from "obsidian";
+import { Plugin, TFile, Notice, normalizePath } from "obsidian";
 import { GetShitDoneSettingTab } from "./settings";
-import { DEFAULT_SETTINGS, PluginSettings, SettingsAware, TemplaterObject } from "./types";
+import { DEFAULT_SETTINGS, MeetingTranscript, PluginSettings, SettingsAware, TemplaterObject } from "./types";
 import { deepMerge } from "./utils/deep-merge";
 
 // Services
@@ -13,7 +13,18 @@ import { CalendarService } from "./services/calendar";
 import { VaultSearchService } from "./services/vault-search";
 import { IndexService } from "./services/index-service";
 import { AIService } from "./services/ai-service";
+import { UsageLedger } from "./services/usage-ledger";
+import { ResponseCache } from "./services/response-cache";
+import { AITraceRecorder } from "./services/ai-trace";
+import { PromptLibrary } from "./services/prompt-library";
+import { VaultTools } from "./services/vault-tools";
+import { SemanticIndex } from "./services/semantic-index";
 import { WebhookServer } from "./services/webhook-server";
+import { VaultReadApi } from "./services/vault-read-api";
+import { WebhookJobQueue } from "./services/webhook-jobs";
+import { EventBus } from "./services/event-bus";
+import { EventWebhookDispatcher } from "./services/event-webhooks";
+import { SpeakerAliasTable } from "./services/speaker-aliases";
 
 // Actions
 import { PersonResearchAction } from "./actions/person-research";
@@ -23,10 +34,11 @@ import { MeetingBriefingAction } from "./actions/meeting-briefing";
 import { FeedbackAction } from "./actions/feedback";
 import { InboxAction } from "./actions/inbox";
 import { LlmCouncilAction } from "./actions/llm-council";
-import { AmieTranscriptAction } from "./actions/amie-transcript";
+import { TranscriptAction, ActionItemAction, SpeakerMapAction } from "./actions/transcript";
 import { O3PrepAction } from "./actions/o3-prep";
 import { O3CoachAction } from "./actions/o3-coach";
 import { O3DashboardView, O3_DASHBOARD_VIEW } from "./views/o3-dashboard";
+import { AITraceView, AI_TRACE_VIEW } from "./views/ai-trace-view";
 import { ReferenceAction } from "./actions/reference";
 
 // Commands and Event Handlers
@@ -43,6 +55,13 @@ export default class GetShitDonePlugin extends Plugin {
   // Services
   private googleServices!: GoogleServices;
   private aiService!: AIService;
+  private usageLedger!: UsageLedger;
+  private responseCache!: ResponseCache;
+  private aiTrace!: AITraceRecorder;
+  private promptLibrary!: PromptLibrary;
+  private vaultTools!: VaultTools;
+  private semanticIndex!: SemanticIndex;
+  private speakerAliases!: SpeakerAliasTable;
   private calendarService!: CalendarService;
   private vaultSearch!: VaultSearchService;
   private indexService!: IndexService;
@@ -55,13 +74,20 @@ export default class GetShitDonePlugin extends Plugin {
   private feedback!: FeedbackAction;
   private inbox!: InboxAction;
   private llmCouncil!: LlmCouncilAction;
-  private amieTranscript!: AmieTranscriptAction;
+  private transcripts!: TranscriptAction;
+  private actionItems!: ActionItemAction;
+  private speakerMap!: SpeakerMapAction;
   private o3Prep!: O3PrepAction;
   private o3Coach!: O3CoachAction;
   private reference!: ReferenceAction;
 
   // Webhook server (public for settings access)
   webhookServer!: WebhookServer;
+  private webhookJobs!: WebhookJobQueue;
+
+  // Plugin events and their outbound webhooks
+  private eventBus!: EventBus;
+  private eventWebhooks!: EventWebhookDispatcher;
 
   // Track files currently being researched to prevent duplicates
   private researchingFiles: Set<string> = new Set();
@@ -91,6 +117,9 @@ export default class GetShitDonePlugin extends Plugin {
       (leaf) => new O3DashboardView(leaf, this, this.o3Prep, this.o3Coach)
     );
 
+    // Register AI call trace view
+    this.registerView(AI_TRACE_VIEW, (leaf) => new AITraceView(leaf, this));
+
     // Register commands and event handlers
     registerCommands(this);
     registerInboxURIHandler(this);
@@ -102,9 +131,18 @@ export default class GetShitDonePlugin extends Plugin {
 
     // Build indexes and start webhook server after layout is ready
     this.app.workspace.onLayoutReady(async () => {
+      await this.usageLedger.load();
+      await this.responseCache.load();
+      await this.aiTrace.load();
       await this.indexService.buildIndexes();
-
-      if (this.settings.webhook.enabled && this.settings.webhook.apiKey) {
+      await this.semanticIndex.load();
+      await this.speakerAliases.load();
+      // Embedding a large vault takes a while; don't hold up the webhook server
+      void this.semanticIndex.build();
+
+      // Resume webhook jobs left from the last session before accepting new ones
+      await this.webhookJobs.load();
+      if (this.settings.webhook.enabled && !this.webhookServer.getMissingCredential()) {
         try {
           await this.webhookServer.start();
           console.log(`[GSD] Webhook server started on port ${this.settings.webhook.port}`);
@@ -124,7 +162,28 @@ export default class GetShitDonePlugin extends Plugin {
       this.webhookServer.stop();
     }
 
+    if (this.webhookJobs) {
+      this.webhookJobs.stop();
+    }
+
+    if (this.usageLedger) {
+      void this.usageLedger.flush();
+    }
+
+    if (this.responseCache) {
+      void this.responseCache.flush();
+    }
+
+    if (this.aiTrace) {
+      void this.aiTrace.flush();
+    }
+
+    if (this.semanticIndex) {
+      void this.semanticIndex.flush();
+    }
+
     this.app.workspace.detachLeavesOfType(O3_DASHBOARD_VIEW);
+    this.app.workspace.detachLeavesOfType(AI_TRACE_VIEW);
   }
 
   // ============================================================================
@@ -164,10 +223,41 @@ export default class GetShitDonePlugin extends Plugin {
 
   private initializeServices(): void {
     this.aiService = new AIService(this.settings);
+    this.usageLedger = new UsageLedger(this.app, this.settings);
+    this.aiService.setUsageLedger(this.usageLedger);
+    const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.responseCache = new ResponseCache(
+      this.app.vault.adapter,
+      normalizePath(`${pluginDir}/response-cache.json`),
+      this.settings
+    );
+    this.aiService.setResponseCache(this.responseCache);
+    this.aiTrace = new AITraceRecorder(
+      this.app.vault.adapter,
+      normalizePath(`${pluginDir}/ai-trace.json`),
+      this.settings
+    );
+    this.aiService.setTraceRecorder(this.aiTrace);
     this.googleServices = new GoogleServices(this.settings, this.aiService);
     this.calendarService = new CalendarService(this.app);
     this.indexService = new IndexService(this.app, this.settings);
     this.vaultSearch = new VaultSearchService(this.app, this.settings, this.indexService);
+    this.promptLibrary = new PromptLibrary(this.app, this.settings);
+    this.vaultTools = new VaultTools(this.app, this.settings, this.indexService, this.googleServices);
+    this.webhookJobs = new WebhookJobQueue(this.app.vault.adapter, normalizePath(`${pluginDir}/webhook-jobs.json`));
+    this.eventBus = new EventBus();
+    this.eventWebhooks = new EventWebhookDispatcher(this.settings, this.eventBus, this.webhookJobs);
+    this.semanticIndex = new SemanticIndex(
+      this.app,
+      this.app.vault.adapter,
+      normalizePath(`${pluginDir}/semantic-index.json`),
+      this.settings,
+      this.aiService
+    );
+    this.speakerAliases = new SpeakerAliasTable(
+      this.app.vault.adapter,
+      normalizePath(`${pluginDir}/speaker-aliases.json`)
+    );
   }
 
   private initializeActions(): void {
@@ -176,7 +266,9 @@ export default class GetShitDonePlugin extends Plugin {
       this.settings,
       this.googleServices,
       this.aiService,
-      this.vaultSearch
+      this.vaultSearch,
+      this.promptLibrary,
+      this.semanticIndex
     );
 
     this.personResearch = new PersonResearchAction(
@@ -184,7 +276,9 @@ export default class GetShitDonePlugin extends Plugin {
       this.settings,
       this.googleServices,
       this.aiService,
-      this.vaultSearch
+      this.vaultSearch,
+      this.promptLibrary,
+      this.vaultTools
     );
 
     this.orgResearch = new OrgResearchAction(
@@ -192,7 +286,9 @@ export default class GetShitDonePlugin extends Plugin {
       this.settings,
       this.googleServices,
       this.aiService,
-      this.vaultSearch
+      this.vaultSearch,
+      this.promptLibrary,
+      this.vaultTools
     );
 
     this.dailyNote = new DailyNoteAction(
@@ -212,7 +308,8 @@ export default class GetShitDonePlugin extends Plugin {
       this.googleServices,
       this.aiService,
       this.vaultSearch,
-      this.indexService
+      this.indexService,
+      this.promptLibrary
     );
 
     this.llmCouncil = new LlmCouncilAction(
@@ -221,7 +318,7 @@ export default class GetShitDonePlugin extends Plugin {
       this.aiService
     );
 
-    this.amieTranscript = new AmieTranscriptAction(
+    this.transcripts = new TranscriptAction(
       this.app,
       this.settings,
       this.calendarService
@@ -237,13 +334,30 @@ export default class GetShitDonePlugin extends Plugin {
       this.aiService
     );
 
+    this.actionItems = new ActionItemAction(
+      this.app,
+      this.settings,
+      this.aiService,
+      this.indexService,
+      this.o3Prep
+    );
+
+    this.speakerMap = new SpeakerMapAction(
+      this.app,
+      this.settings,
+      this.indexService,
+      this.speakerAliases
+    );
+
     this.o3Coach = new O3CoachAction(
       this.app,
       this.settings,
       this.vaultSearch,
       this.indexService,
       this.googleServices,
-      this.aiService
+      this.aiService,
+      this.vaultTools,
+      this.semanticIndex
     );
 
     this.reference = new ReferenceAction(
@@ -253,7 +367,16 @@ export default class GetShitDonePlugin extends Plugin {
       this.aiService
     );
 
-    this.webhookServer = new WebhookServer(this.settings, this.amieTranscript);
+    this.webhookJobs.registerHandler("transcript", async (payload) => {
+      const result = await this.transcripts.processTranscript(payload as MeetingTranscript);
+      return { ...result };
+    });
+    this.webhookServer = new WebhookServer(
+      this.settings,
+      this.webhookJobs,
+      this.inbox,
+      new VaultReadApi(this.app, this.indexService)
+    );
   }
 
   private wireDependencies(): void {
@@ -265,6 +388,18 @@ export default class GetShitDonePlugin extends Plugin {
     this.orgResearch.setFeedback(this.feedback);
     this.meetingBriefing.setFeedback(this.feedback);
 
+    // Wire the event bus to actions that emit events
+    this.personResearch.setEventBus(this.eventBus);
+    this.orgResearch.setEventBus(this.eventBus);
+    this.meetingBriefing.setEventBus(this.eventBus);
+    this.inbox.setEventBus(this.eventBus);
+    this.llmCouncil.setEventBus(this.eventBus);
+    this.transcripts.setEventBus(this.eventBus);
+
+    // Wire speaker mapping and commitment extraction into transcript ingest
+    this.transcripts.setSpeakerMap(this.speakerMap);
+    this.transcripts.setActionItems(this.actionItems);
+
     // Validate all dependencies are wired correctly
     this.validateDependencies();
   }
@@ -297,9 +432,15 @@ export default class GetShitDonePlugin extends Plugin {
   private registerSettingsSubscribers(): void {
     this.settingsSubscribers.push(
       this.aiService,
+      this.usageLedger,
+      this.responseCache,
+      this.aiTrace,
+      this.promptLibrary,
       this.googleServices,
       this.vaultSearch,
       this.indexService,
+      this.vaultTools,
+      this.semanticIndex,
       this.personResearch,
       this.orgResearch,
       this.dailyNote,
@@ -307,11 +448,14 @@ export default class GetShitDonePlugin extends Plugin {
       this.feedback,
       this.inbox,
       this.llmCouncil,
-      this.amieTranscript,
+      this.transcripts,
+      this.actionItems,
+      this.speakerMap,
       this.o3Prep,
       this.o3Coach,
       this.reference,
-      this.webhookServer
+      this.webhookServer,
+      this.eventWebhooks
     );
   }
 
@@ -323,6 +467,22 @@ export default class GetShitDonePlugin extends Plugin {
     return this.aiService;
   }
 
+  getUsageLedger(): UsageLedger {
+    return this.usageLedger;
+  }
+
+  getResponseCache(): ResponseCache {
+    return this.responseCache;
+  }
+
+  getAITrace(): AITraceRecorder {
+    return this.aiTrace;
+  }
+
+  getPromptLibrary(): PromptLibrary {
+    return this.promptLibrary;
+  }
+
   getGoogleServices(): GoogleServices {
     return this.googleServices;
   }
@@ -335,6 +495,22 @@ export default class GetShitDonePlugin extends Plugin {
     return this.indexService;
   }
 
+  getSemanticIndex(): SemanticIndex {
+    return this.semanticIndex;
+  }
+
+  getWebhookJobs(): WebhookJobQueue {
+    return this.webhookJobs;
+  }
+
+  getEventBus(): EventBus {
+    return this.eventBus;
+  }
+
+  getSpeakerAliases(): SpeakerAliasTable {
+    return this.speakerAliases;
+  }
+
   getPersonResearch(): PersonResearchAction {
     return this.personResearch;
   }
@@ -0,0 +1,96 @@
+// ============================================================================
+// AI Provider Helper Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { buildChatCompletionParts, buildChatTurns, withAttachmentContent } from "./ai-provider";
+import type { AIAttachment } from "./ai-provider";
+
+describe("buildChatTurns", () => {
+  it("returns only the user prompt without history", () => {
+    expect(buildChatTurns(undefined, "Hello")).toEqual([{ role: "user", content: "Hello" }]);
+  });
+
+  it("appends the user prompt after prior turns", () => {
+    const turns = buildChatTurns(
+      [
+        { role: "user", content: "Who is Anna?" },
+        { role: "assistant", content: "Anna leads sales." },
+      ],
+      "What did she ask for last week?"
+    );
+    expect(turns).toEqual([
+      { role: "user", content: "Who is Anna?" },
+      { role: "assistant", content: "Anna leads sales." },
+      { role: "user", content: "What did she ask for last week?" },
+    ]);
+  });
+
+  it("drops leading assistant turns and empty messages", () => {
+    const turns = buildChatTurns(
+      [
+        { role: "assistant", content: "Welcome!" },
+        { role: "user", content: "   " },
+        { role: "user", content: "First" },
+      ],
+      "Second"
+    );
+    expect(turns).toEqual([{ role: "user", content: "First\n\nSecond" }]);
+  });
+
+  it("merges consecutive turns with the same role", () => {
+    const turns = buildChatTurns(
+      [
+        { role: "user", content: "A" },
+        { role: "assistant", content: "B" },
+        { role: "assistant", content: "C" },
+      ],
+      "D"
+    );
+    expect(turns).toEqual([
+      { role: "user", content: "A" },
+      { role: "assistant", content: "B\n\nC" },
+      { role: "user", content: "D" },
+    ]);
+  });
+});
+
+describe("withAttachmentContent", () => {
+  const image: AIAttachment = { kind: "image", mimeType: "image/png", data: "AAAA", name: "a.png" };
+  const pdf: AIAttachment = { kind: "pdf", mimeType: "application/pdf", data: "BBBB", name: "b.pdf" };
+
+  it("returns the turns unchanged without attachments", () => {
+    const turns = buildChatTurns(undefined, "Hello");
+    expect(withAttachmentContent(turns, [], buildChatCompletionParts)).toBe(turns);
+  });
+
+  it("attaches files to the current user prompt only", () => {
+    const turns = buildChatTurns(
+      [
+        { role: "user", content: "Earlier" },
+        { role: "assistant", content: "Reply" },
+      ],
+      "Read these"
+    );
+    expect(withAttachmentContent(turns, [image, pdf], buildChatCompletionParts)).toEqual([
+      { role: "user", content: "Earlier" },
+      { role: "assistant", content: "Reply" },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Read these" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+          { type: "file", file: { filename: "b.pdf", file_data: "data:application/pdf;base64,BBBB" } },
+        ],
+      },
+    ]);
+  });
+
+  it("adds a user turn when the conversation ends with the assistant", () => {
+    const turns = withAttachmentContent([{ role: "assistant", content: "Hi" }], [image], (text, files) => ({
+      text,
+      count: files.length,
+    }));
+    expect(turns[1]).toEqual({ role: "user", content: { text: "", count: 1 } });
+  });
+});
@@ -7,10 +7,134 @@
  * Defines the contract for AI model providers (Gemini, OpenAI, etc.)
  */
 
+import { requestUrl } from "obsidian";
+import type { JsonSchema } from "../utils/json-schema";
+import type { AIRequestPriority } from "../types";
+import { classifyError, getRetryAfterMs, handleError, withRetry } from "../utils/error-handler";
+import type { ClassifiedError, RetryOptions } from "../utils/error-handler";
+
 // ============================================================================
 // Types
 // ============================================================================
 
+/**
+ * A single role-tagged conversation turn
+ */
+export interface AIChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * An image or PDF sent with the current user prompt
+ */
+export interface AIAttachment {
+  kind: "image" | "pdf";
+  /** MIME type, e.g. "image/png" or "application/pdf" */
+  mimeType: string;
+  /** Base64-encoded file bytes (no data: URL prefix) */
+  data: string;
+  /** File name (sent with PDFs, shown in the AI trace) */
+  name: string;
+}
+
+/**
+ * Named schema for structured (JSON) output
+ */
+export interface AIJsonSchema {
+  /** Identifier sent to providers that require one (letters, digits, underscores) */
+  name: string;
+  schema: JsonSchema;
+}
+
+/**
+ * A function the model may call (name, what it does, JSON Schema of its arguments)
+ */
+export interface AIToolDefinition {
+  /** Identifier sent to the model (letters, digits, underscores) */
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface AIToolCall {
+  /** Vendor call id, echoed back with the result (generated for Gemini) */
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Output of one tool call, sent back to the model
+ */
+export interface AIToolResult {
+  callId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+/**
+ * One completed round of a tool loop: the model's turn that requested the calls
+ * (in the provider's native format, replayed verbatim) and the results
+ */
+export interface AIToolRound {
+  assistant: unknown;
+  calls: AIToolCall[];
+  results: AIToolResult[];
+}
+
+/**
+ * Reply of a tool-enabled call: text, requested tool calls, or both
+ */
+export interface AIToolResponse {
+  text: string | null;
+  calls: AIToolCall[];
+  /** The model's turn in the provider's native format (goes into AIToolRound.assistant) */
+  assistant: unknown;
+}
+
+/**
+ * A web page the answer is grounded in (normalized from each provider's search metadata)
+ */
+export interface AICitation {
+  url: string;
+  title?: string;
+  /** Text the source supports or was quoted from, when the provider returns it */
+  snippet?: string;
+}
+
+/**
+ * Token usage reported by a provider for one call
+ */
+export interface AIUsage {
+  inputTokens: number;
+  /** Visible output tokens (excludes thinking tokens) */
+  outputTokens: number;
+  /** Reasoning/thinking tokens billed as output (0 when the model doesn't report them) */
+  thinkingTokens: number;
+  /** Model the vendor actually served, when it differs from the requested ID (OpenRouter routing) */
+  servedModel?: string;
+}
+
+/**
+ * Receives usage once the provider has parsed it from the response
+ */
+export type AIUsageHandler = (usage: AIUsage) => void;
+
+/**
+ * Receives the web sources a search-grounded response cites
+ */
+export type AICitationHandler = (citations: AICitation[]) => void;
+
+/**
+ * Receives the classified error when a provider gives up on a call (after retries)
+ */
+export type AIErrorHandler = (error: ClassifiedError) => void;
+
 export interface AICallOptions {
   /**
    * Enable web search (Gemini: Google Search, OpenAI: web_search_options for gpt-4o+, Anthropic: web_search_20250305 tool)
@@ -34,8 +158,114 @@ export interface AICallOptions {
    * - For Anthropic Opus 4.5: Maps to output_config.effort parameter
    */
   thinkingBudget?: "low" | "medium" | "high" | null;
+
+  /**
+   * Prior conversation turns, oldest first, sent before the current `user` prompt.
+   * Each provider maps these onto its native messages format.
+   */
+  history?: AIChatMessage[];
+
+  /**
+   * Images and PDFs that accompany the current `user` prompt.
+   * Each provider maps these onto its multimodal content parts
+   * (Gemini: inlineData, OpenAI: input_image/input_file, Anthropic: image/document blocks,
+   * OpenRouter: image_url/file). Local servers only receive images.
+   */
+  attachments?: AIAttachment[];
+
+  /**
+   * Request JSON output matching this schema via the provider's native feature
+   * (Gemini: responseJsonSchema, OpenAI: text.format json_schema,
+   * Anthropic: forced tool call, OpenRouter: response_format).
+   * Usually set by AIService.callModelJson, which also validates the result.
+   */
+  jsonSchema?: AIJsonSchema;
+
+  /**
+   * Functions the model may call (callModelWithTools only). Each provider maps these onto
+   * its native function calling (Gemini: functionDeclarations, OpenAI: function tools,
+   * Anthropic: tools with input_schema, OpenRouter/local: chat completions tools).
+   */
+  tools?: AIToolDefinition[];
+
+  /**
+   * Completed tool rounds after the current `user` prompt, oldest first
+   */
+  toolRounds?: AIToolRound[];
+
+  /**
+   * "none" asks for a final text answer without further tool calls (default "auto")
+   */
+  toolChoice?: "auto" | "none";
+
+  /**
+   * What embedded texts are used for (embed only): "document" for indexed passages,
+   * "query" for lookups. Gemini tunes the vectors for each; other vendors ignore it.
+   */
+  embedTask?: "document" | "query";
+
+  /**
+   * Per-model timeout when walking a fallback chain (AIService only; default 5 minutes).
+   * Streams time out after this long without a chunk.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Calling action recorded in the usage ledger (e.g. "meetingBriefing")
+   */
+  action?: string;
+
+  /**
+   * Note the call is made for (shown in the AI trace inspector)
+   */
+  notePath?: string;
+
+  /**
+   * Trace id of the call this one repeats with another model (set by the trace inspector)
+   */
+  rerunOf?: string;
+
+  /**
+   * Essential calls still run once the monthly budget cap is reached
+   */
+  essential?: boolean;
+
+  /**
+   * Skip the response cache for this call (the fresh response is still stored)
+   */
+  bypassCache?: boolean;
+
+  /**
+   * Scheduling priority in AIService's per-provider queues (default "normal")
+   */
+  priority?: AIRequestPriority;
+
+  /**
+   * Cancels the call: queued requests are dropped, streaming requests abort their fetch
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called with the token usage parsed from the response (set by AIService)
+   */
+  onUsage?: AIUsageHandler;
+
+  /**
+   * Called with the sources behind a search-grounded response (set by AIService)
+   */
+  onCitations?: AICitationHandler;
+
+  /**
+   * Called with the classified failure before the provider returns null (set by AIService)
+   */
+  onError?: AIErrorHandler;
 }
 
+/**
+ * Receives each text delta as it arrives from a streaming call
+ */
+export type AIStreamHandler = (chunk: string) => void;
+
 /**
  * AI Provider interface
  * All AI providers must implement this interface
@@ -55,4 +285,376 @@ export interface AIProvider {
     model: string,
     options?: AICallOptions
   ): Promise<string | null>;
+
+  /**
+   * Call the AI model and stream text deltas as they are generated
+   * @param system System prompt/instructions
+   * @param user User prompt/content
+   * @param model Model identifier
+   * @param onChunk Called with every text delta in arrival order
+   * @param options Generation options
+   * @returns Full generated text or null if failed
+   */
+  streamModel(
+    system: string,
+    user: string,
+    model: string,
+    onChunk: AIStreamHandler,
+    options?: AICallOptions
+  ): Promise<string | null>;
+
+  /**
+   * Call the AI model with `options.tools` available and `options.toolRounds` replayed.
+   * Runs one round; AIService executes the requested calls and calls again.
+   * @returns Text and/or tool calls, or null if failed
+   */
+  callModelWithTools(
+    system: string,
+    user: string,
+    model: string,
+    options?: AICallOptions
+  ): Promise<AIToolResponse | null>;
+
+  /**
+   * Embed texts with an embedding model
+   * @param texts Inputs, embedded in one request
+   * @param model Embedding model identifier (e.g., "gemini-embedding-001")
+   * @param options Only bookkeeping options and `embedTask` apply
+   * @returns One vector per input in input order, or null if failed or unsupported
+   */
+  embed(texts: string[], model: string, options?: AICallOptions): Promise<number[][] | null>;
+}
+
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build the turn list for a call: prior history followed by the current user prompt.
+ * Normalizes to what every vendor accepts: no empty turns, starts with a user turn,
+ * and strictly alternates roles (consecutive same-role turns are merged).
+ */
+export function buildChatTurns(history: AIChatMessage[] | undefined, user: string): AIChatMessage[] {
+  const turns: AIChatMessage[] = [];
+  const all = [...(history ?? []), { role: "user" as const, content: user }];
+
+  for (const message of all) {
+    const content = message.content;
+    if (!content || !content.trim()) continue;
+    if (turns.length === 0 && message.role !== "user") continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content = `${last.content}\n\n${content}`;
+    } else {
+      turns.push({ role: message.role, content });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Turn list with the attachments added to the last turn (the current user prompt).
+ * Earlier turns stay plain text; without attachments the turns are returned unchanged.
+ */
+export function withAttachmentContent<T>(
+  turns: AIChatMessage[],
+  attachments: AIAttachment[] | undefined,
+  toContent: (text: string, attachments: AIAttachment[]) => T
+): Array<{ role: AIChatMessage["role"]; content: string | T }> {
+  if (!attachments?.length) return turns;
+  const last = turns[turns.length - 1];
+  if (!last || last.role !== "user") {
+    return [...turns, { role: "user", content: toContent("", attachments) }];
+  }
+  return [...turns.slice(0, -1), { role: "user", content: toContent(last.content, attachments) }];
+}
+
+/**
+ * data: URL for an attachment (OpenAI and chat completions formats)
+ */
+export function attachmentDataUrl(attachment: AIAttachment): string {
+  return `data:${attachment.mimeType};base64,${attachment.data}`;
+}
+
+/**
+ * Chat completions content parts (OpenRouter and local servers)
+ */
+export function buildChatCompletionParts(
+  text: string,
+  attachments: AIAttachment[]
+): Array<Record<string, unknown>> {
+  const parts: Array<Record<string, unknown>> = text ? [{ type: "text", text }] : [];
+  for (const attachment of attachments) {
+    if (attachment.kind === "image") {
+      parts.push({ type: "image_url", image_url: { url: attachmentDataUrl(attachment) } });
+    } else {
+      parts.push({ type: "file", file: { filename: attachment.name, file_data: attachmentDataUrl(attachment) } });
+    }
+  }
+  return parts;
+}
+
+// ============================================================================
+// Tool Helpers
+// ============================================================================
+
+/**
+ * Parse a tool call's JSON argument string (invalid or non-object JSON becomes {})
+ */
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+    return raw as Record<string, unknown>;
+  }
+  if (typeof raw !== "string" || !raw.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Chat completions function tools (OpenRouter and local servers)
+ */
+export function buildChatCompletionTools(tools: AIToolDefinition[]): Array<Record<string, unknown>> {
+  return tools.map((tool) => ({
+    type: "function",
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+/**
+ * Chat completions messages for completed tool rounds: the assistant message
+ * that made the calls, then one "tool" message per result
+ */
+export function buildChatCompletionToolMessages(
+  rounds: AIToolRound[] | undefined
+): Array<{ role: string; content: unknown; [key: string]: unknown }> {
+  const messages: Array<{ role: string; content: unknown; [key: string]: unknown }> = [];
+  for (const round of rounds ?? []) {
+    messages.push(round.assistant as { role: string; content: unknown });
+    for (const result of round.results) {
+      messages.push({ role: "tool", tool_call_id: result.callId, content: result.content });
+    }
+  }
+  return messages;
+}
+
+/**
+ * Tool calls of a chat completions assistant message
+ */
+export function parseChatCompletionToolCalls(
+  message: { tool_calls?: Array<{ id?: string; function?: { name?: string; arguments?: unknown } }> } | undefined
+): AIToolCall[] {
+  return (message?.tool_calls ?? [])
+    .filter((call) => call.function?.name)
+    .map((call, index) => ({
+      id: call.id || `call_${index}`,
+      name: call.function?.name as string,
+      arguments: parseToolArguments(call.function?.arguments),
+    }));
+}
+
+/**
+ * Usage block of an OpenAI-compatible chat completions response
+ * (OpenRouter and local servers; completion_tokens includes reasoning)
+ */
+export interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: {
+    reasoning_tokens?: number;
+  };
+}
+
+/**
+ * Convert chat completions usage into AIUsage
+ */
+export function parseChatCompletionUsage(usage: ChatCompletionUsage | null | undefined): AIUsage | null {
+  if (!usage) return null;
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  return {
+    inputTokens: usage.prompt_tokens ?? 0,
+    outputTokens: Math.max(0, (usage.completion_tokens ?? 0) - thinkingTokens),
+    thinkingTokens,
+  };
+}
+
+// ============================================================================
+// Embedding Helpers
+// ============================================================================
+
+/**
+ * Body of an OpenAI-compatible /embeddings response (OpenAI, OpenRouter and local servers)
+ */
+export interface EmbeddingsResponse {
+  data?: Array<{ embedding?: number[]; index?: number }>;
+  usage?: { prompt_tokens?: number };
+  error?: { message: string };
+}
+
+/**
+ * Vectors of an /embeddings response in input order
+ * @returns null unless there is exactly one vector per input
+ */
+export function parseEmbeddings(data: EmbeddingsResponse | null, count: number): number[][] | null {
+  const rows = [...(data?.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  const vectors = rows.map((row) => row.embedding).filter((vector): vector is number[] => Array.isArray(vector));
+  return vectors.length === count ? vectors : null;
+}
+
+/**
+ * Usage of an /embeddings response (input tokens only)
+ */
+export function parseEmbeddingUsage(data: EmbeddingsResponse | null): AIUsage | null {
+  const tokens = data?.usage?.prompt_tokens;
+  return tokens != null ? { inputTokens: tokens, outputTokens: 0, thinkingTokens: 0 } : null;
+}
+
+/**
+ * POST texts to an OpenAI-compatible /embeddings endpoint with retries
+ * @returns Vectors in input order, or null when the call failed
+ */
+export async function requestEmbeddings(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  texts: string[],
+  model: string,
+  options: AICallOptions
+): Promise<number[][] | null> {
+  try {
+    return await withRetry(async () => {
+      const response = await requestUrl({
+        url,
+        method: "POST",
+        headers,
+        body: JSON.stringify({ model, input: texts }),
+        throw: false,
+      });
+
+      const data = readResponseJson<EmbeddingsResponse & { message?: string }>(response);
+      if (response.status !== 200 || data?.error) {
+        throw providerHttpError(data?.error?.message || data?.message, response.status, response.headers);
+      }
+
+      const usage = parseEmbeddingUsage(data);
+      if (usage) options.onUsage?.(usage);
+
+      const vectors = parseEmbeddings(data, texts.length);
+      if (!vectors) {
+        throw classifyError(new Error(`${label} returned ${data?.data?.length ?? 0} embeddings for ${texts.length} inputs`));
+      }
+      return vectors;
+    }, providerRetryOptions(label, model, options));
+  } catch (error: unknown) {
+    return reportProviderError(`${label} Embedding Error`, error, options, { model, url });
+  }
+}
+
+// ============================================================================
+// Citation Helpers
+// ============================================================================
+
+/**
+ * Combine citation lists: http(s) URLs only, first occurrence of each URL wins
+ * (a later duplicate can still fill in a missing title or snippet)
+ */
+export function mergeCitations(...lists: Array<AICitation[] | null | undefined>): AICitation[] {
+  const byUrl = new Map<string, AICitation>();
+  for (const citation of lists.flatMap((list) => list ?? [])) {
+    const url = citation.url?.trim();
+    if (!url || !/^https?:\/\//i.test(url)) continue;
+    const existing = byUrl.get(url);
+    if (existing) {
+      existing.title = existing.title || citation.title;
+      existing.snippet = existing.snippet || citation.snippet;
+      continue;
+    }
+    byUrl.set(url, {
+      url,
+      ...(citation.title?.trim() ? { title: citation.title.trim() } : {}),
+      ...(citation.snippet?.trim() ? { snippet: citation.snippet.trim() } : {}),
+    });
+  }
+  return [...byUrl.values()];
+}
+
+/**
+ * Report citations to AIService (nothing is reported when the list is empty)
+ */
+export function reportCitations(options: AICallOptions, ...lists: Array<AICitation[] | null | undefined>): void {
+  const citations = mergeCitations(...lists);
+  if (citations.length > 0) options.onCitations?.(citations);
+}
+
+// ============================================================================
+// Error Helpers
+// ============================================================================
+
+/**
+ * Build a classified error from a non-2xx response (status and Retry-After included)
+ */
+export function providerHttpError(
+  message: string | null | undefined,
+  status: number,
+  headers?: Record<string, string> | Headers | null
+): ClassifiedError {
+  return classifyError(new Error(message || `HTTP ${status}`), {
+    status,
+    retryAfterMs: getRetryAfterMs(headers),
+  });
+}
+
+/**
+ * Parsed JSON body of a requestUrl response, or null for empty/non-JSON bodies (e.g. gateway error pages)
+ */
+export function readResponseJson<T>(response: { json: unknown }): T | null {
+  try {
+    return (response.json as T) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Retry settings for one provider call: aborts with the call and logs each retry
+ */
+export function providerRetryOptions(
+  label: string,
+  model: string,
+  options: AICallOptions,
+  canRetry?: () => boolean
+): RetryOptions {
+  return {
+    signal: options.signal,
+    canRetry,
+    onRetry: (error, attempt, delayMs) => {
+      console.warn(
+        `[GSD] ${label} ${model}: ${error.category} (${error.message}), retry ${attempt} in ${Math.round(delayMs / 1000)}s`
+      );
+    },
+  };
+}
+
+/**
+ * Log a failed provider call, report the classified error to AIService and return null
+ */
+export function reportProviderError(
+  context: string,
+  error: unknown,
+  options: AICallOptions,
+  additionalContext: Record<string, unknown> = {}
+): null {
+  const classified = classifyError(error);
+  handleError(context, classified, {
+    additionalContext: { ...additionalContext, category: classified.category, status: classified.status },
+    silent: options.signal?.aborted,
+  });
+  options.onError?.(classified);
+  return null;
 }
@@ -0,0 +1,127 @@
+// ============================================================================
+// AI Scheduler Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createMockSettings } from "../__mocks__/services";
+import type { PluginSettings, AIProviderLimits } from "../types";
+import { AIScheduler, AIRequestCancelledError } from "./ai-scheduler";
+
+function makeSettings(gemini: Partial<AIProviderLimits>): PluginSettings {
+  return createMockSettings({ scheduler: { providers: { gemini } } });
+}
+
+/**
+ * A task that stays pending until released
+ */
+function deferred(log: string[], name: string) {
+  let release: () => void = () => undefined;
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const task = () => {
+    log.push(name);
+    return done.then(() => name);
+  };
+  return { task, release };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("AIScheduler", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("caps concurrent requests per provider", async () => {
+    const scheduler = new AIScheduler(makeSettings({ maxConcurrent: 2, requestsPerMinute: 0 }));
+    const started: string[] = [];
+    const a = deferred(started, "a");
+    const b = deferred(started, "b");
+    const c = deferred(started, "c");
+
+    const results = [a, b, c].map((d) => scheduler.schedule("gemini", d.task));
+    expect(started).toEqual(["a", "b"]);
+    expect(scheduler.getStats().gemini).toEqual({ active: 2, queued: 1 });
+
+    a.release();
+    await flush();
+    expect(started).toEqual(["a", "b", "c"]);
+
+    b.release();
+    c.release();
+    expect(await Promise.all(results)).toEqual(["a", "b", "c"]);
+  });
+
+  it("keeps providers in separate lanes", () => {
+    const scheduler = new AIScheduler(makeSettings({ maxConcurrent: 1, requestsPerMinute: 0 }));
+    const started: string[] = [];
+    void scheduler.schedule("gemini", deferred(started, "g1").task);
+    void scheduler.schedule("gemini", deferred(started, "g2").task);
+    void scheduler.schedule("openai", deferred(started, "o1").task);
+
+    expect(started).toEqual(["g1", "o1"]);
+  });
+
+  it("starts interactive requests before queued background work", async () => {
+    const scheduler = new AIScheduler(makeSettings({ maxConcurrent: 1, requestsPerMinute: 0 }));
+    const started: string[] = [];
+    const first = deferred(started, "first");
+    void scheduler.schedule("gemini", first.task, { priority: "background" });
+    void scheduler.schedule("gemini", deferred(started, "research").task, { priority: "background" });
+    void scheduler.schedule("gemini", deferred(started, "briefing").task);
+    void scheduler.schedule("gemini", deferred(started, "coach").task, { priority: "interactive" });
+
+    first.release();
+    await flush();
+    expect(started).toEqual(["first", "coach"]);
+  });
+
+  it("spaces requests with the token bucket", async () => {
+    vi.useFakeTimers();
+    const scheduler = new AIScheduler(makeSettings({ maxConcurrent: 5, requestsPerMinute: 60, burst: 2 }));
+    const started: string[] = [];
+    ["a", "b", "c", "d"].forEach((name) => {
+      void scheduler.schedule("gemini", deferred(started, name).task);
+    });
+
+    expect(started).toEqual(["a", "b"]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(["a", "b", "c"]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("rejects queued requests when their signal aborts", async () => {
+    const scheduler = new AIScheduler(makeSettings({ maxConcurrent: 1, requestsPerMinute: 0 }));
+    const started: string[] = [];
+    void scheduler.schedule("gemini", deferred(started, "running").task);
+    const controller = new AbortController();
+    const queued = scheduler.schedule("gemini", deferred(started, "queued").task, {
+      signal: controller.signal,
+    });
+
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(AIRequestCancelledError);
+    expect(scheduler.getStats().gemini).toEqual({ active: 1, queued: 0 });
+    expect(started).toEqual(["running"]);
+  });
+
+  it("cancels everything still waiting", async () => {
+    const scheduler = new AIScheduler(makeSettings({ maxConcurrent: 1, requestsPerMinute: 0 }));
+    const started: string[] = [];
+    const running = deferred(started, "running");
+    const first = scheduler.schedule("gemini", running.task);
+    const waiting = [
+      scheduler.schedule("gemini", deferred(started, "x").task),
+      scheduler.schedule("gemini", deferred(started, "y").task),
+    ];
+
+    expect(scheduler.cancelPending()).toBe(2);
+    for (const request of waiting) {
+      await expect(request).rejects.toBeInstanceOf(AIRequestCancelledError);
+    }
+    running.release();
+    expect(await first).toBe("running");
+  });
+});
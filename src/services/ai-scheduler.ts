@@ -0,0 +1,237 @@
+// ============================================================================
+// AI Scheduler - Per-provider concurrency, rate limits and priorities
+// ============================================================================
+
+import type {
+  PluginSettings,
+  AIProviderId,
+  AIRequestPriority,
+  AIProviderLimits,
+} from "../types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AIScheduleOptions {
+  priority?: AIRequestPriority;
+  /** Aborting rejects the request while it is still queued */
+  signal?: AbortSignal;
+  /** Shown in logs (usually the calling action) */
+  label?: string;
+}
+
+export interface AISchedulerLaneStats {
+  active: number;
+  queued: number;
+}
+
+interface QueuedRequest {
+  sequence: number;
+  rank: number;
+  label: string;
+  start: () => void;
+  cancel: (error: AIRequestCancelledError) => void;
+}
+
+interface Lane {
+  active: number;
+  queue: QueuedRequest[];
+  tokens: number;
+  lastRefill: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Thrown when a queued request is cancelled before it starts
+ */
+export class AIRequestCancelledError extends Error {
+  constructor(label: string) {
+    super(`AI request cancelled: ${label}`);
+    this.name = "AIRequestCancelledError";
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PRIORITY_RANK: Record<AIRequestPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  background: 2,
+};
+
+const UNLIMITED: AIProviderLimits = { maxConcurrent: 4, requestsPerMinute: 0, burst: 1 };
+
+// ============================================================================
+// AIScheduler Class
+// ============================================================================
+
+/**
+ * AI Scheduler
+ * Every provider request from AIService runs through here. Each provider has its
+ * own lane with a concurrency cap and a token bucket; queued requests start in
+ * priority order (FIFO within a priority) as slots and tokens free up.
+ */
+export class AIScheduler {
+  private settings: PluginSettings;
+  private lanes: Map<AIProviderId, Lane> = new Map();
+  private sequence = 0;
+  private now: () => number;
+
+  constructor(settings: PluginSettings, now: () => number = Date.now) {
+    this.settings = settings;
+    this.now = now;
+  }
+
+  /**
+   * Update settings reference (called when settings change)
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+    for (const provider of this.lanes.keys()) {
+      this.pump(provider);
+    }
+  }
+
+  /**
+   * Run a task once the provider's lane has a free slot and a rate-limit token
+   * @throws AIRequestCancelledError if cancelled while queued
+   */
+  schedule<T>(provider: AIProviderId, task: () => Promise<T>, options: AIScheduleOptions = {}): Promise<T> {
+    const label = options.label || "request";
+    const signal = options.signal;
+    if (signal?.aborted) {
+      return Promise.reject(new AIRequestCancelledError(label));
+    }
+
+    const lane = this.getLane(provider);
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const index = lane.queue.indexOf(request);
+        if (index === -1) return; // Already running: providers see the signal themselves
+        lane.queue.splice(index, 1);
+        request.cancel(new AIRequestCancelledError(label));
+      };
+
+      const request: QueuedRequest = {
+        sequence: this.sequence++,
+        rank: PRIORITY_RANK[options.priority ?? "normal"],
+        label,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          lane.active++;
+          let settled: Promise<T>;
+          try {
+            settled = task();
+          } catch (error: unknown) {
+            settled = Promise.reject(error);
+          }
+          settled
+            .then(resolve, reject)
+            .finally(() => {
+              lane.active--;
+              this.pump(provider);
+            });
+        },
+        cancel: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort);
+      lane.queue.push(request);
+      lane.queue.sort((a, b) => a.rank - b.rank || a.sequence - b.sequence);
+      this.pump(provider);
+    });
+  }
+
+  /**
+   * Reject every queued (not yet started) request
+   * @returns Number of requests cancelled
+   */
+  cancelPending(provider?: AIProviderId): number {
+    let cancelled = 0;
+    for (const [id, lane] of this.lanes) {
+      if (provider && id !== provider) continue;
+      const queued = lane.queue.splice(0);
+      queued.forEach((request) => request.cancel(new AIRequestCancelledError(request.label)));
+      cancelled += queued.length;
+    }
+    return cancelled;
+  }
+
+  getStats(): Partial<Record<AIProviderId, AISchedulerLaneStats>> {
+    const stats: Partial<Record<AIProviderId, AISchedulerLaneStats>> = {};
+    for (const [id, lane] of this.lanes) {
+      stats[id] = { active: lane.active, queued: lane.queue.length };
+    }
+    return stats;
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private getLimits(provider: AIProviderId): AIProviderLimits {
+    return this.settings.scheduler?.providers?.[provider] ?? UNLIMITED;
+  }
+
+  private getLane(provider: AIProviderId): Lane {
+    let lane = this.lanes.get(provider);
+    if (!lane) {
+      lane = {
+        active: 0,
+        queue: [],
+        tokens: Math.max(1, this.getLimits(provider).burst),
+        lastRefill: this.now(),
+        timer: null,
+      };
+      this.lanes.set(provider, lane);
+    }
+    return lane;
+  }
+
+  /**
+   * Start as many queued requests as slots and tokens allow; if only the rate
+   * limit blocks, wake up when the next token is due
+   */
+  private pump(provider: AIProviderId): void {
+    const lane = this.getLane(provider);
+    const limits = this.getLimits(provider);
+    const maxConcurrent = Math.max(1, limits.maxConcurrent);
+    const rateLimited = limits.requestsPerMinute > 0;
+
+    while (lane.queue.length > 0 && lane.active < maxConcurrent) {
+      if (rateLimited) {
+        this.refill(lane, limits);
+        if (lane.tokens < 1) {
+          this.wakeForNextToken(provider, lane, limits);
+          return;
+        }
+        lane.tokens -= 1;
+      }
+      const request = lane.queue.shift() as QueuedRequest;
+      request.start();
+    }
+  }
+
+  private refill(lane: Lane, limits: AIProviderLimits): void {
+    const now = this.now();
+    const capacity = Math.max(1, limits.burst);
+    const perMs = limits.requestsPerMinute / 60000;
+    lane.tokens = Math.min(capacity, lane.tokens + (now - lane.lastRefill) * perMs);
+    lane.lastRefill = now;
+  }
+
+  private wakeForNextToken(provider: AIProviderId, lane: Lane, limits: AIProviderLimits): void {
+    if (lane.timer) return;
+    const waitMs = Math.ceil((1 - lane.tokens) / (limits.requestsPerMinute / 60000));
+    lane.timer = setTimeout(() => {
+      lane.timer = null;
+      this.pump(provider);
+    }, waitMs);
+  }
+}
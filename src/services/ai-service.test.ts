@@ -0,0 +1,547 @@
+// ============================================================================
+// AI Service Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { DEFAULT_SETTINGS } from "../types/defaults";
+import { AIService, parseModelChain } from "./ai-service";
+import { GeminiProvider } from "./gemini-provider";
+import { AnthropicProvider } from "./anthropic-provider";
+import { OpenAIProvider } from "./openai-provider";
+import { OpenRouterProvider } from "./openrouter-provider";
+import { UsageLedger } from "./usage-ledger";
+import { ResponseCache } from "./response-cache";
+import { ClassifiedError } from "../utils/error-handler";
+import { createMockApp } from "../__mocks__/obsidian";
+import type { App } from "obsidian";
+
+describe("parseModelChain", () => {
+  it("returns a single model unchanged", () => {
+    expect(parseModelChain("gemini-pro-latest")).toEqual(["gemini-pro-latest"]);
+  });
+
+  it("splits on commas and arrows", () => {
+    expect(parseModelChain("gemini-pro-latest, claude-sonnet-4-5 → openrouter:auto-free -> local:llama3")).toEqual([
+      "gemini-pro-latest",
+      "claude-sonnet-4-5",
+      "openrouter:auto-free",
+      "local:llama3",
+    ]);
+  });
+
+  it("keeps OpenRouter ids with slashes and colons intact", () => {
+    expect(parseModelChain("meta-llama/llama-3.3-70b-instruct:free")).toEqual([
+      "meta-llama/llama-3.3-70b-instruct:free",
+    ]);
+  });
+
+  it("ignores empty entries", () => {
+    expect(parseModelChain("gpt-4o, , ")).toEqual(["gpt-4o"]);
+  });
+});
+
+describe("AIService fallback chains", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("walks the chain until a model answers and records it", async () => {
+    const gemini = vi.spyOn(GeminiProvider.prototype, "callModel").mockResolvedValue(null);
+    const anthropic = vi.spyOn(AnthropicProvider.prototype, "callModel").mockResolvedValue("answer");
+    const openrouter = vi.spyOn(OpenRouterProvider.prototype, "callModel").mockResolvedValue("unused");
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const chain = "gemini-pro-latest, claude-sonnet-4-5, openrouter:auto-free";
+    const result = await service.callModelDetailed("sys", "user", chain);
+
+    expect(result.text).toBe("answer");
+    expect(result.model).toBe("claude-sonnet-4-5");
+    expect(result.attempts.map((a) => a.outcome)).toEqual(["empty", "ok"]);
+    expect(gemini).toHaveBeenCalledWith(
+      "sys",
+      "user",
+      "gemini-pro-latest",
+      expect.objectContaining({ onError: expect.any(Function) })
+    );
+    expect(anthropic).toHaveBeenCalledTimes(1);
+    expect(openrouter).not.toHaveBeenCalled();
+    expect(service.getLastAnswer(chain)?.model).toBe("claude-sonnet-4-5");
+  });
+
+  it("moves on when a model times out", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockReturnValue(new Promise(() => {}));
+    vi.spyOn(AnthropicProvider.prototype, "callModel").mockResolvedValue("late but fine");
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const result = await service.callModelDetailed("sys", "user", "gemini-pro-latest → claude-sonnet-4-5", {
+      timeoutMs: 10,
+    });
+
+    expect(result.model).toBe("claude-sonnet-4-5");
+    expect(result.attempts[0].outcome).toBe("timeout");
+  });
+
+  it("returns null when every model fails", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockResolvedValue(null);
+    vi.spyOn(AnthropicProvider.prototype, "callModel").mockRejectedValue(new Error("401"));
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const result = await service.callModelDetailed("sys", "user", "gemini-pro-latest, claude-sonnet-4-5");
+
+    expect(result.text).toBeNull();
+    expect(result.model).toBeNull();
+    expect(result.attempts.map((a) => a.outcome)).toEqual(["empty", "error"]);
+  });
+
+  it("does not fall back once streaming has emitted tokens", async () => {
+    vi.spyOn(GeminiProvider.prototype, "streamModel").mockImplementation(
+      async (_s, _u, _m, onChunk) => {
+        onChunk("partial");
+        return null;
+      }
+    );
+    const anthropic = vi.spyOn(AnthropicProvider.prototype, "streamModel").mockResolvedValue("other");
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const chunks: string[] = [];
+    const result = await service.streamModelDetailed(
+      "sys",
+      "user",
+      "gemini-pro-latest, claude-sonnet-4-5",
+      (chunk) => chunks.push(chunk)
+    );
+
+    expect(chunks).toEqual(["partial"]);
+    expect(result.text).toBeNull();
+    expect(anthropic).not.toHaveBeenCalled();
+  });
+
+  it("times out a stream that stops sending chunks", async () => {
+    vi.spyOn(GeminiProvider.prototype, "streamModel").mockReturnValue(new Promise(() => {}));
+    vi.spyOn(AnthropicProvider.prototype, "streamModel").mockResolvedValue("fallback");
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const result = await service.streamModelDetailed("sys", "user", "gemini-pro-latest, claude-sonnet-4-5", () => {}, {
+      timeoutMs: 10,
+    });
+
+    expect(result.text).toBe("fallback");
+    expect(result.attempts.map((a) => a.outcome)).toEqual(["timeout", "ok"]);
+  });
+
+  it("keeps a slow stream alive while chunks arrive and stops when they don't", async () => {
+    vi.spyOn(GeminiProvider.prototype, "streamModel").mockImplementation(async (_s, _u, _m, onChunk) => {
+      for (const chunk of ["a", "b", "c"]) {
+        await new Promise((resolve) => setTimeout(resolve, 15));
+        onChunk(chunk);
+      }
+      return new Promise<string | null>(() => {});
+    });
+    const anthropic = vi.spyOn(AnthropicProvider.prototype, "streamModel").mockResolvedValue("other");
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const chunks: string[] = [];
+    const result = await service.streamModelDetailed(
+      "sys",
+      "user",
+      "gemini-pro-latest, claude-sonnet-4-5",
+      (chunk) => chunks.push(chunk),
+      { timeoutMs: 40 }
+    );
+
+    expect(chunks).toEqual(["a", "b", "c"]);
+    expect(result.text).toBeNull();
+    expect(result.attempts.map((a) => a.outcome)).toEqual(["timeout"]);
+    expect(anthropic).not.toHaveBeenCalled();
+  });
+
+  it("stops walking the chain once the call is cancelled", async () => {
+    const gemini = vi.spyOn(GeminiProvider.prototype, "callModel").mockResolvedValue("unused");
+    const anthropic = vi.spyOn(AnthropicProvider.prototype, "callModel").mockResolvedValue("unused");
+
+    const controller = new AbortController();
+    controller.abort();
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const result = await service.callModelDetailed("sys", "user", "gemini-pro-latest, claude-sonnet-4-5", {
+      signal: controller.signal,
+    });
+
+    expect(result.text).toBeNull();
+    expect(result.attempts.map((a) => a.outcome)).toEqual(["cancelled"]);
+    expect(gemini).not.toHaveBeenCalled();
+    expect(anthropic).not.toHaveBeenCalled();
+  });
+
+  it("records classified provider failures and exposes the last one", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockImplementation(async (_s, _u, _m, options) => {
+      options?.onError?.(new ClassifiedError("Rate limit reached", "rate-limit", { status: 429 }));
+      return null;
+    });
+    vi.spyOn(AnthropicProvider.prototype, "callModel").mockImplementation(async (_s, _u, _m, options) => {
+      options?.onError?.(new ClassifiedError("invalid x-api-key", "auth", { status: 401 }));
+      return null;
+    });
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const chain = "gemini-pro-latest, claude-sonnet-4-5";
+    const result = await service.callModelDetailed("sys", "user", chain);
+
+    expect(result.attempts).toMatchObject([
+      { outcome: "error", errorCategory: "rate-limit" },
+      { outcome: "error", errorCategory: "auth", errorMessage: "invalid x-api-key" },
+    ]);
+    expect(service.getLastError(chain)?.category).toBe("auth");
+    expect(service.getLastError()?.category).toBe("auth");
+
+    vi.spyOn(AnthropicProvider.prototype, "callModel").mockResolvedValue("answer");
+    await service.callModelDetailed("sys", "user", chain);
+    expect(service.getLastError(chain)).toBeNull();
+  });
+});
+
+describe("AIService usage ledger", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function makeService(monthlyBudgetUsd = 0) {
+    const settings = { ...DEFAULT_SETTINGS, usage: { ...DEFAULT_SETTINGS.usage, monthlyBudgetUsd } };
+    const service = new AIService(settings);
+    const ledger = new UsageLedger(createMockApp() as unknown as App, settings);
+    service.setUsageLedger(ledger);
+    return { service, ledger };
+  }
+
+  it("records provider-reported usage with the calling action", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockImplementation(async (_s, _u, _m, options) => {
+      options?.onUsage?.({ inputTokens: 100, outputTokens: 20, thinkingTokens: 5 });
+      return "answer";
+    });
+
+    const { service, ledger } = makeService();
+    await service.callModel("sys", "user", "gemini-pro-latest", { action: "orgResearch" });
+
+    expect(ledger.getEntries()).toHaveLength(1);
+    expect(ledger.getEntries()[0]).toMatchObject({
+      action: "orgResearch",
+      model: "gemini-pro-latest",
+      inputTokens: 100,
+      outputTokens: 20,
+      thinkingTokens: 5,
+    });
+  });
+
+  it("counts successful calls even without reported usage", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockResolvedValue("answer");
+
+    const { service, ledger } = makeService();
+    await service.callModel("sys", "user", "gemini-pro-latest");
+
+    expect(ledger.getEntries()[0]).toMatchObject({ action: "other", inputTokens: 0 });
+  });
+
+  it("blocks non-essential calls once the monthly budget is spent", async () => {
+    const gemini = vi.spyOn(GeminiProvider.prototype, "callModel").mockResolvedValue("answer");
+
+    const { service, ledger } = makeService(1);
+    ledger.record("council", "gemini-pro-latest", { inputTokens: 1_000_000, outputTokens: 0, thinkingTokens: 0 });
+
+    expect(await service.callModel("sys", "user", "gemini-pro-latest", { action: "meetingBriefing" })).toBeNull();
+    expect(gemini).not.toHaveBeenCalled();
+
+    expect(
+      await service.callModel("sys", "user", "gemini-pro-latest", { action: "o3Coach", essential: true })
+    ).toBe("answer");
+  });
+});
+
+describe("AIService response cache", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function makeService(enabled = true) {
+    const settings = { ...DEFAULT_SETTINGS, responseCache: { ...DEFAULT_SETTINGS.responseCache, enabled } };
+    const files = new Map<string, string>();
+    const cache = new ResponseCache(
+      {
+        exists: async (path: string) => files.has(path),
+        read: async (path: string) => files.get(path) ?? "",
+        write: async (path: string, data: string) => {
+          files.set(path, data);
+        },
+      },
+      "response-cache.json",
+      settings
+    );
+    const service = new AIService(settings);
+    service.setResponseCache(cache);
+    return service;
+  }
+
+  it("serves identical requests from the cache", async () => {
+    const gemini = vi.spyOn(GeminiProvider.prototype, "callModel").mockResolvedValue("fresh");
+    const service = makeService();
+
+    await service.callModel("sys", "user", "gemini-pro-latest", { action: "orgResearch" });
+    const second = await service.callModelDetailed("sys", "user", "gemini-pro-latest", { action: "orgResearch" });
+
+    expect(second).toMatchObject({ text: "fresh", model: "gemini-pro-latest", cached: true });
+    expect(gemini).toHaveBeenCalledTimes(1);
+  });
+
+  it("streams a cached response as one chunk", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockResolvedValue("fresh");
+    const stream = vi.spyOn(GeminiProvider.prototype, "streamModel");
+    const service = makeService();
+
+    await service.callModel("sys", "user", "gemini-pro-latest");
+    const chunks: string[] = [];
+    await service.streamModel("sys", "user", "gemini-pro-latest", (chunk) => chunks.push(chunk));
+
+    expect(chunks).toEqual(["fresh"]);
+    expect(stream).not.toHaveBeenCalled();
+  });
+
+  it("keeps the sources of a cached search response", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockImplementation(async (_system, _user, _model, options) => {
+      options?.onCitations?.([{ url: "https://northwind.io", title: "Northwind" }]);
+      return "fresh";
+    });
+    const service = makeService();
+
+    await service.callModel("sys", "user", "gemini-pro-latest", { useSearch: true });
+    const second = await service.callModelDetailed("sys", "user", "gemini-pro-latest", { useSearch: true });
+
+    expect(second).toMatchObject({ cached: true, citations: [{ url: "https://northwind.io", title: "Northwind" }] });
+  });
+
+  it("calls the model when bypassCache is set or the cache is off", async () => {
+    const gemini = vi.spyOn(GeminiProvider.prototype, "callModel").mockResolvedValue("fresh");
+
+    const service = makeService();
+    await service.callModel("sys", "user", "gemini-pro-latest");
+    await service.callModel("sys", "user", "gemini-pro-latest", { bypassCache: true });
+    expect(gemini).toHaveBeenCalledTimes(2);
+
+    const disabled = makeService(false);
+    await disabled.callModel("sys", "user", "gemini-pro-latest");
+    await disabled.callModel("sys", "user", "gemini-pro-latest");
+    expect(gemini).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("AIService tool calling", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const lookup = (run: (args: Record<string, unknown>) => Promise<string>) => ({
+    name: "lookup",
+    description: "Look something up",
+    parameters: { type: "object" as const, properties: { q: { type: "string" as const } }, required: ["q"] },
+    run,
+  });
+
+  it("runs requested tools and feeds the results back until the model answers", async () => {
+    const calls = vi
+      .spyOn(GeminiProvider.prototype, "callModelWithTools")
+      .mockResolvedValueOnce({ text: null, calls: [{ id: "c1", name: "lookup", arguments: { q: "ann" } }], assistant: "a1" })
+      .mockResolvedValueOnce({ text: "Ann is the CTO", calls: [], assistant: "a2" });
+    const run = vi.fn().mockResolvedValue("Ann: CTO");
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const result = await service.callModelWithTools("sys", "user", "gemini-pro-latest", [lookup(run)]);
+
+    expect(result.text).toBe("Ann is the CTO");
+    expect(run).toHaveBeenCalledWith({ q: "ann" });
+    expect(result.toolCalls).toMatchObject([{ name: "lookup", result: "Ann: CTO", isError: false }]);
+    expect(calls.mock.calls[1][3]?.toolRounds).toEqual([
+      {
+        assistant: "a1",
+        calls: [{ id: "c1", name: "lookup", arguments: { q: "ann" } }],
+        results: [{ callId: "c1", name: "lookup", content: "Ann: CTO" }],
+      },
+    ]);
+  });
+
+  it("returns invalid arguments and unknown tools to the model as errors", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModelWithTools")
+      .mockResolvedValueOnce({
+        text: null,
+        calls: [
+          { id: "c1", name: "lookup", arguments: {} },
+          { id: "c2", name: "delete_vault", arguments: {} },
+        ],
+        assistant: null,
+      })
+      .mockResolvedValueOnce({ text: "done", calls: [], assistant: null });
+    const run = vi.fn();
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const result = await service.callModelWithTools("sys", "user", "gemini-pro-latest", [lookup(run)]);
+
+    expect(run).not.toHaveBeenCalled();
+    expect(result.toolCalls.map((call) => call.isError)).toEqual([true, true]);
+    expect(result.text).toBe("done");
+  });
+
+  it("forbids further tool calls on the last round", async () => {
+    const calls = vi
+      .spyOn(GeminiProvider.prototype, "callModelWithTools")
+      .mockResolvedValue({ text: null, calls: [{ id: "c1", name: "lookup", arguments: { q: "x" } }], assistant: null });
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    await service.callModelWithTools("sys", "user", "gemini-pro-latest", [lookup(async () => "ok")], {
+      maxToolRounds: 1,
+    });
+
+    expect(calls).toHaveBeenCalledTimes(2);
+    expect(calls.mock.calls[0][3]?.toolChoice).toBe("auto");
+    expect(calls.mock.calls[1][3]?.toolChoice).toBe("none");
+  });
+
+  it("streams the answer once the model stops calling tools", async () => {
+    const calls = vi
+      .spyOn(GeminiProvider.prototype, "callModelWithTools")
+      .mockResolvedValueOnce({ text: null, calls: [{ id: "c1", name: "lookup", arguments: { q: "ann" } }], assistant: "a1" })
+      .mockResolvedValueOnce({ text: '{"summary":"Ann"}', calls: [], assistant: "a2" });
+    const stream = vi.spyOn(GeminiProvider.prototype, "streamModel").mockImplementation(async (_s, _u, _m, onChunk) => {
+      for (const chunk of ['{"summary":', '"Ann is', ' the CTO"}']) onChunk(chunk);
+      return '{"summary":"Ann is the CTO"}';
+    });
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const chunks: string[] = [];
+    const result = await service.callModelJson<{ summary: string }>(
+      "sys",
+      "user",
+      "gemini-pro-latest",
+      { name: "summary", schema: { type: "object", properties: { summary: { type: "string" } }, required: ["summary"] } },
+      { tools: [lookup(async () => "Ann: CTO")], onChunk: (chunk) => chunks.push(chunk) }
+    );
+
+    expect(chunks).toEqual(['{"summary":', '"Ann is', ' the CTO"}']);
+    expect(result).toEqual({ summary: "Ann is the CTO" });
+    expect(calls).toHaveBeenCalledTimes(2);
+    expect(stream.mock.calls[0][4]).toMatchObject({
+      toolChoice: "none",
+      toolRounds: [expect.objectContaining({ assistant: "a1" })],
+    });
+  });
+
+  it("emits the buffered tool answer when streaming it yields nothing", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModelWithTools").mockResolvedValue({ text: "done", calls: [], assistant: null });
+    vi.spyOn(GeminiProvider.prototype, "streamModel").mockResolvedValue(null);
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const chunks: string[] = [];
+    const result = await service.callModelWithTools("sys", "user", "gemini-pro-latest", [lookup(async () => "ok")], {
+      onChunk: (chunk) => chunks.push(chunk),
+    });
+
+    expect(result.text).toBe("done");
+    expect(chunks).toEqual(["done"]);
+  });
+});
+
+describe("AIService citations", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns the sources of the model that answered", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockImplementation(async (_system, _user, _model, options) => {
+      options?.onCitations?.([{ url: "https://failed.example.com" }]);
+      return null;
+    });
+    vi.spyOn(AnthropicProvider.prototype, "callModel").mockImplementation(async (_system, _user, _model, options) => {
+      options?.onCitations?.([{ url: "https://northwind.io/team", title: "Team" }]);
+      return "answer";
+    });
+
+    const service = new AIService({ ...DEFAULT_SETTINGS });
+    const result = await service.callModelDetailed("sys", "user", "gemini-pro-latest, claude-sonnet-4-5", {
+      useSearch: true,
+    });
+
+    expect(result).toMatchObject({ text: "answer", citations: [{ url: "https://northwind.io/team", title: "Team" }] });
+  });
+
+  it("returns no sources when every model fails", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockResolvedValue(null);
+
+    const result = await new AIService({ ...DEFAULT_SETTINGS }).callModelDetailed("sys", "user", "gemini-pro-latest");
+
+    expect(result.citations).toEqual([]);
+  });
+
+  it("merges sources across JSON repair attempts", async () => {
+    const call = vi
+      .spyOn(GeminiProvider.prototype, "callModel")
+      .mockImplementationOnce(async (_system, _user, _model, options) => {
+        options?.onCitations?.([{ url: "https://a.example.com" }]);
+        return "{}";
+      })
+      .mockImplementationOnce(async (_system, _user, _model, options) => {
+        options?.onCitations?.([{ url: "https://a.example.com" }, { url: "https://b.example.com" }]);
+        return '{"name":"Ann"}';
+      });
+    const schema = {
+      name: "person",
+      schema: { type: "object" as const, properties: { name: { type: "string" as const } }, required: ["name"] },
+    };
+
+    const result = await new AIService({ ...DEFAULT_SETTINGS }).callModelJsonDetailed<{ name: string }>(
+      "sys",
+      "user",
+      "gemini-pro-latest",
+      schema,
+      { useSearch: true }
+    );
+
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({
+      data: { name: "Ann" },
+      model: "gemini-pro-latest",
+      citations: [{ url: "https://a.example.com" }, { url: "https://b.example.com" }],
+    });
+  });
+});
+
+describe("AIService embeddings", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("routes OpenAI embedding models to OpenAI and records usage", async () => {
+    const embed = vi.spyOn(OpenAIProvider.prototype, "embed").mockImplementation(async (texts, _model, options) => {
+      options?.onUsage?.({ inputTokens: 4, outputTokens: 0, thinkingTokens: 0 });
+      return texts.map(() => [1, 0]);
+    });
+    const settings = { ...DEFAULT_SETTINGS };
+    const service = new AIService(settings);
+    const ledger = new UsageLedger(createMockApp() as unknown as App, settings);
+    service.setUsageLedger(ledger);
+
+    const vectors = await service.embed(["a", "b"], "text-embedding-3-small", { action: "semanticIndex" });
+
+    expect(vectors).toEqual([[1, 0], [1, 0]]);
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(ledger.getEntries()[0]).toMatchObject({ action: "semanticIndex", model: "text-embedding-3-small", inputTokens: 4 });
+  });
+
+  it("uses only the first model of a chain", async () => {
+    const gemini = vi.spyOn(GeminiProvider.prototype, "embed").mockResolvedValue(null);
+    const openai = vi.spyOn(OpenAIProvider.prototype, "embed");
+
+    const vectors = await new AIService({ ...DEFAULT_SETTINGS }).embed(
+      ["a"],
+      "gemini-embedding-001, text-embedding-3-small"
+    );
+
+    expect(vectors).toBeNull();
+    expect(gemini).toHaveBeenCalledTimes(1);
+    expect(openai).not.toHaveBeenCalled();
+  });
+});
@@ -2,12 +2,219 @@
 // AI Service - Unified AI interface with provider routing
 // ============================================================================
 
-import type { PluginSettings } from "../types";
-import type { AIProvider, AICallOptions } from "./ai-provider";
+import { Notice } from "obsidian";
+import type { PluginSettings, AIProviderId, AITraceEntry } from "../types";
+import type {
+  AIProvider,
+  AICallOptions,
+  AICitation,
+  AIStreamHandler,
+  AIJsonSchema,
+  AIToolCall,
+  AIToolDefinition,
+  AIToolResult,
+  AIToolRound,
+  AIUsage,
+} from "./ai-provider";
+import { mergeCitations } from "./ai-provider";
 import { GeminiProvider } from "./gemini-provider";
 import { OpenAIProvider } from "./openai-provider";
 import { AnthropicProvider } from "./anthropic-provider";
 import { OpenRouterProvider } from "./openrouter-provider";
+import { LocalProvider, LOCAL_MODEL_PREFIX } from "./local-provider";
+import type { UsageLedger } from "./usage-ledger";
+import { AIScheduler, AIRequestCancelledError } from "./ai-scheduler";
+import { buildCacheKey } from "./response-cache";
+import type { ResponseCache } from "./response-cache";
+import type { AITraceRecorder } from "./ai-trace";
+import { extractJson, validateJsonSchema } from "../utils/json-schema";
+import { ClassifiedError, classifyError, handleError } from "../utils/error-handler";
+import type { ErrorCategory } from "../utils/error-handler";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A tool the model may call, with the function that runs it
+ */
+export interface AITool extends AIToolDefinition {
+  /** Run the call with schema-validated arguments; the returned text goes back to the model */
+  run: (args: Record<string, unknown>) => Promise<string>;
+}
+
+/**
+ * Options for tool-calling calls (tool definitions and rounds are managed by AIService)
+ */
+export interface AIToolCallOptions extends Omit<AICallOptions, "tools" | "toolRounds" | "toolChoice"> {
+  /** Tool rounds before the model must answer (default: aiTools.maxRounds) */
+  maxToolRounds?: number;
+  /**
+   * Stream the answer: once the model stops calling tools, the answer is
+   * requested again as a stream with the tool results replayed
+   */
+  onChunk?: AIStreamHandler;
+}
+
+/**
+ * Options for structured (JSON) calls
+ */
+export interface AIJsonCallOptions extends Omit<AIToolCallOptions, "jsonSchema"> {
+  /** Stream the first attempt's raw JSON text (repair attempts are not streamed) */
+  onChunk?: AIStreamHandler;
+  /** How many times to re-ask the model with validation errors (default 2) */
+  maxRepairAttempts?: number;
+  /** Tools the model may call before answering (only the answer round is streamed) */
+  tools?: AITool[];
+}
+
+/**
+ * One tool call run during a tool-calling call
+ */
+export interface AIToolCallRecord {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+/**
+ * One model tried while walking a fallback chain
+ */
+export interface AIModelAttempt {
+  model: string;
+  outcome: "ok" | "empty" | "timeout" | "error" | "cancelled";
+  durationMs: number;
+  /** Classified failure reason for "error" and "timeout" outcomes */
+  errorCategory?: ErrorCategory;
+  errorMessage?: string;
+}
+
+/**
+ * Result of a chain call: the text and which model produced it
+ */
+export interface AICallResult {
+  text: string | null;
+  /** Model that answered (null if every model in the chain failed) */
+  model: string | null;
+  attempts: AIModelAttempt[];
+  /** True when served from the response cache (no model was called) */
+  cached?: boolean;
+  /** Web sources the answer is grounded in (search calls; empty when the provider returned none) */
+  citations: AICitation[];
+}
+
+/**
+ * Result of a tool-calling chain call: the answer plus every tool call that ran
+ */
+export interface AIToolCallResult extends AICallResult {
+  toolCalls: AIToolCallRecord[];
+}
+
+/**
+ * Result of a structured (JSON) call: the validated value plus the answer's sources
+ */
+export interface AIJsonCallResult<T> {
+  /** Parsed, schema-valid value (null if the call failed or never validated) */
+  data: T | null;
+  model: string | null;
+  citations: AICitation[];
+}
+
+export interface AIAnswerRecord {
+  chain: string[];
+  model: string | null;
+  attempts: AIModelAttempt[];
+  at: string;
+}
+
+const DEFAULT_JSON_REPAIR_ATTEMPTS = 2;
+const DEFAULT_ATTEMPT_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_TOOL_ROUNDS = 4;
+
+class ModelTimeoutError extends ClassifiedError {
+  constructor(model: string, timeoutMs: number) {
+    super(`${model} did not respond within ${Math.round(timeoutMs / 1000)}s`, "transient");
+    this.name = "ModelTimeoutError";
+  }
+}
+
+// ============================================================================
+// Model Chains
+// ============================================================================
+
+/**
+ * Split a model setting into its ordered fallback chain.
+ * Entries are separated by commas or arrows ("a, b" / "a → b" / "a -> b").
+ */
+export function parseModelChain(model: string): string[] {
+  const chain = (model || "")
+    .split(/\s*(?:,|→|->)\s*/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  return chain.length > 0 ? chain : [(model || "").trim()];
+}
+
+/**
+ * Reject if the call doesn't settle in time (the underlying request is not
+ * aborted; its late result is ignored)
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, model: string): Promise<T> {
+  if (!timeoutMs || timeoutMs <= 0) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new ModelTimeoutError(model, timeoutMs)), timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * withTimeout for streams: the clock restarts on every chunk (via `touch`), so
+ * a long answer that keeps arriving isn't cut off but a stalled one is
+ */
+function withIdleTimeout<T>(
+  start: (touch: () => void) => Promise<T>,
+  timeoutMs: number,
+  model: string
+): Promise<T> {
+  if (!timeoutMs || timeoutMs <= 0) return start(() => {});
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+      if (settled) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        settled = true;
+        reject(new ModelTimeoutError(model, timeoutMs));
+      }, timeoutMs);
+    };
+    const finish = () => {
+      settled = true;
+      clearTimeout(timer);
+    };
+    touch();
+    start(touch).then(
+      (value) => {
+        finish();
+        resolve(value);
+      },
+      (error) => {
+        finish();
+        reject(error);
+      }
+    );
+  });
+}
 
 // ============================================================================
 // AIService Class
@@ -23,13 +230,25 @@ export class AIService {
   private openaiProvider: OpenAIProvider;
   private anthropicProvider: AnthropicProvider;
   private openrouterProvider: OpenRouterProvider;
+  private localProvider: LocalProvider;
+  private lastAnswers: Map<string, AIAnswerRecord> = new Map();
+  private usageLedger: UsageLedger | null = null;
+  private responseCache: ResponseCache | null = null;
+  private traceRecorder: AITraceRecorder | null = null;
+  private providerWrapper: ((provider: AIProvider) => AIProvider) | null = null;
+  private budgetNoticeMonth: string | null = null;
+  private lastErrors: Map<string, ClassifiedError> = new Map();
+  private lastError: ClassifiedError | null = null;
+  private scheduler: AIScheduler;
 
   constructor(settings: PluginSettings) {
     this.settings = settings;
+    this.scheduler = new AIScheduler(settings);
     this.geminiProvider = new GeminiProvider(settings);
     this.openaiProvider = new OpenAIProvider(settings);
     this.anthropicProvider = new AnthropicProvider(settings);
     this.openrouterProvider = new OpenRouterProvider(settings);
+    this.localProvider = new LocalProvider(settings);
   }
 
   /**
@@ -41,16 +260,60 @@ export class AIService {
     this.openaiProvider.updateSettings(settings);
     this.anthropicProvider.updateSettings(settings);
     this.openrouterProvider.updateSettings(settings);
+    this.localProvider.updateSettings(settings);
+    this.scheduler.updateSettings(settings);
+  }
+
+  /**
+   * Drop every queued (not yet started) AI request
+   * @returns Number of requests cancelled
+   */
+  cancelPending(): number {
+    return this.scheduler.cancelPending();
+  }
+
+  /**
+   * Record every call's usage in the ledger and enforce its monthly budget
+   */
+  setUsageLedger(ledger: UsageLedger): void {
+    this.usageLedger = ledger;
+  }
+
+  /**
+   * Serve identical requests from the response cache (when enabled in settings)
+   */
+  setResponseCache(cache: ResponseCache): void {
+    this.responseCache = cache;
+  }
+
+  /**
+   * Record every call (prompts, response, usage, attempts) for the trace inspector
+   */
+  setTraceRecorder(recorder: AITraceRecorder): void {
+    this.traceRecorder = recorder;
+  }
+
+  /**
+   * Route every provider call through a wrapper (record/replay fixtures in tests);
+   * null restores the vendor providers
+   */
+  setProviderWrapper(wrap: ((provider: AIProvider) => AIProvider) | null): void {
+    this.providerWrapper = wrap;
   }
 
   /**
    * Detect provider from model name
    * @param model Model identifier
-   * @returns Provider type: "gemini" | "openai" | "anthropic" | "openrouter"
+   * @returns Provider type: "gemini" | "openai" | "anthropic" | "openrouter" | "local"
    */
-  private detectProvider(model: string): "gemini" | "openai" | "anthropic" | "openrouter" {
+  private detectProvider(model: string): AIProviderId {
     const modelLower = model.toLowerCase().trim();
 
+    // Self-hosted models: local:* (checked first so IDs like "local:org/model" aren't routed to OpenRouter)
+    if (modelLower.startsWith(LOCAL_MODEL_PREFIX)) {
+      return "local";
+    }
+
     if (this.isOpenRouterModel(modelLower)) {
       return "openrouter";
     }
@@ -66,6 +329,11 @@ export class AIService {
         modelLower.startsWith("o3-")) {
       return "openai";
     }
+
+    // OpenAI embedding models (Gemini's text-embedding-004 falls through to the default)
+    if (modelLower.startsWith("text-embedding-3-") || modelLower === "text-embedding-ada-002") {
+      return "openai";
+    }
     
     // Gemini models: anything containing "gemini"
     if (modelLower.includes("gemini")) {
@@ -94,6 +362,11 @@ export class AIService {
    * Get the appropriate provider for a model
    */
   private getProvider(model: string): AIProvider {
+    const provider = this.resolveProvider(model);
+    return this.providerWrapper ? this.providerWrapper(provider) : provider;
+  }
+
+  private resolveProvider(model: string): AIProvider {
     const provider = this.detectProvider(model);
     if (provider === "openai") {
       return this.openaiProvider;
@@ -101,18 +374,30 @@ export class AIService {
       return this.openrouterProvider;
     } else if (provider === "anthropic") {
       return this.anthropicProvider;
+    } else if (provider === "local") {
+      return this.localProvider;
     } else {
       return this.geminiProvider;
     }
   }
 
+  /**
+   * List models served by the configured local endpoint
+   * @returns Model IDs without the "local:" prefix
+   */
+  async listLocalModels(): Promise<string[]> {
+    return this.localProvider.listModels();
+  }
+
   /**
    * Call the AI model with system and user prompts
-   * Automatically routes to the correct provider based on model name
+   * Automatically routes to the correct provider based on model name.
+   * `model` may be a fallback chain ("gemini-pro-latest, claude-sonnet-4-5");
+   * see callModelDetailed.
    * 
    * @param system System prompt/instructions
    * @param user User prompt/content
-   * @param model Model identifier (e.g., "gemini-pro-latest", "gpt-4o")
+   * @param model Model identifier or chain (e.g., "gemini-pro-latest", "gpt-4o")
    * @param options Generation options
    * @returns Generated text or null if failed
    */
@@ -122,7 +407,902 @@ export class AIService {
     model: string,
     options?: AICallOptions
   ): Promise<string | null> {
-    const provider = this.getProvider(model);
-    return provider.callModel(system, user, model, options);
+    const result = await this.callModelDetailed(system, user, model, options);
+    return result.text;
+  }
+
+  /**
+   * Call a model chain, walking to the next model when one returns nothing
+   * (providers return null on auth, quota and rate-limit errors) or times out.
+   *
+   * @returns The text plus which model answered and every attempt made
+   */
+  async callModelDetailed(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions = {}
+  ): Promise<AICallResult> {
+    const trace = this.startTrace("call", system, user, model, options);
+    const result = await this.callChain(system, user, model, trace.options);
+    trace.finish(result);
+    return result;
+  }
+
+  private async callChain(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions
+  ): Promise<AICallResult> {
+    const chain = parseModelChain(model);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_ATTEMPT_TIMEOUT_MS;
+    const attempts: AIModelAttempt[] = [];
+
+    const cacheSlot = this.getCacheSlot(system, user, model, options);
+    const cached = this.readCache(cacheSlot, options);
+    if (cached) {
+      return cached;
+    }
+
+    if (this.isBlockedByBudget(options)) {
+      this.recordBudgetBlock(chain);
+      return { text: null, model: null, attempts, citations: [] };
+    }
+
+    for (const candidate of chain) {
+      const started = Date.now();
+      const tracker = this.trackUsage(candidate, options);
+      const failure = this.captureError(tracker.options);
+      const sources = this.collectCitations(failure.options);
+      let text: string | null = null;
+      let outcome: AIModelAttempt["outcome"];
+      try {
+        text = await this.schedule(candidate, options, () =>
+          withTimeout(
+            this.getProvider(candidate).callModel(system, user, candidate, sources.options),
+            timeoutMs,
+            candidate
+          )
+        );
+        outcome = text ? "ok" : failure.get() ? "error" : "empty";
+        if (text) tracker.settle();
+      } catch (error: unknown) {
+        outcome = this.classifyFailure(error, candidate, chain);
+        failure.set(error);
+      }
+      attempts.push(this.buildAttempt(candidate, outcome, started, failure.get()));
+
+      if (text) {
+        const citations = sources.get();
+        this.recordAnswer(chain, candidate, attempts);
+        this.writeCache(cacheSlot, candidate, text, citations, options);
+        return { text, model: candidate, attempts, citations };
+      }
+      if (outcome === "cancelled" || options.signal?.aborted) {
+        break;
+      }
+    }
+
+    this.recordAnswer(chain, null, attempts);
+    return { text: null, model: null, attempts, citations: [] };
+  }
+
+  /**
+   * Call the AI model and stream text deltas to the handler as they arrive.
+   * If the stream yields nothing (e.g. the endpoint rejects fetch/CORS), falls
+   * back to a buffered call and emits the whole response as a single chunk.
+   * Chains fall through to the next model only while nothing has been emitted.
+   *
+   * @param system System prompt/instructions
+   * @param user User prompt/content
+   * @param model Model identifier or chain
+   * @param onChunk Called with every text delta in arrival order
+   * @param options Generation options
+   * @returns Full generated text or null if failed
+   */
+  async streamModel(
+    system: string,
+    user: string,
+    model: string,
+    onChunk: AIStreamHandler,
+    options?: AICallOptions
+  ): Promise<string | null> {
+    const result = await this.streamModelDetailed(system, user, model, onChunk, options);
+    return result.text;
+  }
+
+  /**
+   * Streaming counterpart of callModelDetailed
+   */
+  async streamModelDetailed(
+    system: string,
+    user: string,
+    model: string,
+    onChunk: AIStreamHandler,
+    options: AICallOptions = {}
+  ): Promise<AICallResult> {
+    const trace = this.startTrace("stream", system, user, model, options);
+    const result = await this.streamChain(system, user, model, onChunk, trace.options);
+    trace.finish(result);
+    return result;
+  }
+
+  private async streamChain(
+    system: string,
+    user: string,
+    model: string,
+    onChunk: AIStreamHandler,
+    options: AICallOptions
+  ): Promise<AICallResult> {
+    const chain = parseModelChain(model);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_ATTEMPT_TIMEOUT_MS;
+    const attempts: AIModelAttempt[] = [];
+
+    const cacheSlot = this.getCacheSlot(system, user, model, options);
+    const cached = this.readCache(cacheSlot, options);
+    if (cached?.text) {
+      onChunk(cached.text);
+      return cached;
+    }
+
+    if (this.isBlockedByBudget(options)) {
+      this.recordBudgetBlock(chain);
+      return { text: null, model: null, attempts, citations: [] };
+    }
+
+    for (const candidate of chain) {
+      const provider = this.getProvider(candidate);
+      const started = Date.now();
+      let emitted = false;
+      let abandoned = false;
+      const streamTracker = this.trackUsage(candidate, options);
+      const streamFailure = this.captureError(streamTracker.options);
+      const streamSources = this.collectCitations(streamFailure.options);
+      let streamed: string | null;
+      try {
+        streamed = await this.schedule(candidate, options, () =>
+          withIdleTimeout(
+            (touch) =>
+              provider.streamModel(
+                system,
+                user,
+                candidate,
+                (chunk) => {
+                  // A stream we gave up on may still deliver; its chunks mustn't mix into the fallback's
+                  if (abandoned) return;
+                  touch();
+                  emitted = true;
+                  onChunk(chunk);
+                },
+                streamSources.options
+              ),
+            timeoutMs,
+            candidate
+          )
+        );
+      } catch (error: unknown) {
+        abandoned = true;
+        const outcome = this.classifyFailure(error, candidate, chain);
+        attempts.push(this.buildAttempt(candidate, outcome, started, classifyError(error)));
+        if (emitted || options.signal?.aborted || error instanceof AIRequestCancelledError) break;
+        continue;
+      }
+
+      // Once tokens reached the caller we can't switch models without garbling the output
+      if (streamed || emitted) {
+        streamTracker.settle();
+        const outcome = streamed ? "ok" : streamFailure.get() ? "error" : "empty";
+        attempts.push(this.buildAttempt(candidate, outcome, started, streamFailure.get()));
+        const citations = streamed ? streamSources.get() : [];
+        this.recordAnswer(chain, streamed ? candidate : null, attempts);
+        if (streamed) this.writeCache(cacheSlot, candidate, streamed, citations, options);
+        return { text: streamed, model: streamed ? candidate : null, attempts, citations };
+      }
+
+      if (options.signal?.aborted) {
+        attempts.push({ model: candidate, outcome: "cancelled", durationMs: Date.now() - started });
+        break;
+      }
+
+      // Auth, quota, filter and request errors fail the same way without streaming
+      const streamError = streamFailure.get();
+      if (streamError && streamError.category !== "transient" && streamError.category !== "unknown") {
+        attempts.push(this.buildAttempt(candidate, "error", started, streamError));
+        continue;
+      }
+
+      console.warn(`[GSD] Streaming returned nothing for ${candidate}, retrying without streaming`);
+      const tracker = this.trackUsage(candidate, options);
+      const failure = this.captureError(tracker.options);
+      const sources = this.collectCitations(failure.options);
+      let buffered: string | null = null;
+      let outcome: AIModelAttempt["outcome"];
+      try {
+        buffered = await this.schedule(candidate, options, () =>
+          withTimeout(provider.callModel(system, user, candidate, sources.options), timeoutMs, candidate)
+        );
+        outcome = buffered ? "ok" : failure.get() ? "error" : "empty";
+        if (buffered) tracker.settle();
+      } catch (error: unknown) {
+        outcome = this.classifyFailure(error, candidate, chain);
+        failure.set(error);
+      }
+      attempts.push(this.buildAttempt(candidate, outcome, started, failure.get() ?? streamFailure.get()));
+
+      if (buffered) {
+        const citations = sources.get();
+        onChunk(buffered);
+        this.recordAnswer(chain, candidate, attempts);
+        this.writeCache(cacheSlot, candidate, buffered, citations, options);
+        return { text: buffered, model: candidate, attempts, citations };
+      }
+      if (outcome === "cancelled" || options.signal?.aborted) {
+        break;
+      }
+    }
+
+    this.recordAnswer(chain, null, attempts);
+    return { text: null, model: null, attempts, citations: [] };
+  }
+
+  /**
+   * Call a model chain with tools it may call before answering. Each round the
+   * requested calls run (arguments validated against the tool's schema, failures
+   * returned to the model as errors) and the results are sent back; after
+   * maxToolRounds the model must answer. The chain moves to the next model only
+   * when a model fails. Tool-calling calls are never cached (tool results change).
+   *
+   * @param system System prompt/instructions
+   * @param user User prompt/content
+   * @param model Model identifier or chain
+   * @param tools Tools the model may call (none: a plain call)
+   * @param options Generation options
+   * @returns The answer, which model gave it, attempts and the tool calls made
+   */
+  async callModelWithTools(
+    system: string,
+    user: string,
+    model: string,
+    tools: AITool[],
+    options: AIToolCallOptions = {}
+  ): Promise<AIToolCallResult> {
+    if (tools.length === 0) {
+      const { onChunk, ...callOptions } = options;
+      const result = onChunk
+        ? await this.streamModelDetailed(system, user, model, onChunk, callOptions)
+        : await this.callModelDetailed(system, user, model, callOptions);
+      return { ...result, toolCalls: [] };
+    }
+
+    const trace = this.startTrace("tools", system, user, model, {
+      ...options,
+      tools: tools.map(({ name, description, parameters }) => ({ name, description, parameters })),
+    });
+    const result = await this.toolChain(system, user, model, tools, trace.options);
+    trace.finish(result);
+    return result;
+  }
+
+  private async toolChain(
+    system: string,
+    user: string,
+    model: string,
+    tools: AITool[],
+    options: AICallOptions & { maxToolRounds?: number; onChunk?: AIStreamHandler }
+  ): Promise<AIToolCallResult> {
+    const chain = parseModelChain(model);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_ATTEMPT_TIMEOUT_MS;
+    const maxRounds = Math.max(0, options.maxToolRounds ?? this.settings.aiTools?.maxRounds ?? DEFAULT_MAX_TOOL_ROUNDS);
+    const attempts: AIModelAttempt[] = [];
+    const toolCalls: AIToolCallRecord[] = [];
+
+    if (this.isBlockedByBudget(options)) {
+      this.recordBudgetBlock(chain);
+      return { text: null, model: null, attempts, toolCalls, citations: [] };
+    }
+
+    for (const candidate of chain) {
+      const started = Date.now();
+      const rounds: AIToolRound[] = [];
+      // Sources accumulate over the rounds (a searched round may be followed by tool calls)
+      const sources = this.collectCitations(options);
+      let text: string | null = null;
+      let outcome: AIModelAttempt["outcome"] = "empty";
+      let error: ClassifiedError | null = null;
+      const stream = options.onChunk ? { onChunk: options.onChunk, emitted: false } : null;
+      try {
+        for (let round = 0; ; round++) {
+          const final = round >= maxRounds;
+          if (final && stream) {
+            // Tools are off on the last round anyway, so stream it straight away
+            text = await this.streamToolAnswer(system, user, candidate, rounds, null, sources.options, stream);
+            outcome = text ? "ok" : "empty";
+            break;
+          }
+
+          const tracker = this.trackUsage(candidate, sources.options);
+          const failure = this.captureError(tracker.options);
+          const response = await this.schedule(candidate, options, () =>
+            withTimeout(
+              this.getProvider(candidate).callModelWithTools(system, user, candidate, {
+                ...failure.options,
+                tools: options.tools,
+                toolRounds: rounds,
+                toolChoice: final ? "none" : "auto",
+              }),
+              timeoutMs,
+              candidate
+            )
+          );
+          if (!response) {
+            error = failure.get();
+            outcome = error ? "error" : "empty";
+            break;
+          }
+          tracker.settle();
+
+          if (response.calls.length === 0 || final) {
+            text = stream
+              ? await this.streamToolAnswer(system, user, candidate, rounds, response.text, sources.options, stream)
+              : response.text;
+            outcome = text ? "ok" : "empty";
+            break;
+          }
+          const results = await this.runTools(tools, response.calls, toolCalls);
+          rounds.push({ assistant: response.assistant, calls: response.calls, results });
+        }
+      } catch (caught: unknown) {
+        outcome = this.classifyFailure(caught, candidate, chain);
+        error = classifyError(caught);
+      }
+      attempts.push(this.buildAttempt(candidate, outcome, started, error));
+
+      if (text) {
+        this.recordAnswer(chain, candidate, attempts);
+        return { text, model: candidate, attempts, toolCalls, citations: sources.get() };
+      }
+      // Once tokens reached the caller we can't switch models without garbling the output
+      if (stream?.emitted || outcome === "cancelled" || options.signal?.aborted) {
+        break;
+      }
+    }
+
+    this.recordAnswer(chain, null, attempts);
+    return { text: null, model: null, attempts, toolCalls, citations: [] };
+  }
+
+  /**
+   * Stream the answer of a tool-calling call: the tool rounds are replayed with
+   * tools off. When the stream yields nothing the buffered answer (if the model
+   * already gave one) is emitted as one chunk instead.
+   */
+  private async streamToolAnswer(
+    system: string,
+    user: string,
+    candidate: string,
+    rounds: AIToolRound[],
+    buffered: string | null,
+    options: AICallOptions,
+    stream: { onChunk: AIStreamHandler; emitted: boolean }
+  ): Promise<string | null> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_ATTEMPT_TIMEOUT_MS;
+    const tracker = this.trackUsage(candidate, options);
+    let abandoned = false;
+    try {
+      const streamed = await this.schedule(candidate, options, () =>
+        withIdleTimeout(
+          (touch) =>
+            this.getProvider(candidate).streamModel(
+              system,
+              user,
+              candidate,
+              (chunk) => {
+                if (abandoned) return;
+                touch();
+                stream.emitted = true;
+                stream.onChunk(chunk);
+              },
+              { ...tracker.options, toolRounds: rounds, toolChoice: "none" }
+            ),
+          timeoutMs,
+          candidate
+        )
+      );
+      if (streamed) {
+        tracker.settle();
+        return streamed;
+      }
+    } catch (error: unknown) {
+      abandoned = true;
+      if (stream.emitted || !buffered || options.signal?.aborted || error instanceof AIRequestCancelledError) throw error;
+      console.warn(`[GSD] Streaming the tool answer failed for ${candidate}, using the buffered answer`);
+    }
+
+    if (stream.emitted || !buffered) return null;
+    stream.onChunk(buffered);
+    stream.emitted = true;
+    return buffered;
+  }
+
+  /**
+   * Run the calls of one round in order; unknown tools, invalid arguments and
+   * thrown errors become error results the model can react to
+   */
+  private async runTools(tools: AITool[], calls: AIToolCall[], log: AIToolCallRecord[]): Promise<AIToolResult[]> {
+    const results: AIToolResult[] = [];
+    for (const call of calls) {
+      const started = Date.now();
+      const tool = tools.find((candidate) => candidate.name === call.name);
+      let content: string;
+      let isError = false;
+
+      if (!tool) {
+        content = `Unknown tool "${call.name}". Available: ${tools.map((t) => t.name).join(", ")}`;
+        isError = true;
+      } else {
+        const errors = validateJsonSchema(call.arguments, tool.parameters);
+        if (errors.length > 0) {
+          content = `Invalid arguments:\n${errors.map((e) => `- ${e}`).join("\n")}`;
+          isError = true;
+        } else {
+          try {
+            content = await tool.run(call.arguments);
+          } catch (error: unknown) {
+            handleError(`AI tool ${call.name} failed`, error, { silent: true });
+            content = `Tool failed: ${error instanceof Error ? error.message : String(error)}`;
+            isError = true;
+          }
+        }
+      }
+
+      console.log(`[GSD] Tool ${call.name}(${JSON.stringify(call.arguments)})${isError ? " failed" : ""}`);
+      log.push({ name: call.name, arguments: call.arguments, result: content, isError, durationMs: Date.now() - started });
+      results.push({ callId: call.id, name: call.name, content, ...(isError ? { isError } : {}) });
+    }
+    return results;
+  }
+
+  /**
+   * Most recent answer per chain (keyed by the normalized chain string)
+   */
+  getLastAnswer(model: string): AIAnswerRecord | null {
+    return this.lastAnswers.get(parseModelChain(model).join(", ")) ?? null;
+  }
+
+  /**
+   * Why the most recent failed call for a chain failed (or the latest failure of
+   * any call when no model is given); null once the chain answers again
+   */
+  getLastError(model?: string): ClassifiedError | null {
+    if (model === undefined) return this.lastError;
+    return this.lastErrors.get(parseModelChain(model).join(", ")) ?? null;
+  }
+
+  /**
+   * Call the AI model in JSON mode and return the parsed, schema-validated result.
+   * Uses the provider's native structured-output feature where available and
+   * re-asks the model with the validation errors when the output doesn't match.
+   * Repairs go to whichever model in the chain answered first.
+   *
+   * @param system System prompt/instructions
+   * @param user User prompt/content
+   * @param model Model identifier or chain
+   * @param schema Named JSON schema the response must satisfy
+   * @param options Generation options
+   * @returns Parsed response or null if the call failed or never validated
+   */
+  async callModelJson<T>(
+    system: string,
+    user: string,
+    model: string,
+    schema: AIJsonSchema,
+    options: AIJsonCallOptions = {}
+  ): Promise<T | null> {
+    const result = await this.callModelJsonDetailed<T>(system, user, model, schema, options);
+    return result.data;
+  }
+
+  /**
+   * callModelJson plus which model answered and the web sources behind the answer
+   */
+  async callModelJsonDetailed<T>(
+    system: string,
+    user: string,
+    model: string,
+    schema: AIJsonSchema,
+    options: AIJsonCallOptions = {}
+  ): Promise<AIJsonCallResult<T>> {
+    const { onChunk, maxRepairAttempts = DEFAULT_JSON_REPAIR_ATTEMPTS, tools, maxToolRounds, ...callOptions } = options;
+    const jsonOptions: AICallOptions = { ...callOptions, jsonSchema: schema };
+    const jsonSystem = [
+      system,
+      "Respond with a single JSON value matching this JSON Schema. No prose, no code fences.",
+      JSON.stringify(schema.schema),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    let first: AICallResult;
+    if (tools?.length) {
+      first = await this.callModelWithTools(jsonSystem, user, model, tools, { ...jsonOptions, maxToolRounds, onChunk });
+    } else if (onChunk) {
+      first = await this.streamModelDetailed(jsonSystem, user, model, onChunk, jsonOptions);
+    } else {
+      first = await this.callModelDetailed(jsonSystem, user, model, jsonOptions);
+    }
+    const answeringModel = first.model ?? model;
+    let citations = first.citations;
+    let response = first.text;
+    let history = callOptions.history ?? [];
+    let prompt = user;
+
+    for (let attempt = 0; response; attempt++) {
+      let errors: string[];
+      let parsed: unknown = null;
+      try {
+        parsed = extractJson(response);
+        errors = validateJsonSchema(parsed, schema.schema);
+      } catch (error: unknown) {
+        errors = [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+      }
+
+      if (errors.length === 0) {
+        return { data: parsed as T, model: answeringModel, citations };
+      }
+
+      if (attempt >= maxRepairAttempts) {
+        console.warn(`[GSD] ${schema.name} output failed validation after ${attempt + 1} attempts:`, errors);
+        return { data: null, model: first.model, citations: [] };
+      }
+
+      console.log(`[GSD] ${schema.name} output invalid, re-asking ${answeringModel} (${errors.length} errors)`);
+      history = [
+        ...history,
+        { role: "user", content: prompt },
+        { role: "assistant", content: response },
+      ];
+      prompt = [
+        "Your previous response did not match the required JSON schema:",
+        ...errors.slice(0, 20).map((e) => `- ${e}`),
+        "Return the corrected JSON only.",
+      ].join("\n");
+      const repaired = await this.callModelDetailed(jsonSystem, prompt, answeringModel, { ...jsonOptions, history });
+      citations = mergeCitations(citations, repaired.citations);
+      response = repaired.text;
+    }
+
+    return { data: null, model: first.model, citations: [] };
+  }
+
+  /**
+   * Embed texts with an embedding model in one provider request (callers batch large inputs).
+   * Only the first model of a chain is used: vectors from different models can't be compared.
+   *
+   * @param texts Inputs to embed
+   * @param model Embedding model (e.g., "gemini-embedding-001", "local:nomic-embed-text")
+   * @param options Bookkeeping options (action, priority, signal, essential) and `embedTask`
+   * @returns One vector per input, or null if the call failed or the budget cap blocked it
+   */
+  async embed(texts: string[], model: string, options: AICallOptions = {}): Promise<number[][] | null> {
+    if (texts.length === 0) return [];
+    const [embeddingModel] = parseModelChain(model);
+    if (!embeddingModel) return null;
+    const chain = [embeddingModel];
+
+    if (this.isBlockedByBudget(options)) {
+      this.recordBudgetBlock(chain);
+      return null;
+    }
+
+    const started = Date.now();
+    const tracker = this.trackUsage(embeddingModel, options);
+    const failure = this.captureError(tracker.options);
+    let vectors: number[][] | null = null;
+    let outcome: AIModelAttempt["outcome"];
+    try {
+      vectors = await this.schedule(embeddingModel, options, () =>
+        withTimeout(
+          this.getProvider(embeddingModel).embed(texts, embeddingModel, failure.options),
+          options.timeoutMs ?? DEFAULT_ATTEMPT_TIMEOUT_MS,
+          embeddingModel
+        )
+      );
+      outcome = vectors ? "ok" : failure.get() ? "error" : "empty";
+      if (vectors) tracker.settle();
+    } catch (error: unknown) {
+      outcome = this.classifyFailure(error, embeddingModel, chain);
+      failure.set(error);
+    }
+
+    const attempt = this.buildAttempt(embeddingModel, outcome, started, failure.get());
+    this.recordAnswer(chain, vectors ? embeddingModel : null, [attempt]);
+    return vectors;
+  }
+
+  /**
+   * Queue a provider request in the scheduler lane for the model's provider
+   */
+  private schedule<T>(model: string, options: AICallOptions, task: () => Promise<T>): Promise<T> {
+    return this.scheduler.schedule(this.detectProvider(model), task, {
+      priority: options.priority,
+      signal: options.signal,
+      label: options.action ? `${options.action} (${model})` : model,
+    });
+  }
+
+  /**
+   * Map a failed attempt to its outcome; cancellations are expected and not logged
+   */
+  private classifyFailure(error: unknown, model: string, chain: string[]): AIModelAttempt["outcome"] {
+    if (error instanceof AIRequestCancelledError) {
+      return "cancelled";
+    }
+    handleError("AI model attempt failed", error, {
+      additionalContext: { model, chain: chain.join(" → ") },
+    });
+    return error instanceof ModelTimeoutError ? "timeout" : "error";
+  }
+
+  /**
+   * Wrap options so the provider's classified failure (reported before it returns null) is kept
+   */
+  private captureError(options: AICallOptions): {
+    options: AICallOptions;
+    get: () => ClassifiedError | null;
+    set: (error: unknown) => void;
+  } {
+    let captured: ClassifiedError | null = null;
+    return {
+      options: {
+        ...options,
+        onError: (error) => {
+          captured = error;
+          options.onError?.(error);
+        },
+      },
+      get: () => captured,
+      set: (error) => {
+        captured = classifyError(error);
+      },
+    };
+  }
+
+  /**
+   * Wrap options so the sources a provider reports are collected (merged across rounds and retries)
+   */
+  private collectCitations(options: AICallOptions): { options: AICallOptions; get: () => AICitation[] } {
+    let collected: AICitation[] = [];
+    return {
+      options: {
+        ...options,
+        onCitations: (citations) => {
+          collected = mergeCitations(collected, citations);
+          options.onCitations?.(citations);
+        },
+      },
+      get: () => collected,
+    };
+  }
+
+  private buildAttempt(
+    model: string,
+    outcome: AIModelAttempt["outcome"],
+    started: number,
+    error: ClassifiedError | null
+  ): AIModelAttempt {
+    const attempt: AIModelAttempt = { model, outcome, durationMs: Date.now() - started };
+    if (error && (outcome === "error" || outcome === "timeout")) {
+      attempt.errorCategory = error.category;
+      attempt.errorMessage = error.message;
+    }
+    return attempt;
+  }
+
+  /**
+   * Cache key and TTL for a call, or null when it shouldn't be cached
+   * (cache disabled, or a TTL of 0 for the action)
+   */
+  private getCacheSlot(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions
+  ): { key: string; ttlMs: number } | null {
+    const cache = this.responseCache;
+    if (!cache?.isEnabled()) return null;
+    const ttlMs = cache.getTtlMs(options);
+    if (ttlMs <= 0) return null;
+    return { key: buildCacheKey(model, system, user, options), ttlMs };
+  }
+
+  private readCache(slot: { key: string } | null, options: AICallOptions): AICallResult | null {
+    if (!slot || options.bypassCache) return null;
+    const entry = this.responseCache?.get(slot.key);
+    if (!entry) return null;
+    console.log(`[GSD] Cache hit for ${options.action || "call"} (${entry.model}, cached ${entry.createdAt})`);
+    return { text: entry.text, model: entry.model, attempts: [], cached: true, citations: entry.citations ?? [] };
+  }
+
+  private writeCache(
+    slot: { key: string; ttlMs: number } | null,
+    model: string,
+    text: string,
+    citations: AICitation[],
+    options: AICallOptions
+  ): void {
+    if (!slot) return;
+    this.responseCache?.set(slot.key, { model, text, citations, action: options.action }, slot.ttlMs);
+  }
+
+  /**
+   * Check the monthly budget before a call. Essential calls always run;
+   * others are skipped once the cap is reached (one notice per month).
+   */
+  private isBlockedByBudget(options: AICallOptions): boolean {
+    if (options.essential || !this.usageLedger?.isOverBudget()) {
+      return false;
+    }
+
+    const budget = this.settings.usage?.monthlyBudgetUsd ?? 0;
+    console.warn(
+      `[GSD] Monthly AI budget of $${budget.toFixed(2)} reached; skipped ${options.action || "call"}`
+    );
+    const month = new Date().toISOString().slice(0, 7);
+    if (this.budgetNoticeMonth !== month) {
+      this.budgetNoticeMonth = month;
+      new Notice(
+        `GetShitDone: monthly AI budget ($${budget.toFixed(2)}) reached. Non-essential AI calls are paused until next month or until the cap is raised.`
+      );
+    }
+    return true;
+  }
+
+  private recordBudgetBlock(chain: string[]): void {
+    const error = new ClassifiedError("Monthly AI budget reached", "quota");
+    this.lastErrors.set(chain.join(", "), error);
+    this.lastError = error;
+  }
+
+  /**
+   * Wrap options so the provider's reported usage lands in the ledger.
+   * settle() records a zero-token entry for a successful call whose provider
+   * reported no usage, so the call still counts.
+   */
+  private trackUsage(model: string, options: AICallOptions): { options: AICallOptions; settle: () => void } {
+    const ledger = this.usageLedger;
+    if (!ledger) {
+      return { options, settle: () => {} };
+    }
+
+    let reported = false;
+    const tracked: AICallOptions = {
+      ...options,
+      onUsage: (usage: AIUsage) => {
+        reported = true;
+        options.onUsage?.(usage);
+        ledger.record(options.action, usage.servedModel ?? model, usage);
+      },
+    };
+
+    return {
+      options: tracked,
+      settle: () => {
+        if (!reported) {
+          ledger.record(options.action, model, { inputTokens: 0, outputTokens: 0, thinkingTokens: 0 });
+        }
+      },
+    };
+  }
+
+  /**
+   * Collect usage for a call and record it in the trace once the chain settles
+   * (no-op while tracing is off)
+   */
+  private startTrace(
+    kind: AITraceEntry["kind"],
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions
+  ): { options: AICallOptions; finish: (result: AICallResult & { toolCalls?: AIToolCallRecord[] }) => void } {
+    const recorder = this.traceRecorder;
+    if (!recorder?.isEnabled()) {
+      return { options, finish: () => {} };
+    }
+
+    const started = Date.now();
+    const usage = { inputTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+    const traced: AICallOptions = {
+      ...options,
+      onUsage: (reported: AIUsage) => {
+        usage.inputTokens += reported.inputTokens;
+        usage.outputTokens += reported.outputTokens;
+        usage.thinkingTokens += reported.thinkingTokens;
+        options.onUsage?.(reported);
+      },
+    };
+
+    return {
+      options: traced,
+      finish: (result) => {
+        const error = result.text ? null : this.getLastError(model);
+        recorder.record({
+          at: new Date(started).toISOString(),
+          kind,
+          action: options.action || "other",
+          notePath: options.notePath,
+          model,
+          answeredBy: result.model,
+          options: {
+            useSearch: options.useSearch,
+            temperature: options.temperature,
+            maxOutputTokens: options.maxOutputTokens,
+            thinkingBudget: options.thinkingBudget,
+            priority: options.priority,
+            essential: options.essential,
+            bypassCache: options.bypassCache,
+            timeoutMs: options.timeoutMs,
+            jsonSchema: options.jsonSchema?.name,
+            history: options.history,
+            attachments: options.attachments?.map((attachment) => ({
+              kind: attachment.kind,
+              mimeType: attachment.mimeType,
+              name: attachment.name,
+              bytes: Math.floor((attachment.data.length * 3) / 4),
+            })),
+            tools: options.tools?.map((tool) => tool.name),
+          },
+          system,
+          user,
+          response: result.text,
+          durationMs: Date.now() - started,
+          ...usage,
+          attempts: result.attempts,
+          toolCalls: result.toolCalls?.map((call) => ({
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+            result: call.result,
+            isError: call.isError,
+            durationMs: call.durationMs,
+          })),
+          cached: result.cached === true,
+          error: error ? { category: error.category, message: error.message } : undefined,
+          rerunOf: options.rerunOf,
+        });
+      },
+    };
+  }
+
+  /**
+   * Remember which model answered a chain and log fallbacks
+   */
+  private recordAnswer(chain: string[], model: string | null, attempts: AIModelAttempt[]): void {
+    const key = chain.join(", ");
+    this.lastAnswers.set(key, {
+      chain,
+      model,
+      attempts,
+      at: new Date().toISOString(),
+    });
+
+    if (model) {
+      this.lastErrors.delete(key);
+    } else {
+      const failed = [...attempts].reverse().find((attempt) => attempt.errorCategory);
+      const error = failed?.errorCategory
+        ? new ClassifiedError(failed.errorMessage || `${failed.model} failed`, failed.errorCategory)
+        : new ClassifiedError("No response from any model", "unknown");
+      this.lastErrors.set(key, error);
+      this.lastError = error;
+    }
+
+    if (chain.length <= 1) return;
+    const tried = attempts.map((a) => `${a.model} (${a.outcome})`).join(" → ");
+    if (model && model !== chain[0]) {
+      console.log(`[GSD] Fallback: ${model} answered after ${tried}`);
+    } else if (!model) {
+      console.warn(`[GSD] Every model in chain failed: ${tried}`);
+    }
   }
 }
@@ -0,0 +1,221 @@
+// ============================================================================
+// AI Trace Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createMockSettings } from "../__mocks__/services";
+import type { AITraceEntry, PluginSettings } from "../types";
+import {
+  AITraceRecorder,
+  buildRerunOptions,
+  getRerunBlocker,
+  isPromptRedacted,
+  redactTraceText,
+  type AITraceStorage,
+} from "./ai-trace";
+import { AIService } from "./ai-service";
+import { GeminiProvider } from "./gemini-provider";
+import { ClassifiedError } from "../utils/error-handler";
+
+function memoryStorage(files: Map<string, string> = new Map()): AITraceStorage {
+  return {
+    exists: async (path: string) => files.has(path),
+    read: async (path: string) => files.get(path) ?? "",
+    write: async (path: string, data: string) => {
+      files.set(path, data);
+    },
+  };
+}
+
+function makeSettings(overrides: Partial<PluginSettings["aiTrace"]> = {}): PluginSettings {
+  return createMockSettings({ geminiApiKey: "gemini-secret-123456", aiTrace: overrides });
+}
+
+function makeEntry(overrides: Partial<AITraceEntry> = {}): Omit<AITraceEntry, "id"> {
+  return {
+    at: "2026-10-01T09:00:00.000Z",
+    kind: "call",
+    action: "orgResearch",
+    model: "gemini-pro-latest",
+    answeredBy: "gemini-pro-latest",
+    options: {},
+    system: "sys",
+    user: "user",
+    response: "answer",
+    durationMs: 120,
+    inputTokens: 0,
+    outputTokens: 0,
+    thinkingTokens: 0,
+    attempts: [],
+    cached: false,
+    ...overrides,
+  };
+}
+
+describe("redactTraceText", () => {
+  it("removes configured secrets, key-shaped strings and emails", () => {
+    const text =
+      "key=gemini-secret-123456 sk-abcdefghijklmnopqrstu Bearer abcdefghijklmnopqrstuvwx " +
+      "https://api.test/v1?key=AIzaSecret&x=1 mail jane.doe@acme.com";
+    expect(redactTraceText(text, ["gemini-secret-123456", "short"])).toBe(
+      "key=[redacted key] [redacted key] Bearer [redacted key] " +
+        "https://api.test/v1?key=[redacted]&x=1 mail [email]"
+    );
+  });
+});
+
+describe("AITraceRecorder", () => {
+  it("redacts entries when they are recorded", () => {
+    const recorder = new AITraceRecorder(memoryStorage(), "trace.json", makeSettings());
+    const stored = recorder.record(
+      makeEntry({
+        user: "Research jane@acme.com",
+        response: "Token gemini-secret-123456",
+        options: { history: [{ role: "user", content: "earlier from max@acme.com" }] },
+        error: { category: "auth", message: "bad key gemini-secret-123456" },
+      })
+    );
+
+    expect(stored.user).toBe("Research [email]");
+    expect(stored.response).toBe("Token [redacted key]");
+    expect(stored.options.history?.[0].content).toBe("earlier from [email]");
+    expect(stored.error?.message).toBe("bad key [redacted key]");
+    expect(recorder.get(stored.id)).toEqual(stored);
+  });
+
+  it("keeps only the newest maxEntries calls and notifies listeners", () => {
+    const recorder = new AITraceRecorder(memoryStorage(), "trace.json", makeSettings({ maxEntries: 2 }));
+    const listener = vi.fn();
+    const unsubscribe = recorder.onChange(listener);
+
+    recorder.record(makeEntry({ user: "one" }));
+    recorder.record(makeEntry({ user: "two" }));
+    recorder.record(makeEntry({ user: "three" }));
+    unsubscribe();
+    recorder.record(makeEntry({ user: "four" }));
+
+    expect(recorder.getEntries().map((entry) => entry.user)).toEqual(["three", "four"]);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it("persists only when enabled", async () => {
+    const files = new Map<string, string>();
+    const memoryOnly = new AITraceRecorder(memoryStorage(files), "trace.json", makeSettings());
+    memoryOnly.record(makeEntry());
+    await memoryOnly.flush();
+    expect(files.size).toBe(0);
+
+    const persisted = new AITraceRecorder(memoryStorage(files), "trace.json", makeSettings({ persist: true }));
+    persisted.record(makeEntry({ user: "kept" }));
+    await persisted.flush();
+
+    const reloaded = new AITraceRecorder(memoryStorage(files), "trace.json", makeSettings({ persist: true }));
+    await reloaded.load();
+    expect(reloaded.getEntries().map((entry) => entry.user)).toEqual(["kept"]);
+  });
+
+  it("builds re-run options that skip the cache and point back at the original", () => {
+    const recorder = new AITraceRecorder(memoryStorage(), "trace.json", makeSettings());
+    const entry = recorder.record(makeEntry({ notePath: "Orgs/Acme.md", options: { temperature: 0.2 } }));
+
+    expect(buildRerunOptions(entry)).toMatchObject({
+      action: "orgResearch",
+      notePath: "Orgs/Acme.md",
+      temperature: 0.2,
+      priority: "interactive",
+      bypassCache: true,
+      rerunOf: entry.id,
+    });
+  });
+
+  it("refuses to re-run calls whose schema, attachments or tools weren't kept", () => {
+    const recorder = new AITraceRecorder(memoryStorage(), "trace.json", makeSettings());
+    const schema = recorder.record(makeEntry({ options: { jsonSchema: "meeting_action_items" } }));
+    const attachments = recorder.record(
+      makeEntry({ options: { attachments: [{ kind: "pdf", mimeType: "application/pdf", name: "deck.pdf", bytes: 10 }] } })
+    );
+    const tools = recorder.record(makeEntry({ options: { tools: ["search_vault"] } }));
+
+    expect(getRerunBlocker(schema)).toContain("meeting_action_items");
+    expect(getRerunBlocker(attachments)).toContain("attachments");
+    expect(getRerunBlocker(tools)).toContain("tools");
+    expect(() => buildRerunOptions(tools)).toThrow("Can't re-run");
+    expect(getRerunBlocker(recorder.record(makeEntry()))).toBeNull();
+  });
+
+  it("tells when the stored prompt was redacted", () => {
+    const recorder = new AITraceRecorder(memoryStorage(), "trace.json", makeSettings());
+
+    expect(isPromptRedacted(recorder.record(makeEntry({ user: "Email ann@example.com" })))).toBe(true);
+    expect(isPromptRedacted(recorder.record(makeEntry({ user: "Plain prompt" })))).toBe(false);
+  });
+});
+
+describe("AIService call tracing", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function makeService(enabled = true) {
+    const settings = makeSettings({ enabled });
+    const recorder = new AITraceRecorder(memoryStorage(), "trace.json", settings);
+    const service = new AIService(settings);
+    service.setTraceRecorder(recorder);
+    return { service, recorder };
+  }
+
+  it("records the call with usage, note path and redacted prompts", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockImplementation(async (_s, _u, _m, options) => {
+      options?.onUsage?.({ inputTokens: 100, outputTokens: 20, thinkingTokens: 5 });
+      return "answer";
+    });
+
+    const { service, recorder } = makeService();
+    await service.callModel("sys", "Brief jane@acme.com", "gemini-pro-latest", {
+      action: "meetingBriefing",
+      notePath: "Meetings/Intro.md",
+      temperature: 0.3,
+    });
+
+    expect(recorder.getEntries()).toHaveLength(1);
+    expect(recorder.getEntries()[0]).toMatchObject({
+      kind: "call",
+      action: "meetingBriefing",
+      notePath: "Meetings/Intro.md",
+      model: "gemini-pro-latest",
+      answeredBy: "gemini-pro-latest",
+      user: "Brief [email]",
+      response: "answer",
+      inputTokens: 100,
+      outputTokens: 20,
+      thinkingTokens: 5,
+      options: { temperature: 0.3 },
+    });
+  });
+
+  it("records failures with their classified error", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockImplementation(async (_s, _u, _m, options) => {
+      options?.onError?.(new ClassifiedError("invalid key", "auth", { status: 401 }));
+      return null;
+    });
+
+    const { service, recorder } = makeService();
+    await service.callModel("sys", "user", "gemini-pro-latest");
+
+    expect(recorder.getEntries()[0]).toMatchObject({
+      action: "other",
+      answeredBy: null,
+      response: null,
+      error: { category: "auth", message: "invalid key" },
+    });
+  });
+
+  it("records nothing while tracing is off", async () => {
+    vi.spyOn(GeminiProvider.prototype, "callModel").mockResolvedValue("answer");
+
+    const { service, recorder } = makeService(false);
+    await service.callModel("sys", "user", "gemini-pro-latest");
+
+    expect(recorder.getEntries()).toEqual([]);
+  });
+});
@@ -0,0 +1,297 @@
+// ============================================================================
+// AI Trace - Ring buffer of recorded AI calls for the trace inspector
+// ============================================================================
+
+import type { DataAdapter } from "obsidian";
+import type { PluginSettings, AITraceEntry, AITraceStore } from "../types";
+import type { AICallOptions } from "./ai-provider";
+import { handleError } from "../utils/error-handler";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The slice of Obsidian's DataAdapter the trace needs (files in the plugin folder)
+ */
+export type AITraceStorage = Pick<DataAdapter, "exists" | "read" | "write">;
+
+export type AITraceListener = () => void;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SAVE_DEBOUNCE_MS = 2000;
+const MIN_SECRET_LENGTH = 8;
+
+const KEY_PATTERNS: Array<[RegExp, string]> = [
+  [/\bsk-[A-Za-z0-9_-]{16,}/g, "[redacted key]"],
+  [/\bAIza[0-9A-Za-z_-]{30,}/g, "[redacted key]"],
+  [/(Bearer\s+)[A-Za-z0-9._~+/=-]{16,}/gi, "$1[redacted key]"],
+  [/([?&](?:key|api_key|apikey|token|secret)=)[^&\s"']+/gi, "$1[redacted]"],
+];
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const REDACTION_MARKERS = ["[redacted key]", "[redacted]", "[email]"];
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Replace configured secrets, anything shaped like an API key and email addresses
+ */
+export function redactTraceText(text: string, secrets: string[] = []): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    if (secret.length >= MIN_SECRET_LENGTH) {
+      redacted = redacted.split(secret).join("[redacted key]");
+    }
+  }
+  for (const [pattern, replacement] of KEY_PATTERNS) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+  return redacted.replace(EMAIL_PATTERN, "[email]");
+}
+
+/**
+ * Whether redaction changed the stored prompts (a re-run sends them as stored)
+ */
+export function isPromptRedacted(entry: AITraceEntry): boolean {
+  const texts = [entry.system, entry.user, ...(entry.options.history ?? []).map((turn) => turn.content)];
+  return texts.some((text) => REDACTION_MARKERS.some((marker) => text.includes(marker)));
+}
+
+// ============================================================================
+// Re-run
+// ============================================================================
+
+/**
+ * Why a traced call can't be repeated: the trace keeps only the JSON schema's
+ * name, attachment metadata and tool names, so a re-run would be a different
+ * request (null when it can be repeated)
+ */
+export function getRerunBlocker(entry: AITraceEntry): string | null {
+  const { jsonSchema, attachments, tools } = entry.options;
+  if (jsonSchema) return `it asked for the ${jsonSchema} JSON schema, which the trace doesn't keep`;
+  if (attachments?.length) return "its attachments aren't kept in the trace";
+  if (tools?.length) return "it offered tools, which a re-run can't";
+  return null;
+}
+
+/**
+ * Call options that repeat a traced call (with another model, never from the
+ * cache); throws for calls getRerunBlocker rules out
+ */
+export function buildRerunOptions(entry: AITraceEntry): AICallOptions {
+  const blocker = getRerunBlocker(entry);
+  if (blocker) throw new Error(`Can't re-run ${entry.id}: ${blocker}`);
+  return {
+    useSearch: entry.options.useSearch,
+    temperature: entry.options.temperature,
+    maxOutputTokens: entry.options.maxOutputTokens,
+    thinkingBudget: entry.options.thinkingBudget,
+    timeoutMs: entry.options.timeoutMs,
+    history: entry.options.history,
+    essential: entry.options.essential,
+    action: entry.action,
+    notePath: entry.notePath,
+    priority: "interactive",
+    bypassCache: true,
+    rerunOf: entry.id,
+  };
+}
+
+// ============================================================================
+// AITraceRecorder Class
+// ============================================================================
+
+/**
+ * AI Trace Recorder
+ * Keeps the last N AIService calls (prompts, response, usage, attempts), redacted
+ * before they are stored. Optionally persisted as JSON inside the plugin folder.
+ */
+export class AITraceRecorder {
+  private storage: AITraceStorage;
+  private path: string;
+  private settings: PluginSettings;
+  private store: AITraceStore = { version: 1, entries: [] };
+  private listeners: Set<AITraceListener> = new Set();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private counter = 0;
+
+  constructor(storage: AITraceStorage, path: string, settings: PluginSettings) {
+    this.storage = storage;
+    this.path = path;
+    this.settings = settings;
+  }
+
+  /**
+   * Update settings reference (called when settings change)
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+    if (this.trim()) this.notify();
+    if (settings.aiTrace?.persist) this.scheduleSave();
+  }
+
+  /**
+   * Load the persisted trace (skipped unless persistence is on; invalid files start empty)
+   */
+  async load(): Promise<void> {
+    if (!this.settings.aiTrace?.persist) return;
+    try {
+      if (!(await this.storage.exists(this.path))) return;
+      const parsed = JSON.parse(await this.storage.read(this.path)) as AITraceStore;
+      if (parsed?.version === 1 && Array.isArray(parsed.entries)) {
+        this.store = { version: 1, entries: [...parsed.entries, ...this.store.entries] };
+        this.trim();
+        this.notify();
+      }
+    } catch (error: unknown) {
+      handleError("AI trace load failed", error, { additionalContext: { path: this.path } });
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.settings.aiTrace?.enabled === true;
+  }
+
+  /**
+   * Redact and store a call, dropping the oldest beyond maxEntries
+   */
+  record(entry: Omit<AITraceEntry, "id">): AITraceEntry {
+    const secrets = this.getSecrets();
+    const redact = (text: string): string => redactTraceText(text, secrets);
+
+    const stored: AITraceEntry = {
+      ...entry,
+      id: `${Date.now().toString(36)}-${(this.counter++).toString(36)}`,
+      system: redact(entry.system),
+      user: redact(entry.user),
+      response: entry.response === null ? null : redact(entry.response),
+      options: {
+        ...entry.options,
+        history: entry.options.history?.map((turn) => ({ ...turn, content: redact(turn.content) })),
+      },
+      attempts: entry.attempts.map((attempt) =>
+        attempt.errorMessage ? { ...attempt, errorMessage: redact(attempt.errorMessage) } : attempt
+      ),
+      toolCalls: entry.toolCalls?.map((call) => ({
+        ...call,
+        arguments: redact(call.arguments),
+        result: redact(call.result),
+      })),
+      error: entry.error ? { ...entry.error, message: redact(entry.error.message) } : undefined,
+    };
+
+    this.store.entries.push(stored);
+    this.trim();
+    this.notify();
+    if (this.settings.aiTrace?.persist) this.scheduleSave();
+    return stored;
+  }
+
+  /**
+   * Recorded calls, oldest first
+   */
+  getEntries(): AITraceEntry[] {
+    return [...this.store.entries];
+  }
+
+  get(id: string): AITraceEntry | null {
+    return this.store.entries.find((entry) => entry.id === id) ?? null;
+  }
+
+  /**
+   * Subscribe to new entries and clears
+   * @returns Unsubscribe function
+   */
+  onChange(listener: AITraceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Remove every entry and persist immediately
+   * @returns Number of entries removed
+   */
+  async clear(): Promise<number> {
+    const removed = this.store.entries.length;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.store.entries = [];
+    this.notify();
+    if (this.settings.aiTrace?.persist) await this.save();
+    return removed;
+  }
+
+  /**
+   * Write pending changes now (called on unload)
+   */
+  async flush(): Promise<void> {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.save();
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private getSecrets(): string[] {
+    const s = this.settings;
+    return [
+      s.geminiApiKey,
+      s.openaiApiKey,
+      s.anthropicApiKey,
+      s.openrouterApiKey,
+      s.appsScriptSecret,
+      s.localProvider?.apiKey,
+      s.webhook?.apiKey,
+    ].filter((secret): secret is string => !!secret);
+  }
+
+  /**
+   * Drop the oldest entries beyond maxEntries
+   * @returns True when entries were dropped
+   */
+  private trim(): boolean {
+    const max = Math.max(1, this.settings.aiTrace?.maxEntries ?? 200);
+    const excess = this.store.entries.length - max;
+    if (excess <= 0) return false;
+    this.store.entries.splice(0, excess);
+    return true;
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error: unknown) {
+        handleError("AI trace listener failed", error, { silent: true });
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.storage.write(this.path, JSON.stringify(this.store));
+    } catch (error: unknown) {
+      handleError("AI trace save failed", error, { additionalContext: { path: this.path } });
+    }
+  }
+}
@@ -2,15 +2,58 @@
 // Anthropic Provider - Claude model implementation
 // ============================================================================
 
-import { requestUrl, RequestUrlResponse } from "obsidian";
+import { requestUrl } from "obsidian";
 import type { PluginSettings } from "../types";
-import type { AIProvider, AICallOptions } from "./ai-provider";
-import { handleErrorWithDefault, handleError, getErrorMessage } from "../utils/error-handler";
+import {
+  buildChatTurns,
+  withAttachmentContent,
+  parseToolArguments,
+  mergeCitations,
+  providerHttpError,
+  providerRetryOptions,
+  readResponseJson,
+  reportCitations,
+  reportProviderError,
+} from "./ai-provider";
+import type {
+  AIProvider,
+  AIAttachment,
+  AICallOptions,
+  AICitation,
+  AIStreamHandler,
+  AIToolResponse,
+  AIToolRound,
+  AIUsage,
+} from "./ai-provider";
+import { readSseStream, parseSseJson } from "./sse-stream";
+import { classifyError, withRetry } from "../utils/error-handler";
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/**
+ * A content block (text, tool_use, or the server-run web search and its results)
+ */
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  /** Sources a text block cites (web_search_result_location) */
+  citations?: AnthropicCitation[];
+  /** web_search_tool_result: the results, or an error object */
+  content?: unknown;
+}
+
+interface AnthropicCitation {
+  type?: string;
+  url?: string;
+  title?: string;
+  cited_text?: string;
+}
+
 /**
  * Anthropic API Response Types
  */
@@ -18,10 +61,7 @@ interface AnthropicResponse {
   id?: string;
   type?: string;
   role?: string;
-  content: Array<{
-    type: string;
-    text?: string;
-  }>;
+  content: AnthropicContentBlock[];
   model?: string;
   stop_reason?: string;
   stop_sequence?: string | null;
@@ -35,6 +75,31 @@ interface AnthropicResponse {
   };
 }
 
+/**
+ * Messages API streaming event (only the fields we consume)
+ */
+interface AnthropicStreamEvent {
+  type?: string;
+  content_block?: AnthropicContentBlock;
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    citation?: AnthropicCitation;
+  };
+  message?: {
+    usage?: { input_tokens?: number; output_tokens?: number };
+  };
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+  error?: {
+    type?: string;
+    message?: string;
+  };
+}
+
 /**
  * Anthropic Provider
  * Implements AIProvider interface for Anthropic Claude models
@@ -61,6 +126,67 @@ export class AnthropicProvider implements AIProvider {
     user: string,
     model: string = "claude-sonnet-4-5-20250929",
     options: AICallOptions = {}
+  ): Promise<string | null> {
+    const data = await this.requestMessage(system, user, model, options);
+    if (!data) return null;
+
+    // Structured output arrives as the input of the forced tool call
+    if (options.jsonSchema && data.content && Array.isArray(data.content)) {
+      const toolBlock = data.content.find(
+        (block) => block.type === "tool_use" && block.name === options.jsonSchema?.name
+      );
+      if (toolBlock && toolBlock.input !== undefined) {
+        return JSON.stringify(toolBlock.input);
+      }
+    }
+
+    // Extract text from content array
+    // Anthropic returns content as an array of blocks, each with type and text
+    const text = extractText(data);
+    if (text) {
+      return text;
+    }
+
+    console.warn("[GSD] Anthropic Response has no recognized text content");
+    return null;
+  }
+
+  /**
+   * Call Anthropic with custom tools (one round of a tool loop)
+   */
+  async callModelWithTools(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions = {}
+  ): Promise<AIToolResponse | null> {
+    const data = await this.requestMessage(system, user, model, options);
+    if (!data || !Array.isArray(data.content)) return null;
+
+    const calls = data.content
+      .filter((block) => block.type === "tool_use" && block.name)
+      .map((block) => ({
+        id: block.id || "",
+        name: block.name as string,
+        arguments: parseToolArguments(block.input),
+      }));
+    const text = extractText(data);
+    if (!text && calls.length === 0) {
+      console.warn("[GSD] Anthropic Response has no recognized text content");
+      return null;
+    }
+    return { text, calls, assistant: { role: "assistant", content: data.content } };
+  }
+
+  /**
+   * Stream Anthropic output via Messages API server-sent events
+   */
+  async streamModel(
+    system: string,
+    user: string,
+    model: string = "claude-sonnet-4-5-20250929",
+    onChunk: AIStreamHandler,
+    options: AICallOptions = {}
   ): Promise<string | null> {
     if (!this.settings.anthropicApiKey) {
       console.warn("[GSD] No Anthropic API key configured");
@@ -68,120 +194,288 @@ export class AnthropicProvider implements AIProvider {
     }
 
     const url = "https://api.anthropic.com/v1/messages";
+    const { headers, body } = this.buildRequest(system, user, model, options);
+    // fetch sends CORS preflights from the renderer, which Anthropic only allows with this opt-in
+    headers["anthropic-dangerous-direct-browser-access"] = "true";
 
+    let emitted = false;
     try {
-      // Build headers
-      const headers: Record<string, string> = {
-        "x-api-key": this.settings.anthropicApiKey,
-        "anthropic-version": "2023-06-01",
-        "Content-Type": "application/json",
-      };
+      return await withRetry(async () => {
+        const response = await fetch(url, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ ...body, stream: true }),
+          signal: options.signal,
+        });
 
-      // Build request body
-      const body: Record<string, any> = {
-        model: model,
-        max_tokens: options.maxOutputTokens ?? 4096,
-        messages: [
-          {
-            role: "user",
-            content: user,
-          },
-        ],
-      };
+        if (!response.ok || !response.body) {
+          throw providerHttpError(`Anthropic stream failed with status ${response.status}`, response.status, response.headers);
+        }
 
-      // Add temperature if provided (Anthropic supports 0.0-1.0)
-      if (options.temperature != null) {
-        body.temperature = Math.max(0.0, Math.min(1.0, options.temperature));
-      }
+        let fullText = "";
+        let streamError: string | null = null;
+        // Search results and cited passages, collected as blocks so cited sources sort first
+        const sourceBlocks: AnthropicContentBlock[] = [];
+        const usage: AIUsage = { inputTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+        let sawUsage = false;
+        await readSseStream(response.body, ({ data }) => {
+          const event = parseSseJson<AnthropicStreamEvent>(data);
+          if (!event) return;
+          if (event.type === "message_start" && event.message?.usage) {
+            // Input tokens arrive up front; output_tokens in later message_delta events is cumulative
+            usage.inputTokens = event.message.usage.input_tokens ?? 0;
+            usage.outputTokens = event.message.usage.output_tokens ?? 0;
+            sawUsage = true;
+          } else if (event.type === "message_delta" && event.usage) {
+            usage.outputTokens = event.usage.output_tokens ?? usage.outputTokens;
+            sawUsage = true;
+          } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+            fullText += event.delta.text;
+            emitted = true;
+            onChunk(event.delta.text);
+          } else if (event.type === "content_block_delta" && event.delta?.type === "input_json_delta" && event.delta.partial_json) {
+            // Forced tool call (structured output) streams its JSON input
+            fullText += event.delta.partial_json;
+            emitted = true;
+            onChunk(event.delta.partial_json);
+          } else if (event.type === "content_block_delta" && event.delta?.type === "citations_delta" && event.delta.citation) {
+            sourceBlocks.push({ type: "text", citations: [event.delta.citation] });
+          } else if (event.type === "content_block_start" && event.content_block?.type === "web_search_tool_result") {
+            sourceBlocks.push(event.content_block);
+          } else if (event.type === "error") {
+            streamError = event.error?.message || "Stream failed";
+          }
+        });
 
-      // Add system prompt as separate field (Anthropic uses system field, not system role)
-      if (system) {
-        body.system = system;
-      }
+        if (sawUsage) options.onUsage?.(usage);
+        reportCitations(options, extractCitations(sourceBlocks));
+        if (streamError) {
+          throw classifyError(new Error(streamError));
+        }
+        return fullText || null;
+      }, providerRetryOptions("Anthropic", model, options, () => !emitted));
+    } catch (error: unknown) {
+      return reportProviderError("Anthropic API Error", error, options, { model, streaming: true });
+    }
+  }
 
-      // Add web search tool if requested
-      if (options.useSearch) {
-        body.tools = [
-          {
-            type: "web_search_20250305",
-            name: "web_search",
-            max_uses: 5,
-          },
-        ];
-      }
+  /**
+   * Anthropic has no embeddings API; use a Gemini, OpenAI, OpenRouter or local embedding model
+   */
+  async embed(_texts: string[], model: string): Promise<number[][] | null> {
+    console.warn(`[GSD] Anthropic has no embedding models; ${model} can't be used for the semantic index`);
+    return null;
+  }
 
-      // Add effort parameter for Opus 4.5 models only
-      // Check if model name contains "claude-opus-4-5"
-      const isOpus45 = model.toLowerCase().includes("claude-opus-4-5");
-      if (isOpus45 && options.thinkingBudget != null) {
-        body.output_config = {
-          effort: options.thinkingBudget,
-        };
-        // Add beta header for effort parameter
-        headers["anthropic-beta"] = "effort-2025-11-24";
-      }
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * One buffered Messages API request (usage is reported here)
+   * @returns The response, or null when the call failed
+   */
+  private async requestMessage(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions
+  ): Promise<AnthropicResponse | null> {
+    if (!this.settings.anthropicApiKey) {
+      console.warn("[GSD] No Anthropic API key configured");
+      return null;
+    }
 
-      let response: RequestUrlResponse;
-      try {
-        response = await requestUrl({
+    const url = "https://api.anthropic.com/v1/messages";
+    const { headers, body } = this.buildRequest(system, user, model, options);
+
+    try {
+      const data = await withRetry(async () => {
+        const response = await requestUrl({
           url: url,
           method: "POST",
           headers: headers,
           body: JSON.stringify(body),
-        }) as RequestUrlResponse;
-      } catch (error: unknown) {
-        // Try to extract error message from Obsidian's requestUrl error format
-        const errorData = error && typeof error === "object" && "json" in error
-          ? (error as { json?: { error?: { message?: string }; message?: string } }).json
-          : null;
-        const errorMessage = errorData?.error?.message || errorData?.message || getErrorMessage(error);
-        
-        handleError("Anthropic API Request", error, {
-          additionalContext: { model, url },
+          throw: false,
         });
-        return null;
-      }
 
-      // Check for HTTP errors
-      if (response.status !== 200) {
-        const errorData = response.json as { error?: { message?: string; type?: string }; message?: string } | null;
-        const errorMessage = errorData?.error?.message || errorData?.message || `HTTP ${response.status}`;
-        
-        handleError("Anthropic API HTTP Error", new Error(errorMessage), {
-          additionalContext: { status: response.status, model },
-        });
-        return null;
-      }
+        const json = readResponseJson<AnthropicResponse & { message?: string }>(response);
+        if (response.status !== 200) {
+          throw providerHttpError(json?.error?.message || json?.message, response.status, response.headers);
+        }
+        if (!json || json.error) {
+          throw classifyError(new Error(json?.error?.message || "Empty response"));
+        }
+        return json;
+      }, providerRetryOptions("Anthropic", model, options));
 
-      const data = response.json as AnthropicResponse;
-      if (data.error) {
-        handleError("Anthropic API Response Error", new Error(data.error.message), {
-          additionalContext: { model, errorType: data.error.type },
+      // Anthropic counts extended thinking inside output_tokens; it isn't reported separately
+      if (data.usage) {
+        options.onUsage?.({
+          inputTokens: data.usage.input_tokens ?? 0,
+          outputTokens: data.usage.output_tokens ?? 0,
+          thinkingTokens: 0,
         });
-        return null;
       }
+      reportCitations(options, extractCitations(data.content));
+      return data;
+    } catch (error: unknown) {
+      return reportProviderError("Anthropic API Error", error, options, { model });
+    }
+  }
 
-      // Extract text from content array
-      // Anthropic returns content as an array of blocks, each with type and text
-      if (data.content && Array.isArray(data.content)) {
-        const textBlocks = data.content
-          .filter((block) => block.type === "text" && block.text)
-          .map((block) => block.text as string);
-        
-        if (textBlocks.length > 0) {
-          return textBlocks.join("");
-        }
-      }
+  /**
+   * Build Messages API headers and body (shared by buffered and streaming calls)
+   */
+  private buildRequest(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions
+  ): { headers: Record<string, string>; body: Record<string, any> } {
+    // Build headers
+    const headers: Record<string, string> = {
+      "x-api-key": this.settings.anthropicApiKey,
+      "anthropic-version": "2023-06-01",
+      "Content-Type": "application/json",
+    };
 
-      console.warn("[GSD] Anthropic Response has no recognized text content");
-      return null;
-    } catch (error: unknown) {
-      return handleErrorWithDefault(
-        "Anthropic API Unexpected Error",
-        error,
-        null,
-        { additionalContext: { model } }
-      );
+    // Build request body
+    const body: Record<string, any> = {
+      model: model,
+      max_tokens: options.maxOutputTokens ?? 4096,
+      messages: [
+        ...withAttachmentContent(buildChatTurns(options.history, user), options.attachments, buildContentBlocks),
+        ...buildToolMessages(options.toolRounds),
+      ],
+    };
+
+    // Add temperature if provided (Anthropic supports 0.0-1.0)
+    if (options.temperature != null) {
+      body.temperature = Math.max(0.0, Math.min(1.0, options.temperature));
+    }
+
+    // Add system prompt as separate field (Anthropic uses system field, not system role)
+    if (system) {
+      body.system = system;
+    }
+
+    // Add web search tool if requested
+    if (options.useSearch) {
+      body.tools = [
+        {
+          type: "web_search_20250305",
+          name: "web_search",
+          max_uses: 5,
+        },
+      ];
     }
+
+    // Add effort parameter for Opus 4.5 models only
+    // Check if model name contains "claude-opus-4-5"
+    const isOpus45 = model.toLowerCase().includes("claude-opus-4-5");
+    if (isOpus45 && options.thinkingBudget != null) {
+      body.output_config = {
+        effort: options.thinkingBudget,
+      };
+      // Add beta header for effort parameter
+      headers["anthropic-beta"] = "effort-2025-11-24";
+    }
+
+    // Custom tools go alongside web search
+    if (options.tools?.length) {
+      body.tools = [
+        ...options.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters,
+        })),
+        ...(body.tools ?? []),
+      ];
+      body.tool_choice = { type: options.toolChoice === "none" ? "none" : "auto" };
+    }
+
+    // Structured output: force a single tool call whose input schema is the response schema.
+    // Forcing a tool would block web search and function tools, so those calls rely on the prompt instead.
+    if (options.jsonSchema && !options.useSearch && !options.tools?.length) {
+      body.tools = [
+        {
+          name: options.jsonSchema.name,
+          description: "Return the response in this structure.",
+          input_schema: options.jsonSchema.schema,
+        },
+      ];
+      body.tool_choice = { type: "tool", name: options.jsonSchema.name };
+    }
+
+    return { headers, body };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Join the text blocks of a response
+ */
+function extractText(data: AnthropicResponse): string | null {
+  if (!data.content || !Array.isArray(data.content)) return null;
+  const textBlocks = data.content
+    .filter((block) => block.type === "text" && block.text)
+    .map((block) => block.text as string);
+  return textBlocks.length > 0 ? textBlocks.join("") : null;
+}
+
+/**
+ * Web sources of a response: what the text cites first, then the remaining search results
+ */
+function extractCitations(blocks: AnthropicContentBlock[] | undefined): AICitation[] {
+  const cited: AICitation[] = [];
+  const results: AICitation[] = [];
+  for (const block of blocks ?? []) {
+    for (const citation of block.citations ?? []) {
+      if (citation.url) cited.push({ url: citation.url, title: citation.title, snippet: citation.cited_text });
+    }
+    if (block.type === "web_search_tool_result" && Array.isArray(block.content)) {
+      for (const result of block.content as Array<{ type?: string; url?: string; title?: string }>) {
+        if (result.type === "web_search_result" && result.url) results.push({ url: result.url, title: result.title });
+      }
+    }
+  }
+  return mergeCitations(cited, results);
+}
+
+/**
+ * Assistant turns that called tools, each followed by a user turn of tool_result blocks
+ */
+function buildToolMessages(rounds: AIToolRound[] | undefined): Array<{ role: string; content: unknown }> {
+  const messages: Array<{ role: string; content: unknown }> = [];
+  for (const round of rounds ?? []) {
+    messages.push(round.assistant as { role: string; content: unknown });
+    messages.push({
+      role: "user",
+      content: round.results.map((result) => ({
+        type: "tool_result",
+        tool_use_id: result.callId,
+        content: result.content,
+        ...(result.isError ? { is_error: true } : {}),
+      })),
+    });
+  }
+  return messages;
+}
+
+/**
+ * Image/document blocks followed by the prompt text (Anthropic recommends media before text)
+ */
+function buildContentBlocks(text: string, attachments: AIAttachment[]): Array<Record<string, unknown>> {
+  const blocks: Array<Record<string, unknown>> = attachments.map((attachment) => ({
+    type: attachment.kind === "image" ? "image" : "document",
+    source: { type: "base64", media_type: attachment.mimeType, data: attachment.data },
+  }));
+  if (text) {
+    blocks.push({ type: "text", text });
   }
+  return blocks;
 }
@@ -0,0 +1,93 @@
+// ============================================================================
+// Council Runner Tests (replayed AI responses)
+// ============================================================================
+
+import { describe, it, expect, afterEach, afterAll } from "vitest";
+import type { App } from "obsidian";
+import { DEFAULT_SETTINGS } from "../types/defaults";
+import { createMockApp } from "../__mocks__/obsidian";
+import { ReplayFixtures, useReplay } from "../__mocks__/replay-provider";
+import { AIService } from "./ai-service";
+import { CouncilRunnerService } from "./council-runner";
+
+const fixtures = new ReplayFixtures("council-runner");
+
+const RUN_ID = "2026-03-02_100000";
+const INPUT = "How should a 40-person engineering team cut its release cycle from four weeks to one?";
+
+const PERSONAS: Record<string, string> = {
+  feynman: "Richard Feynman: explain from first principles and test every claim",
+  taleb: "Nassim Taleb: look for fragility, tail risks and cheap optionality",
+  daVinci: "Leonardo da Vinci: cross disciplines and sketch the mechanism",
+  fuller: "Buckminster Fuller: design the system so the problem can't recur",
+};
+
+function setup() {
+  const app = createMockApp();
+  const settings = fixtures.withRecordingKeys({ ...DEFAULT_SETTINGS });
+  const aiService = new AIService(settings);
+  useReplay(aiService, fixtures);
+
+  const prompts = settings.llmCouncil.prompts;
+  for (const [persona, role] of Object.entries(PERSONAS)) {
+    app.vault._setFile(
+      prompts.ideators[persona as keyof typeof prompts.ideators],
+      `<!-- LLM_COUNCIL:BEGIN -->\nYou are ${role}. Output STRICT JSON matching the ideas schema.\n<!-- LLM_COUNCIL:END -->\n\n{activenote}`
+    );
+  }
+  app.vault._setFile(
+    prompts.executor,
+    "<!-- LLM_COUNCIL:BEGIN -->\nYou are an executor. Turn the ideas into one Markdown plan.\n<!-- LLM_COUNCIL:END -->"
+  );
+  app.vault._setFile(
+    prompts.judge,
+    "<!-- LLM_COUNCIL:BEGIN -->\nYou are the judge. Score the deliverables and output STRICT JSON.\n<!-- LLM_COUNCIL:END -->"
+  );
+
+  return { app, runner: new CouncilRunnerService(app as unknown as App, settings, aiService) };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("CouncilRunnerService", () => {
+  afterEach(() => {
+    expect(fixtures.missing.splice(0)).toEqual([]);
+  });
+
+  afterAll(() => {
+    fixtures.save();
+  });
+
+  it("runs ideators, executors and the judge and writes the run files", async () => {
+    const { app, runner } = setup();
+    const runPath = await runner.createRunDirectory(RUN_ID);
+    await runner.saveInput(runPath, INPUT);
+
+    const ideas = await runner.runIdeators(RUN_ID, runPath, INPUT);
+    expect(ideas.map((idea) => idea.persona_id)).toEqual(["feynman", "taleb", "daVinci", "fuller"]);
+    expect(app.vault._getContent(`${runPath}/ideas/taleb.md`)).toContain(
+      'thesis: "Shrink the blast radius first: ship behind flags so a bad weekly release costs minutes, not a month."'
+    );
+
+    const executions = await runner.runExecutors(RUN_ID, runPath, INPUT, ideas);
+    expect(executions.map((execution) => [execution.executorName, execution.model, execution.title])).toEqual([
+      ["executor1", "gemini-pro-latest", "Weekly Trains"],
+      ["executor2", "claude-opus-4-5-20251101", "One-Week Release Cadence Plan"],
+      ["executor3", "gpt-5.2", "Ship Weekly Without Fear"],
+    ]);
+    expect(app.vault._getContent(`${runPath}/exec/Weekly Trains.md`)).toContain("## Week 1");
+
+    const judgment = await runner.runJudge(RUN_ID, runPath, INPUT, ideas, executions);
+    expect(judgment).toMatchObject({ run_id: RUN_ID, phase: "judge", winner: "executor2" });
+    expect(app.vault._getContent(`${runPath}/judge/judge.md`)).toContain('winner: "executor2"');
+
+    const outputPath = await runner.generateOutput(runPath, RUN_ID, ideas, executions, judgment);
+    const output = app.vault._getContent(outputPath) ?? "";
+    expect(output).toContain("**Winner:** executor2");
+    expect(output).toContain("| executor2 | 8.40 |");
+    expect(output).toContain("1. Pick one service and move it to weekly trains with feature flags this sprint");
+    expect(runner.generateCallout(RUN_ID, runPath, judgment)).toContain("**Winner:** executor2 - Score: 8.4/10");
+  });
+});
@@ -2,7 +2,7 @@
 // Council Runner Service - LLM Council orchestration engine
 // ============================================================================
 
-import { App, TFile, TFolder, Notice, parseYaml } from "obsidian";
+import { App, TFile, TFolder, Notice } from "obsidian";
 import type {
   PluginSettings,
   LlmCouncilIdea,
@@ -13,138 +13,107 @@ import type {
   GenerationConfigSettings,
 } from "../types";
 import { AIService } from "./ai-service";
+import type { AIJsonSchema } from "./ai-provider";
+import type { JsonSchema } from "../utils/json-schema";
 
 const moment = (window as any).moment;
 
 // ============================================================================
-// YAML Helpers
+// Output Schemas
 // ============================================================================
 
-/**
- * Pre-process YAML string to quote array items containing special characters
- * This handles cases where models output **bold** markdown or colons in array items
- */
-function sanitizeYamlArrayItems(yamlStr: string): string {
-  return yamlStr
-    // Quote array items that start with ** (bold markdown)
-    .replace(/^(\s*-\s+)(\*\*.+)$/gm, (_, prefix, content) => {
-      if (content.startsWith('"') || content.startsWith("'")) return prefix + content;
-      return `${prefix}"${content.replace(/"/g, '\\"')}"`;
-    })
-    // Quote ALL unquoted title values (they often contain colons)
-    .replace(/^(\s*title:\s*)([^"'\n].*)$/gm, (_, prefix, content) => {
-      return `${prefix}"${content.replace(/"/g, '\\"')}"`;
-    })
-    // Quote ALL unquoted url values if they contain special chars
-    .replace(/^(\s*url:\s*)([^"'\n].*)$/gm, (_, prefix, content) => {
-      // URLs don't usually need quoting unless they have special YAML chars
-      if (content.includes(':') && !content.startsWith('http')) {
-        return `${prefix}"${content.replace(/"/g, '\\"')}"`;
-      }
-      return prefix + content;
-    })
-    // Quote plain array items containing colons (e.g., "- Title: Description")
-    .replace(/^(\s*-\s+)([^"'\-\n][^:\n]*:\s*[^\n]+)$/gm, (_, prefix, content) => {
-      if (content.startsWith('"') || content.startsWith("'")) return prefix + content;
-      // Skip if it looks like a YAML key (word followed by colon at start)
-      if (/^[a-z_]+:\s/.test(content)) return prefix + content;
-      return `${prefix}"${content.replace(/"/g, '\\"')}"`;
-    });
-}
-
-/**
- * Parse YAML frontmatter and markdown body from a response
- * Returns { frontmatter: object, body: string } or null if parsing fails
- */
-function parseMarkdownWithFrontmatter(content: string): { frontmatter: Record<string, unknown>; body: string } | null {
-  // Strip markdown code block wrapper if present (some models wrap output in ```markdown)
-  let cleanContent = content;
-  const codeBlockMatch = content.match(/^```(?:markdown|md)?\s*\n([\s\S]*?)```\s*$/);
-  if (codeBlockMatch) {
-    cleanContent = codeBlockMatch[1];
-  }
-  
-  // Strip preamble text before frontmatter (some models add intro text before ---)
-  if (!cleanContent.startsWith('---')) {
-    const frontmatterStart = cleanContent.indexOf('\n---\n');
-    if (frontmatterStart !== -1) {
-      cleanContent = cleanContent.substring(frontmatterStart + 1); // +1 to skip the leading newline
-    } else {
-      // Try without newline requirement
-      const dashStart = cleanContent.indexOf('---');
-      if (dashStart > 0 && dashStart < 500) { // Only strip if --- is within first 500 chars
-        cleanContent = cleanContent.substring(dashStart);
-      }
-    }
-  }
-  
-  // Find frontmatter delimiters
-  const frontmatterMatch = cleanContent.match(/^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/);
-
-  if (!frontmatterMatch) {
-    // Try without leading newline requirement
-    const altMatch = cleanContent.match(/^---\s*([\s\S]*?)---\s*([\s\S]*)$/);
-    if (!altMatch) {
-      return null;
-    }
-    try {
-      const yamlStr = sanitizeYamlArrayItems(altMatch[1].trim());
-      const frontmatter = parseYaml(yamlStr) as Record<string, unknown>;
-      return { frontmatter, body: altMatch[2].trim() };
-    } catch {
-      return null;
-    }
-  }
-  
-  try {
-    const yamlStr = sanitizeYamlArrayItems(frontmatterMatch[1]);
-    const frontmatter = parseYaml(yamlStr) as Record<string, unknown>;
-    return { frontmatter, body: frontmatterMatch[2].trim() };
-  } catch {
-    // Fallback: Extract key fields via regex when YAML parsing fails
-    const rawYaml = frontmatterMatch[1];
-    const fallbackFrontmatter: Record<string, unknown> = {};
-    
-    // Extract simple string fields
-    const stringFields = ['persona_id', 'persona', 'thesis'];
-    for (const field of stringFields) {
-      const match = rawYaml.match(new RegExp(`^${field}:\\s*"?([^"\\n]+)"?`, 'm'));
-      if (match) fallbackFrontmatter[field] = match[1].trim().replace(/^"|"$/g, '');
-    }
-    
-    // Extract array fields (risks, anti_plan, falsifiers)
-    const arrayFields = ['risks', 'anti_plan', 'falsifiers'];
-    for (const field of arrayFields) {
-      const fieldMatch = rawYaml.match(new RegExp(`^${field}:\\s*\\n((?:\\s+-\\s+.+\\n?)+)`, 'm'));
-      if (fieldMatch) {
-        const items = fieldMatch[1].match(/^\s*-\s+(.+)$/gm);
-        if (items) {
-          fallbackFrontmatter[field] = items.map(item => 
-            item.replace(/^\s*-\s+/, '').replace(/^["']|["']$/g, '').trim()
-          );
-        }
-      }
-    }
-    
-    // Extract sources (best effort)
-    const sourcesMatch = rawYaml.match(/^sources:\s*\n([\s\S]*?)(?=^[a-z_]+:|$)/m);
-    if (sourcesMatch) {
-      const urls = sourcesMatch[1].match(/url:\s*(\S+)/g);
-      if (urls) {
-        fallbackFrontmatter['sources'] = urls.map(u => ({
-          url: u.replace(/^url:\s*/, '').trim()
-        }));
-      }
-    }
-    
-    // Only return fallback if we got at least the essential fields
-    if (fallbackFrontmatter.persona_id && fallbackFrontmatter.thesis) {
-      return { frontmatter: fallbackFrontmatter, body: frontmatterMatch[2].trim() };
-    }
-    
-    return null;
-  }
-}
+const SOURCES_SCHEMA: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      url: { type: "string" },
+    },
+    required: ["url"],
+  },
+};
+
+type CouncilIdeaJson = Omit<LlmCouncilIdea, "run_id" | "phase" | "persona_id">;
+
+const IDEA_SCHEMA: AIJsonSchema = {
+  name: "council_idea",
+  schema: {
+    type: "object",
+    properties: {
+      persona: { type: "string" },
+      thesis: { type: "string" },
+      plan_steps: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            step: { type: "string" },
+            rationale: { type: "string" },
+            mini_artifact: { type: "string" },
+          },
+          required: ["step", "rationale", "mini_artifact"],
+        },
+      },
+      risks: { type: "array", items: { type: "string" } },
+      anti_plan: { type: "array", items: { type: "string" } },
+      falsifiers: { type: "array", items: { type: "string" } },
+      sources: SOURCES_SCHEMA,
+      markdown_body: {
+        type: "string",
+        description: "Optional full write-up of the plan in Markdown",
+      },
+    },
+    required: ["persona", "thesis", "plan_steps", "risks", "anti_plan", "falsifiers", "sources"],
+  },
+};
+
+type CouncilJudgmentJson = Omit<LlmCouncilJudgment, "run_id" | "phase">;
+
+const JUDGMENT_SCHEMA: AIJsonSchema = {
+  name: "council_judgment",
+  schema: {
+    type: "object",
+    properties: {
+      rubric_weights: {
+        type: "object",
+        description: "Weight per rubric criterion (e.g. clarity: 0.2)",
+      },
+      scores: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            executor: { type: "string" },
+            raw_scores: {
+              type: "object",
+              description: "Score 1-10 per rubric criterion",
+            },
+            weighted_total: { type: "number" },
+            notes: { type: "string" },
+          },
+          required: ["executor", "raw_scores", "weighted_total", "notes"],
+        },
+      },
+      winner: { type: "string" },
+      synthesis: {
+        type: "string",
+        description: "Markdown synthesis integrating the best elements",
+      },
+      next_actions: { type: "array", items: { type: "string" } },
+      sources: SOURCES_SCHEMA,
+    },
+    required: ["rubric_weights", "scores", "winner", "synthesis", "next_actions", "sources"],
+  },
+};
+
+const DEFAULT_RUBRIC_WEIGHTS: Record<string, number> = {
+  clarity: 0.2,
+  actionability: 0.2,
+  completeness: 0.2,
+  creativity: 0.2,
+  grounding: 0.2,
+};
 
 /**
  * Council Runner Service
@@ -292,11 +261,13 @@ export class CouncilRunnerService {
       // Use the full prompt as user content, but add run_id instruction
       const userPrompt = `Run ID: ${runId}\n\nINPUT:\n${input}`;
 
-      const response = await this.aiService.callModel(
+      const response = await this.aiService.callModelJson<CouncilIdeaJson>(
         systemPrompt,
         userPrompt,
         model,
+        IDEA_SCHEMA,
         {
+          action: "council",
           useSearch: true,
           temperature: cfg.temperature,
           thinkingBudget: cfg.thinkingBudget ?? undefined,
@@ -304,64 +275,18 @@ export class CouncilRunnerService {
       );
 
       if (!response) {
-        console.error(`[GSD] Council: Ideator ${persona} returned null response`);
+        console.error(`[GSD] Council: Ideator ${persona} returned no valid idea`);
         return null;
       }
 
-      // Parse Markdown with YAML frontmatter
-      try {
-        const parsed = parseMarkdownWithFrontmatter(response);
-        if (!parsed) {
-          console.error(`[GSD] Council: Failed to parse ideator ${persona} frontmatter`);
-          console.error(`[GSD] Council: Raw response:`, response.substring(0, 500));
-          return null;
-        }
-
-        const { frontmatter, body } = parsed;
-        
-        // Build the idea from frontmatter + body
-        const idea: LlmCouncilIdea = {
-          run_id: runId,
-          phase: "ideas",
-          persona_id: persona,
-          persona: (frontmatter.persona as string) || persona,
-          thesis: (frontmatter.thesis as string) || "",
-          plan_steps: [], // Will be populated from body
-          risks: (frontmatter.risks as string[]) || [],
-          anti_plan: (frontmatter.anti_plan as string[]) || [],
-          falsifiers: (frontmatter.falsifiers as string[]) || [],
-          sources: (frontmatter.sources as Array<{title?: string; url: string}>) || [],
-          markdown_body: body, // Store the full markdown body
-        };
-
-        // Parse plan steps from the markdown body
-        const stepMatches = body.matchAll(/###\s*\d+\.\s*(.+?)(?:\n\n|\n)(?:\*\*Rationale:\*\*\s*(.+?))?(?:\n\n|\n)(?:\*\*Mini-artifact:\*\*\s*([\s\S]*?))?(?=###\s*\d+\.|$)/g);
-        for (const match of stepMatches) {
-          idea.plan_steps.push({
-            step: match[1]?.trim() || "",
-            rationale: match[2]?.trim() || "",
-            mini_artifact: match[3]?.trim() || "",
-          });
-        }
-
-        // If no structured steps found, try a simpler parse
-        if (idea.plan_steps.length === 0) {
-          const simpleSteps = body.match(/###\s*\d+\.\s*(.+)/g);
-          if (simpleSteps) {
-            idea.plan_steps = simpleSteps.map(s => ({
-              step: s.replace(/###\s*\d+\.\s*/, "").trim(),
-              rationale: "",
-              mini_artifact: "",
-            }));
-          }
-        }
-
-        return idea;
-      } catch (parseError) {
-        console.error(`[GSD] Council: Failed to parse ideator ${persona} response:`, parseError);
-        console.error(`[GSD] Council: Raw response:`, response.substring(0, 500));
-        return null;
-      }
+      return {
+        ...response,
+        run_id: runId,
+        phase: "ideas",
+        persona_id: persona,
+        persona: response.persona || persona,
+        markdown_body: response.markdown_body?.trim() || undefined,
+      };
     } catch (error) {
       console.error(`[GSD] Council: Ideator ${persona} failed:`, error);
       return null;
@@ -471,16 +396,18 @@ ${ideasContext}
 
 Now synthesize the above into a single, executable solution. Start your response with "# [Title]" where Title is a snappy, filename-safe title for your solution.`;
 
-      const response = await this.aiService.callModel(
+      const result = await this.aiService.callModelDetailed(
         systemPrompt,
         userPrompt,
         model,
         {
+          action: "council",
           useSearch: true,
           temperature: cfg.temperature,
           thinkingBudget: cfg.thinkingBudget ?? undefined,
         }
       );
+      const response = result.text;
 
       if (!response) {
         console.error(`[GSD] Council: Executor ${executorName} returned null response`);
@@ -496,7 +423,7 @@ Now synthesize the above into a single, executable solution. Start your response
 
       return {
         executorName,
-        model,
+        model: result.model ?? model, // Record the seat's model that actually answered
         content: response,
         title: cleanTitle,
       };
@@ -598,13 +525,15 @@ Score each executor deliverable on a scale of 1-10 using the following rubric:
 
 Use equal weights (0.2 each) for the rubric. Compute weighted_total for each executor.
 
-Output Markdown with YAML frontmatter. Include a synthesis in the body that integrates the best elements.`;
+Include a Markdown synthesis that integrates the best elements.`;
 
-      const response = await this.aiService.callModel(
+      const response = await this.aiService.callModelJson<CouncilJudgmentJson>(
         systemPrompt,
         userPrompt,
         model,
+        JUDGMENT_SCHEMA,
         {
+          action: "council",
           useSearch: true,
           temperature: cfg.temperature,
           thinkingBudget: cfg.thinkingBudget ?? undefined,
@@ -612,72 +541,57 @@ Output Markdown with YAML frontmatter. Include a synthesis in the body that inte
       );
 
       if (!response) {
-        console.error("[GSD] Council: Judge returned null response");
+        console.error("[GSD] Council: Judge returned no valid judgment");
         return null;
       }
 
-      // Parse Markdown with YAML frontmatter
-      try {
-        const parsed = parseMarkdownWithFrontmatter(response);
-        if (!parsed) {
-          console.error("[GSD] Council: Failed to parse judge frontmatter");
-          console.error("[GSD] Council: Raw response:", response.substring(0, 500));
-          
-          // Save raw response for debugging
-          try {
-            const rawPath = `${runPath}/judge/judge_raw.md`;
-            await this.app.vault.create(rawPath, response);
-          } catch (e) { /* ignore */ }
-          
-          return null;
-        }
+      const judgment: LlmCouncilJudgment = {
+        ...response,
+        run_id: runId,
+        phase: "judge",
+        rubric_weights: Object.keys(response.rubric_weights || {}).length
+          ? response.rubric_weights
+          : DEFAULT_RUBRIC_WEIGHTS,
+      };
 
-        const { frontmatter, body } = parsed;
-        
-        // Build judgment from frontmatter + body
-        const judgment: LlmCouncilJudgment = {
-          run_id: runId,
-          phase: "judge",
-          rubric_weights: (frontmatter.rubric_weights as Record<string, number>) || {
-            clarity: 0.2,
-            actionability: 0.2,
-            completeness: 0.2,
-            creativity: 0.2,
-            grounding: 0.2,
-          },
-          scores: (frontmatter.scores as LlmCouncilJudgment["scores"]) || [],
-          winner: (frontmatter.winner as string) || "",
-          synthesis: body, // Full markdown body is the synthesis
-          next_actions: (frontmatter.next_actions as string[]) || [],
-          sources: (frontmatter.sources as Array<{title?: string; url: string}>) || [],
-        };
-
-        // Save to file as Markdown
-        const judgePath = `${runPath}/judge/judge.md`;
-        await this.app.vault.create(judgePath, response);
-
-        return judgment;
-      } catch (parseError) {
-        console.error("[GSD] Council: Failed to parse judge response:", parseError);
-        console.error("[GSD] Council: Raw response:", response.substring(0, 500));
-        
-        // Save the raw response for debugging
-        try {
-          const rawPath = `${runPath}/judge/judge_raw.md`;
-          await this.app.vault.create(rawPath, response);
-          console.log("[GSD] Council: Saved raw judge response to", rawPath);
-        } catch (e) {
-          // Ignore save errors
-        }
-        
-        return null;
-      }
+      // Save to file as Markdown
+      const judgePath = `${runPath}/judge/judge.md`;
+      await this.app.vault.create(judgePath, this.generateJudgmentMarkdown(judgment));
+
+      return judgment;
     } catch (error) {
       console.error("[GSD] Council: Judge failed:", error);
       return null;
     }
   }
 
+  /**
+   * Render a judgment as Markdown with YAML frontmatter
+   */
+  private generateJudgmentMarkdown(judgment: LlmCouncilJudgment): string {
+    const frontmatter = [
+      "---",
+      `run_id: ${judgment.run_id}`,
+      `winner: "${judgment.winner.replace(/"/g, '\\"')}"`,
+      `rubric_weights:`,
+      ...Object.entries(judgment.rubric_weights).map(([key, weight]) => `  ${key}: ${weight}`),
+      `scores:`,
+      ...judgment.scores.map((score) => [
+        `  - executor: "${score.executor.replace(/"/g, '\\"')}"`,
+        `    weighted_total: ${score.weighted_total}`,
+        `    notes: "${score.notes.replace(/"/g, '\\"')}"`,
+      ].join("\n")),
+      `next_actions:`,
+      ...judgment.next_actions.map((action) => `  - "${action.replace(/"/g, '\\"')}"`),
+      `sources:`,
+      ...judgment.sources.map(s => `  - title: "${(s.title || "").replace(/"/g, '\\"')}"\n    url: ${s.url}`),
+      "---",
+      "",
+    ].join("\n");
+
+    return frontmatter + judgment.synthesis;
+  }
+
   /**
    * Generate the output summary file
    */
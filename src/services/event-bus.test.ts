@@ -0,0 +1,71 @@
+// ============================================================================
+// Event Bus Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { EventBus } from "./event-bus";
+
+const CAPTURE = {
+  content: "Call Ann",
+  type: "task" as const,
+  source: "webhook" as const,
+  destination: "daily_thoughts" as const,
+  notePath: "Daily/2026-10-18.md",
+};
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("EventBus", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("delivers events to named and catch-all subscribers", () => {
+    const bus = new EventBus();
+    const named = vi.fn();
+    const other = vi.fn();
+    const any = vi.fn();
+    bus.on("inbox.captured", named);
+    bus.on("council.finished", other);
+    bus.onAny(any);
+
+    const event = bus.emit("inbox.captured", CAPTURE);
+
+    expect(event).toMatchObject({ event: "inbox.captured", data: CAPTURE });
+    expect(event.id).toMatch(/^evt_/);
+    expect(named).toHaveBeenCalledWith(event);
+    expect(any).toHaveBeenCalledWith(event);
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it("stops delivering after unsubscribe", () => {
+    const bus = new EventBus();
+    const handler = vi.fn();
+    const off = bus.on("inbox.captured", handler);
+    off();
+
+    bus.emit("inbox.captured", CAPTURE);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("keeps failing handlers away from the emitter and other handlers", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const bus = new EventBus();
+    const after = vi.fn();
+    bus.on("inbox.captured", () => {
+      throw new Error("sync boom");
+    });
+    bus.on("inbox.captured", async () => {
+      throw new Error("async boom");
+    });
+    bus.on("inbox.captured", after);
+
+    expect(() => bus.emit("inbox.captured", CAPTURE)).not.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,87 @@
+// ============================================================================
+// Event Bus - Typed in-process events emitted by actions
+// ============================================================================
+
+import type { PluginEvent, PluginEventMap, PluginEventName } from "../types";
+import { handleError } from "../utils/error-handler";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PluginEventHandler<K extends PluginEventName = PluginEventName> = (
+  event: PluginEvent<K>
+) => void | Promise<void>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PLUGIN_EVENT_NAMES: PluginEventName[] = [
+  "research.completed",
+  "briefing.written",
+  "inbox.captured",
+  "council.finished",
+  "transcript.ingested",
+];
+
+// ============================================================================
+// EventBus Class
+// ============================================================================
+
+/**
+ * Event Bus
+ * Actions emit typed events when their work lands in the vault; subscribers
+ * (event webhooks, for one) react without the actions knowing about them.
+ * Handler failures are logged and never reach the emitting action.
+ */
+export class EventBus {
+  private handlers: Map<PluginEventName, Set<PluginEventHandler<any>>> = new Map();
+  private anyHandlers: Set<PluginEventHandler> = new Set();
+
+  /**
+   * Subscribe to one event
+   * @returns Unsubscribe function
+   */
+  on<K extends PluginEventName>(name: K, handler: PluginEventHandler<K>): () => void {
+    const handlers = this.handlers.get(name) ?? new Set();
+    handlers.add(handler);
+    this.handlers.set(name, handlers);
+    return () => handlers.delete(handler);
+  }
+
+  /**
+   * Subscribe to every event
+   * @returns Unsubscribe function
+   */
+  onAny(handler: PluginEventHandler): () => void {
+    this.anyHandlers.add(handler);
+    return () => this.anyHandlers.delete(handler);
+  }
+
+  /**
+   * Notify subscribers (handlers run without being awaited)
+   */
+  emit<K extends PluginEventName>(name: K, data: PluginEventMap[K]): PluginEvent<K> {
+    const event: PluginEvent<K> = {
+      id: `evt_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      event: name,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+
+    const handlers = [...(this.handlers.get(name) ?? []), ...this.anyHandlers];
+    for (const handler of handlers) {
+      try {
+        Promise.resolve(handler(event)).catch((error: unknown) => this.reportFailure(name, error));
+      } catch (error: unknown) {
+        this.reportFailure(name, error);
+      }
+    }
+    return event;
+  }
+
+  private reportFailure(name: PluginEventName, error: unknown): void {
+    handleError(`Event handler for ${name} failed`, error);
+  }
+}
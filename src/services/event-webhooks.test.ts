@@ -0,0 +1,166 @@
+// ============================================================================
+// Event Webhooks Tests
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { requestUrl, type RequestUrlParam } from "obsidian";
+import type { EventWebhookSubscriber, PluginSettings } from "../types";
+import { createMockSettings } from "../__mocks__/services";
+import { mockRequestUrl, type CapturedRequest } from "../__mocks__/requests";
+import { EventBus } from "./event-bus";
+import { DELIVERY_TIMEOUT_MS, EventWebhookDispatcher } from "./event-webhooks";
+import { WebhookJobQueue, type WebhookJobStorage } from "./webhook-jobs";
+import { verifyHmacSignature } from "../utils/webhook-auth";
+
+const CAPTURE = {
+  content: "Call Ann",
+  type: "task" as const,
+  source: "webhook" as const,
+  destination: "daily_thoughts" as const,
+  notePath: "Daily/2026-10-18.md",
+};
+
+function memoryStorage(): WebhookJobStorage {
+  const files = new Map<string, string>();
+  return {
+    exists: async (path: string) => files.has(path),
+    read: async (path: string) => files.get(path) ?? "",
+    write: async (path: string, data: string) => {
+      files.set(path, data);
+    },
+  };
+}
+
+function subscriber(overrides: Partial<EventWebhookSubscriber> = {}): EventWebhookSubscriber {
+  return {
+    id: "sub-1",
+    name: "Zapier",
+    url: "https://hooks.example.com/gsd",
+    secret: "s3cret",
+    events: [],
+    enabled: true,
+    ...overrides,
+  };
+}
+
+function makeSettings(subscribers: EventWebhookSubscriber[], enabled = true): PluginSettings {
+  return createMockSettings({ eventWebhooks: { enabled, subscribers } });
+}
+
+let jobs: WebhookJobQueue;
+let bus: EventBus;
+
+function setup(settings: PluginSettings) {
+  jobs = new WebhookJobQueue(memoryStorage(), "webhook-jobs.json");
+  bus = new EventBus();
+  new EventWebhookDispatcher(settings, bus, jobs);
+}
+
+/** Let the bus handler enqueue, then wait for the queue to drain */
+async function settle(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  await jobs.idle();
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("EventWebhookDispatcher", () => {
+  let requests: CapturedRequest[];
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    requests = mockRequestUrl({ status: 200 });
+  });
+
+  afterEach(() => {
+    jobs.stop();
+    vi.mocked(requestUrl).mockReset();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("POSTs a signed event to each subscriber", async () => {
+    setup(makeSettings([subscriber()]));
+
+    const event = bus.emit("inbox.captured", CAPTURE);
+    await settle();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ url: "https://hooks.example.com/gsd", method: "POST", body: event });
+    const request = vi.mocked(requestUrl).mock.calls[0][0] as RequestUrlParam & { headers: Record<string, string> };
+    expect(request.throw).toBe(false);
+    expect(request.headers).toMatchObject({
+      "X-GSD-Event": "inbox.captured",
+      "X-GSD-Delivery": event.id,
+    });
+    const check = verifyHmacSignature(
+      request.headers["X-GSD-Signature"],
+      request.headers["X-GSD-Timestamp"],
+      request.body as string,
+      "s3cret",
+      300
+    );
+    expect(check).toEqual({ ok: true });
+    expect(jobs.getJobs()[0]).toMatchObject({ kind: "event-delivery", status: "succeeded", label: "inbox.captured → Zapier" });
+  });
+
+  it("only sends the events a subscriber asked for", async () => {
+    setup(
+      makeSettings([
+        subscriber({ id: "councils", events: ["council.finished"] }),
+        subscriber({ id: "off", enabled: false }),
+        subscriber({ id: "all", secret: "" }),
+      ])
+    );
+
+    bus.emit("inbox.captured", CAPTURE);
+    await settle();
+
+    expect(jobs.getJobs().map((job) => (job.payload as { subscriberId: string }).subscriberId)).toEqual(["all"]);
+    expect(requests[0].headers["X-GSD-Signature"]).toBeUndefined();
+  });
+
+  it("sends nothing while event webhooks are disabled", async () => {
+    setup(makeSettings([subscriber()], false));
+
+    bus.emit("inbox.captured", CAPTURE);
+    await settle();
+
+    expect(jobs.getJobs()).toHaveLength(0);
+    expect(requests).toHaveLength(0);
+  });
+
+  it("leaves failed deliveries queued for retry", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockRequestUrl({ status: 500 });
+    setup(makeSettings([subscriber()]));
+
+    bus.emit("inbox.captured", CAPTURE);
+    await settle();
+
+    expect(jobs.getJobs()[0]).toMatchObject({
+      status: "queued",
+      attempts: 1,
+      lastError: "Zapier answered HTTP 500",
+    });
+  });
+
+  it("gives up on a subscriber that never answers so the queue moves on", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(requestUrl).mockReturnValue(new Promise(() => {}) as ReturnType<typeof requestUrl>);
+    setup(makeSettings([subscriber()]));
+
+    bus.emit("inbox.captured", CAPTURE);
+    await vi.advanceTimersByTimeAsync(DELIVERY_TIMEOUT_MS);
+    await jobs.idle();
+
+    expect(jobs.getJobs()[0]).toMatchObject({
+      status: "queued",
+      attempts: 1,
+      lastError: "Zapier didn't answer within 15s",
+    });
+  });
+});
@@ -0,0 +1,140 @@
+// ============================================================================
+// Event Webhooks - Signed outbound HTTP delivery of plugin events
+// ============================================================================
+
+import { requestUrl } from "obsidian";
+import type { EventWebhookSubscriber, PluginEvent, PluginSettings } from "../types";
+import type { EventBus } from "./event-bus";
+import type { WebhookJobQueue } from "./webhook-jobs";
+import { signHmacRequest } from "../utils/webhook-auth";
+
+/** A subscriber that hasn't answered by now is treated as failed (the queue runs one job at a time) */
+export const DELIVERY_TIMEOUT_MS = 15_000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Job payload for one event to one subscriber
+ */
+export interface EventDeliveryPayload {
+  subscriberId: string;
+  event: PluginEvent;
+}
+
+// ============================================================================
+// EventWebhookDispatcher Class
+// ============================================================================
+
+/**
+ * Event Webhook Dispatcher
+ * Queues every event for each subscriber that wants it and POSTs it from the
+ * webhook job queue, so failed deliveries are retried with backoff and survive
+ * restarts. Each attempt is signed like inbound HMAC requests: `X-GSD-Signature:
+ * sha256=<hex>` over `<X-GSD-Timestamp>.<body>` with the subscriber's secret.
+ */
+export class EventWebhookDispatcher {
+  private settings: PluginSettings;
+  private jobs: WebhookJobQueue;
+
+  constructor(settings: PluginSettings, events: EventBus, jobs: WebhookJobQueue) {
+    this.settings = settings;
+    this.jobs = jobs;
+    jobs.registerHandler("event-delivery", (payload) => this.deliver(payload as EventDeliveryPayload));
+    events.onAny((event) => this.dispatch(event));
+  }
+
+  /**
+   * Update settings reference (called when settings change)
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Queue an event for each enabled subscriber listening for it
+   */
+  async dispatch(event: PluginEvent): Promise<void> {
+    const config = this.settings.eventWebhooks;
+    if (!config?.enabled) return;
+
+    for (const subscriber of config.subscribers) {
+      if (!this.wants(subscriber, event)) continue;
+      await this.jobs.enqueue(
+        "event-delivery",
+        { subscriberId: subscriber.id, event } satisfies EventDeliveryPayload,
+        { label: `${event.event} → ${subscriber.name || subscriber.url}` }
+      );
+    }
+  }
+
+  /**
+   * POST one event to a subscriber; throws on network errors and non-2xx
+   * responses so the queue retries
+   */
+  async deliver(payload: EventDeliveryPayload): Promise<Record<string, unknown>> {
+    const subscriber = this.settings.eventWebhooks.subscribers.find((s) => s.id === payload.subscriberId);
+    if (!subscriber || !subscriber.enabled || !subscriber.url) {
+      // Removed or turned off since the event was queued
+      return { skipped: true };
+    }
+
+    const body = JSON.stringify(payload.event);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "GetShitDone-Obsidian",
+      "X-GSD-Event": payload.event.event,
+      "X-GSD-Delivery": payload.event.id,
+      "X-GSD-Timestamp": timestamp,
+    };
+    if (subscriber.secret) {
+      headers["X-GSD-Signature"] = signHmacRequest(subscriber.secret, timestamp, body);
+    }
+
+    const name = subscriber.name || subscriber.url;
+    const response = await withDeliveryTimeout(
+      requestUrl({ url: subscriber.url, method: "POST", headers, body, throw: false }),
+      name
+    );
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`${name} answered HTTP ${response.status}`);
+    }
+    console.log(`[GSD] Delivered ${payload.event.event} to ${name}`);
+    return { status: response.status };
+  }
+
+  private wants(subscriber: EventWebhookSubscriber, event: PluginEvent): boolean {
+    if (!subscriber.enabled || !subscriber.url) return false;
+    return subscriber.events.length === 0 || subscriber.events.includes(event.event);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Reject when the subscriber doesn't answer in time so the job fails into
+ * retry/backoff instead of holding up the queue (the request itself isn't
+ * aborted; its late response is ignored)
+ */
+function withDeliveryTimeout<T>(request: Promise<T>, name: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`${name} didn't answer within ${DELIVERY_TIMEOUT_MS / 1000}s`)),
+      DELIVERY_TIMEOUT_MS
+    );
+    request.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
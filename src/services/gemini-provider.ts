@@ -2,10 +2,31 @@
 // Gemini Provider - Google Gemini AI model implementation
 // ============================================================================
 
-import { requestUrl, RequestUrlResponse } from "obsidian";
-import type { PluginSettings, GeminiResponse } from "../types";
-import type { AIProvider, AICallOptions } from "./ai-provider";
-import { handleErrorWithDefault } from "../utils/error-handler";
+import { requestUrl } from "obsidian";
+import type { PluginSettings, GeminiResponse, GeminiEmbedResponse } from "../types";
+import {
+  buildChatTurns,
+  withAttachmentContent,
+  parseToolArguments,
+  mergeCitations,
+  providerHttpError,
+  providerRetryOptions,
+  readResponseJson,
+  reportCitations,
+  reportProviderError,
+} from "./ai-provider";
+import type {
+  AIProvider,
+  AIAttachment,
+  AICallOptions,
+  AICitation,
+  AIStreamHandler,
+  AIToolResponse,
+  AIToolRound,
+  AIUsage,
+} from "./ai-provider";
+import { readSseStream, parseSseJson } from "./sse-stream";
+import { ClassifiedError, classifyError, withRetry } from "../utils/error-handler";
 
 // ============================================================================
 // GeminiProvider Class
@@ -38,63 +59,356 @@ export class GeminiProvider implements AIProvider {
     model: string = "gemini-flash-latest",
     options: AICallOptions = {}
   ): Promise<string | null> {
+    return this.requestContent(system, user, model, options, (data) => this.extractText(data) ?? this.throwIfBlocked(data));
+  }
+
+  /**
+   * Call Gemini with function declarations (one round of a tool loop)
+   */
+  async callModelWithTools(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions = {}
+  ): Promise<AIToolResponse | null> {
+    return this.requestContent(system, user, model, options, (data) => {
+      const content = data?.candidates?.[0]?.content;
+      const calls = (content?.parts ?? [])
+        .filter((part) => part.functionCall?.name)
+        .map((part, index) => ({
+          id: part.functionCall?.id || `${part.functionCall?.name}_${index}`,
+          name: part.functionCall?.name as string,
+          arguments: parseToolArguments(part.functionCall?.args),
+        }));
+      const text = this.extractText(data) || null;
+      if (!text && calls.length === 0) {
+        return this.throwIfBlocked(data);
+      }
+      return { text, calls, assistant: { ...content, role: "model" } };
+    });
+  }
+
+  /**
+   * Stream Gemini output via the SSE variant of generateContent
+   */
+  async streamModel(
+    system: string,
+    user: string,
+    model: string = "gemini-flash-latest",
+    onChunk: AIStreamHandler,
+    options: AICallOptions = {}
+  ): Promise<string | null> {
+    if (!this.settings.geminiApiKey) {
+      console.warn("[GSD] No Gemini API key configured");
+      return null;
+    }
+
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${this.settings.geminiApiKey}`;
+
+    let emitted = false;
+    try {
+      return await withRetry(async () => {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(this.buildRequestBody(system, user, options)),
+          signal: options.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          throw providerHttpError(`Gemini stream failed with status ${response.status}`, response.status, response.headers);
+        }
+
+        let fullText = "";
+        let usage: AIUsage | null = null;
+        let citations: AICitation[] = [];
+        let last: GeminiResponse | null = null;
+        await readSseStream(response.body, ({ data }) => {
+          const event = parseSseJson<GeminiResponse>(data);
+          last = event ?? last;
+          // Every chunk carries running usage; the last one has the totals
+          usage = this.extractUsage(event) ?? usage;
+          citations = mergeCitations(citations, this.extractCitations(event));
+          const chunk = this.extractText(event);
+          if (chunk) {
+            fullText += chunk;
+            emitted = true;
+            onChunk(chunk);
+          }
+        });
+
+        if (usage) options.onUsage?.(usage);
+        reportCitations(options, citations);
+        return fullText || this.throwIfBlocked(last);
+      }, providerRetryOptions("Gemini", model, options, () => !emitted));
+    } catch (error: unknown) {
+      return reportProviderError("Gemini API Error", error, options, { model, streaming: true });
+    }
+  }
+
+  /**
+   * Embed texts via batchEmbedContents (embedTask maps to the retrieval task types)
+   */
+  async embed(texts: string[], model: string, options: AICallOptions = {}): Promise<number[][] | null> {
+    if (!this.settings.geminiApiKey) {
+      console.warn("[GSD] No Gemini API key configured");
+      return null;
+    }
+
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${this.settings.geminiApiKey}`;
+    const taskType =
+      options.embedTask === "query" ? "RETRIEVAL_QUERY" : options.embedTask === "document" ? "RETRIEVAL_DOCUMENT" : null;
+    const requests = texts.map((text) => ({
+      model: `models/${model}`,
+      content: { parts: [{ text }] },
+      ...(taskType ? { taskType } : {}),
+    }));
+
+    try {
+      return await withRetry(async () => {
+        const response = await requestUrl({
+          url,
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ requests }),
+          throw: false,
+        });
+
+        const data = readResponseJson<GeminiEmbedResponse>(response);
+        if (response.status !== 200 || data?.error) {
+          throw providerHttpError(data?.error?.message, response.status, response.headers);
+        }
+
+        const vectors = (data?.embeddings ?? [])
+          .map((embedding) => embedding.values)
+          .filter((values): values is number[] => Array.isArray(values));
+        if (vectors.length !== texts.length) {
+          throw classifyError(new Error(`Gemini returned ${vectors.length} embeddings for ${texts.length} inputs`));
+        }
+        return vectors;
+      }, providerRetryOptions("Gemini", model, options));
+    } catch (error: unknown) {
+      return reportProviderError("Gemini Embedding Error", error, options, { model });
+    }
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * One buffered generateContent request; `read` runs inside the retry loop so
+   * a blocked response can throw
+   * @returns What `read` returned, or null when the call failed
+   */
+  private async requestContent<T>(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions,
+    read: (data: GeminiResponse | null) => T | null
+  ): Promise<T | null> {
     if (!this.settings.geminiApiKey) {
       console.warn("[GSD] No Gemini API key configured");
       return null;
     }
 
     const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${this.settings.geminiApiKey}`;
-    const tools = options.useSearch ? [{ googleSearch: {} }] : [];
 
     try {
-      // Default generation config
-      const generationConfig: Record<string, any> = {
-        temperature: options.temperature ?? 0.2,
-        ...(options.maxOutputTokens ? { maxOutputTokens: options.maxOutputTokens } : {}),
-      };
+      return await withRetry(async () => {
+        const response = await requestUrl({
+          url: url,
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(this.buildRequestBody(system, user, options)),
+          throw: false,
+        });
 
-      // Map reasoning effort level to thinkingBudget tokens
-      // (Only supported by some Gemini models; unsupported configs will error at runtime.)
-      if (options.thinkingBudget != null) {
-        const tokenMap: Record<"low" | "medium" | "high", number> = {
-          low: 512,
-          medium: 2048,
-          high: 4096,
-        };
-        const tokenBudget = tokenMap[options.thinkingBudget];
-        if (tokenBudget) {
-          generationConfig.thinkingConfig = { thinkingBudget: tokenBudget };
+        const data = readResponseJson<GeminiResponse>(response);
+        if (response.status !== 200 || data?.error) {
+          throw providerHttpError(data?.error?.message, response.status, response.headers);
         }
-      }
 
-      const response: RequestUrlResponse = await requestUrl({
-        url: url,
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: system + "\n\nUser Input:\n" + user }] }],
-          tools: tools,
-          generationConfig,
-        }),
+        const usage = this.extractUsage(data);
+        if (usage) options.onUsage?.(usage);
+        reportCitations(options, this.extractCitations(data));
+        return read(data);
+      }, providerRetryOptions("Gemini", model, options));
+    } catch (error: unknown) {
+      return reportProviderError("Gemini API Error", error, options, { model });
+    }
+  }
+
+  /**
+   * Build the generateContent request body (shared by buffered and streaming calls)
+   */
+  private buildRequestBody(system: string, user: string, options: AICallOptions): Record<string, any> {
+    const tools: Array<Record<string, unknown>> = options.useSearch ? [{ googleSearch: {} }] : [];
+
+    // Function declarations can't be combined with the search tool, so searched
+    // calls (e.g. research) answer from the prompt alone
+    const functions = options.useSearch ? [] : options.tools ?? [];
+    if (functions.length) {
+      tools.push({
+        functionDeclarations: functions.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parametersJsonSchema: tool.parameters,
+        })),
       });
+    }
+
+    // Default generation config
+    const generationConfig: Record<string, any> = {
+      temperature: options.temperature ?? 0.2,
+      ...(options.maxOutputTokens ? { maxOutputTokens: options.maxOutputTokens } : {}),
+    };
 
-      const data = response.json as GeminiResponse;
-      if (
-        data.candidates &&
-        data.candidates.length > 0 &&
-        data.candidates[0].content &&
-        data.candidates[0].content.parts
-      ) {
-        return data.candidates[0].content.parts.map((p) => p.text).join("");
+    // Map reasoning effort level to thinkingBudget tokens
+    // (Only supported by some Gemini models; unsupported configs will error at runtime.)
+    if (options.thinkingBudget != null) {
+      const tokenMap: Record<"low" | "medium" | "high", number> = {
+        low: 512,
+        medium: 2048,
+        high: 4096,
+      };
+      const tokenBudget = tokenMap[options.thinkingBudget];
+      if (tokenBudget) {
+        generationConfig.thinkingConfig = { thinkingBudget: tokenBudget };
       }
-      return null;
-    } catch (error: unknown) {
-      return handleErrorWithDefault(
-        "Gemini API Error",
-        error,
-        null,
-        { additionalContext: { model } }
+    }
+
+    // Structured output (Gemini rejects a response schema combined with the search tool
+    // or function calling, so those calls rely on the prompt instructions instead)
+    if (options.jsonSchema && !options.useSearch && !functions.length) {
+      generationConfig.responseMimeType = "application/json";
+      generationConfig.responseJsonSchema = options.jsonSchema.schema;
+    }
+
+    const toolConfig = functions.length
+      ? { toolConfig: { functionCallingConfig: { mode: options.toolChoice === "none" ? "NONE" : "AUTO" } } }
+      : {};
+
+    // Multi-turn: role-tagged contents ("model" is Gemini's assistant role) with a separate system instruction
+    if (options.history?.length || options.toolRounds?.length) {
+      const turns = withAttachmentContent(buildChatTurns(options.history, user), options.attachments, (text, attachments) =>
+        this.buildParts(text, attachments)
       );
+      return {
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents: [
+          ...turns.map((turn) => ({
+            role: turn.role === "assistant" ? "model" : "user",
+            parts: typeof turn.content === "string" ? [{ text: turn.content }] : turn.content,
+          })),
+          ...buildToolContents(options.toolRounds),
+        ],
+        tools: tools,
+        ...toolConfig,
+        generationConfig,
+      };
     }
+
+    return {
+      contents: [{ parts: this.buildParts(system + "\n\nUser Input:\n" + user, options.attachments ?? []) }],
+      tools: tools,
+      ...toolConfig,
+      generationConfig,
+    };
+  }
+
+  /**
+   * Text part followed by inline image/PDF data (Gemini reads both natively)
+   */
+  private buildParts(text: string, attachments: AIAttachment[]): Array<Record<string, unknown>> {
+    return [
+      ...(text ? [{ text }] : []),
+      ...attachments.map((attachment) => ({
+        inlineData: { mimeType: attachment.mimeType, data: attachment.data },
+      })),
+    ];
+  }
+
+  /**
+   * Read token counts from usageMetadata (candidatesTokenCount excludes thoughts)
+   */
+  private extractUsage(data: GeminiResponse | null): AIUsage | null {
+    const meta = data?.usageMetadata;
+    if (!meta) return null;
+    return {
+      inputTokens: meta.promptTokenCount ?? 0,
+      outputTokens: meta.candidatesTokenCount ?? 0,
+      thinkingTokens: meta.thoughtsTokenCount ?? 0,
+    };
+  }
+
+  /**
+   * Web sources from groundingMetadata; each takes the first answer segment it supports as snippet
+   */
+  private extractCitations(data: GeminiResponse | null): AICitation[] {
+    const grounding = data?.candidates?.[0]?.groundingMetadata;
+    const chunks = grounding?.groundingChunks ?? [];
+    const snippets = new Map<number, string>();
+    for (const support of grounding?.groundingSupports ?? []) {
+      for (const index of support.groundingChunkIndices ?? []) {
+        if (!snippets.has(index) && support.segment?.text) snippets.set(index, support.segment.text);
+      }
+    }
+    return chunks.flatMap((chunk, index) =>
+      chunk.web?.uri ? [{ url: chunk.web.uri, title: chunk.web.title, snippet: snippets.get(index) }] : []
+    );
+  }
+
+  /**
+   * An empty response caused by safety filtering is an error, not just "no text"
+   */
+  private throwIfBlocked(data: GeminiResponse | null): null {
+    const reason = data?.promptFeedback?.blockReason ?? data?.candidates?.[0]?.finishReason;
+    if (reason && /SAFETY|BLOCKLIST|PROHIBITED_CONTENT|SPII|RECITATION/.test(reason)) {
+      throw new ClassifiedError(`Gemini blocked the response (${reason})`, "content-filter");
+    }
+    return null;
+  }
+
+  /**
+   * Join the text parts of the first candidate
+   */
+  private extractText(data: GeminiResponse | null): string | null {
+    if (
+      data &&
+      data.candidates &&
+      data.candidates.length > 0 &&
+      data.candidates[0].content &&
+      data.candidates[0].content.parts
+    ) {
+      return data.candidates[0].content.parts.map((p) => p.text ?? "").join("");
+    }
+    return null;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The model turns that called functions (with their thought signatures), each
+ * followed by a user turn of functionResponse parts
+ */
+function buildToolContents(rounds: AIToolRound[] | undefined): Array<Record<string, unknown>> {
+  const contents: Array<Record<string, unknown>> = [];
+  for (const round of rounds ?? []) {
+    contents.push(round.assistant as Record<string, unknown>);
+    contents.push({
+      role: "user",
+      parts: round.results.map((result) => ({
+        functionResponse: {
+          name: result.name,
+          response: result.isError ? { error: result.content } : { content: result.content },
+        },
+      })),
+    });
   }
+  return contents;
 }
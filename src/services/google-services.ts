@@ -5,6 +5,7 @@
 import { requestUrl, RequestUrlResponse } from "obsidian";
 import type { PluginSettings, GmailMessage, AppsScriptResponse } from "../types";
 import type { AIService } from "./ai-service";
+import type { AICallOptions } from "./ai-provider";
 import { handleErrorWithDefault } from "../utils/error-handler";
 
 // ============================================================================
@@ -44,13 +45,11 @@ export class GoogleServices {
     user: string,
     model: string = "gemini-flash-latest",
     useSearch: boolean = true,
-    generationConfigOverride?: Record<string, any>
+    generationConfigOverride?: Record<string, any>,
+    action?: string
   ): Promise<string | null> {
-    const options: {
-      useSearch?: boolean;
-      temperature?: number;
-      thinkingBudget?: "low" | "medium" | "high" | null;
-    } = {
+    const options: AICallOptions = {
+      action,
       useSearch,
     };
 
@@ -579,7 +578,8 @@ Respond with ONLY the phone number (e.g., +49 173 3919319) or "NONE" if uncertai
           temperature: cfg.temperature,
           ...(cfg.thinkingBudget == null ? {} : { thinkingBudget: cfg.thinkingBudget }),
         };
-      })()
+      })(),
+      "phoneValidation"
     );
 
     let phoneNumber: string | null = null;
@@ -0,0 +1,133 @@
+// ============================================================================
+// Local Provider Tests
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockSettings } from "../__mocks__/services";
+import { mockFetchEvents, mockRequestUrl, type CapturedRequest } from "../__mocks__/requests";
+import { LocalProvider, stripLocalPrefix } from "./local-provider";
+
+// ============================================================================
+// Stand-in OpenAI-compatible server
+// ============================================================================
+
+/** Answers like an OpenAI-compatible server; every request lands in the returned list */
+function standInServer(): CapturedRequest[] {
+  const captured = mockRequestUrl((request) => {
+    if (request.url.endsWith("/models")) {
+      return { json: { data: [{ id: "qwen2.5:14b" }, { id: "llama3.1:8b" }] } };
+    }
+    const last = request.body.messages.slice(-1)[0];
+    return {
+      json: {
+        choices: [{ message: { content: `echo: ${last.content}` } }],
+        usage: { prompt_tokens: 12, completion_tokens: 7, completion_tokens_details: { reasoning_tokens: 3 } },
+      },
+    };
+  });
+  return mockFetchEvents(
+    [{ choices: [{ delta: { content: "Hel" } }] }, { choices: [{ delta: { content: "lo" } }] }, "[DONE]"],
+    captured
+  );
+}
+
+const BASE_URL = "http://127.0.0.1:8080/v1/";
+const SETTINGS = createMockSettings({ localProvider: { baseUrl: BASE_URL } });
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("LocalProvider", () => {
+  let captured: CapturedRequest[];
+
+  beforeEach(() => {
+    captured = standInServer();
+  });
+
+  it("posts chat completions with the prefix stripped", async () => {
+    const provider = new LocalProvider(SETTINGS);
+    const result = await provider.callModel("Be brief.", "Hi", "local:qwen2.5:14b", { temperature: 0.3 });
+
+    expect(result).toBe("echo: Hi");
+    expect(captured[0].url).toBe("http://127.0.0.1:8080/v1/chat/completions");
+    expect(captured[0].body).toMatchObject({
+      model: "qwen2.5:14b",
+      temperature: 0.3,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+    });
+    expect(captured[0].headers.Authorization).toBeUndefined();
+  });
+
+  it("reports usage with reasoning split from output", async () => {
+    const provider = new LocalProvider(SETTINGS);
+    const onUsage = vi.fn();
+    await provider.callModel("", "Hi", "local:llama3.1:8b", { onUsage });
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 12, outputTokens: 4, thinkingTokens: 3 });
+  });
+
+  it("sends the bearer token when configured", async () => {
+    const provider = new LocalProvider(createMockSettings({ localProvider: { baseUrl: BASE_URL, apiKey: "secret" } }));
+    await provider.callModel("", "Hi", "local:llama3.1:8b");
+    expect(captured[0].headers.Authorization).toBe("Bearer secret");
+  });
+
+  it("streams deltas", async () => {
+    const provider = new LocalProvider(SETTINGS);
+    const chunks: string[] = [];
+    const result = await provider.streamModel("", "Hi", "local:llama3.1:8b", (c) => chunks.push(c));
+
+    expect(result).toBe("Hello");
+    expect(chunks).toEqual(["Hel", "lo"]);
+    expect(captured[0].body.stream).toBe(true);
+  });
+
+  it("lists models sorted by id", async () => {
+    const provider = new LocalProvider(SETTINGS);
+    expect(await provider.listModels()).toEqual(["llama3.1:8b", "qwen2.5:14b"]);
+    expect(captured[0].url).toBe("http://127.0.0.1:8080/v1/models");
+  });
+
+  it("retries a model that is still loading", async () => {
+    vi.useFakeTimers();
+    const requests = mockRequestUrl((request) =>
+      requests.length === 1
+        ? { status: 503, headers: { "retry-after": "1" }, json: { error: { message: "Model is loading" } } }
+        : { json: { choices: [{ message: { content: `echo: ${request.body.messages.slice(-1)[0].content}` } }] } }
+    );
+
+    const provider = new LocalProvider(SETTINGS);
+    const pending = provider.callModel("", "Hi", "local:llama3.1:8b");
+    await vi.runAllTimersAsync();
+    vi.useRealTimers();
+
+    expect(await pending).toBe("echo: Hi");
+  });
+
+  it("reports classified failures without retrying them", async () => {
+    const requests = mockRequestUrl({ status: 401, json: { error: { message: "Invalid API key" } } });
+
+    const onError = vi.fn();
+    const provider = new LocalProvider(SETTINGS);
+    expect(await provider.callModel("", "Hi", "local:llama3.1:8b", { onError })).toBeNull();
+    expect(requests).toHaveLength(1);
+    expect(onError.mock.calls[0][0]).toMatchObject({ category: "auth", status: 401 });
+  });
+
+  it("returns null without a base URL", async () => {
+    const provider = new LocalProvider(createMockSettings({ localProvider: { baseUrl: "" } }));
+    expect(await provider.callModel("", "Hi", "local:x")).toBeNull();
+    expect(captured).toHaveLength(0);
+  });
+});
+
+describe("stripLocalPrefix", () => {
+  it("removes the routing prefix case-insensitively", () => {
+    expect(stripLocalPrefix("local:llama3")).toBe("llama3");
+    expect(stripLocalPrefix("LOCAL:org/model")).toBe("org/model");
+    expect(stripLocalPrefix("llama3")).toBe("llama3");
+  });
+});
@@ -0,0 +1,398 @@
+// ============================================================================
+// Local Provider - Self-hosted OpenAI-compatible model implementation
+// ============================================================================
+
+import { requestUrl } from "obsidian";
+import type { PluginSettings } from "../types";
+import {
+  buildChatCompletionParts,
+  buildChatCompletionToolMessages,
+  buildChatCompletionTools,
+  buildChatTurns,
+  parseChatCompletionToolCalls,
+  withAttachmentContent,
+  parseChatCompletionUsage,
+  providerHttpError,
+  providerRetryOptions,
+  readResponseJson,
+  reportProviderError,
+  requestEmbeddings,
+} from "./ai-provider";
+import type {
+  AIProvider,
+  AICallOptions,
+  AIStreamHandler,
+  AIToolResponse,
+  AIUsage,
+  ChatCompletionUsage,
+} from "./ai-provider";
+import { readSseStream, parseSseJson } from "./sse-stream";
+import { classifyError, withRetry } from "../utils/error-handler";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ChatCompletionMessage {
+  content?: string | null;
+  tool_calls?: Array<{
+    id?: string;
+    type?: string;
+    function?: { name?: string; arguments?: string };
+  }>;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: ChatCompletionMessage;
+  }>;
+  usage?: ChatCompletionUsage;
+  error?: {
+    message: string;
+  };
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+  usage?: ChatCompletionUsage | null;
+  error?: {
+    message: string;
+  };
+}
+
+interface ModelListResponse {
+  data?: Array<{ id: string }>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const LOCAL_MODEL_PREFIX = "local:";
+
+/**
+ * Local Provider
+ * Implements AIProvider for self-hosted servers speaking the OpenAI
+ * chat-completions protocol (Ollama, LM Studio, vLLM, llama.cpp server).
+ * Models are addressed as "local:<model-id>".
+ */
+export class LocalProvider implements AIProvider {
+  private settings: PluginSettings;
+
+  constructor(settings: PluginSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Update settings reference (called when settings change)
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Call the local server's chat completions endpoint
+   */
+  async callModel(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions = {}
+  ): Promise<string | null> {
+    const message = await this.requestCompletion(system, user, model, options);
+    if (message === null) return null;
+
+    const content = message?.content;
+    if (typeof content === "string" && content.length > 0) {
+      return content;
+    }
+
+    console.warn("[GSD] Local provider response had no message content");
+    return null;
+  }
+
+  /**
+   * Call the local server with function tools (one round of a tool loop)
+   */
+  async callModelWithTools(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions = {}
+  ): Promise<AIToolResponse | null> {
+    const message = await this.requestCompletion(system, user, model, options);
+    if (message === null) return null;
+
+    const text = typeof message?.content === "string" && message.content.length > 0 ? message.content : null;
+    const calls = parseChatCompletionToolCalls(message);
+    if (!text && calls.length === 0) {
+      console.warn("[GSD] Local provider response had no message content");
+      return null;
+    }
+    return {
+      text,
+      calls,
+      assistant: { role: "assistant", content: message?.content ?? null, tool_calls: message?.tool_calls },
+    };
+  }
+
+  /**
+   * Stream output from the local server via chat completions server-sent events
+   */
+  async streamModel(
+    system: string,
+    user: string,
+    model: string,
+    onChunk: AIStreamHandler,
+    options: AICallOptions = {}
+  ): Promise<string | null> {
+    const baseUrl = this.getBaseUrl();
+    if (!baseUrl) {
+      console.warn("[GSD] No local provider base URL configured");
+      return null;
+    }
+
+    const modelId = stripLocalPrefix(model);
+    const body = {
+      ...this.buildRequestBody(system, user, modelId, options),
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    let emitted = false;
+    try {
+      return await withRetry(async () => {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+          method: "POST",
+          headers: this.buildHeaders(),
+          body: JSON.stringify(body),
+          signal: options.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          throw providerHttpError(
+            `Local provider stream failed with status ${response.status}`,
+            response.status,
+            response.headers
+          );
+        }
+
+        let fullText = "";
+        let streamError: string | null = null;
+        let usage: AIUsage | null = null;
+        await readSseStream(response.body, ({ data }) => {
+          const chunk = parseSseJson<ChatCompletionChunk>(data);
+          if (!chunk) return;
+          if (chunk.error) {
+            streamError = chunk.error.message;
+            return;
+          }
+          // Sent on the final chunk when stream_options.include_usage is honored
+          usage = parseChatCompletionUsage(chunk.usage) ?? usage;
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (typeof delta === "string" && delta.length > 0) {
+            fullText += delta;
+            emitted = true;
+            onChunk(delta);
+          }
+        });
+
+        if (usage) options.onUsage?.(usage);
+        if (streamError && !fullText) {
+          throw classifyError(new Error(streamError));
+        }
+        return fullText || null;
+      }, providerRetryOptions("Local provider", modelId, options, () => !emitted));
+    } catch (error: unknown) {
+      return reportProviderError("Local Provider Stream Error", error, options, { model: modelId });
+    }
+  }
+
+  /**
+   * Embed texts via the local server's /embeddings endpoint
+   * (e.g. Ollama's nomic-embed-text, addressed as "local:nomic-embed-text")
+   */
+  async embed(texts: string[], model: string, options: AICallOptions = {}): Promise<number[][] | null> {
+    const baseUrl = this.getBaseUrl();
+    if (!baseUrl) {
+      console.warn("[GSD] No local provider base URL configured");
+      return null;
+    }
+
+    return requestEmbeddings(
+      "Local Provider",
+      `${baseUrl}/embeddings`,
+      this.buildHeaders(),
+      texts,
+      stripLocalPrefix(model),
+      options
+    );
+  }
+
+  /**
+   * List model IDs served by the local endpoint (GET /models)
+   * @returns Model IDs without the "local:" prefix
+   * @throws Error if the server is unreachable or returns an unexpected payload
+   */
+  async listModels(): Promise<string[]> {
+    const baseUrl = this.getBaseUrl();
+    if (!baseUrl) {
+      throw new Error("No local provider base URL configured");
+    }
+
+    const response = await requestUrl({
+      url: `${baseUrl}/models`,
+      method: "GET",
+      headers: this.buildHeaders(),
+      throw: false,
+    });
+
+    if (response.status !== 200) {
+      throw new Error(`Listing local models failed: HTTP ${response.status}`);
+    }
+
+    const data = response.json as ModelListResponse | null;
+    if (!data || !Array.isArray(data.data)) {
+      throw new Error("Local server returned an unexpected /models payload");
+    }
+
+    return data.data
+      .map((model) => model.id)
+      .filter((id): id is string => typeof id === "string" && id.length > 0)
+      .sort((a, b) => a.localeCompare(b));
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * One buffered chat completions request
+   * @returns The first choice's message (undefined if missing), or null when the call failed
+   */
+  private async requestCompletion(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions
+  ): Promise<ChatCompletionMessage | undefined | null> {
+    const baseUrl = this.getBaseUrl();
+    if (!baseUrl) {
+      console.warn("[GSD] No local provider base URL configured");
+      return null;
+    }
+
+    const modelId = stripLocalPrefix(model);
+    const url = `${baseUrl}/chat/completions`;
+
+    try {
+      return await withRetry(async () => {
+        const response = await requestUrl({
+          url,
+          method: "POST",
+          headers: this.buildHeaders(),
+          body: JSON.stringify(this.buildRequestBody(system, user, modelId, options)),
+          throw: false,
+        });
+
+        const data = readResponseJson<ChatCompletionResponse>(response);
+        if (response.status !== 200 || data?.error) {
+          throw providerHttpError(data?.error?.message, response.status, response.headers);
+        }
+
+        const usage = parseChatCompletionUsage(data?.usage);
+        if (usage) options.onUsage?.(usage);
+
+        return data?.choices?.[0]?.message;
+      }, providerRetryOptions("Local provider", modelId, options));
+    } catch (error: unknown) {
+      return reportProviderError("Local Provider Error", error, options, { model: modelId, url });
+    }
+  }
+
+  private getBaseUrl(): string {
+    return (this.settings.localProvider?.baseUrl || "").trim().replace(/\/+$/, "");
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    const apiKey = this.settings.localProvider?.apiKey;
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Build the chat completions request body (shared by buffered and streaming calls)
+   */
+  private buildRequestBody(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions
+  ): Record<string, any> {
+    const messages: Array<{ role: string; content: unknown }> = [];
+    if (system) {
+      messages.push({ role: "system", content: system });
+    }
+
+    // OpenAI-compatible servers take images (vision models) but have no PDF input
+    const images = options.attachments?.filter((attachment) => attachment.kind === "image");
+    if (images && images.length < (options.attachments?.length ?? 0)) {
+      console.warn(`[GSD] Local model ${model} does not support PDF input; sending the prompt without PDFs`);
+    }
+    messages.push(...withAttachmentContent(buildChatTurns(options.history, user), images, buildChatCompletionParts));
+    messages.push(...buildChatCompletionToolMessages(options.toolRounds));
+
+    const body: Record<string, any> = {
+      model,
+      messages,
+    };
+
+    if (options.temperature != null) {
+      body.temperature = Math.max(0.0, Math.min(2.0, options.temperature));
+    }
+
+    if (options.maxOutputTokens != null) {
+      body.max_tokens = options.maxOutputTokens;
+    }
+
+    // Local models have no web access; the call proceeds without search
+    if (options.useSearch) {
+      console.warn(`[GSD] Local model ${model} does not support web search; continuing without it`);
+    }
+
+    if (options.jsonSchema) {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: { name: options.jsonSchema.name, schema: options.jsonSchema.schema, strict: false },
+      };
+    }
+
+    if (options.tools?.length) {
+      body.tools = buildChatCompletionTools(options.tools);
+      body.tool_choice = options.toolChoice ?? "auto";
+    }
+
+    return body;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Strip the "local:" routing prefix to get the server's model ID
+ */
+export function stripLocalPrefix(model: string): string {
+  const trimmed = model.trim();
+  return trimmed.toLowerCase().startsWith(LOCAL_MODEL_PREFIX)
+    ? trimmed.slice(LOCAL_MODEL_PREFIX.length)
+    : trimmed;
+}
@@ -2,15 +2,59 @@
 // OpenAI Provider - OpenAI/GPT model implementation
 // ============================================================================
 
-import { requestUrl, RequestUrlResponse } from "obsidian";
+import { requestUrl } from "obsidian";
 import type { PluginSettings } from "../types";
-import type { AIProvider, AICallOptions } from "./ai-provider";
-import { handleError, handleErrorWithDefault, getErrorMessage } from "../utils/error-handler";
+import {
+  attachmentDataUrl,
+  buildChatTurns,
+  withAttachmentContent,
+  providerHttpError,
+  providerRetryOptions,
+  readResponseJson,
+  parseToolArguments,
+  reportCitations,
+  reportProviderError,
+  requestEmbeddings,
+} from "./ai-provider";
+import type {
+  AIProvider,
+  AIAttachment,
+  AICallOptions,
+  AICitation,
+  AIStreamHandler,
+  AIToolResponse,
+  AIToolRound,
+  AIUsage,
+} from "./ai-provider";
+import { readSseStream, parseSseJson } from "./sse-stream";
+import { classifyError, withRetry } from "../utils/error-handler";
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/**
+ * Responses API token usage (output_tokens includes reasoning tokens)
+ */
+interface ResponsesUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  output_tokens_details?: {
+    reasoning_tokens?: number;
+  };
+}
+
+/**
+ * Annotation on an output_text part (url_citation marks the span a web source supports)
+ */
+interface ResponsesAnnotation {
+  type?: string;
+  url?: string;
+  title?: string;
+  start_index?: number;
+  end_index?: number;
+}
+
 /**
  * OpenAI Responses API Response Types
  */
@@ -27,17 +71,35 @@ interface ResponsesAPIResponse {
     content?: Array<{
       type?: string;
       text?: string;
-      annotations?: any[];
+      annotations?: ResponsesAnnotation[];
       logprobs?: any[];
     }>;
     role?: string;
     action?: any;
+    call_id?: string;
+    name?: string;
+    arguments?: string;
   }>;
+  usage?: ResponsesUsage;
   error?: {
     message: string;
   };
 }
 
+/**
+ * Responses API streaming event (only the fields we consume)
+ */
+interface ResponsesStreamEvent {
+  type?: string;
+  delta?: string;
+  message?: string;
+  response?: {
+    error?: { message?: string };
+    usage?: ResponsesUsage;
+    output?: ResponsesAPIResponse["output"];
+  };
+}
+
 /**
  * OpenAI Provider
  * Implements AIProvider interface for OpenAI models
@@ -64,6 +126,56 @@ export class OpenAIProvider implements AIProvider {
     user: string,
     model: string = "gpt-5",
     options: AICallOptions = {}
+  ): Promise<string | null> {
+    const data = await this.requestResponse(system, user, model, options);
+    if (!data) return null;
+
+    const text = extractText(data);
+    if (text) {
+      return text;
+    }
+
+    console.warn("[GSD] OpenAI Response has no recognized output field");
+    return null;
+  }
+
+  /**
+   * Call OpenAI with function tools (one round of a tool loop)
+   */
+  async callModelWithTools(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions = {}
+  ): Promise<AIToolResponse | null> {
+    const data = await this.requestResponse(system, user, model, options);
+    if (!data) return null;
+
+    const output = Array.isArray(data.output) ? data.output : [];
+    const calls = output
+      .filter((item) => item.type === "function_call" && item.name)
+      .map((item) => ({
+        id: item.call_id || item.id || "",
+        name: item.name as string,
+        arguments: parseToolArguments(item.arguments),
+      }));
+    const text = extractText(data);
+    if (!text && calls.length === 0) {
+      console.warn("[GSD] OpenAI Response has no recognized output field");
+      return null;
+    }
+    return { text, calls, assistant: output };
+  }
+
+  /**
+   * Stream OpenAI output via Responses API server-sent events
+   */
+  async streamModel(
+    system: string,
+    user: string,
+    model: string = "gpt-5",
+    onChunk: AIStreamHandler,
+    options: AICallOptions = {}
   ): Promise<string | null> {
     if (!this.settings.openaiApiKey) {
       console.warn("[GSD] No OpenAI API key configured");
@@ -71,44 +183,97 @@ export class OpenAIProvider implements AIProvider {
     }
 
     const url = "https://api.openai.com/v1/responses";
+    const body = { ...this.buildRequestBody(system, user, model, options), stream: true };
 
+    let emitted = false;
     try {
-      // Combine system and user prompts into input (input should be a string, not an object)
-      const input = system ? `${system}\n\n${user}` : user;
-
-      // Request body format per OpenAI Responses API documentation
-      // Use minimal request first to test if endpoint works
-      const body: Record<string, any> = {
-        model: model,
-        input: input, // input is a string, not an object
-      };
+      return await withRetry(async () => {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${this.settings.openaiApiKey}`,
+          },
+          body: JSON.stringify(body),
+          signal: options.signal,
+        });
 
-      // Add optional parameters conditionally
-      // Note: Some combinations may cause timeouts, so we add them carefully
-      
-      // Add text options (verbosity) - only for GPT-5 models
-      if (model.startsWith("gpt-5")) {
-        body.text = {
-          verbosity: "low",
-        };
-      }
+        if (!response.ok || !response.body) {
+          throw providerHttpError(`OpenAI stream failed with status ${response.status}`, response.status, response.headers);
+        }
 
-      // Set reasoning with effort property (only if provided and for GPT-5)
-      // Skip reasoning if web search is enabled to avoid conflicts
-      if (model.startsWith("gpt-5") && options.thinkingBudget != null && !options.useSearch) {
-        body.reasoning = {
-          effort: options.thinkingBudget,
-        };
-      }
+        let fullText = "";
+        let streamError: string | null = null;
+        await readSseStream(response.body, ({ data }) => {
+          const event = parseSseJson<ResponsesStreamEvent>(data);
+          if (!event) return;
+          if (event.type === "response.output_text.delta" && event.delta) {
+            fullText += event.delta;
+            emitted = true;
+            onChunk(event.delta);
+          } else if (event.type === "response.completed") {
+            const usage = extractUsage(event.response?.usage);
+            if (usage) options.onUsage?.(usage);
+            reportCitations(options, extractCitations(event.response?.output));
+          } else if (event.type === "error" || event.type === "response.failed") {
+            streamError = event.message || event.response?.error?.message || "Stream failed";
+          }
+        });
 
-      // Enable web search using tools (only if requested)
-      if (options.useSearch) {
-        body.tools = [{ type: "web_search" }];
-      }
+        if (streamError) {
+          throw classifyError(new Error(streamError));
+        }
+        return fullText || null;
+      }, providerRetryOptions("OpenAI", model, options, () => !emitted));
+    } catch (error: unknown) {
+      return reportProviderError("OpenAI API Error", error, options, { model, streaming: true });
+    }
+  }
+
+  /**
+   * Embed texts via the embeddings endpoint (text-embedding-3-*)
+   */
+  async embed(texts: string[], model: string, options: AICallOptions = {}): Promise<number[][] | null> {
+    if (!this.settings.openaiApiKey) {
+      console.warn("[GSD] No OpenAI API key configured");
+      return null;
+    }
+
+    return requestEmbeddings(
+      "OpenAI",
+      "https://api.openai.com/v1/embeddings",
+      { "Content-Type": "application/json", Authorization: `Bearer ${this.settings.openaiApiKey}` },
+      texts,
+      model,
+      options
+    );
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * One buffered Responses API request (usage is reported here)
+   * @returns The response, or null when the call failed
+   */
+  private async requestResponse(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions
+  ): Promise<ResponsesAPIResponse | null> {
+    if (!this.settings.openaiApiKey) {
+      console.warn("[GSD] No OpenAI API key configured");
+      return null;
+    }
+
+    const url = "https://api.openai.com/v1/responses";
+    const body = this.buildRequestBody(system, user, model, options);
 
-      let response: RequestUrlResponse;
-      try {
-        response = await requestUrl({
+    try {
+      const data = await withRetry(async () => {
+        const response = await requestUrl({
           url: url,
           method: "POST",
           headers: {
@@ -116,75 +281,209 @@ export class OpenAIProvider implements AIProvider {
             Authorization: `Bearer ${this.settings.openaiApiKey}`,
           },
           body: JSON.stringify(body),
-        }) as RequestUrlResponse;
-      } catch (error: unknown) {
-        // Try to extract error message from Obsidian's requestUrl error format
-        const errorData = error && typeof error === "object" && "json" in error
-          ? (error as { json?: { error?: { message?: string }; message?: string } }).json
-          : null;
-        const errorMessage = errorData?.error?.message || errorData?.message || getErrorMessage(error);
-        
-        handleError("OpenAI API Request", error, {
-          additionalContext: { model, url },
+          throw: false,
         });
-        return null;
-      }
 
-      // Check for HTTP errors
-      if (response.status !== 200) {
-        const errorData = response.json as { error?: { message?: string }; message?: string } | null;
-        const errorMessage = errorData?.error?.message || errorData?.message || `HTTP ${response.status}`;
-        
-        handleError("OpenAI API HTTP Error", new Error(errorMessage), {
-          additionalContext: { status: response.status, model },
-        });
-        return null;
-      }
+        const json = readResponseJson<ResponsesAPIResponse & { message?: string }>(response);
+        if (response.status !== 200) {
+          throw providerHttpError(json?.error?.message || json?.message, response.status, response.headers);
+        }
+        if (json?.error) {
+          throw classifyError(new Error(json.error.message));
+        }
+        return json ?? {};
+      }, providerRetryOptions("OpenAI", model, options));
 
-      const data = response.json as ResponsesAPIResponse;
-      if (data.error) {
-        handleError("OpenAI API Response Error", new Error(data.error.message), {
-          additionalContext: { model },
-        });
-        return null;
-      }
+      const usage = extractUsage(data.usage);
+      if (usage) options.onUsage?.(usage);
+      reportCitations(options, extractCitations(data.output));
 
       // Check if status is completed
       if (data.status && data.status !== "completed") {
         console.warn(`[GSD] Response status is "${data.status}", not "completed"`);
       }
+      return data;
+    } catch (error: unknown) {
+      return reportProviderError("OpenAI API Error", error, options, { model });
+    }
+  }
 
-      // Parse Responses API format: output is an array
-      // Find the message item and extract text from content array
-      if (data.output && Array.isArray(data.output)) {
-        // Find the message item (type: "message")
-        const messageItem = data.output.find(item => item.type === "message");
-        if (messageItem && messageItem.content && Array.isArray(messageItem.content)) {
-          // Find the output_text content item
-          const textContent = messageItem.content.find(
-            content => content.type === "output_text" && content.text
-          );
-          if (textContent && textContent.text) {
-            return textContent.text;
-          }
-        }
+  /**
+   * Build the Responses API request body (shared by buffered and streaming calls)
+   */
+  private buildRequestBody(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions
+  ): Record<string, any> {
+    // Combine system and user prompts into input (input should be a string, not an object)
+    const input = system ? `${system}\n\n${user}` : user;
+
+    // Request body format per OpenAI Responses API documentation
+    const body: Record<string, any> = {
+      model: model,
+      input: input, // input is a string, not an object
+    };
+
+    // Multi-turn (or attachments, or tool rounds): send role-tagged input items with the system prompt as instructions
+    if (options.history?.length || options.attachments?.length || options.toolRounds?.length) {
+      body.input = [
+        ...withAttachmentContent(buildChatTurns(options.history, user), options.attachments, buildInputContent).map(
+          (turn) => ({
+            role: turn.role,
+            content: turn.content,
+          })
+        ),
+        ...buildToolInput(options.toolRounds),
+      ];
+      if (system) {
+        body.instructions = system;
       }
+    }
+
+    // Add optional parameters conditionally
+    // Note: Some combinations may cause timeouts, so we add them carefully
+
+    // Add text options (verbosity) - only for GPT-5 models
+    if (model.startsWith("gpt-5")) {
+      body.text = {
+        verbosity: "low",
+      };
+    }
+
+    // Set reasoning with effort property (only if provided and for GPT-5)
+    // Skip reasoning if web search is enabled to avoid conflicts
+    if (model.startsWith("gpt-5") && options.thinkingBudget != null && !options.useSearch) {
+      body.reasoning = {
+        effort: options.thinkingBudget,
+      };
+    }
+
+    // Enable web search using tools (only if requested)
+    if (options.useSearch) {
+      body.tools = [{ type: "web_search" }];
+    }
+
+    if (options.tools?.length) {
+      body.tools = [
+        ...options.tools.map((tool) => ({
+          type: "function",
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+          strict: false,
+        })),
+        ...(body.tools ?? []),
+      ];
+      body.tool_choice = options.toolChoice ?? "auto";
+    }
+
+    // Structured output (non-strict so optional fields don't need to be listed as required)
+    if (options.jsonSchema) {
+      body.text = {
+        ...(body.text || {}),
+        format: {
+          type: "json_schema",
+          name: options.jsonSchema.name,
+          schema: options.jsonSchema.schema,
+          strict: false,
+        },
+      };
+    }
 
-      // Fallback: try old formats for backward compatibility
-      const dataAny = data as any;
-      if (typeof dataAny.output_text === "string") {
-        return dataAny.output_text;
+    return body;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Text of the first output_text part in the response's message item
+ */
+function extractText(data: ResponsesAPIResponse): string | null {
+  // Parse Responses API format: output is an array
+  // Find the message item and extract text from content array
+  if (data.output && Array.isArray(data.output)) {
+    const messageItem = data.output.find((item) => item.type === "message");
+    if (messageItem && messageItem.content && Array.isArray(messageItem.content)) {
+      const textContent = messageItem.content.find((content) => content.type === "output_text" && content.text);
+      if (textContent && textContent.text) {
+        return textContent.text;
       }
+    }
+  }
 
-      console.warn("[GSD] OpenAI Response has no recognized output field");
-      return null;
-    } catch (error: unknown) {
-      return handleErrorWithDefault(
-        "OpenAI API Unexpected Error",
-        error,
-        null,
-        { additionalContext: { model } }
-      );
+  // Fallback: try old formats for backward compatibility
+  const dataAny = data as any;
+  if (typeof dataAny.output_text === "string") {
+    return dataAny.output_text;
+  }
+  return null;
+}
+
+/**
+ * url_citation annotations of the message items; the cited span of the answer becomes the snippet
+ */
+function extractCitations(output: ResponsesAPIResponse["output"]): AICitation[] {
+  const citations: AICitation[] = [];
+  for (const item of output ?? []) {
+    if (item.type !== "message") continue;
+    for (const part of item.content ?? []) {
+      for (const annotation of part.annotations ?? []) {
+        if (annotation.type !== "url_citation" || !annotation.url) continue;
+        const span =
+          part.text && annotation.start_index != null && annotation.end_index != null
+            ? part.text.slice(annotation.start_index, annotation.end_index)
+            : undefined;
+        citations.push({ url: annotation.url, title: annotation.title, snippet: span });
+      }
+    }
+  }
+  return citations;
+}
+
+/**
+ * Input items for completed tool rounds: the model's output items (reasoning and
+ * function calls) followed by a function_call_output per result
+ */
+function buildToolInput(rounds: AIToolRound[] | undefined): Array<Record<string, unknown>> {
+  const items: Array<Record<string, unknown>> = [];
+  for (const round of rounds ?? []) {
+    items.push(...(round.assistant as Array<Record<string, unknown>>));
+    for (const result of round.results) {
+      items.push({ type: "function_call_output", call_id: result.callId, output: result.content });
+    }
+  }
+  return items;
+}
+
+/**
+ * Responses API input parts: prompt text, then images and PDFs as data URLs
+ */
+function buildInputContent(text: string, attachments: AIAttachment[]): Array<Record<string, unknown>> {
+  const parts: Array<Record<string, unknown>> = text ? [{ type: "input_text", text }] : [];
+  for (const attachment of attachments) {
+    if (attachment.kind === "image") {
+      parts.push({ type: "input_image", image_url: attachmentDataUrl(attachment) });
+    } else {
+      parts.push({ type: "input_file", filename: attachment.name, file_data: attachmentDataUrl(attachment) });
     }
   }
+  return parts;
+}
+
+/**
+ * Split Responses API usage into visible output and reasoning tokens
+ */
+function extractUsage(usage: ResponsesUsage | undefined): AIUsage | null {
+  if (!usage) return null;
+  const thinkingTokens = usage.output_tokens_details?.reasoning_tokens ?? 0;
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: Math.max(0, (usage.output_tokens ?? 0) - thinkingTokens),
+    thinkingTokens,
+  };
 }
@@ -2,30 +2,84 @@
 // OpenRouter Provider - Multi-model router implementation
 // ============================================================================
 
-import { requestUrl, RequestUrlResponse } from "obsidian";
+import { requestUrl } from "obsidian";
 import type { PluginSettings, OpenRouterModel } from "../types";
-import type { AIProvider, AICallOptions } from "./ai-provider";
-import { handleError, handleErrorWithDefault, getErrorMessage } from "../utils/error-handler";
+import {
+  buildChatCompletionParts,
+  buildChatCompletionToolMessages,
+  buildChatCompletionTools,
+  buildChatTurns,
+  parseChatCompletionToolCalls,
+  withAttachmentContent,
+  parseChatCompletionUsage,
+  providerHttpError,
+  providerRetryOptions,
+  readResponseJson,
+  reportCitations,
+  reportProviderError,
+  requestEmbeddings,
+} from "./ai-provider";
+import type {
+  AIProvider,
+  AICallOptions,
+  AICitation,
+  AIStreamHandler,
+  AIToolResponse,
+  AIUsage,
+  ChatCompletionUsage,
+} from "./ai-provider";
+import { readSseStream, parseSseJson } from "./sse-stream";
+import { classifyError, withRetry } from "../utils/error-handler";
+import type { RetryOptions } from "../utils/error-handler";
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/**
+ * Web search annotation (web plugin / :online models)
+ */
+interface OpenRouterAnnotation {
+  type?: string;
+  url_citation?: {
+    url?: string;
+    title?: string;
+    content?: string;
+  };
+}
+
+interface OpenRouterMessage {
+  content?: string | null;
+  tool_calls?: Array<{
+    id?: string;
+    type?: string;
+    function?: { name?: string; arguments?: string };
+  }>;
+  annotations?: OpenRouterAnnotation[];
+}
+
 interface OpenRouterChatResponse {
   choices?: Array<{
-    message?: {
-      content?: string;
-    };
+    message?: OpenRouterMessage;
   }>;
+  usage?: ChatCompletionUsage;
   error?: {
     message: string;
   };
 }
 
-type OpenRouterAttemptResult = {
-  text: string | null;
-  retryable: boolean;
-};
+interface OpenRouterStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      annotations?: OpenRouterAnnotation[];
+    };
+  }>;
+  usage?: ChatCompletionUsage | null;
+  error?: {
+    message: string;
+  };
+}
 
 // ============================================================================
 // Constants
@@ -65,144 +119,375 @@ export class OpenRouterProvider implements AIProvider {
     model: string,
     options: AICallOptions = {}
   ): Promise<string | null> {
+    return this.callWithCandidates(model, options, async (candidate) => {
+      const message = await this.requestCompletionOnce(system, user, candidate, options);
+      const content = message?.content;
+      if (typeof content === "string" && content.length > 0) {
+        return content;
+      }
+
+      console.warn("[GSD] OpenRouter response had no message content");
+      return null;
+    });
+  }
+
+  /**
+   * Call OpenRouter with function tools (one round of a tool loop)
+   */
+  async callModelWithTools(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions = {}
+  ): Promise<AIToolResponse | null> {
+    return this.callWithCandidates(model, options, async (candidate) => {
+      const message = await this.requestCompletionOnce(system, user, candidate, options);
+      const text = typeof message?.content === "string" && message.content.length > 0 ? message.content : null;
+      const calls = parseChatCompletionToolCalls(message);
+      if (!text && calls.length === 0) {
+        console.warn("[GSD] OpenRouter response had no message content");
+        return null;
+      }
+      return {
+        text,
+        calls,
+        assistant: { role: "assistant", content: message?.content ?? null, tool_calls: message?.tool_calls },
+      };
+    });
+  }
+
+  /**
+   * Embed texts via the OpenAI-compatible embeddings endpoint
+   * (embedding models aren't subject to the selected-models list or auto-free routing)
+   */
+  async embed(texts: string[], model: string, options: AICallOptions = {}): Promise<number[][] | null> {
     if (!this.settings.openrouterApiKey) {
       console.warn("[GSD] No OpenRouter API key configured");
       return null;
     }
 
-    const trimmedModel = model?.trim();
-    if (!trimmedModel) {
-      console.warn("[GSD] OpenRouter model is empty");
+    return requestEmbeddings(
+      "OpenRouter",
+      "https://openrouter.ai/api/v1/embeddings",
+      this.buildHeaders(),
+      texts,
+      model.trim().replace(/^openrouter:/i, ""),
+      options
+    );
+  }
+
+  /**
+   * Run a buffered request against the resolved candidates, rotating auto-free
+   * models on rate-limit, quota and transient failures
+   */
+  private async callWithCandidates<T>(
+    model: string,
+    options: AICallOptions,
+    request: (candidate: string) => Promise<T | null>
+  ): Promise<T | null> {
+    const resolved = this.resolveCandidates(model);
+    if (!resolved) {
       return null;
     }
+    const { candidates, isAutoFree } = resolved;
 
-    const isAutoFree = AUTO_FREE_MODELS.has(trimmedModel.toLowerCase());
-    const candidates = isAutoFree ? this.getAutoFreeCandidates() : [trimmedModel];
+    for (const [index, candidate] of candidates.entries()) {
+      try {
+        return await withRetry(() => request(candidate), this.retryOptions(candidate, options, isAutoFree));
+      } catch (error: unknown) {
+        if (!this.shouldRotate(error, isAutoFree, index, candidates.length)) {
+          return reportProviderError("OpenRouter API Error", error, options, { model: candidate });
+        }
+      }
+    }
 
-    if (!candidates.length) {
-      console.warn("[GSD] No OpenRouter models available for auto-free selection");
+    return null;
+  }
+
+  /**
+   * One chat completions request
+   * @returns The first choice's message (undefined if missing)
+   * @throws ClassifiedError on HTTP or API errors
+   */
+  private async requestCompletionOnce(
+    system: string,
+    user: string,
+    model: string,
+    options: AICallOptions
+  ): Promise<OpenRouterMessage | undefined> {
+    const url = "https://openrouter.ai/api/v1/chat/completions";
+    const metadata = this.getModelMetadata(model);
+    const body = this.buildRequestBody(system, user, model, metadata, options);
+
+    const response = await requestUrl({
+      url,
+      method: "POST",
+      headers: this.buildHeaders(),
+      body: JSON.stringify(body),
+      throw: false,
+    });
+
+    const data = readResponseJson<OpenRouterChatResponse & { message?: string }>(response);
+    if (response.status !== 200) {
+      throw providerHttpError(data?.error?.message || data?.message, response.status, response.headers);
+    }
+    if (data?.error) {
+      throw classifyError(new Error(data.error.message));
+    }
+
+    const usage = parseChatCompletionUsage(data?.usage);
+    if (usage) options.onUsage?.({ ...usage, servedModel: model });
+
+    const message = data?.choices?.[0]?.message;
+    reportCitations(options, extractCitations(message?.annotations));
+    return message;
+  }
+
+  /**
+   * Stream OpenRouter output via chat completions server-sent events.
+   * Auto-free candidates are only rotated while nothing has been emitted yet.
+   */
+  async streamModel(
+    system: string,
+    user: string,
+    model: string,
+    onChunk: AIStreamHandler,
+    options: AICallOptions = {}
+  ): Promise<string | null> {
+    const resolved = this.resolveCandidates(model);
+    if (!resolved) {
       return null;
     }
+    const { candidates, isAutoFree } = resolved;
 
-    for (const candidate of candidates) {
-      if (!this.isModelSelected(candidate)) {
-        continue;
-      }
-      const attempt = await this.callModelOnce(system, user, candidate, options);
-      if (attempt.text) {
-        return attempt.text;
-      }
-      if (!attempt.retryable || !isAutoFree) {
-        return null;
+    let emitted = false;
+    const forward: AIStreamHandler = (chunk) => {
+      emitted = true;
+      onChunk(chunk);
+    };
+
+    for (const [index, candidate] of candidates.entries()) {
+      try {
+        return await withRetry(
+          () => this.streamModelOnce(system, user, candidate, forward, options),
+          { ...this.retryOptions(candidate, options, isAutoFree), canRetry: () => !emitted }
+        );
+      } catch (error: unknown) {
+        if (emitted || !this.shouldRotate(error, isAutoFree, index, candidates.length)) {
+          return reportProviderError("OpenRouter API Error", error, options, { model: candidate, streaming: true });
+        }
       }
     }
 
     return null;
   }
 
-  private async callModelOnce(
+  /**
+   * One streamed chat completions request
+   * @throws ClassifiedError on HTTP errors, or stream errors before any text arrived
+   */
+  private async streamModelOnce(
     system: string,
     user: string,
     model: string,
+    onChunk: AIStreamHandler,
     options: AICallOptions
-  ): Promise<OpenRouterAttemptResult> {
+  ): Promise<string | null> {
     const url = "https://openrouter.ai/api/v1/chat/completions";
     const metadata = this.getModelMetadata(model);
+    const body = {
+      ...this.buildRequestBody(system, user, model, metadata, options),
+      stream: true,
+      stream_options: { include_usage: true },
+    };
 
-    try {
-      const messages: Array<{ role: string; content: string }> = [];
-      if (system) {
-        messages.push({ role: "system", content: system });
-      }
-      messages.push({ role: "user", content: user });
+    const response = await fetch(url, {
+      method: "POST",
+      headers: this.buildHeaders(),
+      body: JSON.stringify(body),
+      signal: options.signal,
+    });
 
-      const body: Record<string, any> = {
-        model: model,
-        messages,
-      };
+    if (!response.ok || !response.body) {
+      throw providerHttpError(`OpenRouter stream failed with status ${response.status}`, response.status, response.headers);
+    }
 
-      if (options.temperature != null) {
-        body.temperature = Math.max(0.0, Math.min(2.0, options.temperature));
+    let fullText = "";
+    let streamError: string | null = null;
+    let usage: AIUsage | null = null;
+    const annotations: OpenRouterAnnotation[] = [];
+    await readSseStream(response.body, ({ data }) => {
+      const chunk = parseSseJson<OpenRouterStreamChunk>(data);
+      if (!chunk) return;
+      if (chunk.error) {
+        streamError = chunk.error.message;
+        return;
       }
-
-      if (options.maxOutputTokens != null) {
-        body.max_tokens = options.maxOutputTokens;
+      // The final chunk carries usage (stream_options.include_usage)
+      usage = parseChatCompletionUsage(chunk.usage) ?? usage;
+      annotations.push(...(chunk.choices?.[0]?.delta?.annotations ?? []));
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (typeof delta === "string" && delta.length > 0) {
+        fullText += delta;
+        onChunk(delta);
       }
+    });
 
-      if (options.thinkingBudget != null && this.supportsParam(metadata, "reasoning")) {
-        body.reasoning = { effort: options.thinkingBudget };
-      }
+    if (usage) options.onUsage?.({ ...(usage as AIUsage), servedModel: model });
+    reportCitations(options, extractCitations(annotations));
+    if (streamError && !fullText) {
+      throw classifyError(new Error(streamError));
+    }
+    return fullText || null;
+  }
 
-      if (options.useSearch) {
-        if (!metadata || this.supportsParam(metadata, "tools")) {
-          body.tools = [{ type: "web_search" }];
-        } else {
-          console.warn(`[GSD] OpenRouter model ${model} does not support tools/web_search`);
-        }
-      }
+  /**
+   * Auto-free rotates to the next candidate instead of backing off on the same one
+   */
+  private retryOptions(model: string, options: AICallOptions, isAutoFree: boolean): RetryOptions {
+    return {
+      ...providerRetryOptions("OpenRouter", model, options),
+      ...(isAutoFree ? { maxAttempts: 1 } : {}),
+    };
+  }
 
-      let response: RequestUrlResponse;
-      try {
-        response = await requestUrl({
-          url,
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${this.settings.openrouterApiKey}`,
-            "HTTP-Referer": "https://obsidian.md",
-            "X-Title": "GetShitDone",
-          },
-          body: JSON.stringify(body),
-        }) as RequestUrlResponse;
-      } catch (error: unknown) {
-        const errorData = error && typeof error === "object" && "json" in error
-          ? (error as { json?: { error?: { message?: string }; message?: string } }).json
-          : null;
-        const errorMessage = errorData?.error?.message || errorData?.message || getErrorMessage(error);
-
-        handleError("OpenRouter API Request", error, {
-          additionalContext: { model, url },
-        });
-        return { text: null, retryable: this.isRetryableError(errorMessage) };
-      }
+  /**
+   * Whether an auto-free failure should move on to the next free model
+   */
+  private shouldRotate(error: unknown, isAutoFree: boolean, index: number, total: number): boolean {
+    if (!isAutoFree || index >= total - 1) return false;
+    const { category } = classifyError(error);
+    const rotate = category === "rate-limit" || category === "quota" || category === "transient";
+    if (rotate) {
+      console.warn(`[GSD] OpenRouter free model ${category}, trying the next one`);
+    }
+    return rotate;
+  }
+
+  /**
+   * Resolve the model (or auto-free alias) into the candidates to try in order
+   */
+  private resolveCandidates(model: string): { candidates: string[]; isAutoFree: boolean } | null {
+    if (!this.settings.openrouterApiKey) {
+      console.warn("[GSD] No OpenRouter API key configured");
+      return null;
+    }
+
+    const trimmedModel = model?.trim();
+    if (!trimmedModel) {
+      console.warn("[GSD] OpenRouter model is empty");
+      return null;
+    }
+
+    const isAutoFree = AUTO_FREE_MODELS.has(trimmedModel.toLowerCase());
+    const candidates = isAutoFree ? this.getAutoFreeCandidates() : [trimmedModel];
+
+    if (!candidates.length) {
+      console.warn("[GSD] No OpenRouter models available for auto-free selection");
+      return null;
+    }
 
-      if (response.status !== 200) {
-        const errorData = response.json as { error?: { message?: string }; message?: string } | null;
-        const errorMessage = errorData?.error?.message || errorData?.message || `HTTP ${response.status}`;
-        handleError("OpenRouter API HTTP Error", new Error(errorMessage), {
-          additionalContext: { status: response.status, model },
-        });
-        return { text: null, retryable: response.status === 429 || this.isRetryableError(errorMessage) };
+    return {
+      candidates: candidates.filter((candidate) => this.isModelSelected(candidate)),
+      isAutoFree,
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${this.settings.openrouterApiKey}`,
+      "HTTP-Referer": "https://obsidian.md",
+      "X-Title": "GetShitDone",
+    };
+  }
+
+  /**
+   * Build the chat completions request body (shared by buffered and streaming calls)
+   */
+  private buildRequestBody(
+    system: string,
+    user: string,
+    model: string,
+    metadata: OpenRouterModel | undefined,
+    options: AICallOptions
+  ): Record<string, any> {
+    const messages: Array<{ role: string; content: unknown }> = [];
+    if (system) {
+      messages.push({ role: "system", content: system });
+    }
+    const attachments = this.filterAttachments(model, metadata, options);
+    messages.push(...withAttachmentContent(buildChatTurns(options.history, user), attachments, buildChatCompletionParts));
+    messages.push(...buildChatCompletionToolMessages(options.toolRounds));
+
+    const body: Record<string, any> = {
+      model: model,
+      messages,
+    };
+
+    if (options.temperature != null) {
+      body.temperature = Math.max(0.0, Math.min(2.0, options.temperature));
+    }
+
+    if (options.maxOutputTokens != null) {
+      body.max_tokens = options.maxOutputTokens;
+    }
+
+    if (options.thinkingBudget != null && this.supportsParam(metadata, "reasoning")) {
+      body.reasoning = { effort: options.thinkingBudget };
+    }
+
+    if (options.useSearch) {
+      if (!metadata || this.supportsParam(metadata, "tools")) {
+        body.tools = [{ type: "web_search" }];
+      } else {
+        console.warn(`[GSD] OpenRouter model ${model} does not support tools/web_search`);
       }
+    }
 
-      const data = response.json as OpenRouterChatResponse;
-      if (data.error) {
-        handleError("OpenRouter API Response Error", new Error(data.error.message), {
-          additionalContext: { model },
-        });
-        return { text: null, retryable: this.isRetryableError(data.error.message) };
+    // Function tools (the model answers from the prompt alone if it can't call them)
+    if (options.tools?.length) {
+      if (!metadata || this.supportsParam(metadata, "tools")) {
+        body.tools = [...buildChatCompletionTools(options.tools), ...(body.tools ?? [])];
+        body.tool_choice = options.toolChoice ?? "auto";
+      } else {
+        console.warn(`[GSD] OpenRouter model ${model} does not support function tools`);
       }
+    }
 
-      if (data.choices && data.choices.length > 0) {
-        const content = data.choices[0]?.message?.content;
-        if (typeof content === "string" && content.length > 0) {
-          return { text: content, retryable: false };
-        }
+    // Structured output: full schema where supported, plain JSON mode otherwise
+    if (options.jsonSchema) {
+      if (this.supportsParam(metadata, "structured_outputs")) {
+        body.response_format = {
+          type: "json_schema",
+          json_schema: { name: options.jsonSchema.name, schema: options.jsonSchema.schema, strict: false },
+        };
+      } else if (this.supportsParam(metadata, "response_format")) {
+        body.response_format = { type: "json_object" };
       }
+    }
 
-      console.warn("[GSD] OpenRouter response had no message content");
-      return { text: null, retryable: false };
-    } catch (error: unknown) {
-      return {
-        text: handleErrorWithDefault(
-          "OpenRouter API Unexpected Error",
-          error,
-          null,
-          { additionalContext: { model } }
-        ),
-        retryable: false,
-      };
+    return body;
+  }
+
+  /**
+   * Drop images for models whose cached metadata says they take no image input
+   * (OpenRouter parses PDFs for every model)
+   */
+  private filterAttachments(
+    model: string,
+    metadata: OpenRouterModel | undefined,
+    options: AICallOptions
+  ): AICallOptions["attachments"] {
+    const modalities = metadata?.architecture?.input_modalities;
+    if (!options.attachments?.length || !modalities || modalities.includes("image")) {
+      return options.attachments;
+    }
+    const kept = options.attachments.filter((attachment) => attachment.kind !== "image");
+    if (kept.length < options.attachments.length) {
+      console.warn(`[GSD] OpenRouter model ${model} does not accept images; sending the prompt without them`);
     }
+    return kept;
   }
 
   private getAutoFreeCandidates(): string[] {
@@ -246,12 +531,6 @@ export class OpenRouterProvider implements AIProvider {
     return model.pricing.prompt === 0 && model.pricing.completion === 0;
   }
 
-  private isRetryableError(message: string | null | undefined): boolean {
-    if (!message) return false;
-    const normalized = message.toLowerCase();
-    return normalized.includes("rate limit") || normalized.includes("quota");
-  }
-
   private isModelSelected(modelId: string): boolean {
     const selected = this.settings.openrouter?.selectedModels ?? [];
     const ranked = this.settings.openrouter?.freeModelRank ?? [];
@@ -263,3 +542,18 @@ export class OpenRouterProvider implements AIProvider {
     return ranked.some((id) => id.toLowerCase() === lower);
   }
 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * url_citation annotations (the cited page excerpt becomes the snippet)
+ */
+function extractCitations(annotations: OpenRouterAnnotation[] | undefined): AICitation[] {
+  return (annotations ?? []).flatMap((annotation) =>
+    annotation.type === "url_citation" && annotation.url_citation?.url
+      ? [{ url: annotation.url_citation.url, title: annotation.url_citation.title, snippet: annotation.url_citation.content }]
+      : []
+  );
+}
@@ -0,0 +1,76 @@
+// ============================================================================
+// Prompt Library Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { App } from "obsidian";
+import { createMockApp } from "../__mocks__/obsidian";
+import { DEFAULT_SETTINGS } from "../types/defaults";
+import type { PluginSettings, PromptKey } from "../types";
+import { PromptLibrary } from "./prompt-library";
+
+function makeLibrary(overrides: Partial<PluginSettings["promptTemplates"]["notes"]> = {}) {
+  const app = createMockApp();
+  const settings: PluginSettings = {
+    ...DEFAULT_SETTINGS,
+    promptTemplates: {
+      notes: { ...DEFAULT_SETTINGS.promptTemplates.notes, ...overrides },
+      partialsFolder: "Prompts/partials",
+    },
+  };
+  return { app, library: new PromptLibrary(app as unknown as App, settings) };
+}
+
+describe("PromptLibrary", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("renders the prompt from settings by default", async () => {
+    const { library } = makeLibrary();
+    const prompt = await library.render("research", { query: "fleet leasing" });
+    expect(prompt).toContain("Topic: fleet leasing");
+  });
+
+  it("prefers the configured vault note and strips its frontmatter", async () => {
+    const { app, library } = makeLibrary({ research: "Prompts/Research" });
+    app.vault._setFile("Prompts/Research.md", "---\nversion: 2\n---\nLook up {query}.\n{> footer}");
+    app.vault._setFile("Prompts/partials/footer.md", "Cite sources.");
+
+    expect(await library.render("research", { query: "Acme" })).toBe("Look up Acme.\nCite sources.");
+  });
+
+  it("falls back to the settings prompt when the note is missing", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { library } = makeLibrary({ research: "Prompts/Gone.md" });
+    const source = await library.getSource("research");
+    expect(source).toMatchObject({ origin: "settings", missingNote: "Prompts/Gone.md" });
+    expect(source.text).toBe(DEFAULT_SETTINGS.prompts.research);
+  });
+
+  it("falls back to the default prompt when a note does not parse", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { app, library } = makeLibrary({ research: "Prompts/Research.md" });
+    app.vault._setFile("Prompts/Research.md", "{#if query}Look up {query}");
+
+    expect(await library.render("research", { query: "Acme" })).toContain("Topic: Acme");
+  });
+
+  it("previews issues and a sample rendering", async () => {
+    const { library } = makeLibrary();
+    const preview = await library.preview("orgResearch", "Research {orgname}{#if domain} ({domain}){/if}");
+
+    expect(preview.issues.map((issue) => issue.message)).toEqual([
+      "Unknown variable {orgname}",
+      "Missing required variable {orgName}",
+    ]);
+    expect(preview.output).toBe("Research  (Website: acme.com)");
+  });
+
+  it("ships default prompts without template issues", async () => {
+    const { library } = makeLibrary();
+    for (const key of Object.keys(DEFAULT_SETTINGS.prompts) as PromptKey[]) {
+      expect((await library.preview(key)).issues, key).toEqual([]);
+    }
+  });
+});
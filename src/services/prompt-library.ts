@@ -0,0 +1,220 @@
+// ============================================================================
+// Prompt Library - Resolves, validates and renders workflow prompts
+// ============================================================================
+
+import { App, TFile } from "obsidian";
+import type { PluginSettings, PromptKey } from "../types";
+import { DEFAULT_SETTINGS } from "../types/defaults";
+import { handleError } from "../utils/error-handler";
+import {
+  TemplateSyntaxError,
+  renderTemplate,
+  validateTemplate,
+} from "../utils/prompt-template";
+import type { TemplateIssue, TemplateValue, TemplateVariables } from "../utils/prompt-template";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PromptVariableSpec {
+  name: string;
+  description: string;
+  /** Value used for the settings preview */
+  sample: TemplateValue;
+  /** Flagged as missing when the prompt never references it */
+  required?: boolean;
+}
+
+export interface PromptSource {
+  text: string;
+  /** Where the text came from; "settings" also covers a configured note that could not be read */
+  origin: "note" | "settings";
+  /** Configured note path that could not be found */
+  missingNote?: string;
+}
+
+export interface PromptPreview {
+  source: PromptSource;
+  issues: TemplateIssue[];
+  /** Rendered with sample values, or null when the template does not parse */
+  output: string | null;
+}
+
+// ============================================================================
+// Variable Catalog
+// ============================================================================
+
+const SAMPLE_ATTENDEES = [
+  { name: "Jane Doe", email: "jane@acme.com" },
+  { name: "Max Mustermann", email: "max@example.org" },
+];
+
+/**
+ * Variables each workflow passes to its prompt
+ */
+export const PROMPT_VARIABLES: Record<PromptKey, PromptVariableSpec[]> = {
+  meetingFilter: [
+    { name: "title", description: "Meeting title", sample: "Acme x FINN intro", required: true },
+    { name: "attendees", description: "External attendees, comma-separated", sample: "Jane Doe, Max Mustermann" },
+    { name: "attendeeList", description: "External attendees as a list of {name, email}", sample: SAMPLE_ATTENDEES },
+    { name: "description", description: "First 500 characters of the agenda", sample: "Intro call about fleet leasing" },
+  ],
+  meetingBriefing: [
+    { name: "title", description: "Meeting title", sample: "Acme x FINN intro", required: true },
+    { name: "time", description: "Start time (HH:mm)", sample: "14:30" },
+    { name: "attendees", description: "External attendees, comma-separated", sample: "Jane Doe, Max Mustermann" },
+    { name: "attendeeList", description: "External attendees as a list of {name, email}", sample: SAMPLE_ATTENDEES },
+    { name: "description", description: "Agenda from the calendar event", sample: "Intro call about fleet leasing" },
+    { name: "vaultContext", description: "Related vault notes (empty when none)", sample: "**Vault Context:**\n- [[People/Jane Doe|Jane Doe]]: CFO at Acme" },
+    { name: "attachmentContext", description: "Text of meeting attachments (empty when none)", sample: "" },
+    { name: "previousMeetingsContext", description: "Notes from earlier meetings with the attendees", sample: "" },
+  ],
+  personResearch: [
+    { name: "name", description: "Person's name", sample: "Jane Doe", required: true },
+    { name: "email", description: "Email address (empty when unknown)", sample: "jane@acme.com" },
+    { name: "emailDomain", description: "\"Email domain: …\" line (empty when unknown)", sample: "Email domain: acme.com" },
+    { name: "vaultHint", description: "Links to related internal notes", sample: "Related internal notes: [[Acme]]" },
+    { name: "commSummary", description: "Recent email subjects with the person", sample: "Recent email subjects: Fleet offer; Follow-up" },
+  ],
+  orgResearch: [
+    { name: "orgName", description: "Organization name", sample: "Acme", required: true },
+    { name: "domain", description: "\"Website: …\" line (empty when unknown)", sample: "Website: acme.com" },
+    { name: "vaultContext", description: "Related vault notes (empty when none)", sample: "" },
+  ],
+  inboxRouting: [
+    { name: "content", description: "First 500 characters of the captured content", sample: "Call Jane about the offer", required: true },
+    { name: "length", description: "Content length in characters", sample: 25 },
+    { name: "inMeeting", description: "YES while a meeting is running, otherwise NO", sample: "NO" },
+    { name: "meetingTitle", description: "Current meeting title or N/A", sample: "N/A" },
+    { name: "relatedNotes", description: "Related vault passages from the semantic index (empty when off)", sample: "" },
+  ],
+  research: [
+    { name: "query", description: "Research topic", sample: "Acme fleet leasing market", required: true },
+  ],
+};
+
+// ============================================================================
+// Prompt Library Class
+// ============================================================================
+
+/**
+ * Prompt Library
+ * Loads each workflow prompt from its vault note (when configured) or settings,
+ * renders it with the template engine and validates it for the settings preview
+ */
+export class PromptLibrary {
+  private app: App;
+  private settings: PluginSettings;
+
+  constructor(app: App, settings: PluginSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+  }
+
+  // ============================================================================
+  // Rendering
+  // ============================================================================
+
+  /**
+   * Render a workflow prompt.
+   * A malformed template falls back to the built-in default so the workflow still runs.
+   */
+  async render(key: PromptKey, variables: TemplateVariables): Promise<string> {
+    const [source, partials] = await Promise.all([this.getSource(key), this.loadPartials()]);
+
+    try {
+      return renderTemplate(source.text, variables, { partials });
+    } catch (error: unknown) {
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      handleError(`Prompt template "${key}" is invalid`, error, {
+        showNotice: true,
+        noticeMessage: `Prompt "${key}" has a template error, using the default: ${error.message}`,
+      });
+      return renderTemplate(DEFAULT_SETTINGS.prompts[key], variables);
+    }
+  }
+
+  /**
+   * Validate a prompt and render it with sample values
+   * @param text Template to check instead of the configured one (e.g. unsaved edits)
+   */
+  async preview(key: PromptKey, text?: string): Promise<PromptPreview> {
+    const source = text === undefined ? await this.getSource(key) : { text, origin: "settings" as const };
+    const partials = await this.loadPartials();
+    const specs = PROMPT_VARIABLES[key];
+
+    const issues = validateTemplate(source.text, {
+      variables: specs.map((spec) => spec.name),
+      required: specs.filter((spec) => spec.required).map((spec) => spec.name),
+      partials,
+    });
+
+    let output: string | null = null;
+    if (!issues.some((issue) => issue.kind === "syntax")) {
+      const samples = Object.fromEntries(specs.map((spec) => [spec.name, spec.sample]));
+      output = renderTemplate(source.text, samples, { partials });
+    }
+
+    return { source, issues, output };
+  }
+
+  // ============================================================================
+  // Sources
+  // ============================================================================
+
+  /**
+   * Template text for a prompt: its vault note when configured and present,
+   * else the settings text (or the default when that was cleared)
+   */
+  async getSource(key: PromptKey): Promise<PromptSource> {
+    const notePath = this.settings.promptTemplates.notes[key]?.trim();
+    const inline: PromptSource = {
+      text: this.settings.prompts[key] || DEFAULT_SETTINGS.prompts[key],
+      origin: "settings",
+    };
+    if (!notePath) return inline;
+
+    const file = this.app.vault.getAbstractFileByPath(withMarkdownExtension(notePath));
+    if (!(file instanceof TFile)) {
+      console.warn(`[GSD] Prompt note not found for ${key}: ${notePath}, using the prompt from settings`);
+      return { ...inline, missingNote: notePath };
+    }
+
+    const content = await this.app.vault.cachedRead(file);
+    return { text: stripFrontmatter(content), origin: "note" };
+  }
+
+  /**
+   * Partials by note name from the partials folder
+   */
+  async loadPartials(): Promise<Record<string, string>> {
+    const folder = this.settings.promptTemplates.partialsFolder.trim().replace(/\/+$/, "");
+    if (!folder) return {};
+
+    const files = this.app.vault.getMarkdownFiles().filter((file) => file.path.startsWith(`${folder}/`));
+    const entries = await Promise.all(
+      files.map(async (file) => [file.basename, stripFrontmatter(await this.app.vault.cachedRead(file))] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function withMarkdownExtension(path: string): string {
+  return /\.md$/i.test(path) ? path : `${path}.md`;
+}
+
+function stripFrontmatter(content: string): string {
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, "").trim();
+}
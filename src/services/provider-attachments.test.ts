@@ -0,0 +1,102 @@
+// ============================================================================
+// Provider Attachment Mapping Tests
+// ============================================================================
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { createMockSettings } from "../__mocks__/services";
+import { FAKE_API_KEYS, mockRequestUrl, type CapturedRequest } from "../__mocks__/requests";
+import type { OpenRouterModel } from "../types";
+import type { AIAttachment } from "./ai-provider";
+import { GeminiProvider } from "./gemini-provider";
+import { OpenAIProvider } from "./openai-provider";
+import { AnthropicProvider } from "./anthropic-provider";
+import { OpenRouterProvider } from "./openrouter-provider";
+
+const IMAGE: AIAttachment = { kind: "image", mimeType: "image/png", data: "iVBORw0KGgo=", name: "shot.png" };
+const PDF: AIAttachment = { kind: "pdf", mimeType: "application/pdf", data: "JVBERi0=", name: "deck.pdf" };
+
+const SETTINGS = createMockSettings(FAKE_API_KEYS);
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("provider attachment mapping", () => {
+  let requests: CapturedRequest[];
+
+  beforeEach(() => {
+    // The reply content doesn't matter for these tests
+    requests = mockRequestUrl({ json: {} });
+  });
+
+  it("Gemini sends inline data parts after the prompt", async () => {
+    await new GeminiProvider(SETTINGS).callModel("Sys", "Read this", "gemini-flash-latest", {
+      attachments: [IMAGE, PDF],
+    });
+    expect(requests[0].body.contents[0].parts).toEqual([
+      { text: "Sys\n\nUser Input:\nRead this" },
+      { inlineData: { mimeType: "image/png", data: IMAGE.data } },
+      { inlineData: { mimeType: "application/pdf", data: PDF.data } },
+    ]);
+  });
+
+  it("OpenAI sends input messages with image and file parts", async () => {
+    await new OpenAIProvider(SETTINGS).callModel("Sys", "Read this", "gpt-5", { attachments: [IMAGE, PDF] });
+    expect(requests[0].body.instructions).toBe("Sys");
+    expect(requests[0].body.input).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "input_text", text: "Read this" },
+          { type: "input_image", image_url: `data:image/png;base64,${IMAGE.data}` },
+          { type: "input_file", filename: "deck.pdf", file_data: `data:application/pdf;base64,${PDF.data}` },
+        ],
+      },
+    ]);
+  });
+
+  it("Anthropic sends base64 image and document blocks before the text", async () => {
+    await new AnthropicProvider(SETTINGS).callModel("Sys", "Read this", "claude-sonnet-4-5-20250929", {
+      attachments: [IMAGE, PDF],
+    });
+    expect(requests[0].body.messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "image", source: { type: "base64", media_type: "image/png", data: IMAGE.data } },
+          { type: "document", source: { type: "base64", media_type: "application/pdf", data: PDF.data } },
+          { type: "text", text: "Read this" },
+        ],
+      },
+    ]);
+  });
+
+  it("OpenRouter sends chat completions parts", async () => {
+    await new OpenRouterProvider(SETTINGS).callModel("Sys", "Read this", "openai/gpt-4o", {
+      attachments: [IMAGE, PDF],
+    });
+    expect(requests[0].body.messages[1].content).toEqual([
+      { type: "text", text: "Read this" },
+      { type: "image_url", image_url: { url: `data:image/png;base64,${IMAGE.data}` } },
+      { type: "file", file: { filename: "deck.pdf", file_data: `data:application/pdf;base64,${PDF.data}` } },
+    ]);
+  });
+
+  it("OpenRouter drops images for text-only models", async () => {
+    const textOnly: OpenRouterModel = {
+      id: "text/only",
+      name: "Text only",
+      context_length: 8192,
+      pricing: { prompt: 0, completion: 0 },
+      architecture: { input_modalities: ["text"] },
+    };
+    const settings = createMockSettings({ ...FAKE_API_KEYS, openrouter: { modelCache: [textOnly] } });
+    await new OpenRouterProvider(settings).callModel("", "Read this", "text/only", { attachments: [IMAGE, PDF] });
+    expect(requests[0].body.messages[0].content.map((part: { type: string }) => part.type)).toEqual(["text", "file"]);
+  });
+
+  it("keeps plain string prompts without attachments", async () => {
+    await new OpenAIProvider(SETTINGS).callModel("Sys", "Hi", "gpt-5");
+    expect(requests[0].body.input).toBe("Sys\n\nHi");
+  });
+});
@@ -0,0 +1,189 @@
+// ============================================================================
+// Provider Citation Tests
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { requestUrl } from "obsidian";
+import { createMockSettings } from "../__mocks__/services";
+import { FAKE_API_KEYS, mockFetchEvents, mockRequestUrl } from "../__mocks__/requests";
+import type { AICallOptions, AICitation } from "./ai-provider";
+import { mergeCitations } from "./ai-provider";
+import { GeminiProvider } from "./gemini-provider";
+import { OpenAIProvider } from "./openai-provider";
+import { AnthropicProvider } from "./anthropic-provider";
+import { OpenRouterProvider } from "./openrouter-provider";
+
+const SETTINGS = createMockSettings(FAKE_API_KEYS);
+
+/** Search-enabled options that collect every reported citation */
+function collecting(): { options: AICallOptions; citations: AICitation[] } {
+  const citations: AICitation[] = [];
+  return { options: { useSearch: true, onCitations: (reported) => citations.push(...reported) }, citations };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("mergeCitations", () => {
+  it("keeps the first of each URL, fills gaps from duplicates and drops non-web links", () => {
+    expect(
+      mergeCitations(
+        [{ url: "https://a.co", title: "A" }, { url: "javascript:alert(1)" }],
+        [{ url: "https://a.co", title: "Other", snippet: "quote" }, { url: " https://b.co ", title: " " }]
+      )
+    ).toEqual([{ url: "https://a.co", title: "A", snippet: "quote" }, { url: "https://b.co" }]);
+  });
+});
+
+describe("provider citations", () => {
+  beforeEach(() => {
+    vi.mocked(requestUrl).mockReset();
+  });
+
+  it("Gemini reads groundingMetadata chunks with their supported segments", async () => {
+    mockRequestUrl({
+      json: {
+        candidates: [
+          {
+            content: { parts: [{ text: "Northwind raised $40M." }] },
+            groundingMetadata: {
+              groundingChunks: [
+                { web: { uri: "https://vertexaisearch.cloud.google.com/grounding-api-redirect/abc", title: "northwind.io" } },
+                { web: { uri: "https://vertexaisearch.cloud.google.com/grounding-api-redirect/def", title: "news.example.com" } },
+              ],
+              groundingSupports: [{ segment: { text: "Northwind raised $40M." }, groundingChunkIndices: [1] }],
+            },
+          },
+        ],
+      },
+    });
+    const { options, citations } = collecting();
+
+    await new GeminiProvider(SETTINGS).callModel("Sys", "Funding?", "gemini-flash-latest", options);
+
+    expect(citations).toEqual([
+      { url: "https://vertexaisearch.cloud.google.com/grounding-api-redirect/abc", title: "northwind.io" },
+      {
+        url: "https://vertexaisearch.cloud.google.com/grounding-api-redirect/def",
+        title: "news.example.com",
+        snippet: "Northwind raised $40M.",
+      },
+    ]);
+  });
+
+  it("OpenAI reads url_citation annotations and the span they cover", async () => {
+    const text = "Ann leads platform (northwind.io).";
+    mockRequestUrl({
+      json: {
+        output: [
+          { type: "web_search_call", status: "completed" },
+          {
+            type: "message",
+            content: [
+              {
+                type: "output_text",
+                text,
+                annotations: [
+                  { type: "url_citation", url: "https://northwind.io/team", title: "Team", start_index: 20, end_index: 32 },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    });
+    const { options, citations } = collecting();
+
+    await new OpenAIProvider(SETTINGS).callModel("Sys", "Who?", "gpt-5", options);
+
+    expect(citations).toEqual([{ url: "https://northwind.io/team", title: "Team", snippet: "northwind.io" }]);
+  });
+
+  it("Anthropic lists cited sources before the other search results", async () => {
+    mockRequestUrl({
+      json: {
+        content: [
+          { type: "server_tool_use", id: "s1", name: "web_search", input: { query: "Northwind" } },
+          {
+            type: "web_search_tool_result",
+            tool_use_id: "s1",
+            content: [
+              { type: "web_search_result", url: "https://other.example.com", title: "Other" },
+              { type: "web_search_result", url: "https://northwind.io/team", title: "Team" },
+            ],
+          },
+          {
+            type: "text",
+            text: "Ann leads platform.",
+            citations: [
+              { type: "web_search_result_location", url: "https://northwind.io/team", title: "Team", cited_text: "Ann Lee, VP" },
+            ],
+          },
+        ],
+      },
+    });
+    const { options, citations } = collecting();
+
+    const text = await new AnthropicProvider(SETTINGS).callModel("Sys", "Who?", "claude-sonnet-4-5", options);
+
+    expect(text).toBe("Ann leads platform.");
+    expect(citations).toEqual([
+      { url: "https://northwind.io/team", title: "Team", snippet: "Ann Lee, VP" },
+      { url: "https://other.example.com", title: "Other" },
+    ]);
+  });
+
+  it("Anthropic collects citations from a stream", async () => {
+    mockFetchEvents([
+      {
+        type: "content_block_start",
+        content_block: {
+          type: "web_search_tool_result",
+          content: [{ type: "web_search_result", url: "https://northwind.io/team", title: "Team" }],
+        },
+      },
+      { type: "content_block_delta", delta: { type: "text_delta", text: "Ann leads platform." } },
+      {
+        type: "content_block_delta",
+        delta: { type: "citations_delta", citation: { url: "https://northwind.io/team", cited_text: "Ann Lee, VP" } },
+      },
+    ]);
+    const { options, citations } = collecting();
+
+    await new AnthropicProvider(SETTINGS).streamModel("Sys", "Who?", "claude-sonnet-4-5", () => {}, options);
+
+    expect(citations).toEqual([{ url: "https://northwind.io/team", title: "Team", snippet: "Ann Lee, VP" }]);
+  });
+
+  it("OpenRouter reads message annotations", async () => {
+    mockRequestUrl({
+      json: {
+        choices: [
+          {
+            message: {
+              content: "Ann leads platform.",
+              annotations: [
+                { type: "url_citation", url_citation: { url: "https://northwind.io/team", title: "Team", content: "Ann Lee" } },
+              ],
+            },
+          },
+        ],
+      },
+    });
+    const { options, citations } = collecting();
+
+    await new OpenRouterProvider(SETTINGS).callModel("Sys", "Who?", "openai/gpt-4o", options);
+
+    expect(citations).toEqual([{ url: "https://northwind.io/team", title: "Team", snippet: "Ann Lee" }]);
+  });
+
+  it("reports nothing when a response has no search metadata", async () => {
+    mockRequestUrl({ json: { candidates: [{ content: { parts: [{ text: "Hi" }] } }] } });
+    const onCitations = vi.fn();
+
+    await new GeminiProvider(SETTINGS).callModel("Sys", "Hi", "gemini-flash-latest", { onCitations });
+
+    expect(onCitations).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+// ============================================================================
+// Provider Embedding Tests
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { requestUrl } from "obsidian";
+import { createMockSettings } from "../__mocks__/services";
+import { FAKE_API_KEYS, mockRequestUrl } from "../__mocks__/requests";
+import { GeminiProvider } from "./gemini-provider";
+import { OpenAIProvider } from "./openai-provider";
+import { AnthropicProvider } from "./anthropic-provider";
+import { LocalProvider } from "./local-provider";
+
+const SETTINGS = createMockSettings({ ...FAKE_API_KEYS, localProvider: { baseUrl: "http://127.0.0.1:8080/v1/" } });
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("provider embeddings", () => {
+  beforeEach(() => {
+    vi.mocked(requestUrl).mockReset();
+  });
+
+  it("Gemini batches inputs with the retrieval task type", async () => {
+    const requests = mockRequestUrl({ json: { embeddings: [{ values: [1, 0] }, { values: [0, 1] }] } });
+
+    const vectors = await new GeminiProvider(SETTINGS).embed(["a", "b"], "gemini-embedding-001", {
+      embedTask: "document",
+    });
+
+    expect(vectors).toEqual([[1, 0], [0, 1]]);
+    expect(requests[0].url).toContain("models/gemini-embedding-001:batchEmbedContents");
+    expect(requests[0].body.requests[1]).toEqual({
+      model: "models/gemini-embedding-001",
+      content: { parts: [{ text: "b" }] },
+      taskType: "RETRIEVAL_DOCUMENT",
+    });
+  });
+
+  it("OpenAI returns vectors in input order and reports usage", async () => {
+    const requests = mockRequestUrl({
+      json: {
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+        usage: { prompt_tokens: 8, total_tokens: 8 },
+      },
+    });
+    const onUsage = vi.fn();
+
+    const vectors = await new OpenAIProvider(SETTINGS).embed(["a", "b"], "text-embedding-3-small", { onUsage });
+
+    expect(vectors).toEqual([[1, 0], [0, 1]]);
+    expect(requests[0]).toMatchObject({
+      url: "https://api.openai.com/v1/embeddings",
+      body: { model: "text-embedding-3-small", input: ["a", "b"] },
+    });
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 8, outputTokens: 0, thinkingTokens: 0 });
+  });
+
+  it("the local provider posts to the server's embeddings endpoint without the prefix", async () => {
+    const requests = mockRequestUrl({ json: { data: [{ index: 0, embedding: [0.5, 0.5] }] } });
+
+    const vectors = await new LocalProvider(SETTINGS).embed(["a"], "local:nomic-embed-text");
+
+    expect(vectors).toEqual([[0.5, 0.5]]);
+    expect(requests[0]).toMatchObject({
+      url: "http://127.0.0.1:8080/v1/embeddings",
+      body: { model: "nomic-embed-text", input: ["a"] },
+    });
+  });
+
+  it("fails when the server returns fewer vectors than inputs", async () => {
+    mockRequestUrl({ json: { data: [{ index: 0, embedding: [1, 0] }] } });
+    const onError = vi.fn();
+
+    expect(await new OpenAIProvider(SETTINGS).embed(["a", "b"], "text-embedding-3-small", { onError })).toBeNull();
+    expect(onError).toHaveBeenCalled();
+  });
+
+  it("Anthropic has no embedding models", async () => {
+    expect(await new AnthropicProvider(SETTINGS).embed(["a"], "claude-sonnet-4-5")).toBeNull();
+    expect(requestUrl).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,182 @@
+// ============================================================================
+// Provider Tool Calling Tests
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { requestUrl } from "obsidian";
+import { createMockSettings } from "../__mocks__/services";
+import { FAKE_API_KEYS, mockRequestUrl } from "../__mocks__/requests";
+import type { AIToolDefinition, AIToolRound } from "./ai-provider";
+import { parseToolArguments } from "./ai-provider";
+import { GeminiProvider } from "./gemini-provider";
+import { OpenAIProvider } from "./openai-provider";
+import { AnthropicProvider } from "./anthropic-provider";
+import { OpenRouterProvider } from "./openrouter-provider";
+
+const TOOL: AIToolDefinition = {
+  name: "find_person_by_email",
+  description: "Find a person",
+  parameters: { type: "object", properties: { email: { type: "string" } }, required: ["email"] },
+};
+
+const SETTINGS = createMockSettings(FAKE_API_KEYS);
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("parseToolArguments", () => {
+  it("parses JSON strings and passes objects through", () => {
+    expect(parseToolArguments('{"email":"a@b.co"}')).toEqual({ email: "a@b.co" });
+    expect(parseToolArguments({ email: "a@b.co" })).toEqual({ email: "a@b.co" });
+  });
+
+  it("turns invalid or non-object arguments into {}", () => {
+    expect(parseToolArguments("{not json")).toEqual({});
+    expect(parseToolArguments("[1,2]")).toEqual({});
+    expect(parseToolArguments(undefined)).toEqual({});
+  });
+});
+
+describe("provider tool mapping", () => {
+  beforeEach(() => {
+    vi.mocked(requestUrl).mockReset();
+  });
+
+  it("Gemini declares functions and reads functionCall parts", async () => {
+    const requests = mockRequestUrl({
+      json: {
+        candidates: [
+          { content: { role: "model", parts: [{ functionCall: { name: TOOL.name, args: { email: "a@b.co" } } }] } },
+        ],
+      },
+    });
+    const response = await new GeminiProvider(SETTINGS).callModelWithTools("Sys", "Who?", "gemini-flash-latest", {
+      tools: [TOOL],
+    });
+
+    expect(requests[0].body.tools).toEqual([
+      { functionDeclarations: [{ name: TOOL.name, description: TOOL.description, parametersJsonSchema: TOOL.parameters }] },
+    ]);
+    expect(requests[0].body.toolConfig).toEqual({ functionCallingConfig: { mode: "AUTO" } });
+    expect(response?.text).toBeNull();
+    expect(response?.calls).toEqual([{ id: `${TOOL.name}_0`, name: TOOL.name, arguments: { email: "a@b.co" } }]);
+  });
+
+  it("Gemini replays rounds as functionResponse turns", async () => {
+    const requests = mockRequestUrl({ json: { candidates: [{ content: { parts: [{ text: "Done" }] } }] } });
+    const round: AIToolRound = {
+      assistant: { role: "model", parts: [{ functionCall: { name: TOOL.name, args: {} } }] },
+      calls: [{ id: "c1", name: TOOL.name, arguments: {} }],
+      results: [{ callId: "c1", name: TOOL.name, content: "Person: Ann" }],
+    };
+    const response = await new GeminiProvider(SETTINGS).callModelWithTools("Sys", "Who?", "gemini-flash-latest", {
+      tools: [TOOL],
+      toolRounds: [round],
+      toolChoice: "none",
+    });
+
+    expect(requests[0].body.contents.slice(1)).toEqual([
+      round.assistant,
+      { role: "user", parts: [{ functionResponse: { name: TOOL.name, response: { content: "Person: Ann" } } }] },
+    ]);
+    expect(requests[0].body.toolConfig.functionCallingConfig.mode).toBe("NONE");
+    expect(response?.text).toBe("Done");
+  });
+
+  it("Gemini leaves out functions when Google Search is on", async () => {
+    const requests = mockRequestUrl({ json: { candidates: [{ content: { parts: [{ text: "ok" }] } }] } });
+    await new GeminiProvider(SETTINGS).callModelWithTools("Sys", "Who?", "gemini-flash-latest", {
+      tools: [TOOL],
+      useSearch: true,
+    });
+    expect(requests[0].body.tools).toEqual([{ googleSearch: {} }]);
+    expect(requests[0].body.toolConfig).toBeUndefined();
+  });
+
+  it("OpenAI sends function tools and replays function_call_output items", async () => {
+    const requests = mockRequestUrl({
+      json: {
+        output: [{ type: "function_call", id: "fc_1", call_id: "call_1", name: TOOL.name, arguments: '{"email":"a@b.co"}' }],
+      },
+    });
+    const provider = new OpenAIProvider(SETTINGS);
+    const first = await provider.callModelWithTools("Sys", "Who?", "gpt-5", { tools: [TOOL] });
+
+    expect(requests[0].body.tools).toEqual([
+      { type: "function", name: TOOL.name, description: TOOL.description, parameters: TOOL.parameters, strict: false },
+    ]);
+    expect(requests[0].body.tool_choice).toBe("auto");
+    expect(first?.calls).toEqual([{ id: "call_1", name: TOOL.name, arguments: { email: "a@b.co" } }]);
+
+    await provider.callModelWithTools("Sys", "Who?", "gpt-5", {
+      tools: [TOOL],
+      toolRounds: [
+        { assistant: first?.assistant, calls: first?.calls ?? [], results: [{ callId: "call_1", name: TOOL.name, content: "Ann" }] },
+      ],
+    });
+    expect(requests[1].body.input.slice(-2)).toEqual([
+      { type: "function_call", id: "fc_1", call_id: "call_1", name: TOOL.name, arguments: '{"email":"a@b.co"}' },
+      { type: "function_call_output", call_id: "call_1", output: "Ann" },
+    ]);
+  });
+
+  it("Anthropic sends input_schema tools and tool_result blocks", async () => {
+    const requests = mockRequestUrl({
+      json: {
+        content: [
+          { type: "text", text: "Let me check." },
+          { type: "tool_use", id: "toolu_1", name: TOOL.name, input: { email: "a@b.co" } },
+        ],
+      },
+    });
+    const provider = new AnthropicProvider(SETTINGS);
+    const first = await provider.callModelWithTools("Sys", "Who?", "claude-sonnet-4-5-20250929", {
+      tools: [TOOL],
+      jsonSchema: { name: "answer", schema: { type: "object" } },
+    });
+
+    expect(requests[0].body.tools).toEqual([{ name: TOOL.name, description: TOOL.description, input_schema: TOOL.parameters }]);
+    expect(requests[0].body.tool_choice).toEqual({ type: "auto" });
+    expect(first?.text).toBe("Let me check.");
+    expect(first?.calls).toEqual([{ id: "toolu_1", name: TOOL.name, arguments: { email: "a@b.co" } }]);
+
+    await provider.callModelWithTools("Sys", "Who?", "claude-sonnet-4-5-20250929", {
+      tools: [TOOL],
+      toolChoice: "none",
+      toolRounds: [
+        {
+          assistant: first?.assistant,
+          calls: first?.calls ?? [],
+          results: [{ callId: "toolu_1", name: TOOL.name, content: "No such person", isError: true }],
+        },
+      ],
+    });
+    expect(requests[1].body.tool_choice).toEqual({ type: "none" });
+    expect(requests[1].body.messages.slice(-1)).toEqual([
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "No such person", is_error: true }] },
+    ]);
+  });
+
+  it("OpenRouter sends chat completions tools and tool messages", async () => {
+    const assistant = {
+      role: "assistant",
+      content: null,
+      tool_calls: [{ id: "call_1", type: "function", function: { name: TOOL.name, arguments: '{"email":"a@b.co"}' } }],
+    };
+    const requests = mockRequestUrl({ json: { choices: [{ message: assistant }] } });
+    const provider = new OpenRouterProvider(SETTINGS);
+    const first = await provider.callModelWithTools("Sys", "Who?", "openai/gpt-4o", { tools: [TOOL] });
+
+    expect(requests[0].body.tools).toEqual([
+      { type: "function", function: { name: TOOL.name, description: TOOL.description, parameters: TOOL.parameters } },
+    ]);
+    expect(first?.calls).toEqual([{ id: "call_1", name: TOOL.name, arguments: { email: "a@b.co" } }]);
+
+    await provider.callModelWithTools("Sys", "Who?", "openai/gpt-4o", {
+      tools: [TOOL],
+      toolRounds: [{ assistant, calls: first?.calls ?? [], results: [{ callId: "call_1", name: TOOL.name, content: "Ann" }] }],
+    });
+    expect(requests[1].body.messages.slice(-2)).toEqual([assistant, { role: "tool", tool_call_id: "call_1", content: "Ann" }]);
+  });
+});
@@ -0,0 +1,107 @@
+// ============================================================================
+// Response Cache Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { createMockSettings } from "../__mocks__/services";
+import type { PluginSettings } from "../types";
+import { ResponseCache, buildCacheKey, type ResponseCacheStorage } from "./response-cache";
+
+function memoryStorage(files: Map<string, string> = new Map()): ResponseCacheStorage {
+  return {
+    exists: async (path: string) => files.has(path),
+    read: async (path: string) => files.get(path) ?? "",
+    write: async (path: string, data: string) => {
+      files.set(path, data);
+    },
+  };
+}
+
+function makeSettings(overrides: Partial<PluginSettings["responseCache"]> = {}): PluginSettings {
+  return createMockSettings({ responseCache: { enabled: true, ...overrides } });
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("buildCacheKey", () => {
+  it("is stable for identical requests", () => {
+    expect(buildCacheKey("gpt-4o", "sys", "user", { temperature: 0.2 })).toBe(
+      buildCacheKey("gpt-4o", "sys", "user", { temperature: 0.2 })
+    );
+  });
+
+  it("changes with model, prompts and generation options", () => {
+    const base = buildCacheKey("gpt-4o", "sys", "user");
+    expect(buildCacheKey("gpt-4o-mini", "sys", "user")).not.toBe(base);
+    expect(buildCacheKey("gpt-4o", "sys!", "user")).not.toBe(base);
+    expect(buildCacheKey("gpt-4o", "sys", "user!")).not.toBe(base);
+    expect(buildCacheKey("gpt-4o", "sys", "user", { useSearch: true })).not.toBe(base);
+    expect(
+      buildCacheKey("gpt-4o", "sys", "user", { history: [{ role: "user", content: "earlier" }] })
+    ).not.toBe(base);
+  });
+
+  it("changes with attachment contents", () => {
+    const attach = (data: string) => ({
+      attachments: [{ kind: "image" as const, mimeType: "image/png", data, name: "shot.png" }],
+    });
+    const base = buildCacheKey("gpt-4o", "sys", "user", attach("AAAA"));
+    expect(buildCacheKey("gpt-4o", "sys", "user")).not.toBe(base);
+    expect(buildCacheKey("gpt-4o", "sys", "user", attach("AAAB"))).not.toBe(base);
+    expect(buildCacheKey("gpt-4o", "sys", "user", attach("AAAA"))).toBe(base);
+  });
+
+  it("ignores bookkeeping options", () => {
+    expect(buildCacheKey("gpt-4o", "sys", "user", { action: "o3Coach", timeoutMs: 5, bypassCache: true })).toBe(
+      buildCacheKey("gpt-4o", "sys", "user")
+    );
+  });
+});
+
+describe("ResponseCache", () => {
+  it("uses per-action TTLs and caps web-search calls", () => {
+    const cache = new ResponseCache(
+      memoryStorage(),
+      "cache.json",
+      makeSettings({ defaultTtlHours: 24, searchTtlHours: 6, taskTtlHours: { orgResearch: 72, council: 0 } })
+    );
+
+    expect(cache.getTtlMs({})).toBe(24 * HOUR_MS);
+    expect(cache.getTtlMs({ action: "orgResearch" })).toBe(72 * HOUR_MS);
+    expect(cache.getTtlMs({ action: "orgResearch", useSearch: true })).toBe(6 * HOUR_MS);
+    expect(cache.getTtlMs({ action: "council" })).toBe(0);
+  });
+
+  it("drops expired entries", () => {
+    const cache = new ResponseCache(memoryStorage(), "cache.json", makeSettings());
+    cache.set("k", { model: "gpt-4o", text: "hi" }, HOUR_MS);
+
+    expect(cache.get("k")?.text).toBe("hi");
+    expect(cache.get("k", Date.now() + 2 * HOUR_MS)).toBeNull();
+    expect(cache.size()).toBe(0);
+  });
+
+  it("evicts the oldest entries beyond maxEntries", () => {
+    const cache = new ResponseCache(memoryStorage(), "cache.json", makeSettings({ maxEntries: 2 }));
+    cache.set("a", { model: "m", text: "1" }, HOUR_MS);
+    cache.set("b", { model: "m", text: "2" }, HOUR_MS);
+    cache.set("c", { model: "m", text: "3" }, HOUR_MS);
+
+    expect(cache.size()).toBe(2);
+    expect(cache.get("c")?.text).toBe("3");
+  });
+
+  it("persists to storage and reloads", async () => {
+    const files = new Map<string, string>();
+    const cache = new ResponseCache(memoryStorage(files), "plugins/gsd/response-cache.json", makeSettings());
+    cache.set("k", { model: "gpt-4o", text: "hi", action: "reference" }, HOUR_MS);
+    await cache.flush();
+
+    const reloaded = new ResponseCache(memoryStorage(files), "plugins/gsd/response-cache.json", makeSettings());
+    await reloaded.load();
+    expect(reloaded.get("k")).toMatchObject({ model: "gpt-4o", text: "hi", action: "reference" });
+
+    expect(await reloaded.clear()).toBe(1);
+    expect(JSON.parse(files.get("plugins/gsd/response-cache.json") ?? "{}").entries).toEqual({});
+  });
+});
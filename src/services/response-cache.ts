@@ -0,0 +1,236 @@
+// ============================================================================
+// Response Cache - Prompt-hash cache for identical AI requests
+// ============================================================================
+
+import type { DataAdapter } from "obsidian";
+import type { PluginSettings, ResponseCacheEntry, ResponseCacheStore } from "../types";
+import type { AICallOptions } from "./ai-provider";
+import { handleError } from "../utils/error-handler";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The slice of Obsidian's DataAdapter the cache needs (files in the plugin folder)
+ */
+export type ResponseCacheStorage = Pick<DataAdapter, "exists" | "read" | "write">;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SAVE_DEBOUNCE_MS = 2000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Hash everything that changes the response: model (or chain), prompts and
+ * generation options. Bookkeeping options (action, timeouts, callbacks) are excluded.
+ */
+export function buildCacheKey(
+  model: string,
+  system: string,
+  user: string,
+  options: AICallOptions = {}
+): string {
+  const material = JSON.stringify([
+    model.trim(),
+    system,
+    user,
+    options.useSearch ?? false,
+    options.temperature ?? null,
+    options.maxOutputTokens ?? null,
+    options.thinkingBudget ?? null,
+    options.history ?? [],
+    options.jsonSchema ?? null,
+    // Attachment bytes are hashed on their own to keep the key material small
+    (options.attachments ?? []).map((attachment) => [attachment.mimeType, hashString(attachment.data, 0)]),
+  ]);
+  return hashString(material, 0x9e3779b9) + hashString(material, 0x85ebca6b);
+}
+
+/**
+ * 53-bit string hash (cyrb53) as 14 hex chars
+ */
+export function hashString(value: string, seed: number): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+// ============================================================================
+// ResponseCache Class
+// ============================================================================
+
+/**
+ * Response Cache
+ * Stores model responses keyed by prompt hash with per-action TTLs.
+ * Persisted as JSON inside the plugin folder (not the vault, so it doesn't sync as a note).
+ */
+export class ResponseCache {
+  private storage: ResponseCacheStorage;
+  private path: string;
+  private settings: PluginSettings;
+  private store: ResponseCacheStore = { version: 1, entries: {} };
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(storage: ResponseCacheStorage, path: string, settings: PluginSettings) {
+    this.storage = storage;
+    this.path = path;
+    this.settings = settings;
+  }
+
+  /**
+   * Update settings reference (called when settings change)
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Load the cache file (missing or invalid files start an empty cache)
+   */
+  async load(): Promise<void> {
+    try {
+      if (!(await this.storage.exists(this.path))) return;
+      const parsed = JSON.parse(await this.storage.read(this.path)) as ResponseCacheStore;
+      if (parsed?.version === 1 && parsed.entries) {
+        this.store = { version: 1, entries: { ...parsed.entries, ...this.store.entries } };
+      }
+    } catch (error: unknown) {
+      handleError("Response cache load failed", error, { additionalContext: { path: this.path } });
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.settings.responseCache?.enabled === true;
+  }
+
+  /**
+   * TTL for a call in milliseconds (0 = don't cache).
+   * Web-search calls are capped at the shorter search TTL.
+   */
+  getTtlMs(options: AICallOptions = {}): number {
+    const cfg = this.settings.responseCache;
+    if (!cfg) return 0;
+    const taskTtl = options.action ? cfg.taskTtlHours?.[options.action] : undefined;
+    let hours = taskTtl ?? cfg.defaultTtlHours;
+    if (options.useSearch) {
+      hours = Math.min(hours, cfg.searchTtlHours);
+    }
+    return hours > 0 ? hours * HOUR_MS : 0;
+  }
+
+  /**
+   * Fresh entry for a key, or null (expired entries are dropped)
+   */
+  get(key: string, now: number = Date.now()): ResponseCacheEntry | null {
+    const entry = this.store.entries[key];
+    if (!entry) return null;
+    if (new Date(entry.expiresAt).getTime() <= now) {
+      delete this.store.entries[key];
+      this.scheduleSave();
+      return null;
+    }
+    return entry;
+  }
+
+  set(
+    key: string,
+    entry: { model: string; text: string; citations?: ResponseCacheEntry["citations"]; action?: string },
+    ttlMs: number
+  ): void {
+    if (ttlMs <= 0) return;
+    const now = Date.now();
+    this.store.entries[key] = {
+      model: entry.model,
+      text: entry.text,
+      ...(entry.citations?.length ? { citations: entry.citations } : {}),
+      action: entry.action || "other",
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+    };
+    this.evict(now);
+    this.scheduleSave();
+  }
+
+  size(): number {
+    return Object.keys(this.store.entries).length;
+  }
+
+  /**
+   * Remove every entry and persist immediately
+   * @returns Number of entries removed
+   */
+  async clear(): Promise<number> {
+    const removed = this.size();
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.store.entries = {};
+    await this.save();
+    return removed;
+  }
+
+  /**
+   * Write pending changes now (called on unload)
+   */
+  async flush(): Promise<void> {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.save();
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Drop expired entries, then the oldest beyond maxEntries
+   */
+  private evict(now: number): void {
+    const entries = this.store.entries;
+    for (const [key, entry] of Object.entries(entries)) {
+      if (new Date(entry.expiresAt).getTime() <= now) {
+        delete entries[key];
+      }
+    }
+
+    const maxEntries = this.settings.responseCache?.maxEntries ?? 0;
+    const keys = Object.keys(entries);
+    if (maxEntries <= 0 || keys.length <= maxEntries) return;
+    keys
+      .sort((a, b) => entries[a].createdAt.localeCompare(entries[b].createdAt))
+      .slice(0, keys.length - maxEntries)
+      .forEach((key) => delete entries[key]);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.storage.write(this.path, JSON.stringify(this.store));
+    } catch (error: unknown) {
+      handleError("Response cache save failed", error, { additionalContext: { path: this.path } });
+    }
+  }
+}
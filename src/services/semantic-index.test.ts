@@ -0,0 +1,198 @@
+// ============================================================================
+// Semantic Index Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createMockSettings } from "../__mocks__/services";
+import type { PluginSettings } from "../types";
+import { createMockApp } from "../__mocks__/obsidian";
+import type { App, TFile } from "obsidian";
+import type { AIService } from "./ai-service";
+import { SemanticIndex, chunkNote, formatPassages, type SemanticIndexStorage } from "./semantic-index";
+
+function memoryStorage(files: Map<string, string> = new Map()): SemanticIndexStorage {
+  return {
+    exists: async (path: string) => files.has(path),
+    read: async (path: string) => files.get(path) ?? "",
+    write: async (path: string, data: string) => {
+      files.set(path, data);
+    },
+  };
+}
+
+function makeSettings(overrides: Partial<PluginSettings["semanticIndex"]> = {}): PluginSettings {
+  return createMockSettings({ semanticIndex: { enabled: true, minScore: 0.1, ...overrides } });
+}
+
+/** Bag-of-words stand-in for an embedding model: one dimension per vocabulary word */
+const VOCABULARY = ["pricing", "hiring", "roadmap", "budget", "launch"];
+
+function fakeEmbedding(text: string): number[] {
+  const words = text.toLowerCase().split(/\W+/);
+  return VOCABULARY.map((word) => words.filter((w) => w === word).length);
+}
+
+function makeIndex(settings: PluginSettings = makeSettings()) {
+  const app = createMockApp();
+  const embed = vi.fn(async (texts: string[]) => texts.map(fakeEmbedding));
+  const files = new Map<string, string>();
+  const index = new SemanticIndex(
+    app as unknown as App,
+    memoryStorage(files),
+    "semantic-index.json",
+    settings,
+    { embed } as unknown as AIService
+  );
+  return { app, embed, files, index, settings };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("chunkNote", () => {
+  it("drops frontmatter and splits at headings", () => {
+    const note = "---\ntags: [meeting]\n---\nIntro paragraph before any heading.\n## Pricing\nWe discussed the pricing model.\n## Empty\n";
+
+    expect(chunkNote(note, 1200)).toEqual([
+      { heading: "", text: "Intro paragraph before any heading." },
+      { heading: "Pricing", text: "We discussed the pricing model." },
+    ]);
+  });
+
+  it("splits long sections at paragraph boundaries", () => {
+    const paragraph = "word ".repeat(30).trim();
+    const chunks = chunkNote(`## Notes\n${paragraph}\n\n${paragraph}\n\n${paragraph}`, 200);
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks.every((chunk) => chunk.heading === "Notes" && chunk.text === paragraph)).toBe(true);
+  });
+});
+
+describe("formatPassages", () => {
+  it("links each passage to its note and heading", () => {
+    expect(
+      formatPassages([
+        { path: "Meetings/Sync.md", source: "meetings", heading: "Pricing", text: "Raise it", score: 0.9 },
+        { path: "People/Ann.md", source: "people", heading: "", text: "VP", score: 0.5 },
+      ])
+    ).toBe("-- [[Meetings/Sync#Pricing]] --\nRaise it\n\n-- [[People/Ann]] --\nVP");
+  });
+});
+
+describe("SemanticIndex", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("embeds indexed notes and returns the passages closest to a query", async () => {
+    const { app, index } = makeIndex();
+    app.vault._setFile("Meetings/2026-03-02 Sync.md", "## Pricing\nPricing pricing for the launch.\n## Hiring\nHiring plan for Q3 hiring.");
+    app.vault._setFile("2026-03-03.md", "Budget review and budget cuts today.");
+    app.vault._setFile("Projects/Roadmap.md", "Roadmap roadmap roadmap notes here.");
+
+    await index.build();
+    const results = await index.search("hiring");
+
+    expect(index.getStats()).toMatchObject({ notes: 2, passages: 3 });
+    expect(results[0]).toMatchObject({ path: "Meetings/2026-03-02 Sync.md", source: "meetings", heading: "Hiring" });
+    expect(results.map((result) => result.path)).not.toContain("Projects/Roadmap.md");
+  });
+
+  it("filters by note kind and excluded paths", async () => {
+    const { app, index } = makeIndex();
+    app.vault._setFile("Meetings/Sync.md", "Budget and launch timing discussed.");
+    app.vault._setFile("2026-03-03.md", "Budget review and budget cuts today.");
+    await index.build();
+
+    expect((await index.search("budget", { sources: ["meetings"] })).map((r) => r.path)).toEqual(["Meetings/Sync.md"]);
+    expect((await index.search("budget", { excludePaths: ["2026-03-03.md"] })).map((r) => r.path)).toEqual([
+      "Meetings/Sync.md",
+    ]);
+  });
+
+  it("re-embeds only notes whose content changed", async () => {
+    const { app, embed, index } = makeIndex();
+    const changed = app.vault._setFile("Meetings/A.md", "Pricing discussion for the launch.");
+    const touched = app.vault._setFile("Meetings/B.md", "Hiring discussion for the team.");
+    await index.build();
+    embed.mockClear();
+
+    await app.vault.modify(changed, "Budget discussion for the launch.");
+    changed.stat.mtime += 1000;
+    touched.stat.mtime += 1000;
+    await index.build();
+
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed.mock.calls[0][0][0]).toContain("Budget discussion");
+    expect((await index.search("budget"))[0].path).toBe("Meetings/A.md");
+  });
+
+  it("debounces note changes before embedding", async () => {
+    vi.useFakeTimers();
+    const { app, embed, index } = makeIndex();
+    await index.build();
+    const file = app.vault._setFile("People/Ann Lee.md", "Ann owns the roadmap and launch.");
+
+    index.queueFile(file as unknown as TFile);
+    index.queueFile(file as unknown as TFile);
+    expect(embed).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(index.getStats()).toMatchObject({ notes: 1, pending: 0 });
+  });
+
+  it("forgets deleted notes and keeps vectors across renames", async () => {
+    const { app, embed, index } = makeIndex();
+    const kept = app.vault._setFile("Meetings/A.md", "Pricing discussion for the launch.");
+    app.vault._setFile("Meetings/B.md", "Hiring discussion for the team.");
+    await index.build();
+    embed.mockClear();
+
+    index.removeFile("Meetings/B.md");
+    await app.vault.rename(kept, "Meetings/Archive/A.md");
+    index.renameFile(kept as unknown as TFile, "Meetings/A.md");
+
+    expect(index.getStats()).toMatchObject({ notes: 1 });
+    expect((await index.search("pricing")).map((r) => r.path)).toEqual(["Meetings/Archive/A.md"]);
+  });
+
+  it("persists the index and discards it when the model changes", async () => {
+    const { app, files, index, settings } = makeIndex();
+    app.vault._setFile("Meetings/A.md", "Pricing discussion for the launch.");
+    await index.build();
+    await index.flush();
+    expect(JSON.parse(files.get("semantic-index.json")!).files["Meetings/A.md"].passages).toHaveLength(1);
+
+    const reloaded = new SemanticIndex(
+      app as unknown as App,
+      memoryStorage(files),
+      "semantic-index.json",
+      settings,
+      { embed: vi.fn(async (texts: string[]) => texts.map(fakeEmbedding)) } as unknown as AIService
+    );
+    await reloaded.load();
+    expect((await reloaded.search("pricing"))[0].path).toBe("Meetings/A.md");
+
+    const other = new SemanticIndex(
+      app as unknown as App,
+      memoryStorage(files),
+      "semantic-index.json",
+      makeSettings({ model: "text-embedding-3-small" }),
+      { embed: vi.fn() } as unknown as AIService
+    );
+    await other.load();
+    expect(other.getStats().notes).toBe(0);
+  });
+
+  it("does nothing while disabled", async () => {
+    const { app, embed, index } = makeIndex(makeSettings({ enabled: false }));
+    app.vault._setFile("Meetings/A.md", "Pricing discussion for the launch.");
+
+    await index.build();
+
+    expect(await index.search("pricing")).toEqual([]);
+    expect(embed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,527 @@
+// ============================================================================
+// Semantic Index - Embedding index of vault notes for related-passage lookups
+// ============================================================================
+
+import { App, TFile } from "obsidian";
+import type { DataAdapter } from "obsidian";
+import type { AIRequestPriority, PluginSettings, SemanticIndexSource, SemanticIndexStore } from "../types";
+import type { AIService } from "./ai-service";
+import { hashString } from "./response-cache";
+import { handleError } from "../utils/error-handler";
+import { decodeVector, dotProduct, encodeVector, normalizeVector } from "../utils/vectors";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The slice of Obsidian's DataAdapter the index needs (files in the plugin folder)
+ */
+export type SemanticIndexStorage = Pick<DataAdapter, "exists" | "read" | "write">;
+
+/**
+ * A passage of a note before it is embedded
+ */
+export interface NoteChunk {
+  /** Heading the passage sits under ("" before the first heading) */
+  heading: string;
+  text: string;
+}
+
+/**
+ * A passage returned by a lookup
+ */
+export interface SemanticPassage {
+  path: string;
+  source: SemanticIndexSource;
+  heading: string;
+  text: string;
+  /** Cosine similarity to the query */
+  score: number;
+}
+
+export interface SemanticSearchOptions {
+  /** Passages to return (default: the topK setting) */
+  topK?: number;
+  /** Only passages from these note kinds */
+  sources?: SemanticIndexSource[];
+  /** Notes the caller already has in full */
+  excludePaths?: string[];
+  /** Calling action recorded in the usage ledger for the query embedding */
+  action?: string;
+  priority?: AIRequestPriority;
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SAVE_DEBOUNCE_MS = 2000;
+/** Quiet period after the last change before a note is re-embedded (Obsidian saves while typing) */
+const UPDATE_DEBOUNCE_MS = 5000;
+/** Passages per embedding request */
+const EMBED_BATCH_SIZE = 32;
+/** Shorter passages (a lone link, an empty template field) aren't worth a vector */
+const MIN_CHUNK_CHARS = 20;
+/** Longer queries are cut (embedding models have input limits) */
+const MAX_QUERY_CHARS = 2000;
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+/**
+ * Split a note into passages: frontmatter is dropped, the body is split at headings,
+ * and sections longer than maxChars are split at paragraph, then line boundaries
+ */
+export function chunkNote(content: string, maxChars: number): NoteChunk[] {
+  const body = content.replace(/^---\n[\s\S]*?\n---(\n|$)/, "");
+  const sections: NoteChunk[] = [];
+  let heading = "";
+  let lines: string[] = [];
+
+  const flush = () => {
+    const text = lines.join("\n").trim();
+    if (text) sections.push({ heading, text });
+    lines = [];
+  };
+
+  for (const line of body.split("\n")) {
+    const match = line.match(/^#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (match) {
+      flush();
+      heading = match[1];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  const limit = Math.max(maxChars, 200);
+  return sections
+    .flatMap((section) => splitText(section.text, limit).map((text) => ({ heading: section.heading, text })))
+    .filter((chunk) => chunk.text.length >= MIN_CHUNK_CHARS);
+}
+
+/**
+ * Pack paragraphs (or lines of an oversized paragraph) into pieces of at most maxChars
+ */
+function splitText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const units: Array<{ text: string; joiner: string }> = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (paragraph.length <= maxChars) {
+      units.push({ text: paragraph, joiner: "\n\n" });
+      continue;
+    }
+    paragraph.split("\n").forEach((line, index) => {
+      const joiner = index === 0 ? "\n\n" : "\n";
+      for (let start = 0; start < Math.max(line.length, 1); start += maxChars) {
+        units.push({ text: line.slice(start, start + maxChars), joiner: start === 0 ? joiner : "" });
+      }
+    });
+  }
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const unit of units) {
+    if (current && current.length + unit.joiner.length + unit.text.length > maxChars) {
+      pieces.push(current.trim());
+      current = unit.text;
+    } else {
+      current = current ? `${current}${unit.joiner}${unit.text}` : unit.text;
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces.filter(Boolean);
+}
+
+/**
+ * Passages as prompt context: a "-- [[note#heading]] --" line above each passage
+ */
+export function formatPassages(passages: SemanticPassage[]): string {
+  return passages
+    .map((passage) => {
+      const link = `${passage.path.replace(/\.md$/, "")}${passage.heading ? `#${passage.heading}` : ""}`;
+      return `-- [[${link}]] --\n${passage.text}`;
+    })
+    .join("\n\n");
+}
+
+// ============================================================================
+// SemanticIndex Class
+// ============================================================================
+
+/**
+ * Semantic Index
+ * Embeds meetings, daily notes, references and People/Org notes passage by passage
+ * and answers "top-k related passages" lookups by cosine similarity. Notes are
+ * re-embedded only when their content changes. Persisted as JSON inside the plugin
+ * folder (not the vault, so it doesn't sync as a note).
+ */
+export class SemanticIndex {
+  private app: App;
+  private storage: SemanticIndexStorage;
+  private path: string;
+  private settings: PluginSettings;
+  private aiService: AIService;
+  private store: SemanticIndexStore;
+  /** Decoded vectors per note, in passage order */
+  private vectors: Map<string, Float32Array[]> = new Map();
+  private pending: Set<string> = new Set();
+  private running: Promise<void> | null = null;
+  private updateTimer: ReturnType<typeof setTimeout> | null = null;
+  private configTimer: ReturnType<typeof setTimeout> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Set by build(); vault events before the first build are ignored */
+  private ready = false;
+  /** Index settings as last applied */
+  private config: string;
+
+  constructor(app: App, storage: SemanticIndexStorage, path: string, settings: PluginSettings, aiService: AIService) {
+    this.app = app;
+    this.storage = storage;
+    this.path = path;
+    this.settings = settings;
+    this.aiService = aiService;
+    this.store = this.emptyStore();
+    this.config = JSON.stringify(settings.semanticIndex);
+  }
+
+  /**
+   * Update settings reference (called when settings change).
+   * After a quiet period (settings save on every keystroke), a new model or passage
+   * length discards the index and any change to what is indexed reconciles it with the vault.
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+    // The settings tab edits the shared settings object in place, so compare with a snapshot
+    const config = JSON.stringify(settings.semanticIndex);
+    if (config === this.config) return;
+    this.config = config;
+    if (!this.ready) return;
+
+    if (this.configTimer) clearTimeout(this.configTimer);
+    this.configTimer = setTimeout(() => {
+      this.configTimer = null;
+      if (!this.matchesStore()) this.reset();
+      void this.build();
+    }, UPDATE_DEBOUNCE_MS);
+  }
+
+  isEnabled(): boolean {
+    const cfg = this.settings.semanticIndex;
+    return cfg?.enabled === true && Boolean(cfg.model?.trim());
+  }
+
+  /**
+   * Load the index file (missing files, invalid files and files built with
+   * another model or passage length start an empty index)
+   */
+  async load(): Promise<void> {
+    try {
+      if (!(await this.storage.exists(this.path))) return;
+      const parsed = JSON.parse(await this.storage.read(this.path)) as SemanticIndexStore;
+      if (parsed?.version !== 1 || !parsed.files) return;
+      this.store = parsed;
+      if (!this.matchesStore()) {
+        this.reset();
+        return;
+      }
+      for (const [path, entry] of Object.entries(parsed.files)) {
+        this.vectors.set(path, entry.passages.map((passage) => decodeVector(passage.vector)));
+      }
+    } catch (error: unknown) {
+      handleError("Semantic index load failed", error, { additionalContext: { path: this.path } });
+    }
+  }
+
+  /**
+   * Reconcile the index with the vault: drop notes that are gone or no longer
+   * indexed, then embed new and changed notes
+   */
+  async build(): Promise<void> {
+    this.ready = true;
+    if (!this.isEnabled()) return;
+
+    const files = this.app.vault.getMarkdownFiles().filter((file) => this.getSource(file.path));
+    const live = new Set(files.map((file) => file.path));
+    for (const path of Object.keys(this.store.files)) {
+      if (!live.has(path)) this.removeFile(path);
+    }
+    for (const file of files) {
+      if (this.store.files[file.path]?.mtime !== file.stat.mtime) {
+        this.pending.add(file.path);
+      }
+    }
+
+    await this.processPending();
+  }
+
+  /**
+   * Discard every vector and embed the vault again
+   */
+  async rebuild(): Promise<void> {
+    this.reset();
+    await this.build();
+  }
+
+  /**
+   * Queue a created or modified note (embedded after a quiet period)
+   */
+  queueFile(file: TFile): void {
+    if (!this.ready || !this.isEnabled() || file.extension !== "md") return;
+    if (!this.getSource(file.path)) {
+      this.removeFile(file.path);
+      return;
+    }
+
+    this.pending.add(file.path);
+    if (this.updateTimer) clearTimeout(this.updateTimer);
+    this.updateTimer = setTimeout(() => {
+      this.updateTimer = null;
+      void this.processPending();
+    }, UPDATE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Forget a deleted note
+   */
+  removeFile(path: string): void {
+    this.pending.delete(path);
+    if (this.store.files[path]) {
+      this.dropEntry(path);
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Move a renamed note's passages to its new path (re-embedded only if its content changed)
+   */
+  renameFile(file: TFile, oldPath: string): void {
+    const entry = this.store.files[oldPath];
+    const vectors = this.vectors.get(oldPath);
+    this.removeFile(oldPath);
+    if (entry && vectors && this.getSource(file.path)) {
+      this.store.files[file.path] = entry;
+      this.vectors.set(file.path, vectors);
+      this.scheduleSave();
+    }
+    this.queueFile(file);
+  }
+
+  /**
+   * Top-k passages most similar to the query (empty when the index is off, empty or the
+   * query can't be embedded)
+   */
+  async search(query: string, options: SemanticSearchOptions = {}): Promise<SemanticPassage[]> {
+    const cfg = this.settings.semanticIndex;
+    const trimmed = query.trim();
+    if (!this.isEnabled() || !trimmed || this.vectors.size === 0 || !this.matchesStore()) return [];
+
+    const embedded = await this.aiService.embed([trimmed.slice(0, MAX_QUERY_CHARS)], cfg.model, {
+      action: options.action || "semanticSearch",
+      priority: options.priority,
+      signal: options.signal,
+      embedTask: "query",
+    });
+    if (!embedded?.[0]) return [];
+    const queryVector = normalizeVector(embedded[0]);
+
+    const exclude = new Set(options.excludePaths ?? []);
+    const matches: SemanticPassage[] = [];
+    for (const [path, vectors] of this.vectors) {
+      if (exclude.has(path)) continue;
+      const source = this.getSource(path);
+      if (!source || (options.sources && !options.sources.includes(source))) continue;
+      const passages = this.store.files[path]?.passages ?? [];
+      vectors.forEach((vector, index) => {
+        const score = dotProduct(queryVector, vector);
+        if (score >= cfg.minScore && passages[index]) {
+          matches.push({ path, source, heading: passages[index].heading, text: passages[index].text, score });
+        }
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, options.topK ?? cfg.topK);
+  }
+
+  getStats(): { notes: number; passages: number; pending: number } {
+    const entries = Object.values(this.store.files);
+    return {
+      notes: entries.length,
+      passages: entries.reduce((sum, entry) => sum + entry.passages.length, 0),
+      pending: this.pending.size,
+    };
+  }
+
+  /**
+   * Write pending changes now (called on unload)
+   */
+  async flush(): Promise<void> {
+    for (const timer of [this.updateTimer, this.configTimer]) {
+      if (timer) clearTimeout(timer);
+    }
+    this.updateTimer = null;
+    this.configTimer = null;
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.save();
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Note kind for a path, or null when it isn't indexed
+   * (daily notes are recognized by a YYYY-MM-DD file name outside the other folders)
+   */
+  private getSource(path: string): SemanticIndexSource | null {
+    const sources = this.settings.semanticIndex?.sources;
+    if (!sources) return null;
+
+    const folders: Array<[SemanticIndexSource, string | undefined]> = [
+      ["people", this.settings.peopleFolder],
+      ["organizations", this.settings.organizationsFolder],
+      ["meetings", this.settings.meetingsFolder],
+      ["references", this.settings.reference?.referencesFolder],
+    ];
+    for (const [source, folder] of folders) {
+      const prefix = folder ? `${folder.replace(/\/+$/, "")}/` : "";
+      if (prefix && path.startsWith(prefix)) {
+        return sources[source] ? source : null;
+      }
+    }
+
+    const name = path.split("/").pop() ?? "";
+    return /^\d{4}-\d{2}-\d{2}\.md$/.test(name) && sources.dailyNotes ? "dailyNotes" : null;
+  }
+
+  /**
+   * Embed queued notes one at a time. A failed embedding call stops the run and
+   * leaves the rest unindexed until they change or the index is rebuilt.
+   */
+  private processPending(): Promise<void> {
+    if (this.running) return this.running;
+
+    // Cleared asynchronously, so a run that finds nothing to do still clears it
+    this.running = this.drainPending().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async drainPending(): Promise<void> {
+    try {
+      while (this.pending.size > 0 && this.isEnabled()) {
+        const [path] = this.pending;
+        this.pending.delete(path);
+        if (!(await this.indexFile(path))) {
+          console.warn(
+            `[GSD] Semantic index: embedding failed; ${this.pending.size + 1} notes left unindexed until they change`
+          );
+          this.pending.clear();
+        }
+      }
+    } catch (error: unknown) {
+      handleError("Semantic index update failed", error);
+    }
+  }
+
+  /**
+   * Embed one note's passages (notes whose content hash is unchanged keep their vectors)
+   * @returns false when the embedding call failed
+   */
+  private async indexFile(path: string): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile) || !this.getSource(path)) {
+      this.removeFile(path);
+      return true;
+    }
+
+    const content = await this.app.vault.cachedRead(file);
+    const hash = hashString(content, 0);
+    const existing = this.store.files[path];
+    if (existing?.hash === hash) {
+      existing.mtime = file.stat.mtime;
+      this.scheduleSave();
+      return true;
+    }
+
+    const { model, chunkChars } = this.settings.semanticIndex;
+    const chunks = chunkNote(content, chunkChars);
+    const vectors: Float32Array[] = [];
+    for (let start = 0; start < chunks.length; start += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + EMBED_BATCH_SIZE);
+      const embedded = await this.aiService.embed(
+        batch.map((chunk) => `${file.basename}${chunk.heading ? ` / ${chunk.heading}` : ""}\n\n${chunk.text}`),
+        model,
+        { action: "semanticIndex", priority: "background", embedTask: "document" }
+      );
+      if (!embedded) return false;
+      vectors.push(...embedded.map((vector) => normalizeVector(vector)));
+    }
+
+    // Settings changed while embedding: these vectors belong to the discarded index
+    if (this.store.model !== model || this.store.chunkChars !== chunkChars) return true;
+
+    this.store.files[path] = {
+      hash,
+      mtime: file.stat.mtime,
+      passages: chunks.map((chunk, index) => ({
+        heading: chunk.heading,
+        text: chunk.text,
+        vector: encodeVector(vectors[index]),
+      })),
+    };
+    this.vectors.set(path, vectors);
+    this.scheduleSave();
+    return true;
+  }
+
+  private matchesStore(): boolean {
+    const cfg = this.settings.semanticIndex;
+    return this.store.model === cfg?.model && this.store.chunkChars === cfg?.chunkChars;
+  }
+
+  private emptyStore(): SemanticIndexStore {
+    return {
+      version: 1,
+      model: this.settings.semanticIndex?.model ?? "",
+      chunkChars: this.settings.semanticIndex?.chunkChars ?? 0,
+      files: {},
+    };
+  }
+
+  private reset(): void {
+    this.store = this.emptyStore();
+    this.vectors.clear();
+    this.pending.clear();
+    this.scheduleSave();
+  }
+
+  private dropEntry(path: string): void {
+    delete this.store.files[path];
+    this.vectors.delete(path);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.storage.write(this.path, JSON.stringify(this.store));
+    } catch (error: unknown) {
+      handleError("Semantic index save failed", error, { additionalContext: { path: this.path } });
+    }
+  }
+}
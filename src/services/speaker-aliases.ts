@@ -0,0 +1,103 @@
+// ============================================================================
+// Speaker Aliases - Learned transcript speaker labels for People notes
+// ============================================================================
+
+import type { DataAdapter } from "obsidian";
+import type { SpeakerAlias, SpeakerAliasStore } from "../types";
+import { handleError } from "../utils/error-handler";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The slice of Obsidian's DataAdapter the table needs (files in the plugin folder)
+ */
+export type SpeakerAliasStorage = Pick<DataAdapter, "exists" | "read" | "write">;
+
+// ============================================================================
+// SpeakerAliasTable Class
+// ============================================================================
+
+/**
+ * Speaker Alias Table
+ * Remembers speaker labels that don't match anyone's name (a nickname, a
+ * shortened name, a shared room mic) once a transcript has tied them to a
+ * People note, so later transcripts resolve them directly. Persisted as JSON
+ * inside the plugin folder.
+ */
+export class SpeakerAliasTable {
+  private storage: SpeakerAliasStorage;
+  private path: string;
+  private store: SpeakerAliasStore = { version: 1, aliases: {} };
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(storage: SpeakerAliasStorage, path: string) {
+    this.storage = storage;
+    this.path = path;
+  }
+
+  async load(): Promise<void> {
+    try {
+      if (await this.storage.exists(this.path)) {
+        const parsed = JSON.parse(await this.storage.read(this.path)) as SpeakerAliasStore;
+        if (parsed?.version === 1 && parsed.aliases) {
+          this.store = { version: 1, aliases: parsed.aliases };
+        }
+      }
+    } catch (error: unknown) {
+      handleError("Speaker alias load failed", error, { additionalContext: { path: this.path } });
+    }
+  }
+
+  /**
+   * People note path learned for a speaker label
+   */
+  get(label: string): string | null {
+    return this.store.aliases[normalizeLabel(label)]?.personPath ?? null;
+  }
+
+  /**
+   * All learned aliases by label, for settings
+   */
+  getAll(): Record<string, SpeakerAlias> {
+    return { ...this.store.aliases };
+  }
+
+  async learn(label: string, personPath: string): Promise<void> {
+    const key = normalizeLabel(label);
+    if (!key || this.store.aliases[key]?.personPath === personPath) return;
+    this.store.aliases[key] = { personPath, learnedAt: new Date().toISOString() };
+    console.log(`[Transcript] Learned speaker alias "${label}" → ${personPath}`);
+    await this.save();
+  }
+
+  async forget(label: string): Promise<void> {
+    const key = normalizeLabel(label);
+    if (!(key in this.store.aliases)) return;
+    delete this.store.aliases[key];
+    await this.save();
+  }
+
+  /**
+   * Write the store (writes are serialized so the file always holds the latest state)
+   */
+  private save(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      try {
+        await this.storage.write(this.path, JSON.stringify(this.store));
+      } catch (error: unknown) {
+        handleError("Speaker alias save failed", error, { additionalContext: { path: this.path } });
+      }
+    });
+    return this.writing;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/\s+/g, " ").trim();
+}
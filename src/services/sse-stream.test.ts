@@ -0,0 +1,75 @@
+// ============================================================================
+// SSE Stream Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { readSseStream, parseSseJson, SseEvent } from "./sse-stream";
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<SseEvent[]> {
+  const events: SseEvent[] = [];
+  await readSseStream(stream, (event) => events.push(event));
+  return events;
+}
+
+describe("readSseStream", () => {
+  it("parses unnamed data events", async () => {
+    const events = await collect(streamOf('data: {"a":1}\n\ndata: {"a":2}\n\n'));
+    expect(events).toEqual([
+      { event: undefined, data: '{"a":1}' },
+      { event: undefined, data: '{"a":2}' },
+    ]);
+  });
+
+  it("keeps event names", async () => {
+    const events = await collect(
+      streamOf("event: content_block_delta\ndata: {}\n\n")
+    );
+    expect(events).toEqual([{ event: "content_block_delta", data: "{}" }]);
+  });
+
+  it("reassembles events split across chunks", async () => {
+    const events = await collect(streamOf("da", "ta: hel", "lo\n", "\ndata: world\n\n"));
+    expect(events.map((e) => e.data)).toEqual(["hello", "world"]);
+  });
+
+  it("handles CRLF line endings", async () => {
+    const events = await collect(streamOf("data: one\r\n\r\ndata: two\r\n\r\n"));
+    expect(events.map((e) => e.data)).toEqual(["one", "two"]);
+  });
+
+  it("skips comments and joins multi-line data", async () => {
+    const events = await collect(
+      streamOf(": OPENROUTER PROCESSING\n\ndata: line1\ndata: line2\n\n")
+    );
+    expect(events).toEqual([{ event: undefined, data: "line1\nline2" }]);
+  });
+
+  it("flushes a trailing event without a blank line", async () => {
+    const events = await collect(streamOf("data: last"));
+    expect(events.map((e) => e.data)).toEqual(["last"]);
+  });
+});
+
+describe("parseSseJson", () => {
+  it("parses JSON payloads", () => {
+    expect(parseSseJson<{ a: number }>('{"a":1}')).toEqual({ a: 1 });
+  });
+
+  it("returns null for [DONE] and malformed data", () => {
+    expect(parseSseJson("[DONE]")).toBeNull();
+    expect(parseSseJson("{not json")).toBeNull();
+    expect(parseSseJson("")).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+// ============================================================================
+// SSE Stream - Server-sent event parsing for streaming AI responses
+// ============================================================================
+
+/**
+ * Obsidian's requestUrl buffers the whole response, so streaming calls use
+ * fetch and read the body as a server-sent event stream.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SseEvent {
+  /** Event name from an `event:` line (undefined for unnamed events) */
+  event?: string;
+  /** Joined `data:` lines of the event */
+  data: string;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Read a server-sent event stream and invoke the handler for every event.
+ * Comment lines (": keep-alive") and empty events are skipped.
+ */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SseEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    buffer = dispatchCompleteEvents(buffer, onEvent);
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    dispatchCompleteEvents(buffer + "\n\n", onEvent);
+  }
+}
+
+/**
+ * Parse a single SSE data payload as JSON, returning null for
+ * terminators ("[DONE]") and malformed chunks.
+ */
+export function parseSseJson<T>(data: string): T | null {
+  const trimmed = data.trim();
+  if (!trimmed || trimmed === "[DONE]") return null;
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Dispatch every complete event in the buffer and return the unconsumed tail
+ */
+function dispatchCompleteEvents(buffer: string, onEvent: (event: SseEvent) => void): string {
+  const normalized = buffer.replace(/\r\n/g, "\n");
+  const blocks = normalized.split("\n\n");
+  const tail = blocks.pop() ?? "";
+
+  for (const block of blocks) {
+    const event = parseEventBlock(block);
+    if (event) {
+      onEvent(event);
+    }
+  }
+
+  return tail;
+}
+
+function parseEventBlock(block: string): SseEvent | null {
+  let eventName: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+    const colonIndex = line.indexOf(":");
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? "" : line.slice(colonIndex + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") {
+      eventName = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event: eventName, data: dataLines.join("\n") };
+}
@@ -0,0 +1,109 @@
+// ============================================================================
+// Usage Ledger Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { createMockApp } from "../__mocks__/obsidian";
+import type { App } from "obsidian";
+import { createMockSettings } from "../__mocks__/services";
+import type { PluginSettings, OpenRouterModel, UsageEntry } from "../types";
+import { UsageLedger, priceUsage, summarizeUsage } from "./usage-ledger";
+
+const usage = { inputTokens: 1_000_000, outputTokens: 100_000, thinkingTokens: 50_000 };
+
+function listing(id: string, prompt: number, completion: number, internal_reasoning?: number): OpenRouterModel {
+  return { id, name: id, context_length: 128000, pricing: { prompt, completion, internal_reasoning } };
+}
+
+function makeSettings(monthlyBudgetUsd = 0): PluginSettings {
+  return createMockSettings({ usage: { monthlyBudgetUsd } });
+}
+
+describe("priceUsage", () => {
+  it("uses OpenRouter per-token pricing for cached models", () => {
+    const cache = [listing("anthropic/claude-sonnet-4.5", 0.000003, 0.000015)];
+    const result = priceUsage("anthropic/claude-sonnet-4.5", usage, cache);
+    expect(result.priceSource).toBe("openrouter");
+    expect(result.costUsd).toBeCloseTo(3 + 1.5 + 0.75);
+  });
+
+  it("matches direct model IDs to their OpenRouter listing", () => {
+    const cache = [listing("anthropic/claude-sonnet-4.5", 0.000003, 0.000015)];
+    expect(priceUsage("claude-sonnet-4-5", usage, cache).priceSource).toBe("openrouter");
+  });
+
+  it("bills thinking at the internal reasoning price when listed", () => {
+    const cache = [listing("x/reasoner", 0, 0.00001, 0.00002)];
+    expect(priceUsage("x/reasoner", usage, cache).costUsd).toBeCloseTo(1 + 1);
+  });
+
+  it("falls back to the built-in table", () => {
+    const result = priceUsage("gemini-pro-latest", usage);
+    expect(result.priceSource).toBe("builtin");
+    expect(result.costUsd).toBeCloseTo(1.25 + 1.5);
+  });
+
+  it("treats local and free models as free", () => {
+    expect(priceUsage("local:llama3", usage)).toEqual({ costUsd: 0, priceSource: "free" });
+    expect(priceUsage("meta/llama:free", usage, [listing("meta/llama:free", 0, 0)]).priceSource).toBe("free");
+  });
+
+  it("reports unknown models with zero cost", () => {
+    expect(priceUsage("mystery-model", usage)).toEqual({ costUsd: 0, priceSource: "unknown" });
+  });
+});
+
+describe("summarizeUsage", () => {
+  it("totals entries per key", () => {
+    const entry = (action: string, costUsd: number): UsageEntry => ({
+      at: "2026-03-02T10:00:00.000Z",
+      action,
+      model: "gpt-4o",
+      inputTokens: 10,
+      outputTokens: 5,
+      thinkingTokens: 1,
+      costUsd,
+      priceSource: "builtin",
+    });
+    const totals = summarizeUsage([entry("briefing", 0.5), entry("briefing", 0.25), entry("coach", 1)], (e) => e.action);
+
+    expect(totals.get("briefing")).toEqual({
+      calls: 2,
+      inputTokens: 20,
+      outputTokens: 10,
+      thinkingTokens: 2,
+      costUsd: 0.75,
+    });
+    expect(totals.get("coach")?.calls).toBe(1);
+  });
+});
+
+describe("UsageLedger", () => {
+  it("records calls and reports the monthly budget", () => {
+    const ledger = new UsageLedger(createMockApp() as unknown as App, makeSettings(2));
+    ledger.record("meetingBriefing", "gemini-pro-latest", usage);
+
+    expect(ledger.getEntries()[0]).toMatchObject({ action: "meetingBriefing", priceSource: "builtin" });
+    expect(ledger.getMonthCost()).toBeCloseTo(2.75);
+    expect(ledger.isOverBudget()).toBe(true);
+  });
+
+  it("never blocks without a cap", () => {
+    const ledger = new UsageLedger(createMockApp() as unknown as App, makeSettings(0));
+    ledger.record(undefined, "gemini-pro-latest", usage);
+    expect(ledger.getEntries()[0].action).toBe("other");
+    expect(ledger.isOverBudget()).toBe(false);
+  });
+
+  it("persists and reloads entries", async () => {
+    const app = createMockApp() as unknown as App;
+    const ledger = new UsageLedger(app, makeSettings());
+    ledger.record("council", "gpt-4o", usage);
+    await ledger.flush();
+
+    const reloaded = new UsageLedger(app, makeSettings());
+    await reloaded.load();
+    expect(reloaded.getEntries()).toHaveLength(1);
+    expect(reloaded.getEntries()[0].model).toBe("gpt-4o");
+  });
+});
@@ -0,0 +1,306 @@
+// ============================================================================
+// Usage Ledger - Token usage, estimated cost and monthly budget tracking
+// ============================================================================
+
+import { App, TFile } from "obsidian";
+import type {
+  PluginSettings,
+  OpenRouterModel,
+  UsageEntry,
+  UsageLedgerStore,
+  UsagePriceSource,
+  UsageTotals,
+} from "../types";
+import type { AIUsage } from "./ai-provider";
+import { LOCAL_MODEL_PREFIX } from "./local-provider";
+import { handleError } from "../utils/error-handler";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SAVE_DEBOUNCE_MS = 2000;
+const MAX_ENTRY_AGE_DAYS = 400;
+
+/**
+ * Fallback prices in USD per million tokens for models called directly
+ * (first match wins, so more specific patterns come first).
+ * Thinking tokens are billed at the output rate.
+ */
+const BUILTIN_PRICES: Array<{ pattern: RegExp; input: number; output: number }> = [
+  { pattern: /gemini.*flash-lite/, input: 0.1, output: 0.4 },
+  { pattern: /gemini.*flash/, input: 0.3, output: 2.5 },
+  { pattern: /gemini.*pro/, input: 1.25, output: 10 },
+  { pattern: /^claude-opus-4-[5-9]/, input: 5, output: 25 },
+  { pattern: /^claude-opus/, input: 15, output: 75 },
+  { pattern: /^claude-sonnet/, input: 3, output: 15 },
+  { pattern: /^claude-.*haiku/, input: 1, output: 5 },
+  { pattern: /^gpt-5.*nano/, input: 0.05, output: 0.4 },
+  { pattern: /^gpt-5.*mini/, input: 0.25, output: 2 },
+  { pattern: /^gpt-5/, input: 1.25, output: 10 },
+  { pattern: /^gpt-4o-mini/, input: 0.15, output: 0.6 },
+  { pattern: /^gpt-4o/, input: 2.5, output: 10 },
+  { pattern: /^gpt-4\.1-mini/, input: 0.4, output: 1.6 },
+  { pattern: /^gpt-4\.1/, input: 2, output: 8 },
+  { pattern: /^o3-mini|^o4-mini/, input: 1.1, output: 4.4 },
+  { pattern: /^o3/, input: 2, output: 8 },
+  { pattern: /^o1/, input: 15, output: 60 },
+];
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/**
+ * Estimate the cost of a call.
+ * Prefers per-token pricing from the cached OpenRouter model list (also for
+ * direct calls whose model has an OpenRouter listing), then the built-in table.
+ */
+export function priceUsage(
+  model: string,
+  usage: AIUsage,
+  modelCache: OpenRouterModel[] = []
+): { costUsd: number; priceSource: UsagePriceSource } {
+  const normalized = model.trim().toLowerCase();
+  if (normalized.startsWith(LOCAL_MODEL_PREFIX)) {
+    return { costUsd: 0, priceSource: "free" };
+  }
+
+  const listing = findOpenRouterListing(normalized, modelCache);
+  if (listing) {
+    const { prompt, completion, internal_reasoning } = listing.pricing;
+    if (prompt === 0 && completion === 0) {
+      return { costUsd: 0, priceSource: "free" };
+    }
+    const thinkingPrice = internal_reasoning && internal_reasoning > 0 ? internal_reasoning : completion;
+    return {
+      costUsd:
+        usage.inputTokens * prompt +
+        usage.outputTokens * completion +
+        usage.thinkingTokens * thinkingPrice,
+      priceSource: "openrouter",
+    };
+  }
+
+  const builtin = BUILTIN_PRICES.find((price) => price.pattern.test(normalized));
+  if (builtin) {
+    return {
+      costUsd:
+        (usage.inputTokens * builtin.input +
+          (usage.outputTokens + usage.thinkingTokens) * builtin.output) /
+        1_000_000,
+      priceSource: "builtin",
+    };
+  }
+
+  return { costUsd: 0, priceSource: "unknown" };
+}
+
+/**
+ * Match a model ID against the OpenRouter cache: exact ID first, then the part
+ * after the vendor slash ("claude-sonnet-4-5" ~ "anthropic/claude-sonnet-4.5")
+ */
+function findOpenRouterListing(model: string, modelCache: OpenRouterModel[]): OpenRouterModel | undefined {
+  const bare = model.replace(/^openrouter:/, "");
+  const exact = modelCache.find((entry) => entry.id.toLowerCase() === bare);
+  if (exact) return exact;
+
+  const key = bare.replace(/\./g, "-");
+  return modelCache.find((entry) => {
+    const id = entry.id.toLowerCase();
+    const slug = id.slice(id.indexOf("/") + 1).replace(/\./g, "-");
+    return id.includes("/") && slug === key;
+  });
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Local calendar day (YYYY-MM-DD) of an ISO timestamp
+ */
+export function toLocalDay(at: string): string {
+  const date = new Date(at);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Sum entries into totals grouped by key
+ */
+export function summarizeUsage(
+  entries: UsageEntry[],
+  keyOf: (entry: UsageEntry) => string
+): Map<string, UsageTotals> {
+  const totals = new Map<string, UsageTotals>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const total = totals.get(key) ?? emptyTotals();
+    total.calls += 1;
+    total.inputTokens += entry.inputTokens;
+    total.outputTokens += entry.outputTokens;
+    total.thinkingTokens += entry.thinkingTokens;
+    total.costUsd += entry.costUsd;
+    totals.set(key, total);
+  }
+  return totals;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, costUsd: 0 };
+}
+
+// ============================================================================
+// UsageLedger Class
+// ============================================================================
+
+/**
+ * Usage Ledger
+ * Records every model call with its token usage and estimated cost, persists
+ * the ledger as JSON in the vault and enforces the optional monthly budget.
+ */
+export class UsageLedger {
+  private app: App;
+  private settings: PluginSettings;
+  private store: UsageLedgerStore = { entries: [], lastUpdated: "" };
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(app: App, settings: PluginSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  /**
+   * Update settings reference (called when settings change)
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Load the ledger from the vault (entries recorded before loading are kept)
+   */
+  async load(): Promise<void> {
+    try {
+      const file = this.app.vault.getAbstractFileByPath(this.getLedgerPath());
+      if (file && file instanceof TFile) {
+        const parsed = JSON.parse(await this.app.vault.read(file)) as UsageLedgerStore;
+        this.store = {
+          entries: [...(parsed.entries ?? []), ...this.store.entries],
+          lastUpdated: parsed.lastUpdated ?? "",
+        };
+      }
+    } catch (error: unknown) {
+      // Invalid JSON: start fresh rather than block model calls
+      handleError("Usage ledger load failed", error);
+    }
+  }
+
+  /**
+   * Record a call and schedule a save
+   */
+  record(action: string | undefined, model: string, usage: AIUsage): UsageEntry {
+    const { costUsd, priceSource } = priceUsage(model, usage, this.settings.openrouter?.modelCache);
+    const entry: UsageEntry = {
+      at: new Date().toISOString(),
+      action: action || "other",
+      model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      thinkingTokens: usage.thinkingTokens,
+      costUsd,
+      priceSource,
+    };
+    this.store.entries.push(entry);
+    this.scheduleSave();
+    return entry;
+  }
+
+  /**
+   * Write pending entries now (called on unload)
+   */
+  async flush(): Promise<void> {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.save();
+  }
+
+  getEntries(): UsageEntry[] {
+    return this.store.entries;
+  }
+
+  /**
+   * Entries from the current calendar month (local time)
+   */
+  getMonthEntries(now: Date = new Date()): UsageEntry[] {
+    return this.store.entries.filter((entry) => {
+      const at = new Date(entry.at);
+      return at.getFullYear() === now.getFullYear() && at.getMonth() === now.getMonth();
+    });
+  }
+
+  /**
+   * Estimated spend so far this month in USD
+   */
+  getMonthCost(now: Date = new Date()): number {
+    return this.getMonthEntries(now).reduce((sum, entry) => sum + entry.costUsd, 0);
+  }
+
+  /**
+   * True when a monthly cap is set and this month's spend has reached it
+   */
+  isOverBudget(now: Date = new Date()): boolean {
+    const budget = this.settings.usage?.monthlyBudgetUsd ?? 0;
+    return budget > 0 && this.getMonthCost(now) >= budget;
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.store.entries = [];
+    await this.save();
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private getLedgerPath(): string {
+    return this.settings.usage?.ledgerPath || "Z_Settings & Tools/gsd-usage.json";
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private async save(): Promise<void> {
+    const cutoff = Date.now() - MAX_ENTRY_AGE_DAYS * 24 * 60 * 60 * 1000;
+    this.store.entries = this.store.entries.filter((entry) => new Date(entry.at).getTime() >= cutoff);
+    this.store.lastUpdated = new Date().toISOString();
+    const content = JSON.stringify(this.store, null, 2);
+    const path = this.getLedgerPath();
+
+    try {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file && file instanceof TFile) {
+        await this.app.vault.modify(file, content);
+      } else {
+        await this.app.vault.create(path, content);
+      }
+    } catch (error: unknown) {
+      handleError("Usage ledger save failed", error, { additionalContext: { path } });
+    }
+  }
+}
@@ -0,0 +1,78 @@
+// ============================================================================
+// Vault Read API Tests
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { DEFAULT_SETTINGS } from "../types/defaults";
+import { createMockApp } from "../__mocks__/obsidian";
+import type { App } from "obsidian";
+import { IndexService } from "./index-service";
+import { VaultReadApi } from "./vault-read-api";
+
+async function makeApi() {
+  const app = createMockApp();
+  const note = (path: string, metadata: Parameters<typeof app.metadataCache._setCache>[1]) => {
+    app.vault._setFile(path, "");
+    app.metadataCache._setCache(path, metadata);
+  };
+
+  note("People/Ann Lee.md", {
+    frontmatter: { Email: ["ann@acme.com", "ann@home.org"], Organization: "[[Acme]]", position: { start: 0 } },
+  });
+  note("Organizations/Acme.md", { frontmatter: { Domain: "acme.com" } });
+  note("Meetings/2026-01-05 Weekly.md", { frontmatter: { date: "2026-01-05" }, links: [{ link: "People/Ann Lee" }] });
+  note("Meetings/2026-03-02 Pricing.md", { frontmatter: { date: "2026-03-02" }, links: [{ link: "People/Ann Lee" }] });
+
+  const index = new IndexService(app as unknown as App, DEFAULT_SETTINGS);
+  await index.buildIndexes();
+  return new VaultReadApi(app as unknown as App, index);
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("VaultReadApi", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("finds a person by any of their emails, without the cache's position data", async () => {
+    const api = await makeApi();
+
+    expect(api.findPersonByEmail(" ANN@home.org ")).toEqual({
+      name: "Ann Lee",
+      path: "People/Ann Lee.md",
+      frontmatter: { Email: ["ann@acme.com", "ann@home.org"], Organization: "[[Acme]]" },
+    });
+    expect(api.findPersonByEmail("bo@acme.com")).toBeNull();
+  });
+
+  it("finds orgs by domain, falling back from subdomains", async () => {
+    const api = await makeApi();
+
+    expect(api.findOrgByDomain("www.acme.com")?.path).toBe("Organizations/Acme.md");
+    expect(api.findOrgByDomain("mail.eu.acme.com")?.path).toBe("Organizations/Acme.md");
+    expect(api.findOrgByDomain("com")).toBeNull();
+  });
+
+  it("lists a person's meetings newest first", async () => {
+    const api = await makeApi();
+
+    const result = api.getMeetingsForPerson("ann lee", 1);
+    expect(result.person?.path).toBe("People/Ann Lee.md");
+    expect(result.total).toBe(2);
+    expect(result.meetings).toEqual([
+      { name: "2026-03-02 Pricing", path: "Meetings/2026-03-02 Pricing.md", frontmatter: { date: "2026-03-02" } },
+    ]);
+  });
+
+  it("searches people and orgs mentioned in a query", async () => {
+    const api = await makeApi();
+
+    expect(api.search("call with lee from acme").map(({ type, path }) => ({ type, path }))).toEqual([
+      { type: "person", path: "People/Ann Lee.md" },
+      { type: "org", path: "Organizations/Acme.md" },
+    ]);
+  });
+});
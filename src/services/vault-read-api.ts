@@ -0,0 +1,118 @@
+// ============================================================================
+// Vault Read API - People, org and meeting lookups for the webhook server
+// ============================================================================
+
+import { App, TFile } from "obsidian";
+import type { IndexService } from "./index-service";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A vault note as returned to API clients
+ */
+export interface VaultNoteRecord {
+  name: string;
+  path: string;
+  frontmatter: Record<string, unknown>;
+}
+
+export interface VaultEntityRecord extends VaultNoteRecord {
+  type: "person" | "org";
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+// ============================================================================
+// VaultReadApi Class
+// ============================================================================
+
+/**
+ * Vault Read API
+ * Read-only lookups backed by IndexService and the metadata cache, returning note
+ * paths with their frontmatter so scripts outside Obsidian can resolve people,
+ * orgs and meetings.
+ */
+export class VaultReadApi {
+  private app: App;
+  private indexService: IndexService;
+
+  constructor(app: App, indexService: IndexService) {
+    this.app = app;
+    this.indexService = indexService;
+  }
+
+  /**
+   * The People note for an email address
+   */
+  findPersonByEmail(email: string): VaultNoteRecord | null {
+    return this.toRecord(this.indexService.findPersonByEmail(email));
+  }
+
+  /**
+   * The org note for a domain; subdomains fall back to their parent domain
+   * (`mail.acme.com` finds `acme.com`)
+   */
+  findOrgByDomain(domain: string): VaultNoteRecord | null {
+    const parts = domain.trim().toLowerCase().replace(/^www\./, "").split(".");
+    for (let i = 0; i < parts.length - 1; i++) {
+      const record = this.toRecord(this.indexService.findOrgByDomain(parts.slice(i).join(".")));
+      if (record) return record;
+    }
+    return null;
+  }
+
+  /**
+   * A person's People note (if any) and the meeting notes linking to them, newest first
+   */
+  getMeetingsForPerson(
+    name: string,
+    limit: number = DEFAULT_LIMIT
+  ): { person: VaultNoteRecord | null; meetings: VaultNoteRecord[]; total: number } {
+    const person = this.toRecord(this.indexService.findPersonByName(name));
+    const paths = [...this.indexService.findMeetingsForPerson(person?.name ?? name)];
+
+    // Meeting note names start with their date, so a reverse sort on the name is newest first
+    paths.sort((a, b) => (b.split("/").pop() ?? b).localeCompare(a.split("/").pop() ?? a));
+    const meetings = paths
+      .slice(0, clampLimit(limit))
+      .map((path) => this.toRecord(path))
+      .filter((record): record is VaultNoteRecord => record !== null);
+    return { person, meetings, total: paths.length };
+  }
+
+  /**
+   * People and orgs mentioned in a query (see IndexService.findEntitiesInContent)
+   */
+  search(query: string, limit: number = DEFAULT_LIMIT): VaultEntityRecord[] {
+    return this.indexService
+      .findEntitiesInContent(query)
+      .slice(0, clampLimit(limit))
+      .flatMap((entity) => {
+        const record = this.toRecord(entity.path);
+        return record ? [{ type: entity.type, ...record }] : [];
+      });
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private toRecord(path: string | null): VaultNoteRecord | null {
+    const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+    if (!(file instanceof TFile)) return null;
+
+    const { position: _position, ...frontmatter } = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+    return { name: file.basename, path: file.path, frontmatter };
+  }
+}
+
+function clampLimit(limit: number): number {
+  return Number.isFinite(limit) ? Math.min(MAX_LIMIT, Math.max(1, Math.floor(limit))) : DEFAULT_LIMIT;
+}
@@ -0,0 +1,109 @@
+// ============================================================================
+// Vault Tools Tests
+// ============================================================================
+
+import { describe, it, expect, vi } from "vitest";
+import { DEFAULT_SETTINGS } from "../types/defaults";
+import type { PluginSettings } from "../types";
+import { createMockApp } from "../__mocks__/obsidian";
+import type { App } from "obsidian";
+import { VaultTools, extractNoteSection, listNoteHeadings } from "./vault-tools";
+import type { IndexService } from "./index-service";
+import type { GoogleServices } from "./google-services";
+
+const NOTE = [
+  "# Weekly",
+  "intro",
+  "## Notes",
+  "- shipped v2",
+  "### Details",
+  "deep dive",
+  "## Action items",
+  "- [ ] follow up",
+].join("\n");
+
+function makeTools(settings: Partial<PluginSettings> = {}) {
+  const app = createMockApp();
+  const index = {
+    findPersonByEmail: vi.fn((email: string) => (email === "ann@acme.com" ? "People/Ann Lee.md" : null)),
+    findMeetingsForPerson: vi.fn(() => ["Meetings/2026-01-05 Weekly.md", "Meetings/2026-03-02 Weekly.md"]),
+  };
+  const google = { searchGmail: vi.fn(async () => []) };
+  const tools = new VaultTools(
+    app as unknown as App,
+    { ...DEFAULT_SETTINGS, ...settings },
+    index as unknown as IndexService,
+    google as unknown as GoogleServices
+  );
+  return { app, tools, google };
+}
+
+function getTool(tools: VaultTools, name: string) {
+  const tool = tools.getTools().find((candidate) => candidate.name === name);
+  if (!tool) throw new Error(`missing tool ${name}`);
+  return tool;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("extractNoteSection", () => {
+  it("returns a section with its subsections up to the next sibling heading", () => {
+    expect(extractNoteSection(NOTE, "notes")).toBe("## Notes\n- shipped v2\n### Details\ndeep dive");
+  });
+
+  it("accepts headings with #s and reads the last section to the end", () => {
+    expect(extractNoteSection(NOTE, "## Action items")).toBe("## Action items\n- [ ] follow up");
+  });
+
+  it("returns null for a missing heading", () => {
+    expect(extractNoteSection(NOTE, "Decisions")).toBeNull();
+  });
+});
+
+describe("listNoteHeadings", () => {
+  it("lists headings with their level", () => {
+    expect(listNoteHeadings(NOTE)).toEqual(["# Weekly", "## Notes", "### Details", "## Action items"]);
+  });
+});
+
+describe("VaultTools", () => {
+  it("offers no tools when disabled and Gmail only with an Apps Script URL", () => {
+    expect(makeTools({ aiTools: { ...DEFAULT_SETTINGS.aiTools, enabled: false } }).tools.getTools()).toEqual([]);
+    expect(makeTools({ appsScriptUrl: "" }).tools.getTools().map((tool) => tool.name)).not.toContain("search_gmail");
+    expect(makeTools({ appsScriptUrl: "https://script.google.com/x" }).tools.getTools().map((tool) => tool.name)).toContain(
+      "search_gmail"
+    );
+  });
+
+  it("finds a person note with its frontmatter", async () => {
+    const { app, tools } = makeTools();
+    app.vault._setFile("People/Ann Lee.md", "");
+    app.metadataCache._setCache("People/Ann Lee.md", { frontmatter: { Title: "CTO", Organization: "[[Acme]]" } });
+
+    const result = await getTool(tools, "find_person_by_email").run({ email: "ann@acme.com" });
+    expect(result).toBe("Person: Ann Lee\nPath: People/Ann Lee.md\nTitle: CTO\nOrganization: [[Acme]]");
+    expect(await getTool(tools, "find_person_by_email").run({ email: "bob@acme.com" })).toContain("No People note");
+  });
+
+  it("lists meetings newest first within the limit", async () => {
+    const { tools } = makeTools();
+    const result = await getTool(tools, "list_meetings_for_person").run({ name: "Ann Lee", limit: 1 });
+    expect(result).toBe("2 meeting notes for Ann Lee:\n- Meetings/2026-03-02 Weekly.md\n(1 older not listed)");
+  });
+
+  it("reads one section of a note and lists headings when it is missing", async () => {
+    const { app, tools } = makeTools();
+    app.vault._setFile("Meetings/2026-01-05 Weekly.md", NOTE);
+    const read = getTool(tools, "read_note_section");
+
+    expect(await read.run({ path: "Meetings/2026-01-05 Weekly", heading: "Action items" })).toBe(
+      "## Action items\n- [ ] follow up"
+    );
+    expect(await read.run({ path: "Meetings/2026-01-05 Weekly.md", heading: "Decisions" })).toContain(
+      "Headings: # Weekly | ## Notes"
+    );
+    expect(await read.run({ path: "Missing.md" })).toContain("No note found");
+  });
+});
@@ -0,0 +1,278 @@
+// ============================================================================
+// Vault Tools - Read-only tools the models can call to fetch vault context
+// ============================================================================
+
+import { App, TFile } from "obsidian";
+import type { PluginSettings } from "../types";
+import type { AITool } from "./ai-service";
+import { IndexService } from "./index-service";
+import { GoogleServices } from "./google-services";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type VaultToolName =
+  | "find_person_by_email"
+  | "list_meetings_for_person"
+  | "read_note_section"
+  | "search_gmail";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Longer tool output is cut so one note can't fill the context window */
+export const MAX_TOOL_RESULT_CHARS = 8000;
+
+const DEFAULT_MEETING_LIMIT = 10;
+const MAX_MEETING_LIMIT = 25;
+const MAX_GMAIL_RESULTS = 10;
+
+// ============================================================================
+// Section Helpers
+// ============================================================================
+
+/**
+ * Markdown under a heading (matched case-insensitively, without the #s), up to the
+ * next heading of the same or a higher level
+ * @returns null when the note has no such heading
+ */
+export function extractNoteSection(content: string, heading: string): string | null {
+  const wanted = heading.replace(/^#+\s*/, "").trim().toLowerCase();
+  const lines = content.split("\n");
+  let level = 0;
+  let start = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (!match) continue;
+    if (start === -1) {
+      if (match[2].trim().toLowerCase() === wanted) {
+        level = match[1].length;
+        start = i;
+      }
+    } else if (match[1].length <= level) {
+      return lines.slice(start, i).join("\n").trim();
+    }
+  }
+
+  return start === -1 ? null : lines.slice(start).join("\n").trim();
+}
+
+/**
+ * Headings of a note, for telling the model what it can ask for
+ */
+export function listNoteHeadings(content: string): string[] {
+  return content
+    .split("\n")
+    .map((line) => line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => `${match[1]} ${match[2]}`);
+}
+
+function truncate(text: string): string {
+  if (text.length <= MAX_TOOL_RESULT_CHARS) return text;
+  return `${text.slice(0, MAX_TOOL_RESULT_CHARS)}\n[truncated - request a specific heading for the rest]`;
+}
+
+// ============================================================================
+// VaultTools Class
+// ============================================================================
+
+/**
+ * Vault Tools
+ * Read-only tools backed by IndexService, the vault and GoogleServices, handed to
+ * AIService.callModelWithTools so models can look things up instead of guessing
+ */
+export class VaultTools {
+  private app: App;
+  private settings: PluginSettings;
+  private indexService: IndexService;
+  private googleServices: GoogleServices;
+
+  constructor(app: App, settings: PluginSettings, indexService: IndexService, googleServices: GoogleServices) {
+    this.app = app;
+    this.settings = settings;
+    this.indexService = indexService;
+    this.googleServices = googleServices;
+  }
+
+  /**
+   * Update settings reference (called when settings change)
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Tools for a call: all of them, or the named subset.
+   * Empty when tools are off in settings; Gmail search needs the Apps Script URL.
+   */
+  getTools(names?: VaultToolName[]): AITool[] {
+    if (!this.settings.aiTools?.enabled) return [];
+
+    const tools: AITool[] = [
+      this.findPersonByEmailTool(),
+      this.listMeetingsForPersonTool(),
+      this.readNoteSectionTool(),
+    ];
+    if (this.settings.aiTools.gmail && this.settings.appsScriptUrl) {
+      tools.push(this.searchGmailTool());
+    }
+    return names ? tools.filter((tool) => names.includes(tool.name as VaultToolName)) : tools;
+  }
+
+  // ============================================================================
+  // Tools
+  // ============================================================================
+
+  private findPersonByEmailTool(): AITool {
+    return {
+      name: "find_person_by_email",
+      description:
+        "Find the People note for an email address. Returns the note path and its frontmatter (title, organization, etc.).",
+      parameters: {
+        type: "object",
+        properties: { email: { type: "string", description: "Email address" } },
+        required: ["email"],
+      },
+      run: async (args) => {
+        const email = String(args.email).trim();
+        const path = this.indexService.findPersonByEmail(email);
+        const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+        if (!(file instanceof TFile)) {
+          return `No People note found for ${email}.`;
+        }
+
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+        const fields = Object.entries(frontmatter)
+          .filter(([key, value]) => key !== "position" && value !== null && value !== "")
+          .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(", ") : String(value)}`);
+        return truncate(
+          [`Person: ${file.basename}`, `Path: ${file.path}`, ...fields].join("\n")
+        );
+      },
+    };
+  }
+
+  private listMeetingsForPersonTool(): AITool {
+    return {
+      name: "list_meetings_for_person",
+      description:
+        "List meeting notes a person attended, newest first. Read one with read_note_section.",
+      parameters: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Person's name as in their People note title" },
+          limit: { type: "integer", description: `Maximum notes to list (default ${DEFAULT_MEETING_LIMIT})` },
+        },
+        required: ["name"],
+      },
+      run: async (args) => {
+        const name = String(args.name).trim();
+        const limit = Math.min(
+          MAX_MEETING_LIMIT,
+          Math.max(1, typeof args.limit === "number" ? args.limit : DEFAULT_MEETING_LIMIT)
+        );
+        const paths = [...this.indexService.findMeetingsForPerson(name)];
+        if (paths.length === 0) {
+          return `No meeting notes found for ${name}.`;
+        }
+
+        // Meeting note names start with their date, so a reverse sort on the name is newest first
+        paths.sort((a, b) => (b.split("/").pop() ?? b).localeCompare(a.split("/").pop() ?? a));
+        const listed = paths.slice(0, limit).map((path) => `- ${path}`);
+        const more = paths.length > limit ? `\n(${paths.length - limit} older not listed)` : "";
+        return `${paths.length} meeting notes for ${name}:\n${listed.join("\n")}${more}`;
+      },
+    };
+  }
+
+  private readNoteSectionTool(): AITool {
+    return {
+      name: "read_note_section",
+      description:
+        "Read a vault note, or only the part under one heading. Without a heading, long notes are cut; the headings are listed so you can ask for one.",
+      parameters: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "Note path (e.g. \"Meetings/2026-01-05 Weekly.md\") or note name" },
+          heading: { type: "string", description: "Heading text, without the #s" },
+        },
+        required: ["path"],
+      },
+      run: async (args) => {
+        const file = this.resolveNote(String(args.path).trim());
+        if (!file) {
+          return `No note found at ${String(args.path)}.`;
+        }
+
+        const content = await this.app.vault.cachedRead(file);
+        const heading = typeof args.heading === "string" ? args.heading.trim() : "";
+        if (!heading) {
+          const headings = listNoteHeadings(content);
+          const text = truncate(content);
+          return text.length < content.length && headings.length > 0
+            ? `${text}\n\nHeadings:\n${headings.join("\n")}`
+            : text;
+        }
+
+        const section = extractNoteSection(content, heading);
+        if (section === null) {
+          const headings = listNoteHeadings(content);
+          return `No heading "${heading}" in ${file.path}. Headings: ${headings.join(" | ") || "(none)"}`;
+        }
+        return truncate(section);
+      },
+    };
+  }
+
+  private searchGmailTool(): AITool {
+    return {
+      name: "search_gmail",
+      description:
+        "Search the user's Gmail with Gmail query syntax (e.g. \"from:anna@example.com newer_than:30d\"). Returns date, sender, subject and snippet.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Gmail search query" },
+          maxResults: { type: "integer", description: `Maximum messages (up to ${MAX_GMAIL_RESULTS})` },
+        },
+        required: ["query"],
+      },
+      run: async (args) => {
+        const query = String(args.query).trim();
+        const max = Math.min(
+          MAX_GMAIL_RESULTS,
+          Math.max(1, typeof args.maxResults === "number" ? args.maxResults : MAX_GMAIL_RESULTS)
+        );
+        const messages = await this.googleServices.searchGmail(query, max);
+        if (messages.length === 0) {
+          return `No emails match "${query}".`;
+        }
+        return truncate(
+          messages
+            .map((m) => `- ${m.date} | ${m.from} | ${m.subject}${m.snippet ? `\n  ${m.snippet}` : ""}`)
+            .join("\n")
+        );
+      },
+    };
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Resolve a path or note name to a markdown file
+   */
+  private resolveNote(pathOrName: string): TFile | null {
+    const direct = this.app.vault.getAbstractFileByPath(pathOrName);
+    if (direct instanceof TFile) return direct.extension === "md" ? direct : null;
+    const withExtension = this.app.vault.getAbstractFileByPath(`${pathOrName}.md`);
+    if (withExtension instanceof TFile) return withExtension;
+    const linked = this.app.metadataCache.getFirstLinkpathDest(pathOrName.replace(/\.md$/, ""), "");
+    return linked && linked.extension === "md" ? linked : null;
+  }
+}
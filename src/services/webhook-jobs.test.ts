@@ -0,0 +1,167 @@
+// ============================================================================
+// Webhook Job Queue Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { WebhookJobQueue, getRetryDelayMs, type WebhookJobStorage } from "./webhook-jobs";
+
+const PATH = "webhook-jobs.json";
+
+function memoryStorage(files: Map<string, string> = new Map()): WebhookJobStorage {
+  return {
+    exists: async (path: string) => files.has(path),
+    read: async (path: string) => files.get(path) ?? "",
+    write: async (path: string, data: string) => {
+      files.set(path, data);
+    },
+  };
+}
+
+let queue: WebhookJobQueue | null = null;
+
+function makeQueue(files: Map<string, string> = new Map()) {
+  queue = new WebhookJobQueue(memoryStorage(files), PATH);
+  return queue;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("getRetryDelayMs", () => {
+  it("doubles from 30 seconds up to 30 minutes", () => {
+    expect([1, 2, 3, 4].map(getRetryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(getRetryDelayMs(20)).toBe(30 * 60 * 1000);
+  });
+});
+
+describe("WebhookJobQueue", () => {
+  afterEach(() => {
+    queue?.stop();
+    queue = null;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("persists a job before processing it and records the result", async () => {
+    const files = new Map<string, string>();
+    const jobs = makeQueue(files);
+    const handler = vi.fn(async () => ({ notePath: "Meetings/Sync.md" }));
+    jobs.registerHandler("transcript", handler);
+
+    const { job, duplicate } = await jobs.enqueue("transcript", { transcript: "Hi" }, { label: "Sync" });
+    expect(duplicate).toBe(false);
+    expect(JSON.parse(files.get(PATH)!).jobs[job.id].payload).toEqual({ transcript: "Hi" });
+
+    await jobs.idle();
+    expect(handler).toHaveBeenCalledWith({ transcript: "Hi" });
+    expect(jobs.getJob(job.id)).toMatchObject({ status: "succeeded", attempts: 1, result: { notePath: "Meetings/Sync.md" } });
+  });
+
+  it("rejects an enqueue that can't be written and keeps nothing", async () => {
+    const files = new Map<string, string>();
+    const storage = memoryStorage(files);
+    vi.spyOn(storage, "write").mockRejectedValueOnce(new Error("disk full"));
+    queue = new WebhookJobQueue(storage, PATH);
+    const handler = vi.fn(async () => {});
+    queue.registerHandler("transcript", handler);
+
+    await expect(queue.enqueue("transcript", { transcript: "Hi" }, { messageId: "msg_1" })).rejects.toThrow("disk full");
+    expect(queue.getJobs()).toEqual([]);
+    expect(handler).not.toHaveBeenCalled();
+
+    // The sender's redelivery is accepted rather than treated as a duplicate
+    const { job, duplicate } = await queue.enqueue("transcript", { transcript: "Hi" }, { messageId: "msg_1" });
+    expect(duplicate).toBe(false);
+    expect(JSON.parse(files.get(PATH)!).jobs[job.id].messageId).toBe("msg_1");
+    await queue.idle();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries with backoff and fails after the last attempt", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const jobs = makeQueue();
+    const handler = vi.fn(async () => {
+      throw new Error("Calendar unavailable");
+    });
+    jobs.registerHandler("transcript", handler);
+
+    const { job } = await jobs.enqueue("transcript", {});
+    await jobs.idle();
+    expect(jobs.getJob(job.id)).toMatchObject({ status: "queued", attempts: 1, lastError: "Calendar unavailable" });
+
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(handler).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(60_000 + 120_000 + 240_000);
+    expect(handler).toHaveBeenCalledTimes(5);
+    expect(jobs.getJob(job.id)?.status).toBe("failed");
+    expect(jobs.getJobs("failed")).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(handler).toHaveBeenCalledTimes(5);
+  });
+
+  it("runs a failed job again on retry", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const jobs = makeQueue();
+    let fail = true;
+    jobs.registerHandler("transcript", async () => {
+      if (fail) throw new Error("boom");
+    });
+
+    const { job } = await jobs.enqueue("transcript", {});
+    await jobs.idle();
+    // Fail it outright instead of waiting through the backoff
+    Object.assign(jobs.getJob(job.id)!, { status: "failed", attempts: 5 });
+
+    fail = false;
+    expect(await jobs.retry(job.id)).toBe(true);
+    await jobs.idle();
+    expect(jobs.getJob(job.id)).toMatchObject({ status: "succeeded", attempts: 1 });
+    expect(await jobs.retry(job.id)).toBe(false);
+  });
+
+  it("ignores redelivered message IDs across restarts", async () => {
+    const files = new Map<string, string>();
+    const first = makeQueue(files);
+    first.registerHandler("transcript", async () => {});
+    const { job } = await first.enqueue("transcript", {}, { messageId: "msg_1" });
+    await first.idle();
+    first.stop();
+
+    const second = makeQueue(files);
+    const handler = vi.fn(async () => {});
+    second.registerHandler("transcript", handler);
+    await second.load();
+
+    const redelivery = await second.enqueue("transcript", {}, { messageId: "msg_1" });
+    expect(redelivery).toMatchObject({ duplicate: true, job: { id: job.id } });
+    expect(second.getJobs()).toHaveLength(1);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("requeues jobs interrupted mid-run when loaded", async () => {
+    const files = new Map<string, string>();
+    const first = makeQueue(files);
+    first.registerHandler("transcript", () => new Promise(() => {}));
+    const { job } = await first.enqueue("transcript", { transcript: "Hi" });
+    first.stop();
+    // Let the "running" state reach the file
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(JSON.parse(files.get(PATH)!).jobs[job.id].status).toBe("running");
+
+    const second = makeQueue(files);
+    const handler = vi.fn(async () => {});
+    second.registerHandler("transcript", handler);
+    await second.load();
+    await second.idle();
+
+    expect(handler).toHaveBeenCalledWith({ transcript: "Hi" });
+    expect(second.getJob(job.id)).toMatchObject({ status: "succeeded", attempts: 2 });
+  });
+});
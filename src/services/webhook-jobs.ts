@@ -0,0 +1,292 @@
+// ============================================================================
+// Webhook Jobs - Durable queue for webhook payloads with retries and dedup
+// ============================================================================
+
+import type { DataAdapter } from "obsidian";
+import type { WebhookJob, WebhookJobKind, WebhookJobStore } from "../types";
+import { getErrorMessage, handleError } from "../utils/error-handler";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The slice of Obsidian's DataAdapter the queue needs (files in the plugin folder)
+ */
+export type WebhookJobStorage = Pick<DataAdapter, "exists" | "read" | "write">;
+
+/**
+ * Processes one job's payload; throwing schedules a retry
+ */
+export type WebhookJobHandler = (payload: unknown) => Promise<Record<string, unknown> | void>;
+
+export interface EnqueueResult {
+  job: WebhookJob;
+  /** The message ID was seen before; `job` is the job it created (if still kept) */
+  duplicate: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+/** How long a message ID is remembered (QStash redelivers for up to a day) */
+const DEDUP_TTL_MS = DAY_MS;
+const SUCCEEDED_RETENTION_MS = 7 * DAY_MS;
+const FAILED_RETENTION_MS = 30 * DAY_MS;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Delay before the next attempt after `attempts` failures (30s, 1m, 2m, ... capped at 30m)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+// ============================================================================
+// WebhookJobQueue Class
+// ============================================================================
+
+/**
+ * Webhook Job Queue
+ * Persists webhook payloads before they are acknowledged and processes them one at a
+ * time in the background, retrying failures with exponential backoff. Message IDs are
+ * remembered on disk so redeliveries are ignored across restarts. Persisted as JSON
+ * inside the plugin folder (not the vault, so it doesn't sync as a note).
+ */
+export class WebhookJobQueue {
+  private storage: WebhookJobStorage;
+  private path: string;
+  private store: WebhookJobStore = { version: 1, jobs: {}, seenMessages: {} };
+  private handlers: Partial<Record<WebhookJobKind, WebhookJobHandler>> = {};
+  private running: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(storage: WebhookJobStorage, path: string) {
+    this.storage = storage;
+    this.path = path;
+  }
+
+  registerHandler(kind: WebhookJobKind, handler: WebhookJobHandler): void {
+    this.handlers[kind] = handler;
+  }
+
+  /**
+   * Load the job file and resume unfinished jobs (jobs interrupted mid-run are queued again)
+   */
+  async load(): Promise<void> {
+    try {
+      if (await this.storage.exists(this.path)) {
+        const parsed = JSON.parse(await this.storage.read(this.path)) as WebhookJobStore;
+        if (parsed?.version === 1 && parsed.jobs) {
+          this.store = { version: 1, jobs: parsed.jobs, seenMessages: parsed.seenMessages ?? {} };
+        }
+      }
+    } catch (error: unknown) {
+      handleError("Webhook job queue load failed", error, { additionalContext: { path: this.path } });
+    }
+
+    for (const job of Object.values(this.store.jobs)) {
+      if (job.status === "running") job.status = "queued";
+    }
+    this.prune();
+    this.kick();
+  }
+
+  /**
+   * Persist a payload as a queued job. Resolves once the job is on disk, so the
+   * sender can be acknowledged; rejects (keeping nothing) when it can't be written.
+   */
+  async enqueue(
+    kind: WebhookJobKind,
+    payload: unknown,
+    options: { messageId?: string; label?: string } = {}
+  ): Promise<EnqueueResult> {
+    const now = Date.now();
+    const { messageId } = options;
+    if (messageId && (this.store.seenMessages[messageId] ?? 0) > now) {
+      const existing = Object.values(this.store.jobs).find((job) => job.messageId === messageId);
+      if (existing) return { job: existing, duplicate: true };
+    }
+
+    const job: WebhookJob = {
+      id: `job_${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      kind,
+      status: "queued",
+      label: options.label || kind,
+      payload,
+      messageId,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      runAfter: now,
+    };
+    this.store.jobs[job.id] = job;
+    if (messageId) this.store.seenMessages[messageId] = now + DEDUP_TTL_MS;
+    try {
+      await this.save();
+    } catch (error: unknown) {
+      // Not on disk, so not accepted: forget it so the sender's retry isn't a duplicate
+      delete this.store.jobs[job.id];
+      if (messageId) delete this.store.seenMessages[messageId];
+      throw error;
+    }
+    this.kick();
+    return { job, duplicate: false };
+  }
+
+  getJob(id: string): WebhookJob | null {
+    return this.store.jobs[id] ?? null;
+  }
+
+  /**
+   * Jobs, newest first (optionally only those with a status)
+   */
+  getJobs(status?: WebhookJob["status"]): WebhookJob[] {
+    return Object.values(this.store.jobs)
+      .filter((job) => !status || job.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Queue a failed job again with a fresh set of attempts
+   * @returns false when the job doesn't exist or hasn't failed
+   */
+  async retry(id: string): Promise<boolean> {
+    const job = this.store.jobs[id];
+    if (!job || job.status !== "failed") return false;
+
+    const now = Date.now();
+    Object.assign(job, { status: "queued", attempts: 0, runAfter: now, updatedAt: now });
+    await this.saveQuietly();
+    this.kick();
+    return true;
+  }
+
+  /**
+   * Wait until no job is being processed (due jobs run back to back; retries
+   * scheduled for later don't count)
+   */
+  async idle(): Promise<void> {
+    while (this.running) await this.running;
+  }
+
+  /**
+   * Stop processing (called on unload); unfinished jobs resume on the next load
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Process due jobs, or wake up when the next retry is due
+   */
+  private kick(): void {
+    if (this.stopped || this.running) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const queued = Object.values(this.store.jobs).filter((job) => job.status === "queued");
+    if (queued.length === 0) return;
+    const [next] = queued.sort((a, b) => a.runAfter - b.runAfter || a.createdAt - b.createdAt);
+    const delay = next.runAfter - Date.now();
+    if (delay > 0) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.kick();
+      }, delay);
+      return;
+    }
+
+    this.running = this.run(next).finally(() => {
+      this.running = null;
+      this.kick();
+    });
+  }
+
+  private async run(job: WebhookJob): Promise<void> {
+    job.status = "running";
+    job.attempts += 1;
+    job.updatedAt = Date.now();
+    await this.saveQuietly();
+
+    try {
+      const handler = this.handlers[job.kind];
+      if (!handler) throw new Error(`No handler for ${job.kind} jobs`);
+      const result = await handler(job.payload);
+      Object.assign(job, { status: "succeeded", result: result ?? undefined, lastError: undefined });
+      console.log(`[GSD] Webhook job ${job.id} (${job.label}) succeeded`);
+    } catch (error: unknown) {
+      job.lastError = getErrorMessage(error);
+      if (job.attempts >= MAX_ATTEMPTS) {
+        job.status = "failed";
+        handleError(`Webhook job ${job.label} failed after ${job.attempts} attempts`, error, {
+          showNotice: true,
+          noticeMessage: `Webhook job failed: ${job.label}`,
+          additionalContext: { jobId: job.id },
+        });
+      } else {
+        job.status = "queued";
+        job.runAfter = Date.now() + getRetryDelayMs(job.attempts);
+        console.warn(`[GSD] Webhook job ${job.id} attempt ${job.attempts} failed, retrying: ${job.lastError}`);
+      }
+    }
+
+    job.updatedAt = Date.now();
+    this.prune();
+    await this.saveQuietly();
+  }
+
+  /**
+   * Drop expired message IDs and finished jobs past their retention
+   */
+  private prune(now: number = Date.now()): void {
+    for (const [messageId, expiresAt] of Object.entries(this.store.seenMessages)) {
+      if (expiresAt <= now) delete this.store.seenMessages[messageId];
+    }
+    for (const job of Object.values(this.store.jobs)) {
+      const retention =
+        job.status === "succeeded" ? SUCCEEDED_RETENTION_MS : job.status === "failed" ? FAILED_RETENTION_MS : null;
+      if (retention !== null && now - job.updatedAt > retention) delete this.store.jobs[job.id];
+    }
+  }
+
+  /**
+   * Write the store (writes are serialized so the file always holds the latest
+   * state); rejects when the write fails, without breaking later writes
+   */
+  private save(): Promise<void> {
+    const write = this.writing.then(() => this.storage.write(this.path, JSON.stringify(this.store)));
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Save from background work, where a failed write is logged (the next save retries it)
+   */
+  private async saveQuietly(): Promise<void> {
+    try {
+      await this.save();
+    } catch (error: unknown) {
+      handleError("Webhook job queue save failed", error, { additionalContext: { path: this.path } });
+    }
+  }
+}
@@ -0,0 +1,388 @@
+// ============================================================================
+// Webhook OpenAPI - Route and payload contract for the webhook server
+// ============================================================================
+
+import type { TranscriptSource, WebhookAuthScheme, WebhookRoute, WebhookSettings } from "../types";
+import { TRANSCRIPT_ADAPTERS } from "../actions/transcript";
+import type { JsonSchema } from "../utils/json-schema";
+
+// ============================================================================
+// Request Schemas
+// ============================================================================
+
+const STRING: JsonSchema = { type: "string" };
+const NUMBER: JsonSchema = { type: "number" };
+const NON_EMPTY: JsonSchema = { type: "string", minLength: 1 };
+const TIMESTAMP: JsonSchema = {
+  type: ["string", "number"],
+  description: "ISO 8601, or Unix time in seconds or milliseconds",
+};
+const GUESTS: JsonSchema = {
+  type: "array",
+  description: "Emails or { email, name } objects",
+  items: {
+    type: ["string", "object"],
+    properties: { email: STRING, name: STRING, displayName: STRING },
+  },
+};
+
+/**
+ * Payload schemas by component name; the JSON request routes validate against these
+ */
+export const WEBHOOK_SCHEMAS: Record<string, JsonSchema> = {
+  AmieWebhookPayload: {
+    type: "object",
+    description: "Amie recording, delivered through QStash",
+    properties: {
+      recordingId: STRING,
+      workspaceId: STRING,
+      userId: STRING,
+      userEmail: STRING,
+      title: STRING,
+      summary: STRING,
+      shortSummary: STRING,
+      mdSummary: STRING,
+      suggestedTitle: STRING,
+      transcript: NON_EMPTY,
+      recordingLink: STRING,
+      createdAt: STRING,
+      updatedAt: STRING,
+      metadata: {
+        type: "object",
+        properties: {
+          providerCalendarEventId: NON_EMPTY,
+          providerCalendarId: STRING,
+          startAt: STRING,
+          endAt: STRING,
+          title: STRING,
+          description: STRING,
+          guests: {
+            type: "array",
+            items: { type: "object", properties: { email: STRING, displayName: STRING } },
+          },
+        },
+        required: ["providerCalendarEventId"],
+      },
+    },
+    required: ["metadata", "transcript"],
+  },
+  GenericTranscript: {
+    type: "object",
+    description: "The plugin's own transcript format for senders without an adapter",
+    properties: {
+      startAt: TIMESTAMP,
+      endAt: TIMESTAMP,
+      transcript: {
+        type: ["string", "array"],
+        description: "Markdown, or segments with start in seconds",
+        minLength: 1,
+        items: {
+          type: "object",
+          properties: { speaker: STRING, text: STRING, start: NUMBER },
+          required: ["text"],
+        },
+      },
+      eventId: STRING,
+      calendarId: STRING,
+      title: STRING,
+      description: STRING,
+      guests: GUESTS,
+      summary: STRING,
+      recordingId: STRING,
+      recordingLink: STRING,
+    },
+    required: ["startAt", "transcript"],
+  },
+  OtterTranscript: {
+    type: "object",
+    description: "Otter-style export; start_time falls back to created_at",
+    properties: {
+      otid: STRING,
+      id: { type: ["string", "number"] },
+      title: STRING,
+      start_time: TIMESTAMP,
+      created_at: TIMESTAMP,
+      end_time: TIMESTAMP,
+      summary: STRING,
+      attendees: GUESTS,
+      calendar_event_id: STRING,
+      url: STRING,
+      transcripts: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { speaker_name: STRING, transcript: STRING, start_offset: { ...NUMBER, description: "Milliseconds" } },
+        },
+      },
+    },
+  },
+  FirefliesTranscript: {
+    type: "object",
+    description: "Fireflies transcript object, bare or as a GraphQL { data: { transcript } } response",
+    properties: {
+      id: STRING,
+      title: STRING,
+      date: TIMESTAMP,
+      duration: { ...NUMBER, description: "Minutes" },
+      cal_id: STRING,
+      transcript_url: STRING,
+      meeting_attendees: GUESTS,
+      participants: GUESTS,
+      summary: {
+        type: "object",
+        properties: { short_summary: STRING, overview: STRING, gist: STRING },
+      },
+      sentences: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { speaker_name: STRING, text: STRING, start_time: { ...NUMBER, description: "Seconds" } },
+        },
+      },
+      data: { type: "object", properties: { transcript: { type: "object" } } },
+    },
+  },
+  TldvMeeting: {
+    type: "object",
+    description: "tl;dv-style meeting export, bare or wrapped in { data }",
+    properties: {
+      id: STRING,
+      name: STRING,
+      happenedAt: TIMESTAMP,
+      duration: { ...NUMBER, description: "Seconds" },
+      url: STRING,
+      invitees: GUESTS,
+      transcript: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { speaker: STRING, text: STRING, startTime: { ...NUMBER, description: "Seconds" } },
+        },
+      },
+      data: { type: ["object", "array"] },
+    },
+  },
+  InboxCapture: {
+    type: "object",
+    description: "The obsidian://gsd-inbox parameters, not URI-encoded",
+    properties: {
+      content: NON_EMPTY,
+      type: { ...STRING, description: "task, thought, link, transcript or screenshot; detected when omitted" },
+      source: { ...STRING, description: "share, shortcut, manual or webhook (the default)" },
+    },
+    required: ["content"],
+  },
+};
+
+/** JSON body schema per route (subtitle routes take the file as a text body) */
+const REQUEST_SCHEMAS: Partial<Record<WebhookRoute, string>> = {
+  amie: "AmieWebhookPayload",
+  generic: "GenericTranscript",
+  otter: "OtterTranscript",
+  fireflies: "FirefliesTranscript",
+  tldv: "TldvMeeting",
+  inbox: "InboxCapture",
+};
+
+/** Subtitle routes and the media types they accept */
+const TEXT_BODIES: Partial<Record<TranscriptSource, string>> = {
+  vtt: "text/vtt",
+  srt: "application/x-subrip",
+};
+
+/**
+ * The JSON schema a route's request body must match, or null for routes without a JSON body
+ */
+export function getRequestSchema(route: WebhookRoute): JsonSchema | null {
+  const name = REQUEST_SCHEMAS[route];
+  return name ? WEBHOOK_SCHEMAS[name] : null;
+}
+
+// ============================================================================
+// OpenAPI Document
+// ============================================================================
+
+const SECURITY_SCHEMES: Record<WebhookAuthScheme, Record<string, unknown>> = {
+  apiKey: {
+    type: "http",
+    scheme: "bearer",
+    description: "The webhook API key (also accepted as ?api_key= when allowed)",
+  },
+  qstash: {
+    type: "apiKey",
+    in: "header",
+    name: "Upstash-Signature",
+    description: "QStash JWT signed with the current or next signing key",
+  },
+  hmac: {
+    type: "apiKey",
+    in: "header",
+    name: "X-GSD-Signature",
+    description: "sha256=<hex> HMAC of `<X-GSD-Timestamp>.<body>` with the shared secret",
+  },
+};
+
+const ERROR_SCHEMA = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    errors: {
+      type: "array",
+      description: "Field-level validation failures",
+      items: {
+        type: "object",
+        properties: {
+          field: { type: "string", description: "JSON path, e.g. $.metadata.startAt" },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+  required: ["error"],
+};
+
+/**
+ * OpenAPI 3.1 description of every route, served at GET /openapi.json.
+ * Security reflects the current per-route auth settings.
+ */
+export function buildOpenApiDocument(webhook: WebhookSettings): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const adapter of Object.values(TRANSCRIPT_ADAPTERS)) {
+    const textType = TEXT_BODIES[adapter.source];
+    paths[`/webhook/${adapter.source}`] = {
+      post: operation(webhook, adapter.source, {
+        summary: `Ingest a ${adapter.label} transcript`,
+        description: "Queues the transcript for processing; poll GET /jobs/{id} for the result.",
+        parameters: textType
+          ? ["title", "start", "end", "eventId", "guests", "recordingLink"].map((name) => queryParameter(name))
+          : undefined,
+        requestBody: textType
+          ? { required: true, content: { [textType]: { schema: STRING }, "text/plain": { schema: STRING } } }
+          : jsonBody(REQUEST_SCHEMAS[adapter.source]!),
+        responses: {
+          "200": response("Redelivery of a message already accepted (Upstash-Message-Id)"),
+          "202": response("Queued", { type: "object", properties: { status: STRING, jobId: STRING } }),
+          "400": errorResponse("Invalid payload"),
+        },
+      }),
+    };
+  }
+
+  paths["/inbox"] = {
+    post: operation(webhook, "inbox", {
+      summary: "Capture an inbox item",
+      requestBody: jsonBody("InboxCapture"),
+      responses: {
+        "200": response("Captured; returns the routing decision and note path"),
+        "202": response("A trigger phrase handed the item to a background handler"),
+        "400": errorResponse("Invalid payload"),
+        "503": errorResponse("Inbox is disabled"),
+      },
+    }),
+  };
+  paths["/jobs/{id}"] = {
+    get: operation(webhook, "jobs", {
+      summary: "Status of a queued webhook job",
+      parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+      responses: { "200": response("Job status, attempts and last error"), "404": errorResponse("Unknown job") },
+    }),
+  };
+  paths["/people"] = {
+    get: operation(webhook, "read", {
+      summary: "People note for an email address",
+      parameters: [queryParameter("email", true)],
+      responses: { "200": response("Note with frontmatter"), "404": errorResponse("Person not found") },
+    }),
+  };
+  paths["/people/{name}/meetings"] = {
+    get: operation(webhook, "read", {
+      summary: "Meeting notes linking to a person, newest first",
+      parameters: [{ name: "name", in: "path", required: true, schema: { type: "string" } }, limitParameter()],
+      responses: { "200": response("{ person, meetings, total }"), "404": errorResponse("No person or meetings") },
+    }),
+  };
+  paths["/orgs"] = {
+    get: operation(webhook, "read", {
+      summary: "Org note for a domain or its parent domain",
+      parameters: [queryParameter("domain", true)],
+      responses: { "200": response("Note with frontmatter"), "404": errorResponse("Organization not found") },
+    }),
+  };
+  paths["/search"] = {
+    get: operation(webhook, "read", {
+      summary: "People and orgs mentioned in a query",
+      parameters: [queryParameter("q", true), limitParameter()],
+      responses: { "200": response("{ query, results }") },
+    }),
+  };
+  paths["/health"] = {
+    get: { summary: "Liveness check", security: [], responses: { "200": response("Server is running") } },
+  };
+  paths["/openapi.json"] = {
+    get: { summary: "This document", security: [], responses: { "200": response("OpenAPI 3.1 document") } },
+  };
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "GetShitDone Webhook API",
+      version: "1",
+      description:
+        `Request bodies over ${webhook.maxBodyBytes} bytes are answered with 413. ` +
+        (webhook.rateLimitPerMinute > 0
+          ? `Each caller may make ${webhook.rateLimitPerMinute} requests per minute; 429 responses carry Retry-After.`
+          : "Requests are not rate limited."),
+    },
+    servers: [{ url: `http://${webhook.bindAddress === "0.0.0.0" ? "localhost" : webhook.bindAddress}:${webhook.port}` }],
+    paths,
+    components: {
+      schemas: { ...WEBHOOK_SCHEMAS, Error: ERROR_SCHEMA },
+      securitySchemes: SECURITY_SCHEMES,
+    },
+  };
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * An operation with the route's security and the responses every authenticated route shares
+ */
+function operation(
+  webhook: WebhookSettings,
+  route: WebhookRoute,
+  spec: { responses: Record<string, unknown> } & Record<string, unknown>
+): Record<string, unknown> {
+  return {
+    ...spec,
+    security: [{ [webhook.routeAuth?.[route] ?? "apiKey"]: [] }],
+    responses: {
+      ...spec.responses,
+      "401": errorResponse("Missing or invalid credentials"),
+      "413": errorResponse("Request body too large"),
+      "429": errorResponse("Rate limit exceeded; see Retry-After"),
+    },
+  };
+}
+
+function jsonBody(schemaName: string): Record<string, unknown> {
+  return { required: true, content: { "application/json": { schema: { $ref: `#/components/schemas/${schemaName}` } } } };
+}
+
+function response(description: string, schema?: Record<string, unknown>): Record<string, unknown> {
+  return schema ? { description, content: { "application/json": { schema } } } : { description };
+}
+
+function errorResponse(description: string): Record<string, unknown> {
+  return response(description, { $ref: "#/components/schemas/Error" });
+}
+
+function queryParameter(name: string, required = false): Record<string, unknown> {
+  return { name, in: "query", required, schema: { type: "string" } };
+}
+
+function limitParameter(): Record<string, unknown> {
+  return { name: "limit", in: "query", required: false, schema: { type: "integer", minimum: 1, maximum: 100, default: 25 } };
+}
@@ -0,0 +1,417 @@
+// ============================================================================
+// Webhook Server Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { DEFAULT_SETTINGS } from "../types/defaults";
+import { createMockSettings } from "../__mocks__/services";
+import type { PluginSettings, WebhookSettings } from "../types";
+import type { InboxAction, InboxCaptureResult } from "../actions/inbox";
+import { WebhookServer } from "./webhook-server";
+import { WebhookJobQueue, type WebhookJobStorage } from "./webhook-jobs";
+import type { VaultReadApi } from "./vault-read-api";
+import { signHmacRequest } from "../utils/webhook-auth";
+
+const API_KEY = "test-key";
+
+function makeSettings(overrides: Partial<WebhookSettings> = {}): PluginSettings {
+  return createMockSettings({ webhook: { enabled: true, port: 0, apiKey: API_KEY, ...overrides } });
+}
+
+function memoryStorage(): WebhookJobStorage {
+  const files = new Map<string, string>();
+  return {
+    exists: async (path) => files.has(path),
+    read: async (path) => files.get(path) ?? "",
+    write: async (path, data) => {
+      files.set(path, data);
+    },
+  };
+}
+
+let server: WebhookServer | null = null;
+
+const ANN = { name: "Ann Lee", path: "People/Ann Lee.md", frontmatter: { Email: "ann@acme.com" } };
+
+/** Lookups backed by a vault with one person, no orgs and two meetings with her */
+function stubReadApi() {
+  return {
+    findPersonByEmail: vi.fn((email: string) => (email === "ann@acme.com" ? ANN : null)),
+    findOrgByDomain: vi.fn(() => null),
+    getMeetingsForPerson: vi.fn((name: string) =>
+      name === "Ann Lee"
+        ? { person: ANN, meetings: [{ name: "2026-03-02 Pricing", path: "Meetings/2026-03-02 Pricing.md", frontmatter: {} }], total: 2 }
+        : { person: null, meetings: [], total: 0 }
+    ),
+    search: vi.fn(() => [{ type: "person", ...ANN }]),
+  };
+}
+
+/** Start a server on a free port with a stubbed inbox and lookups and an in-memory job queue */
+async function startServer(result: InboxCaptureResult, overrides: Partial<WebhookSettings> = {}) {
+  const processInboxItem = vi.fn(async () => result);
+  const jobs = new WebhookJobQueue(memoryStorage(), "webhook-jobs.json");
+  // Keep queued jobs where they are; processing is covered by the queue's own tests
+  jobs.stop();
+  const readApi = stubReadApi();
+  server = new WebhookServer(
+    makeSettings(overrides),
+    jobs,
+    { processInboxItem } as unknown as InboxAction,
+    readApi as unknown as VaultReadApi
+  );
+  await server.start();
+  const port = ((server as unknown as { server: http.Server }).server.address() as AddressInfo).port;
+  return { port, processInboxItem, jobs, readApi };
+}
+
+function post(
+  port: number,
+  path: string,
+  body: string,
+  headers: Record<string, string> = { Authorization: `Bearer ${API_KEY}` },
+  method = "POST"
+): Promise<{ status: number; json: any }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { host: "127.0.0.1", port, path, method, headers: { "Content-Type": "application/json", ...headers } },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, json: JSON.parse(Buffer.concat(chunks).toString("utf8")) }));
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("WebhookServer POST /inbox", () => {
+  afterEach(() => {
+    server?.stop();
+    server = null;
+  });
+
+  it("captures the item and returns the routing decision", async () => {
+    const decision = { destination: "daily_thoughts" as const, format: "task" as const, addDueDate: true };
+    const { port, processInboxItem } = await startServer({ status: "captured", decision, notePath: "Daily/2026-03-02.md" });
+
+    const response = await post(port, "/inbox", JSON.stringify({ content: "Call Ann re: 50% discount", type: "task" }));
+
+    expect(response).toEqual({
+      status: 200,
+      json: {
+        status: "captured",
+        destination: "daily_thoughts",
+        destinationLabel: "daily thoughts",
+        notePath: "Daily/2026-03-02.md",
+        decision,
+      },
+    });
+    // Encoded like URI parameters, which processInboxItem decodes
+    expect(processInboxItem).toHaveBeenCalledWith({
+      content: encodeURIComponent("Call Ann re: 50% discount"),
+      type: "task",
+      source: "webhook",
+    });
+  });
+
+  it("accepts the API key as a query parameter", async () => {
+    const { port } = await startServer({ status: "trigger", trigger: "research" });
+
+    const response = await post(port, `/inbox?api_key=${API_KEY}`, JSON.stringify({ content: "Research Acme" }), {});
+
+    expect(response).toEqual({ status: 202, json: { status: "accepted", trigger: "research" } });
+  });
+
+  it("rejects requests without the API key", async () => {
+    const { port, processInboxItem } = await startServer({ status: "empty" });
+
+    const response = await post(port, "/inbox", JSON.stringify({ content: "x" }), { Authorization: "Bearer wrong" });
+
+    expect(response.status).toBe(401);
+    expect(processInboxItem).not.toHaveBeenCalled();
+  });
+
+  it("rejects invalid bodies and reports a disabled inbox", async () => {
+    const { port } = await startServer({ status: "disabled" });
+
+    expect((await post(port, "/inbox", "not json")).status).toBe(400);
+    expect(await post(port, "/inbox", JSON.stringify({ content: "", type: 3 }))).toEqual({
+      status: 400,
+      json: {
+        error: "Invalid request body",
+        errors: [
+          { field: "$.content", message: "must not be empty" },
+          { field: "$.type", message: "expected string, got number" },
+        ],
+      },
+    });
+    expect(await post(port, "/inbox", JSON.stringify({ content: "x" }))).toEqual({
+      status: 503,
+      json: { error: "Inbox is disabled" },
+    });
+  });
+});
+
+describe("WebhookServer authentication", () => {
+  afterEach(() => {
+    server?.stop();
+    server = null;
+  });
+
+  const captured: InboxCaptureResult = {
+    status: "captured",
+    decision: { destination: "daily_thoughts", format: "thought", addDueDate: false },
+    notePath: "Daily/2026-03-02.md",
+  };
+
+  it("refuses query-string keys when they are turned off", async () => {
+    const { port } = await startServer(captured, { allowQueryKey: false });
+
+    expect((await post(port, `/inbox?api_key=${API_KEY}`, JSON.stringify({ content: "x" }), {})).status).toBe(401);
+    expect((await post(port, "/inbox", JSON.stringify({ content: "x" }))).status).toBe(200);
+  });
+
+  it("accepts an HMAC-signed request once", async () => {
+    const { port, processInboxItem } = await startServer(captured, {
+      routeAuth: { ...DEFAULT_SETTINGS.webhook.routeAuth, inbox: "hmac" },
+      hmacSecret: "shared",
+    });
+    const body = JSON.stringify({ content: "Signed capture" });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers = { "X-GSD-Timestamp": timestamp, "X-GSD-Signature": signHmacRequest("shared", timestamp, body) };
+
+    expect((await post(port, "/inbox", body, headers)).status).toBe(200);
+    expect((await post(port, "/inbox", body, headers)).status).toBe(401);
+    // The API key isn't accepted on an HMAC route
+    expect((await post(port, "/inbox", body)).status).toBe(401);
+    expect(processInboxItem).toHaveBeenCalledTimes(1);
+  });
+
+  it("won't start without the secret a route needs", async () => {
+    server = new WebhookServer(
+      makeSettings({ routeAuth: { ...DEFAULT_SETTINGS.webhook.routeAuth, amie: "qstash" } }),
+      {} as WebhookJobQueue,
+      {} as InboxAction,
+      {} as VaultReadApi
+    );
+
+    expect(server.getMissingCredential()).toBe("QStash signing key");
+    await server.start();
+    expect(server.isRunning()).toBe(false);
+  });
+});
+
+describe("WebhookServer transcript webhooks", () => {
+  afterEach(() => {
+    server?.stop();
+    server = null;
+  });
+
+  const transcript = JSON.stringify({
+    title: "Weekly sync",
+    transcript: "Hello",
+    metadata: { providerCalendarEventId: "evt_1", title: "Weekly sync" },
+  });
+
+  it("queues the transcript and acknowledges with 202", async () => {
+    const { port, jobs } = await startServer({ status: "empty" });
+
+    const response = await post(port, "/webhook/amie", transcript, {
+      Authorization: `Bearer ${API_KEY}`,
+      "Upstash-Message-Id": "msg_1",
+    });
+
+    expect(response.status).toBe(202);
+    expect(response.json).toEqual({ status: "queued", messageId: "msg_1", jobId: expect.any(String) });
+    expect(jobs.getJob(response.json.jobId)).toMatchObject({
+      kind: "transcript",
+      label: "Weekly sync",
+      messageId: "msg_1",
+      payload: { source: "amie", eventId: "evt_1", title: "Weekly sync", transcript: "Hello" },
+    });
+  });
+
+  it("answers redeliveries of a message with the original job", async () => {
+    const { port } = await startServer({ status: "empty" });
+    const headers = { Authorization: `Bearer ${API_KEY}`, "Upstash-Message-Id": "msg_1" };
+
+    const first = await post(port, "/webhook/amie", transcript, headers);
+    const second = await post(port, "/webhook/amie", transcript, headers);
+
+    expect(second).toEqual({ status: 200, json: { status: "duplicate", messageId: "msg_1", jobId: first.json.jobId } });
+  });
+
+  it("reports job status without the payload", async () => {
+    const { port } = await startServer({ status: "empty" });
+    const { json } = await post(port, "/webhook/amie", transcript);
+
+    const status = await post(port, `/jobs/${json.jobId}`, "", undefined, "GET");
+    expect(status.status).toBe(200);
+    expect(status.json).toMatchObject({ id: json.jobId, kind: "transcript", status: "queued", attempts: 0 });
+    expect(status.json).not.toHaveProperty("payload");
+
+    expect((await post(port, "/jobs/job_missing", "", undefined, "GET")).status).toBe(404);
+    expect((await post(port, `/jobs/${json.jobId}`, "", {}, "GET")).status).toBe(401);
+  });
+
+  it("answers malformed job IDs with 400", async () => {
+    const { port } = await startServer({ status: "empty" });
+
+    const response = await post(port, "/jobs/%E0", "", undefined, "GET");
+
+    expect(response).toEqual({ status: 400, json: { error: "Malformed job ID" } });
+  });
+
+  it("normalizes subtitle uploads with details from the query string", async () => {
+    const { port, jobs } = await startServer({ status: "empty" });
+    const vtt = "WEBVTT\n\n00:00:01.000 --> 00:00:03.000\n<v Ann>Morning all\n\n00:01:05.000 --> 00:01:09.000\n<v Bo>Hi Ann";
+
+    const response = await post(
+      port,
+      "/webhook/vtt?title=Standup&start=2026-03-02T09:00:00Z&guests=ann@example.com,bo@example.com",
+      vtt
+    );
+
+    expect(response.status).toBe(202);
+    expect(jobs.getJob(response.json.jobId)?.payload).toMatchObject({
+      source: "vtt",
+      eventId: "",
+      title: "Standup",
+      startAt: "2026-03-02T09:00:00.000Z",
+      endAt: "2026-03-02T09:01:09.000Z",
+      transcript: "**[0:01] Ann:** Morning all\n\n**[1:05] Bo:** Hi Ann",
+    });
+  });
+
+  it("rejects payloads the adapter can't use and unknown sources", async () => {
+    const { port } = await startServer({ status: "empty" });
+
+    expect(await post(port, "/webhook/amie", JSON.stringify({ transcript: "Hello", metadata: {} }))).toEqual({
+      status: 400,
+      json: {
+        error: "Invalid request body",
+        errors: [{ field: "$.metadata.providerCalendarEventId", message: "is required" }],
+      },
+    });
+    expect((await post(port, "/webhook/generic", JSON.stringify({ startAt: "soon", transcript: "Hi" }))).json).toEqual({
+      error: "Missing or invalid field: startAt",
+    });
+    expect((await post(port, "/webhook/fireflies", "not json")).status).toBe(400);
+    expect((await post(port, "/webhook/zoom", transcript)).status).toBe(404);
+  });
+});
+
+describe("WebhookServer read API", () => {
+  afterEach(() => {
+    server?.stop();
+    server = null;
+  });
+
+  const get = (port: number, path: string, headers?: Record<string, string>) => post(port, path, "", headers, "GET");
+
+  it("looks people up by email and orgs by domain", async () => {
+    const { port } = await startServer({ status: "empty" });
+
+    expect(await get(port, "/people?email=ann%40acme.com")).toEqual({ status: 200, json: ANN });
+    expect(await get(port, "/orgs?domain=acme.com")).toEqual({ status: 404, json: { error: "Organization not found" } });
+    expect(await get(port, "/people")).toEqual({
+      status: 400,
+      json: { error: "Missing required query parameter: email" },
+    });
+  });
+
+  it("lists a person's meetings", async () => {
+    const { port, readApi } = await startServer({ status: "empty" });
+
+    const response = await get(port, "/people/Ann%20Lee/meetings?limit=1");
+    expect(response.status).toBe(200);
+    expect(response.json).toMatchObject({ person: ANN, total: 2 });
+    expect(readApi.getMeetingsForPerson).toHaveBeenCalledWith("Ann Lee", 1);
+    expect((await get(port, "/people/Nobody/meetings")).status).toBe(404);
+    expect(await get(port, "/people/%E0/meetings")).toEqual({ status: 400, json: { error: "Malformed person name" } });
+  });
+
+  it("searches mentioned entities", async () => {
+    const { port, readApi } = await startServer({ status: "empty" });
+
+    expect(await get(port, "/search?q=lunch%20with%20ann")).toEqual({
+      status: 200,
+      json: { query: "lunch with ann", results: [{ type: "person", ...ANN }] },
+    });
+    expect(readApi.search).toHaveBeenCalledWith("lunch with ann", undefined);
+  });
+
+  it("requires the read route's credentials", async () => {
+    const { port, readApi } = await startServer({ status: "empty" });
+
+    expect((await get(port, "/search?q=ann", {})).status).toBe(401);
+    expect((await get(port, "/people?email=ann%40acme.com", { Authorization: "Bearer wrong" })).status).toBe(401);
+    expect(readApi.search).not.toHaveBeenCalled();
+  });
+});
+
+describe("WebhookServer limits and contract", () => {
+  afterEach(() => {
+    server?.stop();
+    server = null;
+  });
+
+  const get = (port: number, path: string, headers?: Record<string, string>) => post(port, path, "", headers, "GET");
+
+  it("serves the OpenAPI document without credentials", async () => {
+    const { port } = await startServer({ status: "empty" }, {
+      routeAuth: { ...DEFAULT_SETTINGS.webhook.routeAuth, amie: "hmac" },
+      hmacSecret: "shared",
+    });
+
+    const { status, json } = await get(port, "/openapi.json", {});
+
+    expect(status).toBe(200);
+    expect(json.openapi).toBe("3.1.0");
+    expect(json.paths["/webhook/amie"].post.security).toEqual([{ hmac: [] }]);
+    expect(json.paths["/webhook/amie"].post.requestBody.content["application/json"].schema).toEqual({
+      $ref: "#/components/schemas/AmieWebhookPayload",
+    });
+    expect(json.paths["/webhook/vtt"].post.requestBody.content).toHaveProperty("text/vtt");
+    expect(json.components.schemas.AmieWebhookPayload.required).toEqual(["metadata", "transcript"]);
+  });
+
+  it("answers oversized bodies with 413", async () => {
+    const { port, processInboxItem } = await startServer({ status: "empty" }, { maxBodyBytes: 64 });
+
+    const response = await post(port, "/inbox", JSON.stringify({ content: "x".repeat(100) }));
+
+    expect(response).toEqual({ status: 413, json: { error: "Request body exceeds 64 bytes" } });
+    expect(processInboxItem).not.toHaveBeenCalled();
+  });
+
+  it("rate limits each address", async () => {
+    const { port } = await startServer({ status: "empty" }, { rateLimitPerMinute: 2 });
+
+    expect((await get(port, "/health")).status).toBe(200);
+    expect((await get(port, "/health")).status).toBe(200);
+    const limited = await get(port, "/health");
+    expect(limited).toEqual({ status: 429, json: { error: "Too many requests" } });
+  });
+
+  it("doesn't give rotating bogus credentials a fresh budget", async () => {
+    const { port, processInboxItem } = await startServer({ status: "empty" }, { rateLimitPerMinute: 2 });
+    const body = JSON.stringify({ content: "Call Ann" });
+
+    const statuses: number[] = [];
+    for (const key of ["a", "b", "c"]) {
+      statuses.push((await post(port, "/inbox", body, { Authorization: `Bearer ${key}` })).status);
+    }
+
+    expect(statuses).toEqual([401, 401, 429]);
+    expect(processInboxItem).not.toHaveBeenCalled();
+  });
+});
@@ -1,11 +1,25 @@
 // ============================================================================
-// Webhook Server - HTTP server for Amie transcripts and external webhooks
+// Webhook Server - HTTP server for meeting transcripts, inbox captures and external webhooks
 // ============================================================================
 
 import * as http from "http";
 import { Notice } from "obsidian";
-import type { PluginSettings, AmieWebhookPayload } from "../types";
-import type { AmieTranscriptAction } from "../actions/amie-transcript";
+import type { PluginSettings, InboxURIParams, MeetingTranscript, WebhookJob, WebhookRoute } from "../types";
+import type { WebhookJobQueue } from "./webhook-jobs";
+import type { VaultReadApi } from "./vault-read-api";
+import { formatDestinationLabel, type InboxAction } from "../actions/inbox";
+import { getTranscriptAdapter, TranscriptPayloadError, type TranscriptAdapter } from "../actions/transcript";
+import { verifyHmacSignature, verifyQStashSignature, type WebhookAuthResult } from "../utils/webhook-auth";
+import { findJsonSchemaIssues } from "../utils/json-schema";
+import { RateLimiter } from "../utils/rate-limiter";
+import { buildOpenApiDocument, getRequestSchema } from "./webhook-openapi";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Paths served by handleRead */
+const READ_PATH = /^\/(people|orgs|search)$|^\/people\/[^/]+\/meetings$/;
 
 // ============================================================================
 // WebhookServer Class
@@ -13,18 +27,28 @@ import type { AmieTranscriptAction } from "../actions/amie-transcript";
 
 /**
  * HTTP webhook server for receiving external requests.
- * Handles Amie meeting transcript webhooks via QStash.
+ * Handles meeting transcript webhooks (Amie via QStash, other senders through
+ * their adapters), inbox captures from other machines and scripts, and
+ * read-only people/org/meeting lookups. JSON bodies are validated against the
+ * schemas published at GET /openapi.json; oversized bodies and callers over
+ * their rate limit are turned away before any work is done.
  */
 export class WebhookServer {
   private server: http.Server | null = null;
   private settings: PluginSettings;
-  private amieTranscript: AmieTranscriptAction;
-  private processedMessageIds: Set<string> = new Set();
-  private readonly MESSAGE_ID_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private jobs: WebhookJobQueue;
+  private inbox: InboxAction;
+  private readApi: VaultReadApi;
+  /** HMAC signatures already accepted, with when they leave the tolerance window */
+  private seenSignatures: Map<string, number> = new Map();
+  private rateLimiter: RateLimiter;
 
-  constructor(settings: PluginSettings, amieTranscript: AmieTranscriptAction) {
+  constructor(settings: PluginSettings, jobs: WebhookJobQueue, inbox: InboxAction, readApi: VaultReadApi) {
     this.settings = settings;
-    this.amieTranscript = amieTranscript;
+    this.jobs = jobs;
+    this.inbox = inbox;
+    this.readApi = readApi;
+    this.rateLimiter = new RateLimiter(settings.webhook.rateLimitPerMinute);
   }
 
   /**
@@ -32,6 +56,7 @@ export class WebhookServer {
    */
   updateSettings(settings: PluginSettings): void {
     this.settings = settings;
+    this.rateLimiter.setLimit(settings.webhook.rateLimitPerMinute);
   }
 
   /**
@@ -50,14 +75,15 @@ export class WebhookServer {
       return;
     }
 
-    if (!this.settings.webhook.apiKey) {
-      console.error("[WebhookServer] Cannot start: API key not configured");
-      new Notice("Webhook server: API key required");
+    const missing = this.getMissingCredential();
+    if (missing) {
+      console.error(`[WebhookServer] Cannot start: ${missing} not configured`);
+      new Notice(`Webhook server: ${missing} required`);
       return;
     }
 
     return new Promise((resolve, reject) => {
-      this.server = http.createServer((req, res) => this.handleRequest(req, res));
+      this.server = http.createServer((req, res) => void this.serveRequest(req, res));
 
       this.server.on("error", (err: NodeJS.ErrnoException) => {
         if (err.code === "EADDRINUSE") {
@@ -82,6 +108,22 @@ export class WebhookServer {
     });
   }
 
+  /**
+   * The first secret a route's auth scheme needs that isn't set, or null when
+   * every route can authenticate
+   */
+  getMissingCredential(): string | null {
+    const webhook = this.settings.webhook;
+    for (const scheme of Object.values(webhook.routeAuth)) {
+      if (scheme === "apiKey" && !webhook.apiKey) return "API key";
+      if (scheme === "qstash" && !webhook.qstashCurrentSigningKey && !webhook.qstashNextSigningKey) {
+        return "QStash signing key";
+      }
+      if (scheme === "hmac" && !webhook.hmacSecret) return "HMAC secret";
+    }
+    return null;
+  }
+
   /**
    * Stop the HTTP server
    */
@@ -94,6 +136,23 @@ export class WebhookServer {
     }
   }
 
+  /**
+   * Handle a request, answering 500 when a handler throws (Node drops the
+   * promise, so an escaped error would leave the socket hanging)
+   */
+  private async serveRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    try {
+      await this.handleRequest(req, res);
+    } catch (err) {
+      console.error(`[WebhookServer] Error handling ${req.method} ${req.url}:`, err);
+      if (!res.headersSent) {
+        this.sendJson(res, 500, { error: "Internal server error" });
+      } else {
+        res.end();
+      }
+    }
+  }
+
   /**
    * Handle incoming HTTP requests
    */
@@ -103,8 +162,11 @@ export class WebhookServer {
   ): Promise<void> {
     // Set CORS headers
     res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader(
+      "Access-Control-Allow-Headers",
+      "Content-Type, Authorization, Upstash-Signature, X-GSD-Signature, X-GSD-Timestamp"
+    );
 
     // Handle preflight
     if (req.method === "OPTIONS") {
@@ -116,95 +178,357 @@ export class WebhookServer {
     const url = new URL(req.url || "/", `http://${req.headers.host}`);
     const path = url.pathname;
 
+    // Credentials aren't checked yet, so only the address can be trusted here
+    if (this.isRateLimited(`ip:${req.socket.remoteAddress ?? "unknown"}`, res)) return;
+
     // Route handling
-    if (path === "/webhook/amie" && req.method === "POST") {
-      await this.handleAmieWebhook(req, res);
+    const adapter = path.startsWith("/webhook/") ? getTranscriptAdapter(path.slice("/webhook/".length)) : null;
+    if (adapter && req.method === "POST") {
+      await this.handleTranscriptWebhook(req, res, adapter, url.searchParams);
+    } else if (path === "/inbox" && req.method === "POST") {
+      await this.handleInboxCapture(req, res);
+    } else if (path.startsWith("/jobs/") && req.method === "GET") {
+      const id = decodePathSegment(path.slice("/jobs/".length));
+      if (id === null) {
+        this.sendJson(res, 400, { error: "Malformed job ID" });
+      } else {
+        this.handleJobStatus(req, res, id);
+      }
+    } else if (READ_PATH.test(path) && req.method === "GET") {
+      this.handleRead(req, res, path, url.searchParams);
     } else if (path === "/health" && req.method === "GET") {
       this.sendJson(res, 200, { status: "ok", timestamp: new Date().toISOString() });
+    } else if (path === "/openapi.json" && req.method === "GET") {
+      this.sendJson(res, 200, buildOpenApiDocument(this.settings.webhook));
     } else {
       this.sendJson(res, 404, { error: "Not found" });
     }
   }
 
   /**
-   * Handle Amie webhook POST request
+   * Handle transcript webhook POST request (`/webhook/<source>`)
    */
-  private async handleAmieWebhook(
+  private async handleTranscriptWebhook(
     req: http.IncomingMessage,
-    res: http.ServerResponse
+    res: http.ServerResponse,
+    adapter: TranscriptAdapter,
+    query: URLSearchParams
   ): Promise<void> {
-    // Validate API key
-    const authHeader = req.headers.authorization;
-    const url = new URL(req.url || "/", `http://${req.headers.host}`);
-    const queryApiKey = url.searchParams.get("api_key");
+    // Signatures cover the raw body, so read it before authenticating
+    const rawBody = await this.readBody(req, res);
+    if (rawBody === null) return;
+    if (!this.authorize(adapter.source, req, rawBody, res)) return;
+    if (getRequestSchema(adapter.source) && this.parseJsonBody(adapter.source, rawBody, res) === null) return;
 
-    const providedKey = authHeader?.startsWith("Bearer ")
-      ? authHeader.slice(7)
-      : queryApiKey;
+    // Normalize the sender's payload
+    let transcript: MeetingTranscript;
+    try {
+      transcript = adapter.parse({ body: rawBody, query });
+    } catch (err) {
+      if (err instanceof TranscriptPayloadError) {
+        console.error(`[WebhookServer] Invalid ${adapter.label} payload: ${err.message}`);
+        this.sendJson(res, 400, { error: err.message });
+      } else {
+        console.error(`[WebhookServer] Error parsing ${adapter.label} payload:`, err);
+        this.sendJson(res, 500, { error: "Failed to parse transcript" });
+      }
+      return;
+    }
 
-    if (!providedKey || providedKey !== this.settings.webhook.apiKey) {
-      this.sendJson(res, 401, { error: "Unauthorized" });
+    // Persist and acknowledge; the transcript is processed in the background so
+    // slow calendar lookups can't make QStash time out and redeliver
+    const messageId = this.getHeader(req, "upstash-message-id");
+    try {
+      const { job, duplicate } = await this.jobs.enqueue("transcript", transcript, {
+        messageId,
+        label: transcript.title || transcript.eventId || `${adapter.label} transcript`,
+      });
+      if (duplicate) {
+        console.log(`[WebhookServer] Duplicate message ignored: ${messageId}`);
+        this.sendJson(res, 200, { status: "duplicate", messageId, jobId: job.id });
+        return;
+      }
+      console.log(`[WebhookServer] Queued ${adapter.label} transcript: ${job.label}`);
+      this.sendJson(res, 202, { status: "queued", messageId, jobId: job.id });
+    } catch (err) {
+      console.error("[WebhookServer] Error queueing transcript:", err);
+      this.sendJson(res, 500, { error: "Failed to queue transcript" });
+    }
+  }
+
+  /**
+   * Handle job status GET request (the payload isn't returned)
+   */
+  private handleJobStatus(req: http.IncomingMessage, res: http.ServerResponse, id: string): void {
+    if (!this.authorize("jobs", req, "", res)) return;
+
+    const job = this.jobs.getJob(id);
+    if (!job) {
+      this.sendJson(res, 404, { error: "Job not found" });
       return;
     }
+    this.sendJson(res, 200, toJobStatus(job));
+  }
+
+  /**
+   * Handle read-only lookups:
+   * GET /people?email=, GET /people/:name/meetings, GET /orgs?domain=, GET /search?q=
+   */
+  private handleRead(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    path: string,
+    query: URLSearchParams
+  ): void {
+    if (!this.authorize("read", req, "", res)) return;
 
-    // Check for QStash deduplication
-    const messageId = req.headers["upstash-message-id"] as string | undefined;
-    if (messageId && this.processedMessageIds.has(messageId)) {
-      console.log(`[WebhookServer] Duplicate message ignored: ${messageId}`);
-      this.sendJson(res, 200, { status: "duplicate", messageId });
+    const limit = query.has("limit") ? Number(query.get("limit")) : undefined;
+    const meetingsMatch = path.match(/^\/people\/([^/]+)\/meetings$/);
+    if (meetingsMatch) {
+      const name = decodePathSegment(meetingsMatch[1]);
+      if (name === null) {
+        this.sendJson(res, 400, { error: "Malformed person name" });
+        return;
+      }
+      const { person, meetings, total } = this.readApi.getMeetingsForPerson(name, limit);
+      if (!person && total === 0) {
+        this.sendJson(res, 404, { error: `No person or meetings found for ${name}` });
+      } else {
+        this.sendJson(res, 200, { person, meetings, total });
+      }
       return;
     }
 
-    // Parse request body
-    let body: AmieWebhookPayload;
-    try {
-      const rawBody = await this.readBody(req);
-      body = JSON.parse(rawBody);
-    } catch (err) {
-      console.error("[WebhookServer] Invalid JSON body:", err);
-      this.sendJson(res, 400, { error: "Invalid JSON body" });
+    const param = path === "/people" ? "email" : path === "/orgs" ? "domain" : "q";
+    const value = query.get(param)?.trim();
+    if (!value) {
+      this.sendJson(res, 400, { error: `Missing required query parameter: ${param}` });
       return;
     }
 
-    // Validate required fields
-    if (!body.metadata?.providerCalendarEventId || !body.transcript) {
-      this.sendJson(res, 400, { error: "Missing required fields: metadata.providerCalendarEventId, transcript" });
+    if (path === "/search") {
+      this.sendJson(res, 200, { query: value, results: this.readApi.search(value, limit) });
       return;
     }
 
-    // Track message ID for deduplication
-    if (messageId) {
-      this.processedMessageIds.add(messageId);
-      // Clean up old message IDs after TTL
-      setTimeout(() => {
-        this.processedMessageIds.delete(messageId);
-      }, this.MESSAGE_ID_TTL_MS);
+    const record = path === "/people" ? this.readApi.findPersonByEmail(value) : this.readApi.findOrgByDomain(value);
+    if (record) {
+      this.sendJson(res, 200, record);
+    } else {
+      this.sendJson(res, 404, { error: path === "/people" ? "Person not found" : "Organization not found" });
+    }
+  }
+
+  /**
+   * Handle inbox capture POST request
+   * Body: { content, type?, source? } (the obsidian://gsd-inbox parameters, not URI-encoded)
+   */
+  private async handleInboxCapture(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const rawBody = await this.readBody(req, res);
+    if (rawBody === null) return;
+    if (!this.authorize("inbox", req, rawBody, res)) return;
+
+    const body = this.parseJsonBody("inbox", rawBody, res);
+    if (body === null) return;
+
+    // processInboxItem decodes its parameters like the URI handler does
+    const params: InboxURIParams = { source: "webhook" };
+    for (const key of ["content", "type", "source"] as const) {
+      const value = body[key];
+      if (typeof value === "string" && value) params[key] = encodeURIComponent(value);
     }
 
-    // Process the transcript
     try {
-      console.log(`[WebhookServer] Processing Amie webhook for event: ${body.metadata.providerCalendarEventId}`);
-      const result = await this.amieTranscript.processTranscript(body);
+      const result = await this.inbox.processInboxItem(params);
+      switch (result.status) {
+        case "captured":
+          this.sendJson(res, 200, {
+            status: "captured",
+            destination: result.decision.destination,
+            destinationLabel: formatDestinationLabel(result.decision.destination),
+            notePath: result.notePath,
+            decision: result.decision,
+          });
+          break;
+        case "trigger":
+          // Trigger handlers (reference, research) finish in the background
+          this.sendJson(res, 202, { status: "accepted", trigger: result.trigger });
+          break;
+        case "disabled":
+          this.sendJson(res, 503, { error: "Inbox is disabled" });
+          break;
+        case "empty":
+          this.sendJson(res, 400, { error: "Missing required field: content" });
+          break;
+        case "failed":
+          this.sendJson(res, 500, { error: result.error });
+          break;
+      }
+    } catch (err) {
+      console.error("[WebhookServer] Error processing inbox capture:", err);
+      this.sendJson(res, 500, { error: "Failed to capture inbox item" });
+    }
+  }
 
-      this.sendJson(res, 200, {
-        status: "success",
-        messageId,
-        notePath: result.notePath,
-        action: result.action,
-      });
+  /**
+   * Authenticate a request with the route's scheme, then spend from that
+   * credential's rate limit
+   * @returns Whether to go on, false after answering 401 or 429
+   */
+  private authorize(
+    route: WebhookRoute,
+    req: http.IncomingMessage,
+    rawBody: string,
+    res: http.ServerResponse
+  ): boolean {
+    const scheme = this.settings.webhook.routeAuth?.[route] ?? "apiKey";
+    if (!this.isAuthorized(route, req, rawBody)) {
+      this.sendJson(res, 401, { error: "Unauthorized" });
+      return false;
+    }
+    // Only verified senders reach their credential's bucket, so forged ones can't drain it
+    return !this.isRateLimited(`credential:${scheme}`, res);
+  }
+
+  /**
+   * Authenticate a request with the route's scheme (failures are logged with the reason)
+   */
+  private isAuthorized(route: WebhookRoute, req: http.IncomingMessage, rawBody: string): boolean {
+    const webhook = this.settings.webhook;
+    const scheme = webhook.routeAuth?.[route] ?? "apiKey";
+    let result: WebhookAuthResult;
+
+    if (scheme === "qstash") {
+      result = verifyQStashSignature(this.getHeader(req, "upstash-signature") ?? "", rawBody, [
+        webhook.qstashCurrentSigningKey,
+        webhook.qstashNextSigningKey,
+      ]);
+    } else if (scheme === "hmac") {
+      const signature = this.getHeader(req, "x-gsd-signature");
+      result = verifyHmacSignature(
+        signature,
+        this.getHeader(req, "x-gsd-timestamp"),
+        rawBody,
+        webhook.hmacSecret,
+        webhook.hmacToleranceSeconds
+      );
+      if (result.ok && signature) result = this.checkReplay(signature, webhook.hmacToleranceSeconds);
+    } else {
+      result = this.checkApiKey(req);
+    }
+
+    if (!result.ok) {
+      console.warn(`[WebhookServer] Rejected ${route} request (${scheme}): ${result.reason}`);
+    }
+    return result.ok;
+  }
+
+  /**
+   * Check the API key from the Authorization bearer header or, when allowed, the api_key query parameter
+   */
+  private checkApiKey(req: http.IncomingMessage): WebhookAuthResult {
+    const authHeader = req.headers.authorization;
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+    const queryApiKey = this.settings.webhook.allowQueryKey ? url.searchParams.get("api_key") : null;
+
+    const providedKey = authHeader?.startsWith("Bearer ")
+      ? authHeader.slice(7)
+      : queryApiKey;
+
+    if (!providedKey) return { ok: false, reason: "no API key" };
+    return providedKey === this.settings.webhook.apiKey ? { ok: true } : { ok: false, reason: "wrong API key" };
+  }
+
+  /**
+   * Reject an HMAC signature seen before; it can only be replayed while its timestamp is in tolerance
+   */
+  private checkReplay(signature: string, toleranceSeconds: number): WebhookAuthResult {
+    const now = Date.now();
+    for (const [seen, expiresAt] of this.seenSignatures) {
+      if (expiresAt <= now) this.seenSignatures.delete(seen);
+    }
+    if (this.seenSignatures.has(signature)) return { ok: false, reason: "replayed signature" };
+    this.seenSignatures.set(signature, now + toleranceSeconds * 2 * 1000);
+    return { ok: true };
+  }
+
+  private getHeader(req: http.IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  /**
+   * Spend a token from a rate limit bucket
+   * @returns True after answering 429 when the bucket is empty
+   */
+  private isRateLimited(key: string, res: http.ServerResponse): boolean {
+    const limit = this.rateLimiter.take(key);
+    if (limit.ok) return false;
+    res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+    this.sendJson(res, 429, { error: "Too many requests" });
+    return true;
+  }
+
+  /**
+   * Parse a JSON body and validate it against the route's schema
+   * @returns The body, or null after answering 400 with the field-level errors
+   */
+  private parseJsonBody(route: WebhookRoute, rawBody: string, res: http.ServerResponse): Record<string, unknown> | null {
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
     } catch (err) {
-      console.error("[WebhookServer] Error processing transcript:", err);
-      this.sendJson(res, 500, { error: "Failed to process transcript" });
+      console.error("[WebhookServer] Invalid JSON body:", err);
+      this.sendJson(res, 400, { error: "Invalid JSON body" });
+      return null;
     }
+
+    const schema = getRequestSchema(route);
+    const issues = schema ? findJsonSchemaIssues(body, schema) : [];
+    if (issues.length > 0) {
+      console.warn(`[WebhookServer] Invalid ${route} body: ${issues.map((i) => `${i.path} ${i.message}`).join("; ")}`);
+      this.sendJson(res, 400, {
+        error: "Invalid request body",
+        errors: issues.map((issue) => ({ field: issue.path, message: issue.message })),
+      });
+      return null;
+    }
+    return body as Record<string, unknown>;
   }
 
   /**
    * Read request body as string
+   * @returns The body, or null after answering 413 when it exceeds maxBodyBytes
    */
-  private readBody(req: http.IncomingMessage): Promise<string> {
+  private readBody(req: http.IncomingMessage, res: http.ServerResponse): Promise<string | null> {
+    const maxBytes = this.settings.webhook.maxBodyBytes;
+    const tooLarge = () => {
+      this.sendJson(res, 413, { error: `Request body exceeds ${maxBytes} bytes` });
+      // Drain the rest without keeping it so the client gets the response
+      req.removeAllListeners("data");
+      req.resume();
+    };
+
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      tooLarge();
+      return Promise.resolve(null);
+    }
+
     return new Promise((resolve, reject) => {
       const chunks: Buffer[] = [];
-      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      let size = 0;
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          tooLarge();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      });
       req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
       req.on("error", reject);
     });
@@ -218,3 +542,37 @@ export class WebhookServer {
     res.end(JSON.stringify(data));
   }
 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Percent-decode a path segment (null for malformed escapes like `%E0`)
+ */
+function decodePathSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Job fields reported by GET /jobs/:id
+ */
+function toJobStatus(job: WebhookJob): Record<string, unknown> {
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    label: job.label,
+    messageId: job.messageId,
+    attempts: job.attempts,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString(),
+    nextAttemptAt: job.status === "queued" ? new Date(job.runAfter).toISOString() : undefined,
+    lastError: job.lastError,
+    result: job.result,
+  };
+}
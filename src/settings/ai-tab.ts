@@ -5,6 +5,7 @@
 import { Setting, Notice } from "obsidian";
 import type GetShitDonePlugin from "../main";
 import { DEFAULT_SETTINGS } from "../types";
+import type { SemanticIndexSource } from "../types";
 import {
   createSection,
   createDetailsSection,
@@ -52,6 +53,34 @@ export function renderAiTab(
     "Edit the exact prompts used for each workflow."
   );
   renderPrompts(promptDetails, plugin, { includeHeader: false });
+
+  const cacheDetails = createDetailsSection(
+    containerEl,
+    "Response cache (advanced)",
+    "Reuse responses to byte-identical requests instead of calling the model again."
+  );
+  renderResponseCache(cacheDetails, plugin, onRefresh);
+
+  const traceDetails = createDetailsSection(
+    containerEl,
+    "AI call trace (advanced)",
+    "Record recent AI calls (prompts, responses, latency, tokens) for the AI Call Trace view."
+  );
+  renderAITrace(traceDetails, plugin, onRefresh);
+
+  const toolDetails = createDetailsSection(
+    containerEl,
+    "Vault tools (advanced)",
+    "Let the O3 coach and research look up people, meetings, notes and Gmail while answering."
+  );
+  renderAITools(toolDetails, plugin);
+
+  const semanticDetails = createDetailsSection(
+    containerEl,
+    "Semantic index (advanced)",
+    "Embed meetings, daily notes, references and People/Org notes so briefings, the O3 coach and inbox routing can pull in related passages."
+  );
+  renderSemanticIndex(semanticDetails, plugin, onRefresh);
 }
 
 // ============================================================================
@@ -107,6 +136,7 @@ function applyModelToAll(plugin: GetShitDonePlugin, model: string): void {
     phoneValidationModel: model,
     inboxRoutingModel: model,
     settingsHelperModel: model,
+    actionItemModel: model,
   };
 }
 
@@ -117,7 +147,11 @@ function renderModels(
   options: { includeHeader?: boolean } = {}
 ): void {
   if (options.includeHeader !== false) {
-    createSection(containerEl, "AI Models", "Configure which models to use.");
+    createSection(
+      containerEl,
+      "AI Models",
+      "Configure which models to use. Prefix with local: to use the self-hosted endpoint (API tab). List several models separated by commas or → for a fallback chain, e.g. gemini-pro-latest, claude-sonnet-4-5, openrouter:auto-free."
+    );
   }
 
   new Setting(containerEl)
@@ -213,6 +247,19 @@ function renderModels(
         })
     );
 
+  new Setting(containerEl)
+    .setName("Action Item Model")
+    .setDesc("Model for extracting commitments from meeting transcripts. Gemini: gemini-flash-latest. OpenAI: gpt-4o-mini")
+    .addText((text) =>
+      text
+        .setPlaceholder("gemini-flash-latest or gpt-4o-mini")
+        .setValue(plugin.settings.models.actionItemModel)
+        .onChange(async (value) => {
+          plugin.settings.models.actionItemModel = value;
+          await plugin.saveSettings();
+        })
+    );
+
   new Setting(containerEl)
     .setName("Settings Helper Model")
     .setDesc("Model used by the settings helper and prompt assistant")
@@ -316,6 +363,14 @@ function renderGenerationConfigs(
     "o3Prep"
   );
 
+  createGenerationConfigSetting(
+    containerEl,
+    plugin,
+    "Action Items",
+    "Commitment extraction from transcripts (keep deterministic).",
+    "actionItems"
+  );
+
   new Setting(containerEl)
     .setName("Reset Generation Config")
     .setDesc("Reset generation config values to their defaults")
@@ -328,6 +383,273 @@ function renderGenerationConfigs(
     );
 }
 
+const CACHE_TTL_ACTIONS: Array<{ action: string; name: string }> = [
+  { action: "meetingFilter", name: "Meeting filter" },
+  { action: "meetingBriefing", name: "Meeting briefing" },
+  { action: "personResearch", name: "Person research" },
+  { action: "orgResearch", name: "Organization research" },
+  { action: "phoneValidation", name: "Phone validation" },
+  { action: "inboxRouting", name: "Inbox routing" },
+  { action: "inboxResearch", name: "Inbox deep research" },
+  { action: "o3Prep", name: "O3 prep" },
+  { action: "o3Coach", name: "O3 coach" },
+  { action: "actionItems", name: "Meeting action items" },
+  { action: "reference", name: "Reference tagging" },
+  { action: "council", name: "LLM council" },
+];
+
+function renderResponseCache(
+  containerEl: HTMLElement,
+  plugin: GetShitDonePlugin,
+  onRefresh: () => void
+): void {
+  const cfg = plugin.settings.responseCache;
+
+  new Setting(containerEl)
+    .setName("Enable response cache")
+    .setDesc("Stored in the plugin folder. Calls can opt out with bypassCache.")
+    .addToggle((toggle) =>
+      toggle.setValue(cfg.enabled).onChange(async (value) => {
+        cfg.enabled = value;
+        await plugin.saveSettings();
+      })
+    );
+
+  new Setting(containerEl)
+    .setName("Default TTL (hours)")
+    .setDesc("Used for workflows without their own TTL below")
+    .addText((text) =>
+      text.setValue(String(cfg.defaultTtlHours)).onChange(async (value) => {
+        cfg.defaultTtlHours = parseTtlHours(value, DEFAULT_SETTINGS.responseCache.defaultTtlHours);
+        await plugin.saveSettings();
+      })
+    );
+
+  new Setting(containerEl)
+    .setName("Web search TTL (hours)")
+    .setDesc("Upper bound for calls that use web search, whose answers go stale sooner")
+    .addText((text) =>
+      text.setValue(String(cfg.searchTtlHours)).onChange(async (value) => {
+        cfg.searchTtlHours = parseTtlHours(value, DEFAULT_SETTINGS.responseCache.searchTtlHours);
+        await plugin.saveSettings();
+      })
+    );
+
+  for (const { action, name } of CACHE_TTL_ACTIONS) {
+    new Setting(containerEl)
+      .setName(`${name} TTL (hours)`)
+      .setDesc("0 = never cache; empty = default TTL")
+      .addText((text) =>
+        text
+          .setPlaceholder(String(cfg.defaultTtlHours))
+          .setValue(cfg.taskTtlHours[action] != null ? String(cfg.taskTtlHours[action]) : "")
+          .onChange(async (value) => {
+            if (!value.trim()) {
+              delete cfg.taskTtlHours[action];
+            } else {
+              cfg.taskTtlHours[action] = parseTtlHours(value, cfg.defaultTtlHours);
+            }
+            await plugin.saveSettings();
+          })
+      );
+  }
+
+  new Setting(containerEl)
+    .setName("Clear cache")
+    .setDesc(`${plugin.getResponseCache().size()} cached responses`)
+    .addButton((button) =>
+      button.setButtonText("Clear").onClick(async () => {
+        const removed = await plugin.getResponseCache().clear();
+        new Notice(`Cleared ${removed} cached AI responses`);
+        onRefresh();
+      })
+    );
+}
+
+function renderAITrace(
+  containerEl: HTMLElement,
+  plugin: GetShitDonePlugin,
+  onRefresh: () => void
+): void {
+  const cfg = plugin.settings.aiTrace;
+
+  new Setting(containerEl)
+    .setName("Record AI calls")
+    .setDesc("API keys and email addresses are redacted before a call is stored.")
+    .addToggle((toggle) =>
+      toggle.setValue(cfg.enabled).onChange(async (value) => {
+        cfg.enabled = value;
+        await plugin.saveSettings();
+      })
+    );
+
+  new Setting(containerEl)
+    .setName("Calls to keep")
+    .setDesc("The oldest calls are dropped beyond this")
+    .addText((text) =>
+      text.setValue(String(cfg.maxEntries)).onChange(async (value) => {
+        const parsed = parseInt(value.trim(), 10);
+        cfg.maxEntries = isNaN(parsed) || parsed < 1 ? DEFAULT_SETTINGS.aiTrace.maxEntries : parsed;
+        await plugin.saveSettings();
+      })
+    );
+
+  new Setting(containerEl)
+    .setName("Keep trace across restarts")
+    .setDesc("Stores the trace as ai-trace.json in the plugin folder.")
+    .addToggle((toggle) =>
+      toggle.setValue(cfg.persist).onChange(async (value) => {
+        cfg.persist = value;
+        await plugin.saveSettings();
+      })
+    );
+
+  new Setting(containerEl)
+    .setName("Clear trace")
+    .setDesc(`${plugin.getAITrace().getEntries().length} recorded calls`)
+    .addButton((button) =>
+      button.setButtonText("Clear").onClick(async () => {
+        const removed = await plugin.getAITrace().clear();
+        new Notice(`Cleared ${removed} traced AI calls`);
+        onRefresh();
+      })
+    );
+}
+
+function renderAITools(containerEl: HTMLElement, plugin: GetShitDonePlugin): void {
+  const cfg = plugin.settings.aiTools;
+
+  new Setting(containerEl)
+    .setName("Enable vault tools")
+    .setDesc("Tools are read-only. Each tool round is a separate model request.")
+    .addToggle((toggle) =>
+      toggle.setValue(cfg.enabled).onChange(async (value) => {
+        cfg.enabled = value;
+        await plugin.saveSettings();
+      })
+    );
+
+  new Setting(containerEl)
+    .setName("Gmail search tool")
+    .setDesc("Lets models search your Gmail through the Apps Script endpoint")
+    .addToggle((toggle) =>
+      toggle.setValue(cfg.gmail).onChange(async (value) => {
+        cfg.gmail = value;
+        await plugin.saveSettings();
+      })
+    );
+
+  new Setting(containerEl)
+    .setName("Max tool rounds")
+    .setDesc("Tool round trips per call before the model must answer")
+    .addText((text) =>
+      text.setValue(String(cfg.maxRounds)).onChange(async (value) => {
+        const parsed = parseInt(value.trim(), 10);
+        cfg.maxRounds = isNaN(parsed) || parsed < 1 ? DEFAULT_SETTINGS.aiTools.maxRounds : parsed;
+        await plugin.saveSettings();
+      })
+    );
+}
+
+const SEMANTIC_INDEX_SOURCES: Array<{ source: SemanticIndexSource; name: string }> = [
+  { source: "meetings", name: "Meeting notes" },
+  { source: "dailyNotes", name: "Daily notes" },
+  { source: "references", name: "References" },
+  { source: "people", name: "People notes" },
+  { source: "organizations", name: "Organization notes" },
+];
+
+function renderSemanticIndex(
+  containerEl: HTMLElement,
+  plugin: GetShitDonePlugin,
+  onRefresh: () => void
+): void {
+  const cfg = plugin.settings.semanticIndex;
+
+  new Setting(containerEl)
+    .setName("Enable semantic index")
+    .setDesc("Stored as semantic-index.json in the plugin folder. Notes are re-embedded when they change.")
+    .addToggle((toggle) =>
+      toggle.setValue(cfg.enabled).onChange(async (value) => {
+        cfg.enabled = value;
+        await plugin.saveSettings();
+      })
+    );
+
+  new Setting(containerEl)
+    .setName("Embedding model")
+    .setDesc("e.g. gemini-embedding-001, text-embedding-3-small, local:nomic-embed-text. Changing it rebuilds the index.")
+    .addText((text) =>
+      text.setValue(cfg.model).onChange(async (value) => {
+        cfg.model = value.trim() || DEFAULT_SETTINGS.semanticIndex.model;
+        await plugin.saveSettings();
+      })
+    );
+
+  for (const { source, name } of SEMANTIC_INDEX_SOURCES) {
+    new Setting(containerEl).setName(`Index ${name.toLowerCase()}`).addToggle((toggle) =>
+      toggle.setValue(cfg.sources[source]).onChange(async (value) => {
+        cfg.sources[source] = value;
+        await plugin.saveSettings();
+      })
+    );
+  }
+
+  new Setting(containerEl)
+    .setName("Passage length (characters)")
+    .setDesc("Notes are split at headings, then paragraphs. Changing it rebuilds the index.")
+    .addText((text) =>
+      text.setValue(String(cfg.chunkChars)).onChange(async (value) => {
+        const parsed = parseInt(value.trim(), 10);
+        cfg.chunkChars = isNaN(parsed) || parsed < 200 ? DEFAULT_SETTINGS.semanticIndex.chunkChars : parsed;
+        await plugin.saveSettings();
+      })
+    );
+
+  new Setting(containerEl)
+    .setName("Passages per lookup")
+    .addText((text) =>
+      text.setValue(String(cfg.topK)).onChange(async (value) => {
+        const parsed = parseInt(value.trim(), 10);
+        cfg.topK = isNaN(parsed) || parsed < 1 ? DEFAULT_SETTINGS.semanticIndex.topK : parsed;
+        await plugin.saveSettings();
+      })
+    );
+
+  new Setting(containerEl)
+    .setName("Minimum similarity")
+    .setDesc("Cosine similarity from 0 to 1; weaker matches are left out")
+    .addText((text) =>
+      text.setValue(String(cfg.minScore)).onChange(async (value) => {
+        const parsed = parseFloat(value.trim());
+        cfg.minScore = isNaN(parsed) || parsed < 0 || parsed > 1 ? DEFAULT_SETTINGS.semanticIndex.minScore : parsed;
+        await plugin.saveSettings();
+      })
+    );
+
+  const stats = plugin.getSemanticIndex().getStats();
+  new Setting(containerEl)
+    .setName("Rebuild index")
+    .setDesc(`${stats.passages} passages from ${stats.notes} notes`)
+    .addButton((button) =>
+      button.setButtonText("Rebuild").onClick(async () => {
+        if (!plugin.getSemanticIndex().isEnabled()) {
+          new Notice("Enable the semantic index first");
+          return;
+        }
+        new Notice("Rebuilding semantic index...");
+        await plugin.getSemanticIndex().rebuild();
+        new Notice("Semantic index rebuilt");
+        onRefresh();
+      })
+    );
+}
+
+function parseTtlHours(value: string, fallback: number): number {
+  const parsed = parseFloat(value.trim());
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
 function renderPrompts(
   containerEl: HTMLElement,
   plugin: GetShitDonePlugin,
@@ -337,6 +659,19 @@ function renderPrompts(
     createSection(containerEl, "Prompts", "Customize the AI prompts used for each workflow.");
   }
 
+  new Setting(containerEl)
+    .setName("Prompt partials folder")
+    .setDesc("Notes in this folder can be included in any prompt with {> note name}")
+    .addText((text) =>
+      text
+        .setPlaceholder("Z_Settings & Tools/prompts/partials")
+        .setValue(plugin.settings.promptTemplates.partialsFolder)
+        .onChange(async (value) => {
+          plugin.settings.promptTemplates.partialsFolder = value.trim();
+          await plugin.saveSettings();
+        })
+    );
+
   createPromptSetting(
     containerEl,
     plugin,
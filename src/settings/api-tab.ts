@@ -4,8 +4,18 @@
 
 import { Setting, Notice } from "obsidian";
 import type GetShitDonePlugin from "../main";
+import type { EventWebhookSubscriber, PluginEventName, WebhookAuthScheme, WebhookRoute } from "../types";
 import { GoogleServices } from "../services/google-services";
-import { createSection, addSecretSetting } from "./helpers";
+import { PLUGIN_EVENT_NAMES } from "../services/event-bus";
+import { TRANSCRIPT_ADAPTERS } from "../actions/transcript";
+import {
+  createSection,
+  createDetailsSection,
+  createListSetting,
+  createRuleId,
+  addSecretSetting,
+} from "./helpers";
+import { handleError, getErrorMessage } from "../utils/error-handler";
 
 // ============================================================================
 // Public API
@@ -13,7 +23,8 @@ import { createSection, addSecretSetting } from "./helpers";
 
 export function renderApiTab(
   containerEl: HTMLElement,
-  plugin: GetShitDonePlugin
+  plugin: GetShitDonePlugin,
+  onRefresh: () => void
 ): void {
   containerEl.createEl("p", {
     text: "Keys, endpoints, and external service connections.",
@@ -21,7 +32,9 @@ export function renderApiTab(
   });
 
   renderApiConfig(containerEl, plugin);
+  renderLocalProvider(containerEl, plugin, onRefresh);
   renderWebhook(containerEl, plugin);
+  renderEventWebhooks(containerEl, plugin, onRefresh);
   renderDiagnostics(containerEl, plugin);
 }
 
@@ -122,11 +135,83 @@ function renderApiConfig(containerEl: HTMLElement, plugin: GetShitDonePlugin): v
   });
 }
 
+function renderLocalProvider(
+  containerEl: HTMLElement,
+  plugin: GetShitDonePlugin,
+  onRefresh: () => void
+): void {
+  createSection(
+    containerEl,
+    "Local Model",
+    "Self-hosted OpenAI-compatible server (Ollama, LM Studio, vLLM). Use models as local:<model-id>, e.g. for People and O3 work that should stay on your machine."
+  );
+
+  new Setting(containerEl)
+    .setName("Base URL")
+    .setDesc("Endpoint including the version path, e.g. http://localhost:11434/v1")
+    .addText((text) =>
+      text
+        .setPlaceholder("http://localhost:11434/v1")
+        .setValue(plugin.settings.localProvider.baseUrl)
+        .onChange(async (value) => {
+          plugin.settings.localProvider.baseUrl = value.trim();
+          await plugin.saveSettings();
+        })
+    );
+
+  addSecretSetting(containerEl, {
+    name: "API Key",
+    desc: "Optional bearer token, if your server requires one",
+    placeholder: "Leave empty for most local servers",
+    value: plugin.settings.localProvider.apiKey,
+    onChange: async (value) => {
+      plugin.settings.localProvider.apiKey = value;
+      await plugin.saveSettings();
+    },
+  });
+
+  const { modelCache, lastFetched } = plugin.settings.localProvider;
+  const listedDesc = modelCache.length
+    ? `${modelCache.length} models${lastFetched ? ` (listed ${new Date(lastFetched).toLocaleString()})` : ""}`
+    : "No models listed yet";
+
+  new Setting(containerEl)
+    .setName("Available Models")
+    .setDesc(listedDesc)
+    .addButton((button) =>
+      button.setButtonText("List models").onClick(async () => {
+        button.setDisabled(true);
+        try {
+          const models = await plugin.getAIService().listLocalModels();
+          plugin.settings.localProvider.modelCache = models;
+          plugin.settings.localProvider.lastFetched = new Date().toISOString();
+          await plugin.saveSettings();
+          new Notice(`Found ${models.length} local models`);
+          onRefresh();
+        } catch (error: unknown) {
+          handleError("Local model listing failed", error, {
+            showNotice: true,
+            noticeMessage: `Could not list local models: ${getErrorMessage(error)}`,
+          });
+        } finally {
+          button.setDisabled(false);
+        }
+      })
+    );
+
+  if (modelCache.length) {
+    const list = containerEl.createEl("ul", { cls: "setting-item-description" });
+    for (const id of modelCache) {
+      list.createEl("li", { text: `local:${id}` });
+    }
+  }
+}
+
 function renderWebhook(containerEl: HTMLElement, plugin: GetShitDonePlugin): void {
   createSection(
     containerEl,
     "Webhook Server",
-    "HTTP server for receiving external webhooks (e.g., Amie meeting transcripts via QStash)."
+    "HTTP server for receiving meeting transcripts (POST /webhook/<source> for Amie, generic JSON, WebVTT, SRT, Otter, Fireflies and tl;dv), inbox captures (POST /inbox) and read-only people, org and meeting lookups for local scripts. The full contract is served at GET /openapi.json."
   );
 
   new Setting(containerEl)
@@ -164,7 +249,7 @@ function renderWebhook(containerEl: HTMLElement, plugin: GetShitDonePlugin): voi
 
   addSecretSetting(containerEl, {
     name: "API Key",
-    desc: "Secret key for authenticating webhook requests (required)",
+    desc: "Secret key for authenticating webhook requests (required for routes using API key auth)",
     placeholder: "Enter a secure API key",
     value: plugin.settings.webhook.apiKey,
     onChange: async (value) => {
@@ -173,6 +258,18 @@ function renderWebhook(containerEl: HTMLElement, plugin: GetShitDonePlugin): voi
     },
   });
 
+  new Setting(containerEl)
+    .setName("Allow API key in query string")
+    .setDesc("Accept ?api_key= as well as the Authorization header. Query strings end up in proxy and server logs.")
+    .addToggle((toggle) =>
+      toggle.setValue(plugin.settings.webhook.allowQueryKey).onChange(async (value) => {
+        plugin.settings.webhook.allowQueryKey = value;
+        await plugin.saveSettings();
+      })
+    );
+
+  renderWebhookAuth(containerEl, plugin);
+
   new Setting(containerEl)
     .setName("Bind Address")
     .setDesc("Network interface to bind to (127.0.0.1 = localhost only, 0.0.0.0 = all interfaces)")
@@ -187,6 +284,38 @@ function renderWebhook(containerEl: HTMLElement, plugin: GetShitDonePlugin): voi
         })
     );
 
+  new Setting(containerEl)
+    .setName("Max body size (MB)")
+    .setDesc("Larger requests are refused with 413 before they are read")
+    .addText((text) =>
+      text
+        .setPlaceholder("5")
+        .setValue(String(plugin.settings.webhook.maxBodyBytes / (1024 * 1024)))
+        .onChange(async (value) => {
+          const megabytes = parseFloat(value);
+          if (!isNaN(megabytes) && megabytes > 0) {
+            plugin.settings.webhook.maxBodyBytes = Math.round(megabytes * 1024 * 1024);
+            await plugin.saveSettings();
+          }
+        })
+    );
+
+  new Setting(containerEl)
+    .setName("Rate limit (requests per minute)")
+    .setDesc("Per API key, signature scheme or address; further requests get 429 with Retry-After. 0 turns limiting off.")
+    .addText((text) =>
+      text
+        .setPlaceholder("60")
+        .setValue(String(plugin.settings.webhook.rateLimitPerMinute))
+        .onChange(async (value) => {
+          const perMinute = parseInt(value, 10);
+          if (!isNaN(perMinute) && perMinute >= 0) {
+            plugin.settings.webhook.rateLimitPerMinute = perMinute;
+            await plugin.saveSettings();
+          }
+        })
+    );
+
   const serverStatus = plugin.webhookServer?.isRunning?.() ? "Running" : "Stopped";
   const serverPort = plugin.settings.webhook.port;
   new Setting(containerEl)
@@ -202,8 +331,9 @@ function renderWebhook(containerEl: HTMLElement, plugin: GetShitDonePlugin): voi
             plugin.webhookServer.stop();
             new Notice("Webhook server stopped");
           } else {
-            if (!plugin.settings.webhook.apiKey) {
-              new Notice("Please set an API key first");
+            const missing = plugin.webhookServer?.getMissingCredential();
+            if (missing) {
+              new Notice(`Please set the ${missing} first`);
               return;
             }
             await plugin.webhookServer?.start();
@@ -215,6 +345,208 @@ function renderWebhook(containerEl: HTMLElement, plugin: GetShitDonePlugin): voi
     );
 }
 
+const WEBHOOK_ROUTES: Array<{ route: WebhookRoute; name: string }> = [
+  ...Object.values(TRANSCRIPT_ADAPTERS).map((adapter) => ({
+    route: adapter.source,
+    name: `POST /webhook/${adapter.source} (${adapter.label})`,
+  })),
+  { route: "inbox", name: "POST /inbox" },
+  { route: "jobs", name: "GET /jobs/:id" },
+  { route: "read", name: "GET /people, /orgs, /search" },
+];
+
+function renderWebhookAuth(containerEl: HTMLElement, plugin: GetShitDonePlugin): void {
+  for (const { route, name } of WEBHOOK_ROUTES) {
+    new Setting(containerEl)
+      .setName(`${name} authentication`)
+      .setDesc("API key, Upstash QStash signature, or HMAC-SHA256 signature (X-GSD-Signature / X-GSD-Timestamp)")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("apiKey", "API key")
+          .addOption("qstash", "QStash signature")
+          .addOption("hmac", "HMAC signature")
+          .setValue(plugin.settings.webhook.routeAuth[route])
+          .onChange(async (value) => {
+            plugin.settings.webhook.routeAuth[route] = value as WebhookAuthScheme;
+            await plugin.saveSettings();
+          })
+      );
+  }
+
+  addSecretSetting(containerEl, {
+    name: "QStash current signing key",
+    desc: "From the Upstash console (QStash → Signing keys)",
+    placeholder: "sig_...",
+    value: plugin.settings.webhook.qstashCurrentSigningKey,
+    onChange: async (value) => {
+      plugin.settings.webhook.qstashCurrentSigningKey = value;
+      await plugin.saveSettings();
+    },
+  });
+
+  addSecretSetting(containerEl, {
+    name: "QStash next signing key",
+    desc: "Also accepted, so rotating keys doesn't drop messages",
+    placeholder: "sig_...",
+    value: plugin.settings.webhook.qstashNextSigningKey,
+    onChange: async (value) => {
+      plugin.settings.webhook.qstashNextSigningKey = value;
+      await plugin.saveSettings();
+    },
+  });
+
+  addSecretSetting(containerEl, {
+    name: "HMAC secret",
+    desc: "Shared secret; senders sign \"<timestamp>.<body>\" and send sha256=<hex> in X-GSD-Signature",
+    placeholder: "Enter a shared secret",
+    value: plugin.settings.webhook.hmacSecret,
+    onChange: async (value) => {
+      plugin.settings.webhook.hmacSecret = value;
+      await plugin.saveSettings();
+    },
+  });
+
+  new Setting(containerEl)
+    .setName("HMAC timestamp tolerance (seconds)")
+    .setDesc("Signed requests older than this are rejected, and a signature is accepted only once")
+    .addText((text) =>
+      text
+        .setPlaceholder("300")
+        .setValue(String(plugin.settings.webhook.hmacToleranceSeconds))
+        .onChange(async (value) => {
+          const seconds = parseInt(value, 10);
+          if (!isNaN(seconds) && seconds > 0) {
+            plugin.settings.webhook.hmacToleranceSeconds = seconds;
+            await plugin.saveSettings();
+          }
+        })
+    );
+}
+
+function renderEventWebhooks(
+  containerEl: HTMLElement,
+  plugin: GetShitDonePlugin,
+  onRefresh: () => void
+): void {
+  createSection(
+    containerEl,
+    "Event Webhooks",
+    `POST plugin events (${PLUGIN_EVENT_NAMES.join(", ")}) to your own endpoints. Deliveries are signed with the subscriber's secret and retried from the webhook job queue.`
+  );
+
+  new Setting(containerEl)
+    .setName("Enable event webhooks")
+    .setDesc("Send events to the subscribers below")
+    .addToggle((toggle) =>
+      toggle.setValue(plugin.settings.eventWebhooks.enabled).onChange(async (value) => {
+        plugin.settings.eventWebhooks.enabled = value;
+        await plugin.saveSettings();
+      })
+    );
+
+  const subscribers = plugin.settings.eventWebhooks.subscribers;
+  if (!subscribers.length) {
+    containerEl.createEl("p", {
+      text: "No subscribers configured. Add one below.",
+      cls: "setting-item-description",
+    });
+  }
+
+  subscribers.forEach((subscriber, index) => {
+    const body = createDetailsSection(
+      containerEl,
+      `${subscriber.enabled ? "●" : "○"} ${subscriber.name || subscriber.url || "Untitled subscriber"}`
+    );
+
+    new Setting(body)
+      .setName("Name")
+      .addText((text) =>
+        text
+          .setPlaceholder("Zapier")
+          .setValue(subscriber.name)
+          .onChange(async (value) => {
+            subscriber.name = value;
+            await plugin.saveSettings();
+          })
+      );
+
+    new Setting(body)
+      .setName("URL")
+      .setDesc("Receives a JSON POST per event")
+      .addText((text) =>
+        text
+          .setPlaceholder("https://example.com/hooks/gsd")
+          .setValue(subscriber.url)
+          .onChange(async (value) => {
+            subscriber.url = value.trim();
+            await plugin.saveSettings();
+          })
+      );
+
+    addSecretSetting(body, {
+      name: "Signing secret",
+      desc: "Adds X-GSD-Signature: sha256=HMAC(secret, \"<X-GSD-Timestamp>.<body>\"). Leave empty to send unsigned.",
+      placeholder: "Shared secret",
+      value: subscriber.secret,
+      onChange: async (value) => {
+        subscriber.secret = value;
+        await plugin.saveSettings();
+      },
+    });
+
+    createListSetting(body, plugin, {
+      name: "Events",
+      desc: `One per line; empty sends all. Available: ${PLUGIN_EVENT_NAMES.join(", ")}`,
+      value: subscriber.events,
+      rows: 3,
+      onChange: async (value) => {
+        subscriber.events = value.filter((name): name is PluginEventName =>
+          PLUGIN_EVENT_NAMES.includes(name as PluginEventName)
+        );
+        await plugin.saveSettings();
+      },
+    });
+
+    new Setting(body)
+      .setName("Enabled")
+      .addToggle((toggle) =>
+        toggle.setValue(subscriber.enabled).onChange(async (value) => {
+          subscriber.enabled = value;
+          await plugin.saveSettings();
+          onRefresh();
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Delete")
+          .setWarning()
+          .onClick(async () => {
+            plugin.settings.eventWebhooks.subscribers = subscribers.filter((_, i) => i !== index);
+            await plugin.saveSettings();
+            onRefresh();
+          })
+      );
+  });
+
+  new Setting(containerEl)
+    .setName("Add subscriber")
+    .addButton((button) =>
+      button.setButtonText("Add subscriber").onClick(async () => {
+        const subscriber: EventWebhookSubscriber = {
+          id: createRuleId(),
+          name: "",
+          url: "",
+          secret: "",
+          events: [],
+          enabled: true,
+        };
+        plugin.settings.eventWebhooks.subscribers = [...subscribers, subscriber];
+        await plugin.saveSettings();
+        onRefresh();
+      })
+    );
+}
+
 function renderDiagnostics(containerEl: HTMLElement, plugin: GetShitDonePlugin): void {
   createSection(
     containerEl,
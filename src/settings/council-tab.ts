@@ -65,7 +65,7 @@ function renderLlmCouncil(
   createSection(
     containerEl,
     "Models",
-    "Use shared models for ideators and executors, then override if needed."
+    "Use shared models for ideators and executors, then override if needed. Any seat accepts a comma-separated fallback chain."
   );
 
   let ideatorModel = plugin.settings.llmCouncil.ideatorModels.feynman || "";
@@ -4,6 +4,7 @@
 
 import { Setting } from "obsidian";
 import type GetShitDonePlugin from "../main";
+import type { SpeakerExcerptTarget } from "../types";
 import {
   createSection,
   createSubsection,
@@ -26,6 +27,8 @@ export function renderDailyNotesTab(
 
   renderIdentity(containerEl, plugin);
   renderMeetings(containerEl, plugin);
+  renderActionItems(containerEl, plugin);
+  renderTranscriptSpeakers(containerEl, plugin);
   renderO3(containerEl, plugin);
 }
 
@@ -109,6 +112,94 @@ function renderMeetings(containerEl: HTMLElement, plugin: GetShitDonePlugin): vo
     );
 }
 
+function renderActionItems(containerEl: HTMLElement, plugin: GetShitDonePlugin): void {
+  createSection(
+    containerEl,
+    "Meeting Action Items",
+    "Pull commitments out of ingested transcripts: yours become tasks under the meeting in the daily note, everyone else's become O3 follow-ups."
+  );
+
+  new Setting(containerEl)
+    .setName("Extract action items")
+    .setDesc("Ask the model for commitments after each webhook transcript is saved")
+    .addToggle((toggle) =>
+      toggle
+        .setValue(plugin.settings.actionItems.enabled)
+        .onChange(async (value) => {
+          plugin.settings.actionItems.enabled = value;
+          await plugin.saveSettings();
+        })
+    );
+
+  createListSetting(containerEl, plugin, {
+    name: "Your names",
+    desc: "How you appear in transcripts and invites (names or emails, one per line); commitments by these owners are yours, and these speakers stay unlinked",
+    value: plugin.settings.actionItems.myNames,
+    placeholder: "Your Name\nyou@company.com",
+    onChange: async (value) => {
+      plugin.settings.actionItems.myNames = value;
+      await plugin.saveSettings();
+    },
+  });
+}
+
+function renderTranscriptSpeakers(containerEl: HTMLElement, plugin: GetShitDonePlugin): void {
+  createSection(
+    containerEl,
+    "Transcript Speakers",
+    "Link speaker labels in ingested transcripts to People notes, using the guest list, People note names and learned aliases."
+  );
+
+  new Setting(containerEl)
+    .setName("Link speakers")
+    .setDesc("Rewrite speaker labels as [[People/…]] links")
+    .addToggle((toggle) =>
+      toggle
+        .setValue(plugin.settings.transcriptSpeakers.enabled)
+        .onChange(async (value) => {
+          plugin.settings.transcriptSpeakers.enabled = value;
+          await plugin.saveSettings();
+        })
+    );
+
+  new Setting(containerEl)
+    .setName("What they said")
+    .setDesc("Where each linked speaker's excerpt goes")
+    .addDropdown((dropdown) =>
+      dropdown
+        .addOption("meeting", "Meeting note section")
+        .addOption("person", "Participant's People note")
+        .addOption("off", "Off")
+        .setValue(plugin.settings.transcriptSpeakers.excerpts)
+        .onChange(async (value) => {
+          plugin.settings.transcriptSpeakers.excerpts = value as SpeakerExcerptTarget;
+          await plugin.saveSettings();
+        })
+    );
+
+  createSubsection(
+    containerEl,
+    "Learned aliases",
+    "Labels that matched no name and were paired with the one guest left over. Forget one if it was paired wrongly."
+  );
+
+  const aliases = Object.entries(plugin.getSpeakerAliases().getAll());
+  if (aliases.length === 0) {
+    containerEl.createEl("p", { text: "No aliases learned yet.", cls: "setting-item-description" });
+  }
+  for (const [label, alias] of aliases) {
+    const setting = new Setting(containerEl)
+      .setName(label)
+      .setDesc(`→ ${alias.personPath}`)
+      .addButton((button) =>
+        button.setButtonText("Forget").onClick(async () => {
+          await plugin.getSpeakerAliases().forget(label);
+          setting.settingEl.remove();
+        })
+      );
+  }
+}
+
 function renderO3(containerEl: HTMLElement, plugin: GetShitDonePlugin): void {
   createSection(
     containerEl,
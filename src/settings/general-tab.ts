@@ -4,8 +4,21 @@
 
 import { Setting } from "obsidian";
 import type GetShitDonePlugin from "../main";
+import type { AIProviderId } from "../types";
 import { createSection } from "./helpers";
 
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SCHEDULER_PROVIDERS: Array<{ id: AIProviderId; label: string }> = [
+  { id: "gemini", label: "Gemini" },
+  { id: "openai", label: "OpenAI" },
+  { id: "anthropic", label: "Anthropic" },
+  { id: "openrouter", label: "OpenRouter" },
+  { id: "local", label: "Local" },
+];
+
 // ============================================================================
 // Public API
 // ============================================================================
@@ -98,36 +111,51 @@ function renderPerformance(containerEl: HTMLElement, plugin: GetShitDonePlugin):
   createSection(
     containerEl,
     "Performance",
-    "Control parallel processing and rate limiting for API calls."
+    "Per-provider limits for the AI request scheduler. Requests beyond these limits wait in a queue; the O3 coach and settings helper jump ahead of background research and briefings."
   );
 
-  new Setting(containerEl)
-    .setName("Parallel Briefings")
-    .setDesc(
-      "Number of meeting briefings to process in parallel (1-5). Higher = faster but may hit rate limits."
-    )
-    .addSlider((slider) =>
-      slider
-        .setLimits(1, 5, 1)
-        .setValue(plugin.settings.parallelBriefings)
-        .setDynamicTooltip()
-        .onChange(async (value) => {
-          plugin.settings.parallelBriefings = value;
-          await plugin.saveSettings();
-        })
-    );
+  for (const { id, label } of SCHEDULER_PROVIDERS) {
+    const limits = plugin.settings.scheduler.providers[id];
 
-  new Setting(containerEl)
-    .setName("API Delay (ms)")
-    .setDesc("Minimum delay between API call batches in milliseconds.")
-    .addSlider((slider) =>
-      slider
-        .setLimits(100, 2000, 100)
-        .setValue(plugin.settings.apiDelayMs)
-        .setDynamicTooltip()
-        .onChange(async (value) => {
-          plugin.settings.apiDelayMs = value;
-          await plugin.saveSettings();
-        })
-    );
+    new Setting(containerEl)
+      .setName(`${label}: parallel requests`)
+      .setDesc("Maximum requests in flight at once (1-10)")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 10, 1)
+          .setValue(limits.maxConcurrent)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            limits.maxConcurrent = value;
+            await plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(`${label}: requests per minute`)
+      .setDesc("Sustained rate limit; burst is how many requests may start back-to-back. 0 = unlimited.")
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(String(limits.requestsPerMinute))
+          .onChange(async (value) => {
+            limits.requestsPerMinute = parseLimit(value, 0);
+            await plugin.saveSettings();
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("burst")
+          .setValue(String(limits.burst))
+          .onChange(async (value) => {
+            limits.burst = Math.max(1, parseLimit(value, 1));
+            await plugin.saveSettings();
+          })
+      );
+  }
+}
+
+function parseLimit(value: string, fallback: number): number {
+  const parsed = parseInt(value.trim(), 10);
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
 }
@@ -9,9 +9,13 @@ import {
   Notice,
   TextAreaComponent,
 } from "obsidian";
+import { parseModelChain } from "../services/ai-service";
 import type { AIService } from "../services/ai-service";
+import { PROMPT_VARIABLES } from "../services/prompt-library";
+import type { PromptLibrary } from "../services/prompt-library";
 import type {
   PluginSettings,
+  PromptKey,
   InboxContentType,
   InboxRoutingRule,
 } from "../types";
@@ -35,6 +39,7 @@ export type SettingsHelperOptions = {
 export interface SettingsHelperPlugin {
   settings: PluginSettings;
   getAIService(): AIService;
+  getPromptLibrary(): PromptLibrary;
   saveSettings(): Promise<void>;
 }
 
@@ -301,7 +306,14 @@ export function getSettingsHelperModel(settings: PluginSettings): string {
 }
 
 export function canUseModel(settings: PluginSettings, model: string): boolean {
+  const chain = parseModelChain(model);
+  if (chain.length > 1) {
+    return chain.some((entry) => canUseModel(settings, entry));
+  }
   const lower = model.toLowerCase();
+  if (lower.startsWith("local:")) {
+    return Boolean(settings.localProvider?.baseUrl);
+  }
   if (isOpenRouterModel(settings, lower)) {
     return Boolean(settings.openrouterApiKey);
   }
@@ -474,7 +486,7 @@ export function createPromptSetting(
   plugin: SettingsHelperPlugin,
   name: string,
   desc: string,
-  key: keyof PluginSettings["prompts"]
+  key: PromptKey
 ): void {
   const setting = new Setting(containerEl)
     .setName(name)
@@ -482,6 +494,7 @@ export function createPromptSetting(
     .setClass("gsd-prompt-setting");
 
   let textArea: TextAreaComponent | null = null;
+  let refreshPreview = (): void => {};
 
   setting.addTextArea((text) => {
     textArea = text;
@@ -490,6 +503,7 @@ export function createPromptSetting(
       .onChange(async (value) => {
         plugin.settings.prompts[key] = value;
         await plugin.saveSettings();
+        refreshPreview();
       });
     text.inputEl.rows = 10;
     text.inputEl.cols = 60;
@@ -514,10 +528,76 @@ export function createPromptSetting(
             textArea?.setValue(value);
             plugin.settings.prompts[key] = value;
             await plugin.saveSettings();
+            refreshPreview();
           },
         });
       })
     );
+
+  new Setting(containerEl)
+    .setName(`${name} note`)
+    .setDesc("Optional vault note to load this prompt from instead of the text above")
+    .addText((text) =>
+      text
+        .setPlaceholder("Z_Settings & Tools/prompts/Prompt.md")
+        .setValue(plugin.settings.promptTemplates.notes[key])
+        .onChange(async (value) => {
+          plugin.settings.promptTemplates.notes[key] = value.trim();
+          await plugin.saveSettings();
+          refreshPreview();
+        })
+    );
+
+  const previewEl = containerEl.createDiv({ cls: "gsd-prompt-preview" });
+  refreshPreview = () => {
+    void renderPromptPreview(previewEl, plugin, key);
+  };
+  refreshPreview();
+}
+
+/**
+ * Show template issues, the prompt source and a sample rendering below a prompt setting
+ */
+async function renderPromptPreview(
+  containerEl: HTMLElement,
+  plugin: SettingsHelperPlugin,
+  key: PromptKey
+): Promise<void> {
+  const preview = await plugin.getPromptLibrary().preview(key);
+  containerEl.empty();
+
+  if (preview.source.origin === "note") {
+    containerEl.createEl("p", {
+      text: `Using note: ${plugin.settings.promptTemplates.notes[key]}`,
+      cls: "setting-item-description",
+    });
+  } else if (preview.source.missingNote) {
+    containerEl.createEl("p", {
+      text: `⚠️ Note not found: ${preview.source.missingNote} (using the text above)`,
+      cls: "setting-item-description gsd-prompt-issue",
+    });
+  }
+
+  if (preview.issues.length === 0) {
+    containerEl.createEl("p", { text: "✓ No template issues", cls: "setting-item-description" });
+  } else {
+    const list = containerEl.createEl("ul", { cls: "setting-item-description gsd-prompt-issue" });
+    for (const issue of preview.issues) {
+      list.createEl("li", { text: `⚠️ ${issue.message}` });
+    }
+  }
+
+  containerEl.createEl("p", {
+    text: `Variables: ${PROMPT_VARIABLES[key].map((spec) => `{${spec.name}}`).join(", ")}. ` +
+      "Also {#if x}…{else}…{/if}, {#each list as item}…{/each} and {> partial}.",
+    cls: "setting-item-description",
+  });
+
+  if (preview.output !== null) {
+    const details = containerEl.createEl("details");
+    details.createEl("summary", { text: "Preview with sample values" });
+    details.createEl("pre", { text: preview.output });
+  }
 }
 
 // ============================================================================
@@ -577,6 +657,9 @@ class SettingsHelperModal extends Modal {
         }\n\nQuestion:\n${questionText}\n\nReturn plain text only.`;
 
         const result = await this.options.aiService.callModel(system, user, this.options.model, {
+          action: "settingsHelper",
+          essential: true,
+          priority: "interactive",
           useSearch: false,
           temperature: 0.2,
           thinkingBudget: "low",
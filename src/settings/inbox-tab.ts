@@ -403,6 +403,37 @@ function renderInbox(
         })
     );
 
+  // Screenshot section
+  const screenshotSection = createDetailsSection(
+    containerEl,
+    "Screenshots",
+    "Summarize screenshot captures (type=screenshot, image=<vault path>, or a lone image embed) with the inbox routing model."
+  );
+
+  new Setting(screenshotSection)
+    .setName("Summarize screenshots")
+    .setDesc("The image must be saved in the vault; the summary is added under the capture")
+    .addToggle((toggle) =>
+      toggle
+        .setValue(plugin.settings.inbox.screenshots.enabled)
+        .onChange(async (value) => {
+          plugin.settings.inbox.screenshots.enabled = value;
+          await plugin.saveSettings();
+        })
+    );
+
+  new Setting(screenshotSection)
+    .setName("Transcribe screenshot text")
+    .setDesc("Add the text visible in the screenshot (messages, slides, headlines) below the summary")
+    .addToggle((toggle) =>
+      toggle
+        .setValue(plugin.settings.inbox.screenshots.transcribeText)
+        .onChange(async (value) => {
+          plugin.settings.inbox.screenshots.transcribeText = value;
+          await plugin.saveSettings();
+        })
+    );
+
   // URI section
   const uriSection = createDetailsSection(
     containerEl,
@@ -15,6 +15,7 @@ export type { OpenRouterTabState, OpenRouterSortKey } from "./openrouter-tab";
 export { renderInboxTab } from "./inbox-tab";
 export { renderAiTab } from "./ai-tab";
 export { renderCouncilTab } from "./council-tab";
+export { renderUsageTab } from "./usage-tab";
 
 // Helpers (for use by other modules)
 export {
@@ -15,12 +15,13 @@ import {
 import { renderInboxTab } from "./inbox-tab";
 import { renderAiTab } from "./ai-tab";
 import { renderCouncilTab } from "./council-tab";
+import { renderUsageTab } from "./usage-tab";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type SettingsTabId = "general" | "daily" | "api" | "inbox" | "ai" | "council" | "openrouter";
+export type SettingsTabId = "general" | "daily" | "api" | "inbox" | "ai" | "council" | "openrouter" | "usage";
 
 // ============================================================================
 // Settings Tab Class
@@ -55,7 +56,7 @@ export class GetShitDoneSettingTab extends PluginSettingTab {
         renderDailyNotesTab(contentEl, this.plugin);
         break;
       case "api":
-        renderApiTab(contentEl, this.plugin);
+        renderApiTab(contentEl, this.plugin, onRefresh);
         break;
       case "openrouter":
         renderOpenRouterTab(contentEl, this.plugin, this.openRouterState, onRefresh);
@@ -69,6 +70,9 @@ export class GetShitDoneSettingTab extends PluginSettingTab {
       case "council":
         renderCouncilTab(contentEl, this.plugin, onRefresh);
         break;
+      case "usage":
+        renderUsageTab(contentEl, this.plugin, onRefresh);
+        break;
     }
   }
 
@@ -81,6 +85,7 @@ export class GetShitDoneSettingTab extends PluginSettingTab {
       { id: "inbox", label: "Inbox" },
       { id: "ai", label: "AI models & prompts" },
       { id: "council", label: "LLM council" },
+      { id: "usage", label: "Usage" },
     ];
 
     const tabBar = containerEl.createDiv({ cls: "gsd-settings-tabs" });
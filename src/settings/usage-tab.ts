@@ -0,0 +1,147 @@
+// ============================================================================
+// Usage Tab - Token usage, estimated cost and monthly budget
+// ============================================================================
+
+import { Setting, Notice } from "obsidian";
+import type GetShitDonePlugin from "../main";
+import type { UsageTotals } from "../types";
+import { summarizeUsage, toLocalDay } from "../services/usage-ledger";
+import { createSection } from "./helpers";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAILY_HISTORY_DAYS = 30;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function renderUsageTab(
+  containerEl: HTMLElement,
+  plugin: GetShitDonePlugin,
+  onRefresh: () => void
+): void {
+  containerEl.createEl("p", {
+    text: "Token usage and estimated cost of every AI call. Prices come from the OpenRouter model cache where available, otherwise from built-in list prices; treat them as estimates.",
+    cls: "setting-item-description",
+  });
+
+  renderBudget(containerEl, plugin, onRefresh);
+  renderByAction(containerEl, plugin);
+  renderByDay(containerEl, plugin);
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+function renderBudget(containerEl: HTMLElement, plugin: GetShitDonePlugin, onRefresh: () => void): void {
+  const ledger = plugin.getUsageLedger();
+  const budget = plugin.settings.usage.monthlyBudgetUsd;
+  const spent = ledger.getMonthCost();
+
+  createSection(
+    containerEl,
+    "Budget",
+    budget > 0
+      ? `This month: ${formatUsd(spent)} of ${formatUsd(budget)}${ledger.isOverBudget() ? " — cap reached, non-essential calls are paused" : ""}.`
+      : `This month: ${formatUsd(spent)}. No budget cap set.`
+  );
+
+  new Setting(containerEl)
+    .setName("Monthly budget (USD)")
+    .setDesc("Once this month's estimated spend reaches the cap, background calls (briefings, research, council) are skipped. The O3 coach and settings helper keep working. 0 = no cap.")
+    .addText((text) =>
+      text
+        .setPlaceholder("0")
+        .setValue(budget ? String(budget) : "")
+        .onChange(async (value) => {
+          const parsed = parseFloat(value.trim());
+          plugin.settings.usage.monthlyBudgetUsd = isNaN(parsed) || parsed < 0 ? 0 : parsed;
+          await plugin.saveSettings();
+        })
+    );
+
+  new Setting(containerEl)
+    .setName("Ledger file")
+    .setDesc("Vault path where the usage ledger is stored as JSON")
+    .addText((text) =>
+      text
+        .setPlaceholder("Z_Settings & Tools/gsd-usage.json")
+        .setValue(plugin.settings.usage.ledgerPath)
+        .onChange(async (value) => {
+          plugin.settings.usage.ledgerPath = value.trim() || "Z_Settings & Tools/gsd-usage.json";
+          await plugin.saveSettings();
+        })
+    );
+
+  new Setting(containerEl)
+    .setName("Clear ledger")
+    .setDesc("Delete all recorded usage (also resets this month's budget total)")
+    .addButton((button) =>
+      button
+        .setButtonText("Clear")
+        .setWarning()
+        .onClick(async () => {
+          await ledger.clear();
+          new Notice("Usage ledger cleared");
+          onRefresh();
+        })
+    );
+}
+
+function renderByAction(containerEl: HTMLElement, plugin: GetShitDonePlugin): void {
+  createSection(containerEl, "This month by action");
+
+  const totals = summarizeUsage(plugin.getUsageLedger().getMonthEntries(), (entry) => entry.action);
+  const rows = Array.from(totals.entries()).sort((a, b) => b[1].costUsd - a[1].costUsd);
+  renderTotalsTable(containerEl, "Action", rows);
+}
+
+function renderByDay(containerEl: HTMLElement, plugin: GetShitDonePlugin): void {
+  createSection(containerEl, `Last ${DAILY_HISTORY_DAYS} days`);
+
+  const cutoff = Date.now() - DAILY_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+  const entries = plugin
+    .getUsageLedger()
+    .getEntries()
+    .filter((entry) => new Date(entry.at).getTime() >= cutoff);
+  const totals = summarizeUsage(entries, (entry) => toLocalDay(entry.at));
+  const rows = Array.from(totals.entries()).sort((a, b) => b[0].localeCompare(a[0]));
+  renderTotalsTable(containerEl, "Day", rows);
+}
+
+function renderTotalsTable(
+  containerEl: HTMLElement,
+  label: string,
+  rows: Array<[string, UsageTotals]>
+): void {
+  if (rows.length === 0) {
+    containerEl.createEl("p", { text: "No AI calls recorded yet.", cls: "setting-item-description" });
+    return;
+  }
+
+  const tableWrap = containerEl.createDiv({ cls: "gsd-usage-table-wrap" });
+  const table = tableWrap.createEl("table", { cls: "gsd-usage-table" });
+  const headRow = table.createEl("thead").createEl("tr");
+  [label, "Calls", "Input", "Output", "Thinking", "Cost"].forEach((text) =>
+    headRow.createEl("th", { text })
+  );
+
+  const tbody = table.createEl("tbody");
+  for (const [key, total] of rows) {
+    const row = tbody.createEl("tr");
+    row.createEl("td", { text: key });
+    row.createEl("td", { text: total.calls.toLocaleString() });
+    row.createEl("td", { text: total.inputTokens.toLocaleString() });
+    row.createEl("td", { text: total.outputTokens.toLocaleString() });
+    row.createEl("td", { text: total.thinkingTokens.toLocaleString() });
+    row.createEl("td", { text: formatUsd(total.costUsd) });
+  }
+}
+
+function formatUsd(value: number): string {
+  return value > 0 && value < 0.01 ? "<$0.01" : `$${value.toFixed(2)}`;
+}
@@ -0,0 +1,12 @@
+// ============================================================================
+// AI Tool Types
+// ============================================================================
+
+export interface AIToolsSettings {
+  /** Let the O3 coach and research actions call read-only vault tools */
+  enabled: boolean;
+  /** Tool rounds per call before the model must answer */
+  maxRounds: number;
+  /** Offer the Gmail search tool (needs the Apps Script connection) */
+  gmail: boolean;
+}
@@ -14,9 +14,38 @@ export interface AppsScriptResponse {
 export interface GeminiResponse {
   candidates?: {
     content?: {
-      parts?: { text: string }[];
+      role?: string;
+      parts?: {
+        text?: string;
+        functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+        /** Opaque reasoning signature that must be sent back with function calls */
+        thoughtSignature?: string;
+      }[];
+    };
+    finishReason?: string;
+    /** Google Search grounding (web chunks are redirect links titled with the site's domain) */
+    groundingMetadata?: {
+      webSearchQueries?: string[];
+      groundingChunks?: { web?: { uri?: string; title?: string } }[];
+      groundingSupports?: { segment?: { text?: string }; groundingChunkIndices?: number[] }[];
     };
   }[];
+  promptFeedback?: {
+    blockReason?: string;
+  };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  error?: {
+    message: string;
+  };
+}
+
+export interface GeminiEmbedResponse {
+  embeddings?: { values?: number[] }[];
   error?: {
     message: string;
   };
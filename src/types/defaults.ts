@@ -34,9 +34,16 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   ],
   maxListedParticipants: 10,
 
-  // Performance defaults
-  parallelBriefings: 3,
-  apiDelayMs: 500,
+  // AI scheduler defaults (local servers usually serve one request at a time)
+  scheduler: {
+    providers: {
+      gemini: { maxConcurrent: 3, requestsPerMinute: 60, burst: 3 },
+      openai: { maxConcurrent: 3, requestsPerMinute: 60, burst: 3 },
+      anthropic: { maxConcurrent: 2, requestsPerMinute: 50, burst: 2 },
+      openrouter: { maxConcurrent: 2, requestsPerMinute: 20, burst: 2 },
+      local: { maxConcurrent: 1, requestsPerMinute: 0, burst: 1 },
+    },
+  },
 
   models: {
     filterModel: "gemini-flash-latest",
@@ -47,6 +54,7 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     inboxRoutingModel: "gemini-flash-latest",
     settingsHelperModel: "gemini-flash-latest",
     o3PrepModel: "gemini-flash-latest",
+    actionItemModel: "gemini-flash-latest",
   },
 
   prompts: {
@@ -58,6 +66,18 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     research: PROMPTS.research,
   },
 
+  promptTemplates: {
+    notes: {
+      meetingFilter: "",
+      meetingBriefing: "",
+      personResearch: "",
+      orgResearch: "",
+      inboxRouting: "",
+      research: "",
+    },
+    partialsFolder: "Z_Settings & Tools/prompts/partials",
+  },
+
   generationConfigs: {
     meetingFilter: { temperature: 0.0, thinkingBudget: null },
     meetingBriefing: { temperature: 0.2, thinkingBudget: "medium" },
@@ -67,6 +87,7 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     inboxRouting: { temperature: 0.0, thinkingBudget: null },
     research: { temperature: 0.2, thinkingBudget: "high" },
     o3Prep: { temperature: 0.2, thinkingBudget: "low" },
+    actionItems: { temperature: 0.0, thinkingBudget: "low" },
   },
 
   o3: {
@@ -258,6 +279,10 @@ export const DEFAULT_SETTINGS: PluginSettings = {
       takeawaysCount: 4,
       maxWordsPerTakeaway: 15,
     },
+    screenshots: {
+      enabled: true,
+      transcribeText: true,
+    },
   },
 
   llmCouncil: {
@@ -297,6 +322,40 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     port: 3456,
     apiKey: "",
     bindAddress: "127.0.0.1",
+    allowQueryKey: true,
+    routeAuth: {
+      amie: "apiKey",
+      generic: "apiKey",
+      vtt: "apiKey",
+      srt: "apiKey",
+      otter: "apiKey",
+      fireflies: "apiKey",
+      tldv: "apiKey",
+      inbox: "apiKey",
+      jobs: "apiKey",
+      read: "apiKey",
+    },
+    qstashCurrentSigningKey: "",
+    qstashNextSigningKey: "",
+    hmacSecret: "",
+    hmacToleranceSeconds: 300,
+    maxBodyBytes: 5 * 1024 * 1024,
+    rateLimitPerMinute: 60,
+  },
+
+  eventWebhooks: {
+    enabled: false,
+    subscribers: [],
+  },
+
+  actionItems: {
+    enabled: false,
+    myNames: [],
+  },
+
+  transcriptSpeakers: {
+    enabled: true,
+    excerpts: "meeting",
   },
 
   openrouter: {
@@ -312,6 +371,66 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     },
   },
 
+  localProvider: {
+    baseUrl: "http://localhost:11434/v1",
+    apiKey: "",
+    modelCache: [],
+    lastFetched: null,
+  },
+
+  usage: {
+    monthlyBudgetUsd: 0,
+    ledgerPath: "Z_Settings & Tools/gsd-usage.json",
+  },
+
+  responseCache: {
+    enabled: false,
+    defaultTtlHours: 24,
+    searchTtlHours: 6,
+    taskTtlHours: {
+      meetingFilter: 168,
+      meetingBriefing: 12,
+      personResearch: 72,
+      orgResearch: 72,
+      phoneValidation: 168,
+      inboxRouting: 24,
+      o3Prep: 6,
+      o3Coach: 1,
+      actionItems: 168,
+      reference: 168,
+      council: 0,
+      settingsHelper: 0,
+    },
+    maxEntries: 500,
+  },
+
+  aiTrace: {
+    enabled: true,
+    maxEntries: 200,
+    persist: false,
+  },
+
+  aiTools: {
+    enabled: true,
+    maxRounds: 4,
+    gmail: true,
+  },
+
+  semanticIndex: {
+    enabled: false,
+    model: "gemini-embedding-001",
+    sources: {
+      meetings: true,
+      dailyNotes: true,
+      references: true,
+      people: true,
+      organizations: true,
+    },
+    chunkChars: 1200,
+    topK: 5,
+    minScore: 0.35,
+  },
+
   reference: {
     enabled: true,
     referencesFolder: "References",
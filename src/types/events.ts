@@ -0,0 +1,92 @@
+// ============================================================================
+// Plugin Event Types
+// ============================================================================
+
+import type { InboxContentType, InboxItem, InboxRouteDestination } from "./inbox";
+import type { TranscriptSource } from "./transcript";
+
+/**
+ * Events emitted by actions, keyed by name, with their data
+ */
+export interface PluginEventMap {
+  "research.completed": {
+    kind: "person" | "org";
+    name: string;
+    notePath: string;
+    email?: string;
+    domain?: string;
+    organization?: string;
+  };
+  "briefing.written": {
+    title: string;
+    notePath: string;
+    eventId: string;
+    /** ISO start time */
+    start?: string;
+    attendees: Array<{ name: string; email: string }>;
+    briefing: string;
+    /** False when the model's answer was replaced by the ungrounded fallback */
+    grounded: boolean;
+  };
+  "inbox.captured": {
+    content: string;
+    type: InboxContentType;
+    source: InboxItem["source"];
+    destination: InboxRouteDestination;
+    notePath: string;
+  };
+  "council.finished": {
+    runId: string;
+    /** The note the council ran on */
+    notePath: string;
+    inputPath: string;
+    outputPath: string;
+    winner: string | null;
+    ideas: number;
+    executions: number;
+  };
+  "transcript.ingested": {
+    source: TranscriptSource;
+    title: string;
+    eventId: string;
+    startAt: string;
+    notePath: string;
+    action: "created" | "updated";
+  };
+}
+
+export type PluginEventName = keyof PluginEventMap;
+
+/**
+ * An emitted event (also the JSON body sent to event webhook subscribers)
+ */
+export interface PluginEvent<K extends PluginEventName = PluginEventName> {
+  id: string;
+  event: K;
+  /** ISO 8601 */
+  timestamp: string;
+  data: PluginEventMap[K];
+}
+
+// ============================================================================
+// Event Webhooks
+// ============================================================================
+
+/**
+ * An outbound HTTP endpoint that receives plugin events
+ */
+export interface EventWebhookSubscriber {
+  id: string;
+  name: string;
+  url: string;
+  /** Signs deliveries (`X-GSD-Signature`); unsigned when empty */
+  secret: string;
+  /** Events to send; empty sends all */
+  events: PluginEventName[];
+  enabled: boolean;
+}
+
+export interface EventWebhookSettings {
+  enabled: boolean;
+  subscribers: EventWebhookSubscriber[];
+}
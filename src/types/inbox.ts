@@ -74,6 +74,13 @@ export interface InboxContentSummarySettings {
   maxWordsPerTakeaway: number;
 }
 
+export interface InboxScreenshotSettings {
+  /** Summarize screenshot captures with the inbox routing model */
+  enabled: boolean;
+  /** Also transcribe the text visible in the screenshot */
+  transcribeText: boolean;
+}
+
 export interface InboxSettings {
   enabled: boolean;
   thoughtsSection: string;
@@ -84,12 +91,13 @@ export interface InboxSettings {
   actionDetection: InboxActionDetectionSettings;
   formatting: InboxFormattingSettings;
   contentSummary: InboxContentSummarySettings;
+  screenshots: InboxScreenshotSettings;
 }
 
 export interface InboxItem {
   content: string;
   type: InboxContentType;
-  source: "share" | "shortcut" | "manual" | "uri";
+  source: "share" | "shortcut" | "manual" | "uri" | "webhook";
   timestamp: string;
   destination?: InboxRouteDestination;
   meetingContext?: CalendarEvent;
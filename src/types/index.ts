@@ -8,6 +8,8 @@ export type {
   PluginSettings,
   ModelSettings,
   PromptSettings,
+  PromptKey,
+  PromptTemplateSettings,
   GenerationConfigSettings,
   GenerationConfigMap,
 } from "./settings";
@@ -31,6 +33,7 @@ export type { GmailMessage } from "./gmail";
 export type {
   AppsScriptResponse,
   GeminiResponse,
+  GeminiEmbedResponse,
   TemplaterObject,
 } from "./api";
 
@@ -47,6 +50,7 @@ export type {
   InboxActionDetectionSettings,
   InboxFormattingSettings,
   InboxContentSummarySettings,
+  InboxScreenshotSettings,
   InboxSettings,
   InboxItem,
   InboxURIParams,
@@ -96,8 +100,87 @@ export type {
   OpenRouterSettings,
 } from "./openrouter";
 
+// Local provider
+export type { LocalProviderSettings } from "./local-provider";
+
+// Usage
+export type {
+  UsageSettings,
+  UsagePriceSource,
+  UsageEntry,
+  UsageLedgerStore,
+  UsageTotals,
+} from "./usage";
+
+// AI scheduler
+export type {
+  AIProviderId,
+  AIRequestPriority,
+  AIProviderLimits,
+  AISchedulerSettings,
+} from "./scheduler";
+
+// Response cache
+export type {
+  ResponseCacheSettings,
+  ResponseCacheEntry,
+  ResponseCacheStore,
+} from "./response-cache";
+
+// AI trace
+export type {
+  AITraceSettings,
+  AITraceOptions,
+  AITraceAttempt,
+  AITraceToolCall,
+  AITraceEntry,
+  AITraceStore,
+} from "./trace";
+
+// AI tools
+export type { AIToolsSettings } from "./ai-tools";
+
+// Semantic index
+export type {
+  SemanticIndexSource,
+  SemanticIndexSettings,
+  SemanticIndexPassage,
+  SemanticIndexFileEntry,
+  SemanticIndexStore,
+} from "./semantic-index";
+
 // Webhook
-export type { WebhookSettings, AmieWebhookPayload } from "./webhook";
+export type {
+  WebhookSettings,
+  WebhookRoute,
+  WebhookAuthScheme,
+  WebhookJob,
+  WebhookJobKind,
+  WebhookJobStatus,
+  WebhookJobStore,
+  AmieWebhookPayload,
+} from "./webhook";
+
+// Plugin events
+export type {
+  PluginEventMap,
+  PluginEventName,
+  PluginEvent,
+  EventWebhookSubscriber,
+  EventWebhookSettings,
+} from "./events";
+
+// Meeting transcripts
+export type {
+  TranscriptSource,
+  TranscriptGuest,
+  MeetingTranscript,
+  ActionItemSettings,
+  SpeakerExcerptTarget,
+  TranscriptSpeakerSettings,
+  SpeakerAlias,
+  SpeakerAliasStore,
+} from "./transcript";
 
 // Feedback
 export type { FeedbackEntry, FeedbackStore } from "./feedback";
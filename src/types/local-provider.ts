@@ -0,0 +1,13 @@
+// ============================================================================
+// Local Provider Types
+// ============================================================================
+
+export interface LocalProviderSettings {
+  /** Base URL of an OpenAI-compatible server, including the version path (e.g. http://localhost:11434/v1) */
+  baseUrl: string;
+  /** Optional bearer token (most local servers ignore it) */
+  apiKey: string;
+  /** Model IDs last listed from the server's /models endpoint */
+  modelCache: string[];
+  lastFetched: string | null;
+}
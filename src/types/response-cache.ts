@@ -0,0 +1,32 @@
+// ============================================================================
+// Response Cache Types
+// ============================================================================
+
+export interface ResponseCacheSettings {
+  /** Opt-in: serve byte-identical requests from the cache */
+  enabled: boolean;
+  /** TTL in hours for actions without their own entry */
+  defaultTtlHours: number;
+  /** Upper bound in hours for calls that use web search (results go stale faster) */
+  searchTtlHours: number;
+  /** TTL in hours per calling action (e.g. "meetingBriefing"); 0 disables caching for that action */
+  taskTtlHours: Record<string, number>;
+  /** Oldest entries are evicted beyond this count */
+  maxEntries: number;
+}
+
+export interface ResponseCacheEntry {
+  /** Model that produced the response (the answering model of a chain) */
+  model: string;
+  text: string;
+  /** Web sources of a search-grounded response (same shape as AICitation) */
+  citations?: Array<{ url: string; title?: string; snippet?: string }>;
+  action: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ResponseCacheStore {
+  version: 1;
+  entries: Record<string, ResponseCacheEntry>;
+}
@@ -0,0 +1,24 @@
+// ============================================================================
+// AI Scheduler Types
+// ============================================================================
+
+export type AIProviderId = "gemini" | "openai" | "anthropic" | "openrouter" | "local";
+
+/**
+ * Queue priority: interactive work (coach, settings helper) is dispatched
+ * before normal work, which is dispatched before background jobs (briefings, research)
+ */
+export type AIRequestPriority = "interactive" | "normal" | "background";
+
+export interface AIProviderLimits {
+  /** Requests running at the same time */
+  maxConcurrent: number;
+  /** Token-bucket refill rate; 0 = no rate limit */
+  requestsPerMinute: number;
+  /** Bucket capacity: requests that may start back-to-back after an idle period */
+  burst: number;
+}
+
+export interface AISchedulerSettings {
+  providers: Record<AIProviderId, AIProviderLimits>;
+}
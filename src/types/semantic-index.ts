@@ -0,0 +1,53 @@
+// ============================================================================
+// Semantic Index Types
+// ============================================================================
+
+/**
+ * Note kinds the semantic index can embed
+ */
+export type SemanticIndexSource = "meetings" | "dailyNotes" | "references" | "people" | "organizations";
+
+export interface SemanticIndexSettings {
+  /** Opt-in: embed notes and keep the vectors current as notes change */
+  enabled: boolean;
+  /**
+   * Embedding model (e.g. "gemini-embedding-001", "text-embedding-3-small",
+   * "local:nomic-embed-text"). Changing it discards the index.
+   */
+  model: string;
+  /** Note kinds to index */
+  sources: Record<SemanticIndexSource, boolean>;
+  /** Target passage length in characters (notes are split at headings, then paragraphs) */
+  chunkChars: number;
+  /** Passages returned per lookup */
+  topK: number;
+  /** Passages below this cosine similarity are never returned */
+  minScore: number;
+}
+
+/**
+ * One embedded passage of a note
+ */
+export interface SemanticIndexPassage {
+  /** Heading the passage sits under ("" before the first heading) */
+  heading: string;
+  text: string;
+  /** Unit-length float32 vector, base64-encoded */
+  vector: string;
+}
+
+export interface SemanticIndexFileEntry {
+  /** Hash of the note content the passages were built from */
+  hash: string;
+  mtime: number;
+  passages: SemanticIndexPassage[];
+}
+
+export interface SemanticIndexStore {
+  version: 1;
+  /** Embedding model the vectors came from */
+  model: string;
+  /** Passage length the notes were split with */
+  chunkChars: number;
+  files: Record<string, SemanticIndexFileEntry>;
+}
@@ -6,7 +6,16 @@ import type { InboxSettings } from "./inbox";
 import type { LlmCouncilSettings } from "./council";
 import type { O3Settings, O3CoachSettings } from "./o3";
 import type { WebhookSettings } from "./webhook";
+import type { EventWebhookSettings } from "./events";
+import type { ActionItemSettings, TranscriptSpeakerSettings } from "./transcript";
 import type { OpenRouterSettings } from "./openrouter";
+import type { LocalProviderSettings } from "./local-provider";
+import type { UsageSettings } from "./usage";
+import type { ResponseCacheSettings } from "./response-cache";
+import type { AITraceSettings } from "./trace";
+import type { AIToolsSettings } from "./ai-tools";
+import type { SemanticIndexSettings } from "./semantic-index";
+import type { AISchedulerSettings } from "./scheduler";
 import type { ReferenceSettings } from "./reference";
 
 /**
@@ -48,9 +57,8 @@ export interface PluginSettings {
   excludeTitles: string[];
   maxListedParticipants: number;
 
-  // Performance Settings
-  parallelBriefings: number;
-  apiDelayMs: number;
+  // Per-provider concurrency and rate limits for AI calls
+  scheduler: AISchedulerSettings;
 
   // Models (editable in settings)
   models: ModelSettings;
@@ -58,6 +66,9 @@ export interface PluginSettings {
   // Prompts (editable in settings)
   prompts: PromptSettings;
 
+  // Vault notes that override prompts, and partials shared between them
+  promptTemplates: PromptTemplateSettings;
+
   // Gemini generation config (editable in settings)
   generationConfigs: GenerationConfigMap;
 
@@ -74,9 +85,36 @@ export interface PluginSettings {
   // Webhook settings
   webhook: WebhookSettings;
 
+  // Outbound HTTP subscribers for plugin events
+  eventWebhooks: EventWebhookSettings;
+
+  // Commitments extracted from ingested meeting transcripts
+  actionItems: ActionItemSettings;
+
+  // Transcript speaker labels linked to People notes
+  transcriptSpeakers: TranscriptSpeakerSettings;
+
   // OpenRouter settings
   openrouter: OpenRouterSettings;
 
+  // Self-hosted OpenAI-compatible provider (models prefixed with "local:")
+  localProvider: LocalProviderSettings;
+
+  // Token usage ledger and monthly budget cap
+  usage: UsageSettings;
+
+  // Opt-in cache for identical AI requests
+  responseCache: ResponseCacheSettings;
+
+  // Recorded AI calls for the trace inspector
+  aiTrace: AITraceSettings;
+
+  // Read-only vault tools the models can call
+  aiTools: AIToolsSettings;
+
+  // Embedding index of meetings, daily notes, references and People/Org notes
+  semanticIndex: SemanticIndexSettings;
+
   // Reference system settings
   reference: ReferenceSettings;
 }
@@ -90,6 +128,7 @@ export interface ModelSettings {
   inboxRoutingModel: string;
   settingsHelperModel: string;
   o3PrepModel: string;
+  actionItemModel: string;
 }
 
 export interface PromptSettings {
@@ -101,6 +140,15 @@ export interface PromptSettings {
   research: string;
 }
 
+export type PromptKey = keyof PromptSettings;
+
+export interface PromptTemplateSettings {
+  /** Vault note per prompt; when set, the note body (minus frontmatter) replaces the inline prompt */
+  notes: Record<PromptKey, string>;
+  /** Folder whose notes can be included in any prompt with {> note name} */
+  partialsFolder: string;
+}
+
 // ============================================================================
 // Generation Config
 // ============================================================================
@@ -125,4 +173,5 @@ export interface GenerationConfigMap {
   inboxRouting: GenerationConfigSettings;
   research: GenerationConfigSettings;
   o3Prep: GenerationConfigSettings;
+  actionItems: GenerationConfigSettings;
 }
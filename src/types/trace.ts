@@ -0,0 +1,90 @@
+// ============================================================================
+// AI Trace Types
+// ============================================================================
+
+export interface AITraceSettings {
+  /** Record every AIService call for the trace inspector */
+  enabled: boolean;
+  /** Ring buffer size; the oldest calls are dropped beyond this */
+  maxEntries: number;
+  /** Keep the trace across restarts (stored in the plugin folder) */
+  persist: boolean;
+}
+
+/**
+ * Generation options of a traced call (callbacks and signals are left out)
+ */
+export interface AITraceOptions {
+  useSearch?: boolean;
+  temperature?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: "low" | "medium" | "high" | null;
+  priority?: string;
+  essential?: boolean;
+  bypassCache?: boolean;
+  timeoutMs?: number;
+  /** Name of the requested JSON schema */
+  jsonSchema?: string;
+  history?: Array<{ role: "user" | "assistant"; content: string }>;
+  /** Images/PDFs sent with the prompt (metadata only; the bytes aren't kept) */
+  attachments?: Array<{ kind: "image" | "pdf"; mimeType: string; name: string; bytes: number }>;
+  /** Names of the tools the model could call */
+  tools?: string[];
+}
+
+/**
+ * One tool call made during a traced call
+ */
+export interface AITraceToolCall {
+  name: string;
+  /** Arguments as JSON */
+  arguments: string;
+  result: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+export interface AITraceAttempt {
+  model: string;
+  outcome: "ok" | "empty" | "timeout" | "error" | "cancelled";
+  durationMs: number;
+  errorCategory?: string;
+  errorMessage?: string;
+}
+
+/**
+ * One AIService call (a whole fallback chain), redacted
+ */
+export interface AITraceEntry {
+  id: string;
+  at: string;
+  kind: "call" | "stream" | "tools";
+  /** Calling action (e.g. "meetingBriefing"; "other" when unset) */
+  action: string;
+  /** Note the call was made for, when the caller passed one */
+  notePath?: string;
+  /** Requested model or chain */
+  model: string;
+  /** Model that answered (null if the chain failed) */
+  answeredBy: string | null;
+  options: AITraceOptions;
+  system: string;
+  user: string;
+  response: string | null;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  attempts: AITraceAttempt[];
+  /** Tool calls in the order they ran (tool-calling calls only) */
+  toolCalls?: AITraceToolCall[];
+  cached: boolean;
+  error?: { category: string; message: string };
+  /** Trace id of the call this one re-ran with another model */
+  rerunOf?: string;
+}
+
+export interface AITraceStore {
+  version: 1;
+  entries: AITraceEntry[];
+}
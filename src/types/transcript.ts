@@ -0,0 +1,81 @@
+// ============================================================================
+// Meeting Transcript Types
+// ============================================================================
+
+/**
+ * Transcript senders with a webhook adapter (each served at `/webhook/<source>`)
+ */
+export type TranscriptSource = "amie" | "generic" | "vtt" | "srt" | "otter" | "fireflies" | "tldv";
+
+export interface TranscriptGuest {
+  email: string;
+  displayName: string;
+}
+
+/**
+ * A meeting transcript normalized from any source's payload
+ */
+export interface MeetingTranscript {
+  source: TranscriptSource;
+  /** Calendar event ID, or "" when the sender doesn't know it (matched by start time instead) */
+  eventId: string;
+  calendarId?: string;
+  title: string;
+  description: string;
+  /** ISO 8601 */
+  startAt: string;
+  /** ISO 8601 */
+  endAt: string;
+  guests: TranscriptGuest[];
+  /** Short summary for the note's frontmatter */
+  summary: string;
+  /** Transcript body as markdown */
+  transcript: string;
+  recordingId?: string;
+  recordingLink?: string;
+}
+
+// ============================================================================
+// Action Items
+// ============================================================================
+
+/**
+ * Commitments extracted from ingested transcripts: yours become tasks in the
+ * meeting's daily note, everyone else's become O3 follow-ups on their People note
+ */
+export interface ActionItemSettings {
+  enabled: boolean;
+  /** How you appear in transcripts and invites (names or emails), so the model knows who "I" am */
+  myNames: string[];
+}
+
+// ============================================================================
+// Speakers
+// ============================================================================
+
+/**
+ * Where "what they said" excerpts go: a section in the meeting note, or each
+ * participant's People note
+ */
+export type SpeakerExcerptTarget = "meeting" | "person" | "off";
+
+export interface TranscriptSpeakerSettings {
+  /** Link speaker labels to People notes */
+  enabled: boolean;
+  excerpts: SpeakerExcerptTarget;
+}
+
+/**
+ * A speaker label learned to belong to a People note
+ */
+export interface SpeakerAlias {
+  personPath: string;
+  /** ISO 8601 */
+  learnedAt: string;
+}
+
+export interface SpeakerAliasStore {
+  version: 1;
+  /** Keyed by lowercased speaker label */
+  aliases: Record<string, SpeakerAlias>;
+}
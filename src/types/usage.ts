@@ -0,0 +1,47 @@
+// ============================================================================
+// Usage Ledger Types
+// ============================================================================
+
+export interface UsageSettings {
+  /** Monthly spend cap in USD; 0 disables the cap */
+  monthlyBudgetUsd: number;
+  /** Vault path of the persisted ledger JSON */
+  ledgerPath: string;
+}
+
+/**
+ * Where an entry's price came from
+ * - openrouter: per-token pricing from the cached OpenRouter model list
+ * - builtin: the plugin's fallback price table
+ * - free: local models and free OpenRouter models
+ * - unknown: no price found (cost recorded as 0)
+ */
+export type UsagePriceSource = "openrouter" | "builtin" | "free" | "unknown";
+
+export interface UsageEntry {
+  /** ISO timestamp of the call */
+  at: string;
+  /** Calling action (e.g. "meetingBriefing"); "other" when unspecified */
+  action: string;
+  /** Model that answered (the served model for OpenRouter auto-free) */
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  /** Estimated cost in USD */
+  costUsd: number;
+  priceSource: UsagePriceSource;
+}
+
+export interface UsageLedgerStore {
+  entries: UsageEntry[];
+  lastUpdated: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  costUsd: number;
+}
@@ -2,11 +2,83 @@
 // Webhook Types
 // ============================================================================
 
+import type { TranscriptSource } from "./transcript";
+
+/**
+ * Authenticated webhook routes (one per transcript source, plus inbox, job status
+ * and the read-only people/org/search lookups)
+ */
+export type WebhookRoute = TranscriptSource | "inbox" | "jobs" | "read";
+
+/**
+ * How a route authenticates requests:
+ * - apiKey: `Authorization: Bearer <apiKey>` (or `?api_key=` when allowed)
+ * - qstash: Upstash QStash `Upstash-Signature` JWT
+ * - hmac: `X-GSD-Signature: sha256=<hex>` over `<X-GSD-Timestamp>.<body>`
+ */
+export type WebhookAuthScheme = "apiKey" | "qstash" | "hmac";
+
 export interface WebhookSettings {
   enabled: boolean;
   port: number;
   apiKey: string;
   bindAddress: "127.0.0.1" | "0.0.0.0";
+  /** Accept the API key as `?api_key=` (query strings end up in proxy logs) */
+  allowQueryKey: boolean;
+  /** Authentication scheme per route */
+  routeAuth: Record<WebhookRoute, WebhookAuthScheme>;
+  /** QStash signing keys (both are tried so key rotation doesn't drop messages) */
+  qstashCurrentSigningKey: string;
+  qstashNextSigningKey: string;
+  /** Shared secret for HMAC-signed requests */
+  hmacSecret: string;
+  /** HMAC-signed requests older (or further in the future) than this are rejected */
+  hmacToleranceSeconds: number;
+  /** Larger request bodies are answered with 413 */
+  maxBodyBytes: number;
+  /** Requests per minute per caller (API key, signature scheme or address); 0 = unlimited */
+  rateLimitPerMinute: number;
+}
+
+// ============================================================================
+// Webhook Jobs
+// ============================================================================
+
+/**
+ * Payload kinds processed by the webhook job queue: incoming transcripts and
+ * outgoing event deliveries
+ */
+export type WebhookJobKind = "transcript" | "event-delivery";
+
+export type WebhookJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * A webhook payload persisted for background processing
+ */
+export interface WebhookJob {
+  id: string;
+  kind: WebhookJobKind;
+  status: WebhookJobStatus;
+  /** Short description for lists (e.g. the meeting title) */
+  label: string;
+  payload: unknown;
+  /** Sender's message ID (QStash `Upstash-Message-Id`) used for deduplication */
+  messageId?: string;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Earliest time a queued job runs (retry backoff) */
+  runAfter: number;
+  lastError?: string;
+  /** What the handler returned (e.g. the note path) */
+  result?: Record<string, unknown>;
+}
+
+export interface WebhookJobStore {
+  version: 1;
+  jobs: Record<string, WebhookJob>;
+  /** Message IDs already accepted, with when they may be accepted again */
+  seenMessages: Record<string, number>;
 }
 
 export interface AmieWebhookPayload {
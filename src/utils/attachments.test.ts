@@ -0,0 +1,74 @@
+// ============================================================================
+// Attachment Helper Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_ATTACHMENT_BYTES,
+  createAttachment,
+  encodeBase64,
+  findAttachmentLinks,
+  getAttachmentType,
+  isAttachmentPath,
+} from "./attachments";
+
+function bytesOf(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+describe("getAttachmentType", () => {
+  it("maps image and PDF extensions case-insensitively", () => {
+    expect(getAttachmentType("PNG")).toEqual({ kind: "image", mimeType: "image/png" });
+    expect(getAttachmentType(".jpg")).toEqual({ kind: "image", mimeType: "image/jpeg" });
+    expect(getAttachmentType("pdf")).toEqual({ kind: "pdf", mimeType: "application/pdf" });
+  });
+
+  it("rejects other file types", () => {
+    expect(getAttachmentType("md")).toBeNull();
+    expect(getAttachmentType("svg")).toBeNull();
+  });
+});
+
+describe("isAttachmentPath", () => {
+  it("checks the extension of a path or link target", () => {
+    expect(isAttachmentPath("Attachments/Screenshot 2026-01-05.png")).toBe(true);
+    expect(isAttachmentPath("deck.pdf#page=2")).toBe(true);
+    expect(isAttachmentPath("Notes/Meeting.md")).toBe(false);
+    expect(isAttachmentPath("png")).toBe(false);
+  });
+});
+
+describe("findAttachmentLinks", () => {
+  it("finds embeds, wiki links and markdown links in order", () => {
+    const text = "See [deck](Files/Q3%20Deck.pdf), then ![[chart.png|300]] and [[Specs/spec.pdf#page=2]].";
+    expect(findAttachmentLinks(text)).toEqual(["Files/Q3 Deck.pdf", "chart.png", "Specs/spec.pdf"]);
+  });
+
+  it("skips web URLs, notes and duplicates", () => {
+    const text = "![](https://example.com/a.png) [[Meeting]] ![[a.png]] [[a.png]]";
+    expect(findAttachmentLinks(text)).toEqual(["a.png"]);
+  });
+});
+
+describe("encodeBase64", () => {
+  it("matches Buffer encoding across chunk boundaries", () => {
+    const bytes = new Uint8Array(0x8000 * 2 + 17).map((_, i) => i % 256);
+    expect(encodeBase64(bytes.buffer)).toBe(Buffer.from(bytes).toString("base64"));
+  });
+});
+
+describe("createAttachment", () => {
+  it("builds a base64 attachment from file bytes", () => {
+    expect(createAttachment(bytesOf("hello"), "shot.png")).toEqual({
+      kind: "image",
+      mimeType: "image/png",
+      data: "aGVsbG8=",
+      name: "shot.png",
+    });
+  });
+
+  it("returns null for unsupported and oversized files", () => {
+    expect(createAttachment(bytesOf("hello"), "notes.md")).toBeNull();
+    expect(createAttachment(new ArrayBuffer(MAX_ATTACHMENT_BYTES + 1), "big.pdf")).toBeNull();
+  });
+});
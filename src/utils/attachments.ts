@@ -0,0 +1,123 @@
+// ============================================================================
+// Attachments - Vault images and PDFs as AI call attachments
+// ============================================================================
+
+import type { App, TFile } from "obsidian";
+import type { AIAttachment } from "../services/ai-provider";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Larger files are skipped (providers cap inline data around 20 MB after base64) */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, { kind: AIAttachment["kind"]; mimeType: string }> = {
+  png: { kind: "image", mimeType: "image/png" },
+  jpg: { kind: "image", mimeType: "image/jpeg" },
+  jpeg: { kind: "image", mimeType: "image/jpeg" },
+  gif: { kind: "image", mimeType: "image/gif" },
+  webp: { kind: "image", mimeType: "image/webp" },
+  pdf: { kind: "pdf", mimeType: "application/pdf" },
+};
+
+const WIKI_LINK_PATTERN = /!?\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+const MARKDOWN_LINK_PATTERN = /!?\[[^\]]*\]\(<?([^)>]+?)>?\)/g;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Attachment kind and MIME type for a file extension, or null if providers can't read it
+ */
+export function getAttachmentType(extension: string): { kind: AIAttachment["kind"]; mimeType: string } | null {
+  return MIME_TYPES[extension.toLowerCase().replace(/^\./, "")] ?? null;
+}
+
+/**
+ * Whether a vault path or link target points at an image or PDF
+ */
+export function isAttachmentPath(path: string): boolean {
+  const extension = path.split(/[?#]/)[0].split(".").pop() ?? "";
+  return path.includes(".") && getAttachmentType(extension) !== null;
+}
+
+/**
+ * Image/PDF link targets in markdown text (wiki links, embeds and markdown links), in order, deduplicated.
+ * Web URLs are left out; only vault files can be attached.
+ */
+export function findAttachmentLinks(text: string): string[] {
+  const found: Array<{ index: number; target: string }> = [];
+  for (const pattern of [WIKI_LINK_PATTERN, MARKDOWN_LINK_PATTERN]) {
+    for (const match of text.matchAll(pattern)) {
+      const target = safeDecode(match[1].trim());
+      if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(target) && isAttachmentPath(target)) {
+        found.push({ index: match.index ?? 0, target });
+      }
+    }
+  }
+  return [...new Set(found.sort((a, b) => a.index - b.index).map((link) => link.target))];
+}
+
+/**
+ * Base64-encode binary data (chunked so large files don't overflow the call stack)
+ */
+export function encodeBase64(bytes: ArrayBuffer): string {
+  const view = new Uint8Array(bytes);
+  const chunkSize = 0x8000;
+  let binary = "";
+  for (let i = 0; i < view.length; i += chunkSize) {
+    binary += String.fromCharCode(...view.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Build an attachment from file bytes
+ * @returns null for unsupported types and files above MAX_ATTACHMENT_BYTES
+ */
+export function createAttachment(bytes: ArrayBuffer, name: string): AIAttachment | null {
+  const type = getAttachmentType(name.split(".").pop() ?? "");
+  if (!type) return null;
+  if (bytes.byteLength > MAX_ATTACHMENT_BYTES) {
+    console.warn(`[GSD] Skipping attachment ${name}: ${bytes.byteLength} bytes exceeds ${MAX_ATTACHMENT_BYTES}`);
+    return null;
+  }
+  return { ...type, data: encodeBase64(bytes), name };
+}
+
+/**
+ * Resolve a link target (relative to the note it appears in) to a vault image or PDF
+ */
+export function resolveAttachmentFile(app: App, link: string, sourcePath: string): TFile | null {
+  const file =
+    app.metadataCache.getFirstLinkpathDest(link, sourcePath) ??
+    (app.vault.getAbstractFileByPath(link) as TFile | null);
+  return file && "extension" in file && getAttachmentType(file.extension) ? file : null;
+}
+
+/**
+ * Read a vault image or PDF as an attachment
+ * @returns null for unsupported or oversized files
+ */
+export async function readVaultAttachment(app: App, file: TFile): Promise<AIAttachment | null> {
+  if (!getAttachmentType(file.extension)) return null;
+  if (file.stat?.size > MAX_ATTACHMENT_BYTES) {
+    console.warn(`[GSD] Skipping attachment ${file.path}: ${file.stat.size} bytes exceeds ${MAX_ATTACHMENT_BYTES}`);
+    return null;
+  }
+  return createAttachment(await app.vault.readBinary(file), file.name);
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURI(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,49 @@
+// ============================================================================
+// Citation Formatting Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { citationLabel, formatCitationLink, formatInlineSources, formatSourcesList } from "./citations";
+
+describe("citationLabel", () => {
+  it("uses the title, collapsing whitespace", () => {
+    expect(citationLabel({ url: "https://a.co/x", title: "  Northwind\n raises  " })).toBe("Northwind raises");
+  });
+
+  it("falls back to the host name without www", () => {
+    expect(citationLabel({ url: "https://www.northwind.io/about" })).toBe("northwind.io");
+  });
+});
+
+describe("formatCitationLink", () => {
+  it("escapes brackets in titles and parens/spaces in URLs", () => {
+    expect(formatCitationLink({ url: "https://en.wikipedia.org/wiki/Foo_(bar) baz", title: "[PDF] Report" })).toBe(
+      "[\\[PDF\\] Report](https://en.wikipedia.org/wiki/Foo_%28bar%29%20baz)"
+    );
+  });
+});
+
+describe("formatSourcesList", () => {
+  const citations = [
+    { url: "https://northwind.io/team", title: "Team" },
+    { url: "https://news.example.com/a" },
+    { url: "https://c.example.com" },
+  ];
+
+  it("writes one bullet per source up to the limit", () => {
+    expect(formatSourcesList(citations, 2)).toBe(
+      "- [Team](https://northwind.io/team)\n- [news.example.com](https://news.example.com/a)"
+    );
+  });
+
+  it("returns an empty string without citations", () => {
+    expect(formatSourcesList([])).toBe("");
+    expect(formatInlineSources([])).toBe("");
+  });
+
+  it("joins inline sources with commas", () => {
+    expect(formatInlineSources(citations.slice(0, 2))).toBe(
+      "[Team](https://northwind.io/team), [news.example.com](https://news.example.com/a)"
+    );
+  });
+});
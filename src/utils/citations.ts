@@ -0,0 +1,55 @@
+// ============================================================================
+// Citations - Markdown source lists for search-grounded AI output
+// ============================================================================
+
+import type { AICitation } from "../services/ai-provider";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Sources written per note (search calls can return dozens of results) */
+export const MAX_SOURCES = 8;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Link text for a source: its title, or the host name when it has none
+ */
+export function citationLabel(citation: AICitation): string {
+  const title = citation.title?.replace(/\s+/g, " ").trim();
+  if (title) return title;
+  try {
+    return new URL(citation.url).hostname.replace(/^www\./, "");
+  } catch {
+    return citation.url;
+  }
+}
+
+/**
+ * Markdown link to a source (brackets in the title and spaces/parens in the URL are escaped)
+ */
+export function formatCitationLink(citation: AICitation): string {
+  const label = citationLabel(citation).replace(/([[\]])/g, "\\$1");
+  const url = citation.url.replace(/ /g, "%20").replace(/\(/g, "%28").replace(/\)/g, "%29");
+  return `[${label}](${url})`;
+}
+
+/**
+ * "- [Title](url)" lines for a Sources section, or "" without citations
+ */
+export function formatSourcesList(citations: AICitation[], max: number = MAX_SOURCES): string {
+  return citations
+    .slice(0, max)
+    .map((citation) => `- ${formatCitationLink(citation)}`)
+    .join("\n");
+}
+
+/**
+ * Sources as one comma-separated line of links (for nested bullets), or "" without citations
+ */
+export function formatInlineSources(citations: AICitation[], max: number = MAX_SOURCES): string {
+  return citations.slice(0, max).map(formatCitationLink).join(", ");
+}
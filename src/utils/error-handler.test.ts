@@ -0,0 +1,113 @@
+// ============================================================================
+// Error Handler Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  ClassifiedError,
+  classifyError,
+  describeError,
+  getRetryAfterMs,
+  getRetryDelay,
+  parseRetryAfter,
+  withRetry,
+} from "./error-handler";
+
+describe("classifyError", () => {
+  it("maps HTTP statuses to categories", () => {
+    expect(classifyError(new Error("nope"), { status: 401 }).category).toBe("auth");
+    expect(classifyError(new Error("Too many requests"), { status: 429 }).category).toBe("rate-limit");
+    expect(classifyError(new Error("You exceeded your current quota"), { status: 429 }).category).toBe("quota");
+    expect(classifyError(new Error("Overloaded"), { status: 529 }).category).toBe("transient");
+    expect(classifyError(new Error("max_tokens too large"), { status: 400 }).category).toBe("bad-request");
+    expect(classifyError(new Error("flagged by moderation"), { status: 400 }).category).toBe("content-filter");
+  });
+
+  it("falls back to the message when there is no status", () => {
+    expect(classifyError(new Error("Failed to fetch")).category).toBe("transient");
+    expect(classifyError(new Error("Invalid API key provided")).category).toBe("auth");
+    expect(classifyError(new Error("File not found")).category).toBe("unknown");
+  });
+
+  it("reads the status from requestUrl-style errors", () => {
+    expect(classifyError(Object.assign(new Error("Request failed"), { status: 503 })).category).toBe("transient");
+  });
+
+  it("returns classified errors unchanged", () => {
+    const error = new ClassifiedError("blocked", "content-filter");
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it("describes known categories only", () => {
+    expect(describeError(new ClassifiedError("x", "rate-limit"))).toBe("rate limited by the provider");
+    expect(describeError(new Error("something odd"))).toBeNull();
+  });
+});
+
+describe("Retry-After", () => {
+  it("parses delta seconds and HTTP dates", () => {
+    const now = Date.parse("2026-03-02T10:00:00Z");
+    expect(parseRetryAfter("5", now)).toBe(5000);
+    expect(parseRetryAfter("Mon, 02 Mar 2026 10:00:30 GMT", now)).toBe(30000);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+  });
+
+  it("finds the header regardless of casing", () => {
+    expect(getRetryAfterMs({ "Retry-After": "2" })).toBe(2000);
+    expect(getRetryAfterMs(new Headers({ "retry-after": "3" }))).toBe(3000);
+    expect(getRetryAfterMs({})).toBeNull();
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("applies full jitter to exponential backoff", () => {
+    expect(getRetryDelay(1, undefined, { baseDelayMs: 1000 }, () => 0.5)).toBe(500);
+    expect(getRetryDelay(3, undefined, { baseDelayMs: 1000 }, () => 1)).toBe(4000);
+    expect(getRetryDelay(10, undefined, { baseDelayMs: 1000, maxDelayMs: 5000 }, () => 1)).toBe(5000);
+  });
+
+  it("never waits less than Retry-After", () => {
+    expect(getRetryDelay(1, 7000, { baseDelayMs: 1000 }, () => 1)).toBe(7000);
+  });
+});
+
+describe("withRetry", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("retries transient failures until one succeeds", async () => {
+    vi.useFakeTimers();
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new ClassifiedError("Overloaded", "transient"))
+      .mockRejectedValueOnce(new ClassifiedError("Slow down", "rate-limit", { retryAfterMs: 2000 }))
+      .mockResolvedValue("ok");
+    const onRetry = vi.fn();
+
+    const result = withRetry(fn, { onRetry });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls[1][2]).toBeGreaterThanOrEqual(2000);
+  });
+
+  it("does not retry auth, quota or bad requests", async () => {
+    const fn = vi.fn().mockRejectedValue(new ClassifiedError("bad key", "auth"));
+    await expect(withRetry(fn)).rejects.toMatchObject({ category: "auth" });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up when Retry-After is longer than the cap", async () => {
+    const fn = vi.fn().mockRejectedValue(new ClassifiedError("Slow down", "rate-limit", { retryAfterMs: 120000 }));
+    await expect(withRetry(fn, { maxRetryAfterMs: 60000 })).rejects.toMatchObject({ category: "rate-limit" });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops when canRetry says no", async () => {
+    const fn = vi.fn().mockRejectedValue(new ClassifiedError("reset", "transient"));
+    await expect(withRetry(fn, { canRetry: () => false })).rejects.toBeInstanceOf(ClassifiedError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -59,6 +59,248 @@ export function getErrorDetails(error: unknown): {
   return details;
 }
 
+// ============================================================================
+// Error Classification
+// ============================================================================
+
+/**
+ * Why a request failed, independent of which API reported it
+ */
+export type ErrorCategory =
+  | "auth"
+  | "quota"
+  | "rate-limit"
+  | "transient"
+  | "content-filter"
+  | "bad-request"
+  | "unknown";
+
+/**
+ * An error tagged with its category (and HTTP status / Retry-After when known)
+ */
+export class ClassifiedError extends Error {
+  category: ErrorCategory;
+  status?: number;
+  /** Server-requested wait before retrying, from the Retry-After header */
+  retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    category: ErrorCategory,
+    details: { status?: number; retryAfterMs?: number | null } = {}
+  ) {
+    super(message);
+    this.name = "ClassifiedError";
+    this.category = category;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs ?? undefined;
+  }
+}
+
+const QUOTA_PATTERN = /exceeded your current quota|insufficient[_ ](quota|credits|funds)|billing|credit balance|payment required/i;
+const RATE_LIMIT_PATTERN = /rate[ _-]?limit|too many requests|resource[_ ]exhausted/i;
+const CONTENT_FILTER_PATTERN = /content[ _-]?(filter|policy|management)|safety|moderation|flagged|blocked by/i;
+const AUTH_PATTERN = /api[ _-]?key|unauthori[sz]ed|authentication|invalid[ _]x-api-key/i;
+const TRANSIENT_PATTERN = /overloaded|temporarily unavailable|service unavailable|bad gateway|timed? ?out|network|socket hang up|econnreset|econnrefused|etimedout|enotfound|failed to fetch|fetch failed|net::err/i;
+
+/**
+ * Classify an error from any provider.
+ * HTTP status wins where it is unambiguous; otherwise the message is matched.
+ */
+export function classifyError(
+  error: unknown,
+  details: { status?: number; retryAfterMs?: number | null } = {}
+): ClassifiedError {
+  if (error instanceof ClassifiedError) {
+    return error;
+  }
+
+  const message = getErrorMessage(error);
+  const statusValue =
+    details.status ??
+    (error && typeof error === "object" && "status" in error ? Number(error.status) : undefined);
+  const status = statusValue && !isNaN(statusValue) ? statusValue : undefined;
+  const classified = new ClassifiedError(message, categorize(message, status), {
+    status,
+    retryAfterMs: details.retryAfterMs,
+  });
+  if (error instanceof Error && error.stack) {
+    classified.stack = error.stack;
+  }
+  return classified;
+}
+
+function categorize(message: string, status?: number): ErrorCategory {
+  if (status === 401 || status === 403) return QUOTA_PATTERN.test(message) ? "quota" : "auth";
+  if (status === 402) return "quota";
+  if (status === 429) return QUOTA_PATTERN.test(message) ? "quota" : "rate-limit";
+  if (status && (status >= 500 || status === 408 || status === 409 || status === 425)) return "transient";
+  if (status && status >= 400) return CONTENT_FILTER_PATTERN.test(message) ? "content-filter" : "bad-request";
+
+  if (QUOTA_PATTERN.test(message)) return "quota";
+  if (RATE_LIMIT_PATTERN.test(message)) return "rate-limit";
+  if (AUTH_PATTERN.test(message)) return "auth";
+  if (CONTENT_FILTER_PATTERN.test(message)) return "content-filter";
+  if (TRANSIENT_PATTERN.test(message)) return "transient";
+  return "unknown";
+}
+
+/**
+ * Rate limits and transient outages are worth retrying; everything else fails the same way again
+ */
+export function isRetryableError(error: unknown): boolean {
+  const { category } = classifyError(error);
+  return category === "rate-limit" || category === "transient";
+}
+
+/**
+ * Short, user-facing reason for a category (used in notices)
+ */
+export function describeErrorCategory(category: ErrorCategory): string {
+  switch (category) {
+    case "auth":
+      return "API key rejected - check it in settings";
+    case "quota":
+      return "quota or credits exhausted";
+    case "rate-limit":
+      return "rate limited by the provider";
+    case "transient":
+      return "provider temporarily unavailable";
+    case "content-filter":
+      return "blocked by the provider's content filter";
+    case "bad-request":
+      return "request rejected as invalid";
+    default:
+      return "unexpected error";
+  }
+}
+
+/**
+ * Reason for a failed request, or null when the error isn't one we recognise
+ */
+export function describeError(error: unknown): string | null {
+  const { category } = classifyError(error);
+  return category === "unknown" ? null : describeErrorCategory(category);
+}
+
+// ============================================================================
+// Retry with Backoff
+// ============================================================================
+
+export interface RetryOptions {
+  /** Total attempts including the first (default 3) */
+  maxAttempts?: number;
+  /** First backoff step; doubles per attempt (default 1s) */
+  baseDelayMs?: number;
+  /** Cap for computed backoff (default 30s) */
+  maxDelayMs?: number;
+  /** Give up instead of waiting when Retry-After asks for longer than this (default 60s) */
+  maxRetryAfterMs?: number;
+  /** Extra gate checked before each retry (e.g. nothing streamed yet) */
+  canRetry?: () => boolean;
+  /** Aborts the wait between attempts */
+  signal?: AbortSignal;
+  /** Called before each wait, for logging */
+  onRetry?: (error: ClassifiedError, attempt: number, delayMs: number) => void;
+}
+
+const DEFAULT_RETRY: Required<Pick<RetryOptions, "maxAttempts" | "baseDelayMs" | "maxDelayMs" | "maxRetryAfterMs">> = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 60000,
+};
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Read Retry-After from a header map regardless of casing
+ */
+export function getRetryAfterMs(headers: Record<string, string> | Headers | null | undefined): number | null {
+  if (!headers) return null;
+  if (typeof (headers as Headers).get === "function") {
+    return parseRetryAfter((headers as Headers).get("retry-after"));
+  }
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === "retry-after");
+  return parseRetryAfter(entry?.[1]);
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential backoff with full
+ * jitter, never shorter than the server's Retry-After
+ */
+export function getRetryDelay(
+  attempt: number,
+  retryAfterMs: number | undefined,
+  options: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs"> = {},
+  random: () => number = Math.random
+): number {
+  const base = options.baseDelayMs ?? DEFAULT_RETRY.baseDelayMs;
+  const max = options.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs;
+  const backoff = Math.round(random() * Math.min(max, base * 2 ** (attempt - 1)));
+  return retryAfterMs != null ? Math.max(retryAfterMs, backoff) : backoff;
+}
+
+/**
+ * Run `fn`, retrying rate-limit and transient failures with backoff.
+ * The final error is rethrown as a ClassifiedError.
+ */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_RETRY.maxAttempts);
+  const maxRetryAfterMs = options.maxRetryAfterMs ?? DEFAULT_RETRY.maxRetryAfterMs;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error: unknown) {
+      const classified = classifyError(error);
+      const retryable = classified.category === "rate-limit" || classified.category === "transient";
+      if (
+        !retryable ||
+        attempt >= maxAttempts ||
+        options.signal?.aborted ||
+        (options.canRetry && !options.canRetry()) ||
+        (classified.retryAfterMs ?? 0) > maxRetryAfterMs
+      ) {
+        throw classified;
+      }
+
+      const delayMs = getRetryDelay(attempt, classified.retryAfterMs, options);
+      options.onRetry?.(classified, attempt, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Retry aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ============================================================================
+// Logging and Notices
+// ============================================================================
+
 /**
  * Log an error with consistent formatting
  */
@@ -101,7 +343,11 @@ export function handleError(
   }
 
   if (showNotice) {
-    const message = noticeMessage || getErrorMessage(error);
+    // Custom messages get the classified reason appended ("Research failed: rate limited by the provider")
+    const reason = noticeMessage ? describeError(error) : null;
+    const message = noticeMessage
+      ? reason ? `${noticeMessage}: ${reason}` : noticeMessage
+      : getErrorMessage(error);
     new Notice(message);
   }
 }
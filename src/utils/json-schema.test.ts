@@ -0,0 +1,119 @@
+// ============================================================================
+// JSON Schema Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { extractJson, validateJsonSchema, findJsonSchemaIssues, JsonSchema } from "./json-schema";
+
+const suggestionSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    suggestions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: ["followup", "question"] },
+          text: { type: "string" },
+        },
+        required: ["type", "text"],
+      },
+    },
+    score: { type: "number" },
+  },
+  required: ["summary", "suggestions"],
+};
+
+describe("extractJson", () => {
+  it("parses plain JSON", () => {
+    expect(extractJson('{"a":1}')).toEqual({ a: 1 });
+  });
+
+  it("strips code fences", () => {
+    expect(extractJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+  });
+
+  it("extracts JSON surrounded by prose", () => {
+    expect(extractJson('Here you go: {"a":{"b":2}} Hope it helps')).toEqual({ a: { b: 2 } });
+  });
+
+  it("extracts top-level arrays", () => {
+    expect(extractJson('Result: [1, 2, 3]')).toEqual([1, 2, 3]);
+  });
+
+  it("throws when no JSON is present", () => {
+    expect(() => extractJson("no json here")).toThrow(SyntaxError);
+  });
+});
+
+describe("validateJsonSchema", () => {
+  it("accepts valid values", () => {
+    const value = {
+      summary: "ok",
+      suggestions: [{ type: "followup", text: "Ping Anna" }],
+      score: 7.5,
+    };
+    expect(validateJsonSchema(value, suggestionSchema)).toEqual([]);
+  });
+
+  it("reports missing required fields", () => {
+    expect(validateJsonSchema({ summary: "ok" }, suggestionSchema)).toEqual([
+      "$.suggestions: is required",
+    ]);
+  });
+
+  it("reports type mismatches with paths", () => {
+    const errors = validateJsonSchema(
+      { summary: 3, suggestions: [{ type: "followup", text: 5 }] },
+      suggestionSchema
+    );
+    expect(errors).toEqual([
+      "$.summary: expected string, got number",
+      "$.suggestions[0].text: expected string, got number",
+    ]);
+  });
+
+  it("reports enum violations", () => {
+    const errors = validateJsonSchema(
+      { summary: "ok", suggestions: [{ type: "other", text: "x" }] },
+      suggestionSchema
+    );
+    expect(errors).toEqual(['$.suggestions[0].type: must be one of "followup", "question"']);
+  });
+
+  it("distinguishes integers from numbers", () => {
+    expect(validateJsonSchema(1.5, { type: "integer" })).toEqual([
+      "$: expected integer, got number",
+    ]);
+    expect(validateJsonSchema(2, { type: "integer" })).toEqual([]);
+  });
+
+  it("rejects null for objects", () => {
+    expect(validateJsonSchema(null, { type: "object" })).toEqual(["$: expected object, got null"]);
+  });
+});
+
+describe("findJsonSchemaIssues", () => {
+  const payloadSchema: JsonSchema = {
+    type: "object",
+    properties: {
+      startAt: { type: ["string", "number"] },
+      transcript: { type: "string", minLength: 1 },
+    },
+    required: ["startAt", "transcript"],
+  };
+
+  it("accepts any of a list of types", () => {
+    expect(findJsonSchemaIssues({ startAt: 1700000000, transcript: "Hi" }, payloadSchema)).toEqual([]);
+    expect(findJsonSchemaIssues({ startAt: true, transcript: "Hi" }, payloadSchema)).toEqual([
+      { path: "$.startAt", message: "expected string or number, got boolean" },
+    ]);
+  });
+
+  it("rejects strings below minLength", () => {
+    expect(findJsonSchemaIssues({ startAt: "2026-10-18", transcript: "" }, payloadSchema)).toEqual([
+      { path: "$.transcript", message: "must not be empty" },
+    ]);
+  });
+});
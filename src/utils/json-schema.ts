@@ -0,0 +1,143 @@
+// ============================================================================
+// JSON Schema - Minimal schema validation for structured model output and webhook bodies
+// ============================================================================
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean";
+
+/**
+ * Subset of JSON Schema understood by the validator and accepted by the
+ * providers' native structured-output features.
+ * Type lists and minLength are only used by the webhook request schemas.
+ */
+export interface JsonSchema {
+  type: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minLength?: number;
+}
+
+/**
+ * A validation failure at a JSON path (`$.metadata.startAt`)
+ */
+export interface JsonSchemaIssue {
+  path: string;
+  message: string;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse JSON from a model response.
+ * Tolerates code fences and prose around a single top-level object or array.
+ * @throws SyntaxError if no parseable JSON is found
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to bracket extraction
+  }
+
+  const objectStart = trimmed.indexOf("{");
+  const arrayStart = trimmed.indexOf("[");
+  const useArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+  const start = useArray ? arrayStart : objectStart;
+  const end = trimmed.lastIndexOf(useArray ? "]" : "}");
+  if (start === -1 || end <= start) {
+    throw new SyntaxError("No JSON found in response");
+  }
+  return JSON.parse(trimmed.slice(start, end + 1));
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a value against a schema.
+ * @returns Human-readable errors with JSON paths (empty when valid)
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = "$"): string[] {
+  return findJsonSchemaIssues(value, schema, path).map((issue) => `${issue.path}: ${issue.message}`);
+}
+
+/**
+ * Validate a value against a schema, keeping each failure's path separate
+ * @returns Issues in document order (empty when valid)
+ */
+export function findJsonSchemaIssues(value: unknown, schema: JsonSchema, path: string = "$"): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  const type = types.find((candidate) => matchesType(value, candidate));
+  if (!type) {
+    issues.push({ path, message: `expected ${types.join(" or ")}, got ${describeType(value)}` });
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}` });
+  }
+
+  if (type === "string" && schema.minLength !== undefined && (value as string).length < schema.minLength) {
+    const message = schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters`;
+    issues.push({ path, message });
+  }
+
+  if (type === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined || record[key] === null) {
+        issues.push({ path: `${path}.${key}`, message: "is required" });
+      }
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+      if (record[key] === undefined || record[key] === null) continue;
+      issues.push(...findJsonSchemaIssues(record[key], propSchema, `${path}.${key}`));
+    }
+  }
+
+  if (type === "array" && schema.items) {
+    const items = value as unknown[];
+    items.forEach((item, i) => {
+      issues.push(...findJsonSchemaIssues(item, schema.items as JsonSchema, `${path}[${i}]`));
+    });
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && !isNaN(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
@@ -0,0 +1,93 @@
+// ============================================================================
+// Prompt Template Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { TemplateSyntaxError, renderTemplate, validateTemplate } from "./prompt-template";
+
+describe("renderTemplate", () => {
+  it("fills variables and dotted paths", () => {
+    expect(renderTemplate('Meeting: "{title}" with {person.name}', { title: "Intro", person: { name: "Jane" } })).toBe(
+      'Meeting: "Intro" with Jane'
+    );
+  });
+
+  it("renders missing values as empty and joins lists", () => {
+    expect(renderTemplate("[{missing}] {tags}", { tags: ["a", "b"] })).toBe("[] a, b");
+  });
+
+  it("leaves braces that are not tags alone", () => {
+    const json = '{\n  "title": "{title}",\n  "bullets": []\n}';
+    expect(renderTemplate(json, { title: "Partner" })).toBe('{\n  "title": "Partner",\n  "bullets": []\n}');
+  });
+
+  it("renders conditionals with else and negation", () => {
+    const template = "{#if domain}Website: {domain}{else}No website{/if}{#if !vip} (regular){/if}";
+    expect(renderTemplate(template, { domain: "acme.com", vip: true })).toBe("Website: acme.com");
+    expect(renderTemplate(template, { domain: "  " })).toBe("No website (regular)");
+  });
+
+  it("loops with an alias and loop variables", () => {
+    const template = "{#each attendees as a}{@index}. {a.name}{#if !@last}, {/if}{/each}";
+    const attendees = [{ name: "Jane" }, { name: "Max" }];
+    expect(renderTemplate(template, { attendees })).toBe("1. Jane, 2. Max");
+  });
+
+  it("exposes item fields in loops without an alias and renders else for empty lists", () => {
+    const template = "{#each sources}- {title} ({url})\n{else}No sources{/each}";
+    expect(renderTemplate(template, { sources: [{ title: "Site", url: "https://acme.com" }] })).toBe(
+      "- Site (https://acme.com)\n"
+    );
+    expect(renderTemplate(template, { sources: [] })).toBe("No sources");
+  });
+
+  it("drops lines that only hold block tags", () => {
+    const template = "Context:\n{#if notes}\n{notes}\n{/if}\nEnd";
+    expect(renderTemplate(template, { notes: "n1" })).toBe("Context:\nn1\nEnd");
+    expect(renderTemplate(template, { notes: "" })).toBe("Context:\nEnd");
+  });
+
+  it("includes partials with the caller's variables", () => {
+    const partials = { signature: "Thanks, {name}", wrapper: "[{> signature}]" };
+    expect(renderTemplate("{> wrapper}", { name: "Jane" }, { partials })).toBe("[Thanks, Jane]");
+  });
+
+  it("stops partials that include themselves", () => {
+    expect(() => renderTemplate("{> loop}", {}, { partials: { loop: "x{> loop}" } })).toThrow(TemplateSyntaxError);
+  });
+
+  it("reports unbalanced blocks with their line", () => {
+    expect(() => renderTemplate("a\n{#if x}\nb", {})).toThrow("{#if x} is never closed (line 2)");
+    expect(() => renderTemplate("{#each xs as x}{/if}", {})).toThrow("{/if} closes {#each}");
+    expect(() => renderTemplate("{else}", {})).toThrow(TemplateSyntaxError);
+  });
+});
+
+describe("validateTemplate", () => {
+  const options = { variables: ["title", "attendeeList"], required: ["title"] };
+
+  it("accepts templates that only use known variables", () => {
+    expect(validateTemplate("{title} {#each attendeeList as a}{a.email}{@index}{/each}", options)).toEqual([]);
+  });
+
+  it("reports unknown variables, missing required ones and unknown partials", () => {
+    const issues = validateTemplate("{titel} {@index} {> footer}", options);
+    expect(issues.map((issue) => [issue.kind, issue.name])).toEqual([
+      ["unknown-variable", "titel"],
+      ["unknown-variable", "@index"],
+      ["unknown-partial", "footer"],
+      ["missing-variable", "title"],
+    ]);
+  });
+
+  it("checks variables used inside partials", () => {
+    const issues = validateTemplate("{> intro}", { ...options, partials: { intro: "{title} {agenda}" } });
+    expect(issues).toEqual([{ kind: "unknown-variable", name: "agenda", message: "Unknown variable {agenda}" }]);
+  });
+
+  it("reports syntax errors instead of throwing", () => {
+    expect(validateTemplate("{#if title}", options)).toEqual([
+      { kind: "syntax", message: "{#if title} is never closed (line 1)" },
+    ]);
+  });
+});
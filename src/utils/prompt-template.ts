@@ -0,0 +1,382 @@
+// ============================================================================
+// Prompt Template - Variables, conditionals, loops and partials for prompts
+// ============================================================================
+
+/**
+ * Syntax (single braces, so existing "{title}" prompts keep working):
+ * - {name}, {person.email}          variable (missing values render as "")
+ * - {#if name}…{else}…{/if}         section when the value is non-empty ({#if !name} negates)
+ * - {#each list as item}…{/each}    loop; {@index} (1-based), {@first}, {@last} inside;
+ *                                   {else} renders when the list is empty
+ * - {> name}                        include a partial
+ *
+ * Block tags on a line of their own don't leave an empty line behind. Braces that
+ * don't form a tag (e.g. JSON examples in a prompt) are left untouched.
+ */
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateVariables = Record<string, TemplateValue>;
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; path: string }
+  | { type: "if"; path: string; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: "each"; path: string; alias: string | null; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: "partial"; name: string };
+
+export interface TemplateRenderOptions {
+  /** Partial sources by name, included with {> name} */
+  partials?: Record<string, string>;
+}
+
+export type TemplateIssueKind = "syntax" | "unknown-variable" | "missing-variable" | "unknown-partial";
+
+export interface TemplateIssue {
+  kind: TemplateIssueKind;
+  message: string;
+  /** Variable or partial the issue is about */
+  name?: string;
+}
+
+export interface TemplateValidationOptions extends TemplateRenderOptions {
+  /** Variables the caller provides */
+  variables: string[];
+  /** Variables the template should use (reported as missing otherwise) */
+  required?: string[];
+}
+
+/**
+ * Malformed template (unclosed or stray block tags, bad conditions, runaway partials)
+ */
+export class TemplateSyntaxError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = "TemplateSyntaxError";
+    this.line = line;
+  }
+}
+
+const TAG_PATTERN =
+  /\{\s*(?:#(if|each)\s+([^{}]*?)|(else)|\/(if|each)|>\s*([^{}]+?)|(@?[A-Za-z_]\w*(?:\.\w+)*))\s*\}/g;
+const CONDITION_PATTERN = /^(!)?\s*(@?[A-Za-z_]\w*(?:\.\w+)*)$/;
+const EACH_PATTERN = /^([A-Za-z_]\w*(?:\.\w+)*)(?:\s+as\s+([A-Za-z_]\w*))?$/;
+const MAX_PARTIAL_DEPTH = 8;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+type OpenBlock = Extract<TemplateNode, { type: "if" | "each" }> & { line: number; inElse: boolean };
+
+/**
+ * Parse a template into nodes
+ * @throws TemplateSyntaxError for unbalanced or malformed block tags
+ */
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  let cursor = 0;
+
+  const target = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    return open.inElse ? open.otherwise : open.body;
+  };
+  const lineAt = (index: number): number => source.slice(0, index).split("\n").length;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    const [tag, blockKind, blockArgs, elseTag, closeKind, partialName, varPath] = match;
+    const line = lineAt(index);
+
+    // A block tag alone on its line takes the whole line with it, so sections don't leave blank lines
+    let start = index;
+    let end = index + tag.length;
+    if (blockKind || elseTag || closeKind) {
+      const lineStart = source.lastIndexOf("\n", index - 1) + 1;
+      const newline = source.indexOf("\n", end);
+      const lineEnd = newline === -1 ? source.length : newline + 1;
+      if (lineStart >= cursor && !source.slice(lineStart, index).trim() && !source.slice(end, lineEnd).trim()) {
+        start = lineStart;
+        end = lineEnd;
+      }
+    }
+
+    if (start > cursor) {
+      target().push({ type: "text", value: source.slice(cursor, start) });
+    }
+    cursor = end;
+
+    if (blockKind === "if") {
+      const condition = CONDITION_PATTERN.exec(blockArgs.trim());
+      if (!condition) throw new TemplateSyntaxError(`Invalid condition "${blockArgs.trim()}"`, line);
+      const block: OpenBlock = {
+        type: "if",
+        path: condition[2],
+        negate: !!condition[1],
+        body: [],
+        otherwise: [],
+        line,
+        inElse: false,
+      };
+      target().push(block);
+      stack.push(block);
+    } else if (blockKind === "each") {
+      const loop = EACH_PATTERN.exec(blockArgs.trim());
+      if (!loop) throw new TemplateSyntaxError(`Invalid loop "${blockArgs.trim()}"`, line);
+      const block: OpenBlock = {
+        type: "each",
+        path: loop[1],
+        alias: loop[2] ?? null,
+        body: [],
+        otherwise: [],
+        line,
+        inElse: false,
+      };
+      target().push(block);
+      stack.push(block);
+    } else if (elseTag) {
+      const open = stack[stack.length - 1];
+      if (!open) throw new TemplateSyntaxError("{else} outside of {#if} or {#each}", line);
+      if (open.inElse) throw new TemplateSyntaxError(`Second {else} in {#${open.type}}`, line);
+      open.inElse = true;
+    } else if (closeKind) {
+      const open = stack.pop();
+      if (!open) throw new TemplateSyntaxError(`{/${closeKind}} without a matching {#${closeKind}}`, line);
+      if (open.type !== closeKind) {
+        throw new TemplateSyntaxError(`{/${closeKind}} closes {#${open.type}} from line ${open.line}`, line);
+      }
+    } else if (partialName) {
+      target().push({ type: "partial", name: partialName.trim() });
+    } else if (varPath) {
+      target().push({ type: "var", path: varPath });
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`{#${unclosed.type} ${unclosed.path}} is never closed`, unclosed.line);
+  }
+
+  if (cursor < source.length) {
+    root.push({ type: "text", value: source.slice(cursor) });
+  }
+  return root;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+type Scope = Record<string, TemplateValue>;
+
+interface RenderContext {
+  partials: Record<string, string>;
+  parsed: Map<string, TemplateNode[]>;
+  depth: number;
+}
+
+/**
+ * Render a template with the given variables
+ * @throws TemplateSyntaxError when the template or an included partial is malformed
+ */
+export function renderTemplate(
+  source: string,
+  variables: TemplateVariables,
+  options: TemplateRenderOptions = {}
+): string {
+  const context: RenderContext = { partials: options.partials ?? {}, parsed: new Map(), depth: 0 };
+  return renderNodes(parseTemplate(source), [variables], context);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], context: RenderContext): string {
+  let output = "";
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+      case "var":
+        output += stringifyValue(lookup(node.path, scopes));
+        break;
+      case "if": {
+        const truthy = isTruthy(lookup(node.path, scopes)) !== node.negate;
+        output += renderNodes(truthy ? node.body : node.otherwise, scopes, context);
+        break;
+      }
+      case "each": {
+        const value = lookup(node.path, scopes);
+        const items = Array.isArray(value) ? value : [];
+        if (items.length === 0) {
+          output += renderNodes(node.otherwise, scopes, context);
+          break;
+        }
+        items.forEach((item, i) => {
+          const scope: Scope = {
+            ...(node.alias === null && isRecord(item) ? item : {}),
+            [node.alias ?? "this"]: item,
+            "@index": i + 1,
+            "@first": i === 0,
+            "@last": i === items.length - 1,
+          };
+          output += renderNodes(node.body, [...scopes, scope], context);
+        });
+        break;
+      }
+      case "partial": {
+        const partial = context.partials[node.name];
+        if (partial === undefined) break;
+        if (context.depth >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateSyntaxError(`Partials nested more than ${MAX_PARTIAL_DEPTH} deep at {> ${node.name}}`, 1);
+        }
+        let parsed = context.parsed.get(node.name);
+        if (!parsed) {
+          parsed = parsePartial(node.name, partial);
+          context.parsed.set(node.name, parsed);
+        }
+        output += renderNodes(parsed, scopes, { ...context, depth: context.depth + 1 });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+function parsePartial(name: string, source: string): TemplateNode[] {
+  try {
+    return parseTemplate(source);
+  } catch (error: unknown) {
+    if (error instanceof TemplateSyntaxError) {
+      throw new TemplateSyntaxError(`In partial "${name}": ${error.message.replace(/ \(line \d+\)$/, "")}`, error.line);
+    }
+    throw error;
+  }
+}
+
+function lookup(path: string, scopes: Scope[]): TemplateValue {
+  const [head, ...rest] = path.split(".");
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (!Object.prototype.hasOwnProperty.call(scopes[i], head)) continue;
+    let value: TemplateValue = scopes[i][head];
+    for (const key of rest) {
+      value = isRecord(value) ? value[key] : undefined;
+    }
+    return value;
+  }
+  return undefined;
+}
+
+function isRecord(value: TemplateValue): value is { [key: string]: TemplateValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (isRecord(value)) return Object.keys(value).length > 0;
+  return !!value;
+}
+
+function stringifyValue(value: TemplateValue): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(stringifyValue).filter(Boolean).join(", ");
+  if (isRecord(value)) return JSON.stringify(value);
+  return String(value);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check a template against the variables and partials available to it.
+ * @returns Syntax errors, unknown/missing variables and unknown partials (empty when valid)
+ */
+export function validateTemplate(source: string, options: TemplateValidationOptions): TemplateIssue[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(source);
+  } catch (error: unknown) {
+    if (error instanceof TemplateSyntaxError) return [{ kind: "syntax", message: error.message }];
+    throw error;
+  }
+
+  const partials = options.partials ?? {};
+  const known = new Set(options.variables);
+  const issues: TemplateIssue[] = [];
+  const used = new Set<string>();
+  const reported = new Set<string>();
+
+  const report = (issue: TemplateIssue): void => {
+    const key = `${issue.kind}:${issue.name ?? issue.message}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    issues.push(issue);
+  };
+
+  const visit = (list: TemplateNode[], locals: Set<string>, openLoop: boolean, stack: string[]): void => {
+    const check = (path: string): void => {
+      const head = path.split(".")[0];
+      used.add(head);
+      if (known.has(head) || locals.has(head) || openLoop) return;
+      report(
+        head.startsWith("@")
+          ? { kind: "unknown-variable", name: head, message: `{${head}} is only available inside {#each}` }
+          : { kind: "unknown-variable", name: head, message: `Unknown variable {${head}}` }
+      );
+    };
+
+    for (const node of list) {
+      if (node.type === "var") {
+        check(node.path);
+      } else if (node.type === "if") {
+        check(node.path);
+        visit(node.body, locals, openLoop, stack);
+        visit(node.otherwise, locals, openLoop, stack);
+      } else if (node.type === "each") {
+        check(node.path);
+        const inner = new Set([...locals, "@index", "@first", "@last", node.alias ?? "this"]);
+        visit(node.body, inner, openLoop || node.alias === null, stack);
+        visit(node.otherwise, locals, openLoop, stack);
+      } else if (node.type === "partial") {
+        const partial = partials[node.name];
+        if (partial === undefined) {
+          report({ kind: "unknown-partial", name: node.name, message: `Unknown partial {> ${node.name}}` });
+          continue;
+        }
+        if (stack.includes(node.name)) {
+          report({ kind: "syntax", name: node.name, message: `Partial "${node.name}" includes itself` });
+          continue;
+        }
+        try {
+          visit(parsePartial(node.name, partial), locals, openLoop, [...stack, node.name]);
+        } catch (error: unknown) {
+          if (!(error instanceof TemplateSyntaxError)) throw error;
+          report({ kind: "syntax", name: node.name, message: error.message });
+        }
+      }
+    }
+  };
+
+  visit(nodes, new Set(), false, []);
+
+  for (const name of options.required ?? []) {
+    if (!used.has(name)) {
+      report({ kind: "missing-variable", name, message: `Missing required variable {${name}}` });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,38 @@
+// ============================================================================
+// Rate Limiter Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { RateLimiter } from "./rate-limiter";
+
+describe("RateLimiter", () => {
+  it("allows a burst up to the limit, then asks the caller to wait", () => {
+    const limiter = new RateLimiter(3);
+    const now = 1_000_000;
+
+    expect([1, 2, 3].map(() => limiter.take("a", now).ok)).toEqual([true, true, true]);
+    expect(limiter.take("a", now)).toEqual({ ok: false, retryAfterSeconds: 20 });
+  });
+
+  it("refills evenly over the minute", () => {
+    const limiter = new RateLimiter(60);
+    const now = 1_000_000;
+    for (let i = 0; i < 60; i++) limiter.take("a", now);
+
+    expect(limiter.take("a", now).ok).toBe(false);
+    expect(limiter.take("a", now + 1_000).ok).toBe(true);
+    expect(limiter.take("a", now + 1_000).ok).toBe(false);
+  });
+
+  it("keeps keys independent", () => {
+    const limiter = new RateLimiter(1);
+    expect(limiter.take("a", 0).ok).toBe(true);
+    expect(limiter.take("a", 0).ok).toBe(false);
+    expect(limiter.take("b", 0).ok).toBe(true);
+  });
+
+  it("is off when the limit is 0", () => {
+    const limiter = new RateLimiter(0);
+    for (let i = 0; i < 100; i++) expect(limiter.take("a", 0).ok).toBe(true);
+  });
+});
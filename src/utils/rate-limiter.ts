@@ -0,0 +1,62 @@
+// ============================================================================
+// Rate Limiter - Per-key token buckets for the webhook server
+// ============================================================================
+
+export type RateLimitResult = { ok: true } | { ok: false; retryAfterSeconds: number };
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket per key: each key may burst up to the per-minute limit, and
+ * tokens refill evenly over the minute. A limit of 0 turns limiting off.
+ */
+export class RateLimiter {
+  private perMinute: number;
+  private buckets: Map<string, Bucket> = new Map();
+
+  constructor(perMinute: number) {
+    this.perMinute = perMinute;
+  }
+
+  /**
+   * Change the limit (existing buckets keep their tokens, capped at the new limit)
+   */
+  setLimit(perMinute: number): void {
+    this.perMinute = perMinute;
+  }
+
+  /**
+   * Spend a token for the key
+   */
+  take(key: string, now: number = Date.now()): RateLimitResult {
+    if (!(this.perMinute > 0)) return { ok: true };
+
+    const refillPerMs = this.perMinute / 60_000;
+    this.prune(now, refillPerMs);
+
+    const bucket = this.buckets.get(key) ?? { tokens: this.perMinute, updatedAt: now };
+    bucket.tokens = Math.min(this.perMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return { ok: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    }
+    bucket.tokens -= 1;
+    return { ok: true };
+  }
+
+  /**
+   * Forget buckets that have refilled completely (they behave like new ones)
+   */
+  private prune(now: number, refillPerMs: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= this.perMinute) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
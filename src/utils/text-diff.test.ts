@@ -0,0 +1,32 @@
+// ============================================================================
+// Text Diff Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { diffLines } from "./text-diff";
+
+describe("diffLines", () => {
+  it("marks identical text as unchanged", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual([
+      { type: "same", text: "a" },
+      { type: "same", text: "b" },
+    ]);
+  });
+
+  it("keeps shared lines and marks removed and added ones", () => {
+    expect(diffLines("title\nold line\nfooter", "title\nnew line\nextra\nfooter")).toEqual([
+      { type: "same", text: "title" },
+      { type: "removed", text: "old line" },
+      { type: "added", text: "new line" },
+      { type: "added", text: "extra" },
+      { type: "same", text: "footer" },
+    ]);
+  });
+
+  it("handles empty input on either side", () => {
+    expect(diffLines("", "a")).toEqual([
+      { type: "removed", text: "" },
+      { type: "added", text: "a" },
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+// ============================================================================
+// Text Diff - Line diff for comparing prompts and responses
+// ============================================================================
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/** Above this many line pairs the LCS table gets too large; fall back to replace-all */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line-based diff (longest common subsequence)
+ * @returns Lines of `after` marked as added, lines of `before` as removed, shared lines as same
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: "removed", text: a[i++] });
+    } else {
+      result.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: "removed", text: a[i++] });
+  while (j < b.length) result.push({ type: "added", text: b[j++] });
+
+  return result;
+}
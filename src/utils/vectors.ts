@@ -0,0 +1,50 @@
+// ============================================================================
+// Vectors - Embedding vector math and compact storage
+// ============================================================================
+
+import { encodeBase64 } from "./attachments";
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Scale a vector to unit length (the zero vector is returned unchanged)
+ */
+export function normalizeVector(values: ArrayLike<number>): Float32Array {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * Dot product; the cosine similarity for unit vectors (0 when the lengths differ)
+ */
+export function dotProduct(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Float32 vector as base64 (about a third of the size of a JSON number array)
+ */
+export function encodeVector(vector: Float32Array): string {
+  return encodeBase64(new Float32Array(vector).buffer);
+}
+
+/**
+ * Decode a vector written by encodeVector
+ */
+export function decodeVector(encoded: string): Float32Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Float32Array(bytes.buffer, 0, Math.floor(bytes.length / 4));
+}
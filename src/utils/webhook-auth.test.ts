@@ -0,0 +1,95 @@
+// ============================================================================
+// Webhook Auth Tests
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { createHash, createHmac } from "crypto";
+import { signHmacRequest, verifyHmacSignature, verifyQStashSignature } from "./webhook-auth";
+
+const NOW = 1_767_000_000;
+const BODY = JSON.stringify({ transcript: "hello" });
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+/** A QStash-style JWT signed with the given key */
+function qstashToken(key: string, claims: Record<string, unknown> = {}, body: string = BODY): string {
+  const header = base64Url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64Url(
+    JSON.stringify({
+      iss: "Upstash",
+      sub: "https://example.com/webhook/amie",
+      iat: NOW - 10,
+      nbf: NOW - 10,
+      exp: NOW + 300,
+      jti: "msg_1",
+      body: base64Url(createHash("sha256").update(body).digest()),
+      ...claims,
+    })
+  );
+  const signature = createHmac("sha256", key).update(`${header}.${payload}`).digest("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+describe("verifyQStashSignature", () => {
+  it("accepts a token signed with the current or the next key", () => {
+    expect(verifyQStashSignature(qstashToken("current"), BODY, ["current", "next"], NOW)).toEqual({ ok: true });
+    expect(verifyQStashSignature(qstashToken("next"), BODY, ["current", "next"], NOW)).toEqual({ ok: true });
+  });
+
+  it("rejects other keys, other bodies and bad claims", () => {
+    const keys = ["current", "next"];
+    expect(verifyQStashSignature(qstashToken("other"), BODY, keys, NOW)).toEqual({ ok: false, reason: "signature mismatch" });
+    expect(verifyQStashSignature(qstashToken("current"), `${BODY} `, keys, NOW)).toEqual({
+      ok: false,
+      reason: "body hash mismatch",
+    });
+    expect(verifyQStashSignature(qstashToken("current", { exp: NOW - 1 }), BODY, keys, NOW)).toEqual({
+      ok: false,
+      reason: "signature expired",
+    });
+    expect(verifyQStashSignature(qstashToken("current", { exp: undefined }), BODY, keys, NOW)).toEqual({
+      ok: false,
+      reason: "signature has no expiry",
+    });
+    expect(verifyQStashSignature(qstashToken("current", { exp: String(NOW + 300) }), BODY, keys, NOW).ok).toBe(false);
+    expect(verifyQStashSignature(qstashToken("current", { nbf: NOW + 60 }), BODY, keys, NOW)).toEqual({
+      ok: false,
+      reason: "signature not yet valid",
+    });
+    expect(verifyQStashSignature(qstashToken("current", { iss: "Someone" }), BODY, keys, NOW).ok).toBe(false);
+  });
+
+  it("rejects malformed tokens and missing keys", () => {
+    expect(verifyQStashSignature("abc", BODY, ["current"], NOW).ok).toBe(false);
+    expect(verifyQStashSignature(qstashToken("current"), BODY, ["", ""], NOW)).toEqual({
+      ok: false,
+      reason: "no QStash signing keys configured",
+    });
+  });
+});
+
+describe("verifyHmacSignature", () => {
+  const timestamp = String(NOW);
+
+  it("accepts a signature over the timestamp and body", () => {
+    const signature = signHmacRequest("secret", timestamp, BODY);
+    expect(signature).toBe(`sha256=${createHmac("sha256", "secret").update(`${timestamp}.${BODY}`).digest("hex")}`);
+    expect(verifyHmacSignature(signature, timestamp, BODY, "secret", 300, NOW)).toEqual({ ok: true });
+  });
+
+  it("rejects stale timestamps, tampered bodies and missing headers", () => {
+    const signature = signHmacRequest("secret", timestamp, BODY);
+    expect(verifyHmacSignature(signature, timestamp, BODY, "secret", 300, NOW + 301)).toEqual({
+      ok: false,
+      reason: "timestamp outside tolerance",
+    });
+    expect(verifyHmacSignature(signature, timestamp, `${BODY} `, "secret", 300, NOW)).toEqual({
+      ok: false,
+      reason: "signature mismatch",
+    });
+    expect(verifyHmacSignature(undefined, timestamp, BODY, "secret", 300, NOW).ok).toBe(false);
+    expect(verifyHmacSignature(signature, timestamp, BODY, "", 300, NOW).ok).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+// ============================================================================
+// Webhook Auth - QStash JWT and HMAC request signature verification
+// ============================================================================
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of a signature check; `reason` is for logs, never for the response
+ */
+export type WebhookAuthResult = { ok: true } | { ok: false; reason: string };
+
+interface QStashClaims {
+  iss?: string;
+  sub?: string;
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  /** base64url SHA-256 of the request body */
+  body?: string;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Verify an Upstash QStash `Upstash-Signature` JWT: HS256 signed with one of the
+ * signing keys, issued by Upstash, within its validity window (an `exp` is required)
+ * and covering this body
+ *
+ * @param signingKeys Current and next signing key (empty keys are skipped)
+ * @param nowSeconds Current Unix time in seconds
+ */
+export function verifyQStashSignature(
+  token: string,
+  body: string,
+  signingKeys: string[],
+  nowSeconds: number = Date.now() / 1000
+): WebhookAuthResult {
+  const parts = token.split(".");
+  if (parts.length !== 3) return { ok: false, reason: "malformed signature" };
+  const [encodedHeader, encodedPayload, signature] = parts;
+
+  const header = decodeJsonSegment<{ alg?: string; typ?: string }>(encodedHeader);
+  if (header?.alg !== "HS256") return { ok: false, reason: "unsupported signature algorithm" };
+
+  const keys = signingKeys.filter(Boolean);
+  if (keys.length === 0) return { ok: false, reason: "no QStash signing keys configured" };
+  const signed = `${encodedHeader}.${encodedPayload}`;
+  const matches = keys.some((key) =>
+    safeEqual(toBase64Url(createHmac("sha256", key).update(signed).digest("base64")), signature)
+  );
+  if (!matches) return { ok: false, reason: "signature mismatch" };
+
+  const claims = decodeJsonSegment<QStashClaims>(encodedPayload);
+  if (!claims) return { ok: false, reason: "malformed claims" };
+  if (claims.iss !== "Upstash") return { ok: false, reason: `unexpected issuer ${claims.iss ?? "(none)"}` };
+  // Without an expiry a captured token could be replayed forever
+  if (typeof claims.exp !== "number") return { ok: false, reason: "signature has no expiry" };
+  if (nowSeconds > claims.exp) return { ok: false, reason: "signature expired" };
+  if (typeof claims.nbf === "number" && nowSeconds < claims.nbf) return { ok: false, reason: "signature not yet valid" };
+
+  const bodyHash = toBase64Url(createHash("sha256").update(body, "utf8").digest("base64"));
+  if (!claims.body || !safeEqual(toBase64Url(claims.body), bodyHash)) {
+    return { ok: false, reason: "body hash mismatch" };
+  }
+  return { ok: true };
+}
+
+/**
+ * HMAC-SHA256 signature header value for a request: `sha256=<hex>` over `<timestamp>.<body>`
+ * (what senders put in `X-GSD-Signature`, next to `X-GSD-Timestamp`)
+ */
+export function signHmacRequest(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Verify an HMAC-signed request. The timestamp (Unix seconds) must be within the
+ * tolerance of now; callers reject signatures they've already seen within that window.
+ */
+export function verifyHmacSignature(
+  signature: string | undefined,
+  timestamp: string | undefined,
+  body: string,
+  secret: string,
+  toleranceSeconds: number,
+  nowSeconds: number = Date.now() / 1000
+): WebhookAuthResult {
+  if (!secret) return { ok: false, reason: "no HMAC secret configured" };
+  if (!signature || !timestamp) return { ok: false, reason: "missing signature or timestamp" };
+
+  const sentAt = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || !Number.isFinite(sentAt)) return { ok: false, reason: "malformed timestamp" };
+  if (Math.abs(nowSeconds - sentAt) > toleranceSeconds) return { ok: false, reason: "timestamp outside tolerance" };
+
+  if (!safeEqual(signHmacRequest(secret, timestamp, body), signature.trim())) {
+    return { ok: false, reason: "signature mismatch" };
+  }
+  return { ok: true };
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, "utf8");
+  const right = Buffer.from(b, "utf8");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Normalize base64 or base64url to unpadded base64url
+ */
+function toBase64Url(value: string): string {
+  return value.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeJsonSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
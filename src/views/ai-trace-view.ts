@@ -0,0 +1,396 @@
+import { ItemView, WorkspaceLeaf, Notice } from "obsidian";
+import type GetShitDonePlugin from "../main";
+import type { AITraceEntry } from "../types";
+import { buildRerunOptions, getRerunBlocker, isPromptRedacted } from "../services/ai-trace";
+import { diffLines } from "../utils/text-diff";
+import { handleError } from "../utils/error-handler";
+
+export const AI_TRACE_VIEW = "gsd-ai-trace";
+
+type StatusFilter = "all" | "ok" | "failed" | "cached";
+
+const KIND_LABELS: Record<AITraceEntry["kind"], string> = {
+  call: "Buffered",
+  stream: "Streamed",
+  tools: "Tool-calling",
+};
+
+export class AITraceView extends ItemView {
+  private plugin: GetShitDonePlugin;
+
+  // Filters
+  private query = "";
+  private actionFilter = "";
+  private statusFilter: StatusFilter = "all";
+
+  // Selection state
+  private expanded: Set<string> = new Set();
+  private selected: string[] = [];
+  private rerunning: Set<string> = new Set();
+
+  private diffEl: HTMLElement | null = null;
+  private listEl: HTMLElement | null = null;
+  private actionSelect: HTMLSelectElement | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: GetShitDonePlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return AI_TRACE_VIEW;
+  }
+
+  getDisplayText(): string {
+    return "AI Call Trace";
+  }
+
+  getIcon(): string {
+    return "list-tree";
+  }
+
+  async onOpen(): Promise<void> {
+    this.renderShell();
+    this.unsubscribe = this.plugin.getAITrace().onChange(() => this.refresh());
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  // ============================================================================
+  // Layout
+  // ============================================================================
+
+  private renderShell(): void {
+    const contentEl = this.containerEl.children[1] as HTMLElement;
+    contentEl.empty();
+    contentEl.addClass("gsd-trace-view");
+
+    const header = contentEl.createDiv({ cls: "gsd-trace-header" });
+    header.createEl("h3", { text: "AI Call Trace" });
+    const actions = header.createDiv({ cls: "gsd-trace-header-actions" });
+
+    const refreshBtn = actions.createEl("button", { text: "Refresh" });
+    refreshBtn.onclick = () => this.refresh();
+
+    const clearBtn = actions.createEl("button", { text: "Clear" });
+    clearBtn.onclick = async () => {
+      const removed = await this.plugin.getAITrace().clear();
+      this.expanded.clear();
+      this.selected = [];
+      new Notice(`Cleared ${removed} traced AI call${removed === 1 ? "" : "s"}`);
+    };
+
+    if (!this.plugin.settings.aiTrace.enabled) {
+      contentEl.createEl("p", {
+        text: "Tracing is off. Turn it on in Settings → AI → AI call trace.",
+        cls: "gsd-trace-empty",
+      });
+    }
+
+    const filters = contentEl.createDiv({ cls: "gsd-trace-filters" });
+    const search = filters.createEl("input", {
+      type: "search",
+      placeholder: "Filter by model, note, prompt or response…",
+    });
+    search.value = this.query;
+    search.oninput = () => {
+      this.query = search.value;
+      this.renderList();
+    };
+
+    this.actionSelect = filters.createEl("select");
+    this.actionSelect.onchange = () => {
+      this.actionFilter = this.actionSelect?.value ?? "";
+      this.renderList();
+    };
+
+    const statusSelect = filters.createEl("select");
+    for (const [value, label] of [
+      ["all", "All calls"],
+      ["ok", "Answered"],
+      ["failed", "Failed"],
+      ["cached", "From cache"],
+    ] as const) {
+      statusSelect.createEl("option", { value, text: label });
+    }
+    statusSelect.value = this.statusFilter;
+    statusSelect.onchange = () => {
+      this.statusFilter = statusSelect.value as StatusFilter;
+      this.renderList();
+    };
+
+    this.diffEl = contentEl.createDiv({ cls: "gsd-trace-diff" });
+    this.listEl = contentEl.createDiv({ cls: "gsd-trace-list" });
+    this.refresh();
+  }
+
+  private refresh(): void {
+    const entries = this.plugin.getAITrace().getEntries();
+    const known = new Set(entries.map((entry) => entry.id));
+    this.selected = this.selected.filter((id) => known.has(id));
+    this.renderActionOptions(entries);
+    this.renderDiff();
+    this.renderList();
+  }
+
+  private renderActionOptions(entries: AITraceEntry[]): void {
+    const select = this.actionSelect;
+    if (!select) return;
+    const actions = [...new Set(entries.map((entry) => entry.action))].sort();
+    if (this.actionFilter && !actions.includes(this.actionFilter)) actions.push(this.actionFilter);
+
+    select.empty();
+    select.createEl("option", { value: "", text: "All actions" });
+    for (const action of actions) {
+      select.createEl("option", { value: action, text: action });
+    }
+    select.value = this.actionFilter;
+  }
+
+  // ============================================================================
+  // Entry List
+  // ============================================================================
+
+  private renderList(): void {
+    const listEl = this.listEl;
+    if (!listEl) return;
+    listEl.empty();
+
+    const entries = this.plugin
+      .getAITrace()
+      .getEntries()
+      .filter((entry) => this.matchesFilters(entry))
+      .reverse();
+
+    if (entries.length === 0) {
+      listEl.createEl("p", { text: "No traced AI calls match.", cls: "gsd-trace-empty" });
+      return;
+    }
+
+    for (const entry of entries) {
+      this.renderEntry(listEl, entry);
+    }
+  }
+
+  private matchesFilters(entry: AITraceEntry): boolean {
+    if (this.actionFilter && entry.action !== this.actionFilter) return false;
+    if (this.statusFilter === "ok" && entry.response === null) return false;
+    if (this.statusFilter === "failed" && entry.response !== null) return false;
+    if (this.statusFilter === "cached" && !entry.cached) return false;
+
+    const query = this.query.trim().toLowerCase();
+    if (!query) return true;
+    return [entry.model, entry.answeredBy ?? "", entry.notePath ?? "", entry.user, entry.system, entry.response ?? ""]
+      .some((field) => field.toLowerCase().includes(query));
+  }
+
+  private renderEntry(containerEl: HTMLElement, entry: AITraceEntry): void {
+    const failed = entry.response === null;
+    const card = containerEl.createDiv({ cls: `gsd-trace-entry${failed ? " gsd-trace-failed" : ""}` });
+
+    const summary = card.createDiv({ cls: "gsd-trace-summary" });
+    const checkbox = summary.createEl("input", { type: "checkbox" });
+    checkbox.checked = this.selected.includes(entry.id);
+    checkbox.title = "Select two calls to diff them";
+    checkbox.onclick = (event) => {
+      event.stopPropagation();
+      this.toggleSelected(entry.id);
+    };
+
+    summary.createSpan({ text: new Date(entry.at).toLocaleTimeString(), cls: "gsd-trace-time" });
+    summary.createSpan({ text: entry.action, cls: "gsd-trace-action" });
+    const answered = entry.answeredBy && entry.answeredBy !== entry.model ? ` → ${entry.answeredBy}` : "";
+    summary.createSpan({ text: `${entry.model}${answered}`, cls: "gsd-trace-model" });
+    summary.createSpan({ text: this.describeStatus(entry), cls: "gsd-trace-status" });
+    summary.onclick = () => {
+      if (this.expanded.has(entry.id)) {
+        this.expanded.delete(entry.id);
+      } else {
+        this.expanded.add(entry.id);
+      }
+      this.renderList();
+    };
+
+    if (this.expanded.has(entry.id)) {
+      this.renderEntryDetails(card, entry);
+    }
+  }
+
+  private describeStatus(entry: AITraceEntry): string {
+    const seconds = `${(entry.durationMs / 1000).toFixed(1)}s`;
+    const tokens = entry.inputTokens + entry.outputTokens + entry.thinkingTokens;
+    const parts = [seconds];
+    if (tokens > 0) parts.push(`${tokens.toLocaleString()} tok`);
+    if (entry.cached) parts.push("cached");
+    if (entry.rerunOf) parts.push("re-run");
+    if (entry.error) parts.push(entry.error.category);
+    else if (entry.response === null) parts.push("failed");
+    return parts.join(" · ");
+  }
+
+  private renderEntryDetails(card: HTMLElement, entry: AITraceEntry): void {
+    const details = card.createDiv({ cls: "gsd-trace-details" });
+
+    if (entry.notePath) {
+      const note = details.createEl("p");
+      note.createSpan({ text: "Note: " });
+      const link = note.createEl("a", { text: entry.notePath, href: "#" });
+      link.onclick = (event) => {
+        event.preventDefault();
+        this.app.workspace.openLinkText(entry.notePath ?? "", "", false);
+      };
+    }
+
+    details.createEl("p", {
+      text:
+        `${KIND_LABELS[entry.kind]} call · ` +
+        `input ${entry.inputTokens}, output ${entry.outputTokens}, thinking ${entry.thinkingTokens} tokens`,
+    });
+
+    if (entry.error) {
+      details.createEl("p", { text: `Error (${entry.error.category}): ${entry.error.message}`, cls: "gsd-trace-error" });
+    }
+
+    if (entry.attempts.length > 0) {
+      const attempts = details.createEl("ul", { cls: "gsd-trace-attempts" });
+      for (const attempt of entry.attempts) {
+        const reason = attempt.errorCategory ? `, ${attempt.errorCategory}: ${attempt.errorMessage ?? ""}` : "";
+        attempts.createEl("li", {
+          text: `${attempt.model}: ${attempt.outcome} in ${(attempt.durationMs / 1000).toFixed(1)}s${reason}`,
+        });
+      }
+    }
+
+    this.renderBlock(details, "Options", JSON.stringify({ ...entry.options, history: undefined }, null, 2));
+    for (const turn of entry.options.history ?? []) {
+      this.renderBlock(details, `History (${turn.role})`, turn.content);
+    }
+    this.renderBlock(details, "System prompt", entry.system);
+    this.renderBlock(details, "User prompt", entry.user);
+    for (const call of entry.toolCalls ?? []) {
+      this.renderBlock(
+        details,
+        `Tool ${call.name}${call.isError ? " (error)" : ""} in ${(call.durationMs / 1000).toFixed(1)}s`,
+        `${call.arguments}\n\n${call.result}`
+      );
+    }
+    this.renderBlock(details, "Response", entry.response ?? "(no response)");
+
+    const actions = details.createDiv({ cls: "gsd-trace-actions" });
+    const modelInput = actions.createEl("input", { type: "text", placeholder: entry.model });
+    const rerunBtn = actions.createEl("button", {
+      text: this.rerunning.has(entry.id) ? "Running…" : "Re-run with model",
+    });
+    const blocker = getRerunBlocker(entry);
+    rerunBtn.disabled = this.rerunning.has(entry.id) || !!blocker;
+    rerunBtn.onclick = () => {
+      void this.rerun(entry, modelInput.value.trim() || entry.model);
+    };
+
+    const copyBtn = actions.createEl("button", { text: "Copy prompt" });
+    copyBtn.onclick = async () => {
+      await navigator.clipboard.writeText(`${entry.system}\n\n${entry.user}`);
+      new Notice("Prompt copied");
+    };
+
+    if (blocker) {
+      details.createEl("p", { cls: "gsd-trace-empty", text: `Can't re-run: ${blocker}.` });
+    } else if (isPromptRedacted(entry)) {
+      details.createEl("p", { cls: "gsd-trace-empty", text: "Re-runs send the redacted prompt shown above." });
+    }
+  }
+
+  private renderBlock(containerEl: HTMLElement, title: string, text: string): void {
+    const block = containerEl.createEl("details", { cls: "gsd-trace-block" });
+    block.createEl("summary", { text: `${title} (${text.length.toLocaleString()} chars)` });
+    block.createEl("pre", { text });
+  }
+
+  // ============================================================================
+  // Re-run and Diff
+  // ============================================================================
+
+  private async rerun(entry: AITraceEntry, model: string): Promise<void> {
+    this.rerunning.add(entry.id);
+    this.renderList();
+    try {
+      const result = await this.plugin
+        .getAIService()
+        .callModelDetailed(entry.system, entry.user, model, buildRerunOptions(entry));
+      new Notice(result.text ? `Re-ran with ${result.model}` : `Re-run with ${model} returned nothing`);
+
+      const rerun = this.plugin
+        .getAITrace()
+        .getEntries()
+        .reverse()
+        .find((candidate) => candidate.rerunOf === entry.id);
+      if (rerun) {
+        this.selected = [entry.id, rerun.id];
+        this.expanded.add(rerun.id);
+      }
+    } catch (error: unknown) {
+      handleError("AI trace re-run failed", error, { showNotice: true, noticeMessage: "Re-run failed" });
+    } finally {
+      this.rerunning.delete(entry.id);
+      this.refresh();
+    }
+  }
+
+  private toggleSelected(id: string): void {
+    if (this.selected.includes(id)) {
+      this.selected = this.selected.filter((selected) => selected !== id);
+    } else {
+      this.selected = [...this.selected, id].slice(-2);
+    }
+    this.renderDiff();
+    this.renderList();
+  }
+
+  private renderDiff(): void {
+    const diffEl = this.diffEl;
+    if (!diffEl) return;
+    diffEl.empty();
+
+    const trace = this.plugin.getAITrace();
+    const [first, second] = this.selected.map((id) => trace.get(id));
+    if (!first || !second) {
+      if (this.selected.length === 1) {
+        diffEl.createEl("p", { text: "Select one more call to compare.", cls: "gsd-trace-empty" });
+      }
+      return;
+    }
+
+    const [before, after] = first.at <= second.at ? [first, second] : [second, first];
+    const header = diffEl.createDiv({ cls: "gsd-trace-header" });
+    header.createEl("h4", {
+      text: `Diff: ${before.action} (${before.answeredBy ?? before.model}) → ${after.action} (${after.answeredBy ?? after.model})`,
+    });
+    const closeBtn = header.createEl("button", { text: "Close" });
+    closeBtn.onclick = () => {
+      this.selected = [];
+      this.renderDiff();
+      this.renderList();
+    };
+
+    this.renderDiffBlock(diffEl, "Prompt", `${before.system}\n\n${before.user}`, `${after.system}\n\n${after.user}`);
+    this.renderDiffBlock(diffEl, "Response", before.response ?? "", after.response ?? "");
+  }
+
+  private renderDiffBlock(containerEl: HTMLElement, title: string, before: string, after: string): void {
+    const lines = diffLines(before, after);
+    const changed = lines.filter((line) => line.type !== "same").length;
+    const block = containerEl.createEl("details", { cls: "gsd-trace-block" });
+    block.open = changed > 0;
+    block.createEl("summary", { text: changed > 0 ? `${title} (${changed} changed lines)` : `${title} (identical)` });
+
+    const pre = block.createEl("pre");
+    for (const line of lines) {
+      const prefix = line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  ";
+      pre.createDiv({ text: `${prefix}${line.text}`, cls: `gsd-trace-diff-${line.type}` });
+    }
+  }
+}
@@ -46,6 +46,8 @@ export class O3DashboardView extends ItemView {
   // Loading states
   private isGathering: boolean = false;
   private isCoachThinking: boolean = false;
+  private coachStreamText: string = "";
+  private coachStreamEl: HTMLElement | null = null;
 
   // Source toggles
   private includeSources: Record<string, boolean> = {
@@ -55,9 +57,11 @@ export class O3DashboardView extends ItemView {
     meeting: true,
     daily: true,
     perf: true,
+    related: true,
   };
 
   private suggestionIdCounter = 0;
+  private coachAbort: AbortController | null = null;
 
   constructor(
     leaf: WorkspaceLeaf,
@@ -83,6 +87,10 @@ export class O3DashboardView extends ItemView {
     await this.render();
   }
 
+  async onClose(): Promise<void> {
+    this.cancelCoach();
+  }
+
   async render(): Promise<void> {
     const contentEl = this.containerEl.children[1];
     contentEl.empty();
@@ -134,12 +142,29 @@ export class O3DashboardView extends ItemView {
   }
 
   private resetState(): void {
+    this.cancelCoach();
     this.suggestions = [];
     this.coachMessages = [];
     this.lastSources = [];
     this.lastWarnings = [];
     this.isGathering = false;
     this.isCoachThinking = false;
+    this.coachStreamText = "";
+    this.coachStreamEl = null;
+  }
+
+  /**
+   * Abort the in-flight coach call, if any (its queued or streaming request is dropped)
+   */
+  private cancelCoach(): void {
+    this.coachAbort?.abort();
+    this.coachAbort = null;
+  }
+
+  private startCoachRequest(): AbortSignal {
+    this.cancelCoach();
+    this.coachAbort = new AbortController();
+    return this.coachAbort.signal;
   }
 
   private renderMeetingCard(container: HTMLElement, item: O3MeetingItem): void {
@@ -264,6 +289,9 @@ export class O3DashboardView extends ItemView {
       daily: "Daily",
       perf: "Perf",
     };
+    if (this.plugin.settings.semanticIndex.enabled) {
+      kindLabels.related = "Related";
+    }
 
     const kindCounts: Record<string, number> = {};
     for (const src of this.lastSources) {
@@ -475,7 +503,10 @@ export class O3DashboardView extends ItemView {
 
     if (this.isCoachThinking) {
       const loading = section.createDiv({ cls: "gsd-o3-coach-loading" });
-      loading.textContent = "Thinking...";
+      loading.textContent = this.coachStreamText || "Thinking...";
+      this.coachStreamEl = loading;
+    } else {
+      this.coachStreamEl = null;
     }
   }
 
@@ -530,6 +561,7 @@ export class O3DashboardView extends ItemView {
     this.isGathering = true;
     await this.render();
 
+    const signal = this.startCoachRequest();
     try {
       // Use the coach with a context-gathering prompt
       const result = await this.o3Coach.runCoach({
@@ -539,7 +571,9 @@ export class O3DashboardView extends ItemView {
         event,
         history: [],
         includeSources: this.includeSources,
+        signal,
       });
+      if (signal.aborted) return; // Dashboard was reset or closed
 
       if (result) {
         // Store source info
@@ -575,8 +609,10 @@ export class O3DashboardView extends ItemView {
   private async sendCoachPrompt(text: string, person: O3Person, event: CalendarEvent | null): Promise<void> {
     this.coachMessages.push({ role: "user", content: text });
     this.isCoachThinking = true;
+    this.coachStreamText = "";
     await this.render();
 
+    const signal = this.startCoachRequest();
     try {
       const result = await this.o3Coach.runCoach({
         mode: "person",
@@ -585,7 +621,14 @@ export class O3DashboardView extends ItemView {
         event,
         history: this.coachMessages,
         includeSources: this.includeSources,
+        signal,
+        onSummaryProgress: (summary) => {
+          // Update the live element in place; a full render per token would reset the input
+          this.coachStreamText = summary;
+          if (this.coachStreamEl) this.coachStreamEl.textContent = summary;
+        },
       });
+      if (signal.aborted) return; // Dashboard was reset or closed
 
       if (!result) {
         this.coachMessages.push({ role: "assistant", content: "No response (missing context?)" });
@@ -613,6 +656,7 @@ export class O3DashboardView extends ItemView {
       this.coachMessages.push({ role: "assistant", content: "Error: " + String(err) });
     } finally {
       this.isCoachThinking = false;
+      this.coachStreamText = "";
       await this.render();
     }
   }
@@ -681,6 +725,9 @@ export class O3DashboardView extends ItemView {
       daily: "Daily Notes",
       perf: "Perf Reviews",
     };
+    if (this.plugin.settings.semanticIndex.enabled) {
+      sourceLabels.related = "Related Passages";
+    }
 
     for (const [key, label] of Object.entries(sourceLabels)) {
       menu.addItem((item) => {
@@ -0,0 +1,62 @@
+// ============================================================================
+// Webhook Jobs Modal - Failed webhook jobs with a retry action
+// ============================================================================
+
+import { App, Modal, Notice, Setting } from "obsidian";
+import type { WebhookJobQueue } from "../services/webhook-jobs";
+
+const moment = (window as any).moment;
+
+// ============================================================================
+// WebhookJobsModal Class
+// ============================================================================
+
+export class WebhookJobsModal extends Modal {
+  private jobs: WebhookJobQueue;
+
+  constructor(app: App, jobs: WebhookJobQueue) {
+    super(app);
+    this.jobs = jobs;
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "Failed Webhook Jobs" });
+
+    const failed = this.jobs.getJobs("failed");
+    if (failed.length === 0) {
+      contentEl.createEl("p", { text: "No failed jobs.", cls: "setting-item-description" });
+      return;
+    }
+
+    for (const job of failed) {
+      new Setting(contentEl)
+        .setName(job.label)
+        .setDesc(
+          `${job.kind} · received ${moment(job.createdAt).format("YYYY-MM-DD HH:mm")} · ${job.attempts} attempts · ${
+            job.lastError || "unknown error"
+          }`
+        )
+        .addButton((button) =>
+          button
+            .setButtonText("Retry")
+            .setCta()
+            .onClick(async () => {
+              if (await this.jobs.retry(job.id)) {
+                new Notice(`Retrying ${job.label}`);
+              }
+              this.render();
+            })
+        );
+    }
+  }
+}